@@ -21,6 +21,8 @@ import ImageToPDF from "./pages/tools/Conversion and Document Tools/ImageToPdf";
 import PDFToImages from "./pages/tools/Conversion and Document Tools/PdftoImages";
 import PDFMerger from "./pages/tools/Conversion and Document Tools/PdfMerger";
 import PDFSplitter from "./pages/tools/Conversion and Document Tools/PdfSplitter";
+import PDFEditor from "./pages/tools/Conversion and Document Tools/PdfEditor";
+import PDFOrganizer from "./pages/tools/Conversion and Document Tools/PdfOrganizer";
 import PDFCompressor from "./pages/tools/Compression and Optimization/PdfCompressor";
 import PDFWatermark from "./pages/tools/Conversion and Document Tools/PdfWatermark";
 import PDFSign from "./pages/tools/Conversion and Document Tools/PdfSign";
@@ -31,6 +33,7 @@ import AITextExtractor from "./pages/tools/Conversion and Document Tools/AITextE
 import BatchCompressor from "./pages/tools/Compression and Optimization/BatchCompressor";
 import TargetSizeCompressor from "./pages/tools/Compression and Optimization/TargetSizeCompressor";
 import CompareCompression from "./pages/tools/Compression and Optimization/CompareCompression";
+import CompressionReport from "./pages/tools/Compression and Optimization/CompressionReport";
 
 const queryClient = new QueryClient();
 
@@ -62,6 +65,8 @@ const App = () => (
           <Route path="/tools/pdf-to-image" element={<PDFToImages />} />
           <Route path="/tools/pdf-merge" element={<PDFMerger />} />
           <Route path="/tools/pdf-split" element={<PDFSplitter />} />
+          <Route path="/tools/pdf-editor" element={<PDFEditor />} />
+          <Route path="/tools/pdf-organize" element={<PDFOrganizer />} />
 
           <Route path="/tools/pdf-watermark" element={<PDFWatermark />} />
           <Route path="/tools/pdf-sign" element={<PDFSign />} />
@@ -82,6 +87,10 @@ const App = () => (
             path="/tools/compare-compression"
             element={<CompareCompression />}
           />
+          <Route
+            path="/tools/compression-report"
+            element={<CompressionReport />}
+          />
 
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
@@ -0,0 +1,78 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { FileJson, FileSpreadsheet, Printer } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  reportToCsv,
+  reportToJson,
+  storeReport,
+  type CompressionReport,
+} from "@/utils/compressionReport";
+
+export interface ReportExportProps {
+  report: CompressionReport;
+  filename?: string; // without extension
+  className?: string;
+}
+
+const download = (content: string, name: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = name;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+// CSV / JSON downloads plus a link to the printable summary with charts
+const ReportExport: React.FC<ReportExportProps> = ({
+  report,
+  filename = "compression_report",
+  className = "",
+}) => {
+  const { toast } = useToast();
+
+  const openPrintable = () => {
+    const id = storeReport(report);
+    if (!id) {
+      toast({
+        title: "Printable report unavailable",
+        description:
+          "The report is too large for browser storage. Download it as CSV or JSON instead.",
+        variant: "destructive",
+      });
+      return;
+    }
+    window.open(`/tools/compression-report?id=${id}`, "_blank");
+  };
+
+  return (
+    <div className={`grid grid-cols-3 gap-2 ${className}`}>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() =>
+          download(reportToCsv(report), `${filename}.csv`, "text/csv")
+        }
+      >
+        <FileSpreadsheet className="w-4 h-4 mr-2" /> CSV
+      </Button>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() =>
+          download(reportToJson(report), `${filename}.json`, "application/json")
+        }
+      >
+        <FileJson className="w-4 h-4 mr-2" /> JSON
+      </Button>
+      <Button variant="outline" size="sm" onClick={openPrintable}>
+        <Printer className="w-4 h-4 mr-2" /> Printable
+      </Button>
+    </div>
+  );
+};
+
+export default ReportExport;
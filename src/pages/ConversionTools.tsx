@@ -20,6 +20,7 @@ import {
   BookOpen,
   Eye,
   ArrowRight,
+  LayoutGrid,
 } from "lucide-react";
 
 const ConversionTools = () => {
@@ -62,6 +63,15 @@ const ConversionTools = () => {
       path: "/tools/pdf-split",
       features: ["Page ranges", "Single pages", "By bookmarks", "Batch split"],
     },
+    {
+      title: "Page Organizer",
+      description:
+        "Rearrange, rotate, delete, duplicate and insert pages visually across PDFs.",
+      icon: LayoutGrid,
+      path: "/tools/pdf-organize",
+      badge: "New",
+      features: ["Thumbnails", "Drag & drop", "Rotate pages", "Blank pages"],
+    },
     {
       title: "PDF to Word/Excel",
       description:
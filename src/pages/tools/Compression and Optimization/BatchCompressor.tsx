@@ -12,6 +12,7 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
+import { Slider } from "@/components/ui/slider";
 import {
   Layers,
   ArrowLeft,
@@ -19,9 +20,21 @@ import {
   Trash2,
   Download,
   Zap,
+  Settings2,
 } from "lucide-react";
 import JSZip from "jszip";
 import { useToast } from "@/hooks/use-toast";
+import ReportExport from "@/components/ReportExport";
+import {
+  canDecodeImage,
+  compressImageToTarget,
+} from "@/utils/imageCompression";
+import {
+  createReport,
+  measureDimensions,
+  type CompressionReport,
+  type ReportRow,
+} from "@/utils/compressionReport";
 
 const formatSize = (bytes: number) => {
   if (bytes === 0) return "0 Bytes";
@@ -31,13 +44,30 @@ const formatSize = (bytes: number) => {
   return `${parseFloat((bytes / Math.pow(k, i)).toFixed(2))} ${sizes[i]}`;
 };
 
+const ACCEPTED_TYPES = ["image/jpeg", "image/png", "image/webp"];
+
+type BatchResult = {
+  name: string;
+  size: number;
+  compressed: number;
+  blob: Blob;
+  keptOriginal: boolean;
+  row: ReportRow;
+};
+
 const BatchCompressor: React.FC = () => {
   const [files, setFiles] = useState<File[]>([]);
   const [progress, setProgress] = useState(0);
   const [isProcessing, setIsProcessing] = useState(false);
-  const [compressedResults, setCompressedResults] = useState<
-    { name: string; size: number; compressed: number; blob: Blob }[]
-  >([]);
+  const [compressedResults, setCompressedResults] = useState<BatchResult[]>([]);
+  const [failedFiles, setFailedFiles] = useState<string[]>([]);
+  const [report, setReport] = useState<CompressionReport | null>(null);
+
+  // Per-format quality (keyed by input type) and optional max dimension
+  const [jpegQuality, setJpegQuality] = useState(80);
+  const [pngQuality, setPngQuality] = useState(80);
+  const [webpQuality, setWebpQuality] = useState(80);
+  const [maxDimension, setMaxDimension] = useState<string>("");
 
   const { toast } = useToast();
 
@@ -45,9 +75,17 @@ const BatchCompressor: React.FC = () => {
     if (!newFiles) return;
     setFiles(Array.from(newFiles));
     setCompressedResults([]);
+    setFailedFiles([]);
+    setReport(null);
     setProgress(0);
   };
 
+  const qualityFor = (type: string) => {
+    if (type === "image/png") return pngQuality / 100;
+    if (type === "image/webp") return webpQuality / 100;
+    return jpegQuality / 100;
+  };
+
   const compressFiles = async () => {
     if (files.length === 0) {
       toast({
@@ -61,41 +99,84 @@ const BatchCompressor: React.FC = () => {
     setIsProcessing(true);
     setProgress(0);
 
-    const zip = new JSZip();
-    const results: {
-      name: string;
-      size: number;
-      compressed: number;
-      blob: Blob;
-    }[] = [];
+    const maxDim = parseInt(maxDimension, 10);
+    const results: BatchResult[] = [];
+    const failed: string[] = [];
 
     for (let i = 0; i < files.length; i++) {
       const file = files[i];
-      const arrayBuffer = await file.arrayBuffer();
-
-      // Simulated compression (80%)
-      const compressedBuffer = arrayBuffer.slice(
-        0,
-        arrayBuffer.byteLength * 0.8
-      );
-      const blob = new Blob([compressedBuffer], { type: file.type });
-
-      zip.file(file.name, blob);
-      results.push({
-        name: file.name,
-        size: file.size,
-        compressed: blob.size,
-        blob,
-      });
+      const started = performance.now();
+
+      try {
+        if (!ACCEPTED_TYPES.includes(file.type)) {
+          throw new Error(`Unsupported type: ${file.type || "unknown"}`);
+        }
+
+        const out = await compressImageToTarget(
+          file,
+          undefined,
+          qualityFor(file.type),
+          { maxDimension: maxDim > 0 ? maxDim : undefined }
+        );
+
+        // Only keep outputs the browser can actually decode
+        if (!(await canDecodeImage(out))) {
+          throw new Error("Compressed output failed to decode");
+        }
+
+        // Never hand back something larger than what we were given
+        const keptOriginal = out.size >= file.size;
+        const blob = keptOriginal ? file : out;
+        const name = keptOriginal ? file.name : out.name;
+        results.push({
+          name,
+          size: file.size,
+          compressed: blob.size,
+          blob,
+          keptOriginal,
+          row: {
+            file: file.name,
+            output: name,
+            originalBytes: file.size,
+            outputBytes: blob.size,
+            format: blob.type,
+            ...(await measureDimensions(blob)),
+            quality: keptOriginal
+              ? null
+              : Math.round(qualityFor(file.type) * 100),
+            elapsedMs: performance.now() - started,
+          },
+        });
+      } catch (err) {
+        console.error(`Failed to compress ${file.name}:`, err);
+        failed.push(file.name);
+      }
 
       setProgress(Math.round(((i + 1) / files.length) * 100));
     }
 
     setCompressedResults(results);
+    setFailedFiles(failed);
+    setReport(
+      createReport(
+        "Batch Compressor",
+        {
+          jpegQuality,
+          pngQuality,
+          webpQuality,
+          maxDimension: maxDim > 0 ? maxDim : "original",
+          skipped: failed.length,
+        },
+        results.map((r) => r.row)
+      )
+    );
     setIsProcessing(false);
     toast({
       title: "Compression complete",
-      description: `Processed ${files.length} file(s).`,
+      description: failed.length
+        ? `Processed ${results.length} file(s); ${failed.length} could not be compressed.`
+        : `Processed ${results.length} file(s).`,
+      variant: failed.length && !results.length ? "destructive" : undefined,
     });
   };
 
@@ -160,7 +241,7 @@ const BatchCompressor: React.FC = () => {
               <CardHeader>
                 <CardTitle>Select Files</CardTitle>
                 <CardDescription>
-                  Pick multiple files to compress.
+                  Pick multiple JPG, PNG or WebP images to compress.
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -172,6 +253,7 @@ const BatchCompressor: React.FC = () => {
                     id="file-input"
                     type="file"
                     multiple
+                    accept={ACCEPTED_TYPES.join(",")}
                     onChange={(e) => onPick(e.target.files)}
                   />
 
@@ -221,6 +303,63 @@ const BatchCompressor: React.FC = () => {
               </CardContent>
             </Card>
 
+            {/* Settings */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Compression Settings</CardTitle>
+                <CardDescription>
+                  Quality per input format, plus an optional size cap.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div className="space-y-2">
+                  <Label>JPEG quality: {jpegQuality}%</Label>
+                  <Slider
+                    value={[jpegQuality]}
+                    onValueChange={(v) => setJpegQuality(v[0])}
+                    min={10}
+                    max={100}
+                    step={5}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>PNG quality: {pngQuality}%</Label>
+                  <Slider
+                    value={[pngQuality]}
+                    onValueChange={(v) => setPngQuality(v[0])}
+                    min={10}
+                    max={100}
+                    step={5}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    PNGs are re-encoded as JPEG, or WebP when they have
+                    transparency.
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <Label>WebP quality: {webpQuality}%</Label>
+                  <Slider
+                    value={[webpQuality]}
+                    onValueChange={(v) => setWebpQuality(v[0])}
+                    min={10}
+                    max={100}
+                    step={5}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="max-dimension">Max dimension (px)</Label>
+                  <Input
+                    id="max-dimension"
+                    type="number"
+                    min={1}
+                    placeholder="Keep original size"
+                    value={maxDimension}
+                    onChange={(e) => setMaxDimension(e.target.value)}
+                  />
+                </div>
+              </CardContent>
+            </Card>
+
             {/* Actions */}
             <Card>
               <CardHeader>
@@ -279,6 +418,9 @@ const BatchCompressor: React.FC = () => {
                         >
                           <div className="truncate max-w-[50%]">{r.name}</div>
                           <div className="flex items-center space-x-2">
+                            {r.keptOriginal && (
+                              <Badge variant="outline">Original kept</Badge>
+                            )}
                             <span>
                               {formatSize(r.size)} → {formatSize(r.compressed)}{" "}
                               ({percent.toFixed(1)}% smaller)
@@ -298,6 +440,18 @@ const BatchCompressor: React.FC = () => {
                       <span>Total Files</span>
                       <span>{compressedResults.length}</span>
                     </div>
+                    {failedFiles.length > 0 && (
+                      <div className="pt-2 text-destructive">
+                        Skipped (could not compress): {failedFiles.join(", ")}
+                      </div>
+                    )}
+                    {report && (
+                      <ReportExport
+                        className="pt-2"
+                        filename="batch_compression_report"
+                        report={report}
+                      />
+                    )}
                   </div>
                 ) : (
                   <div className="text-sm text-muted-foreground">
@@ -313,15 +467,16 @@ const BatchCompressor: React.FC = () => {
             <Card>
               <CardHeader>
                 <CardTitle className="flex items-center">
-                  <Zap className="w-5 h-5 mr-2" /> Batch Compressor
+                  <Settings2 className="w-5 h-5 mr-2" /> Batch Compressor
                 </CardTitle>
               </CardHeader>
               <CardContent>
                 <div className="space-y-2 text-sm text-muted-foreground">
-                  <p>• Compress multiple files with consistent settings.</p>
+                  <p>• Compress multiple images with consistent settings.</p>
                   <p>• Download each file or as one ZIP.</p>
                   <p>• Shows exact compression percentage.</p>
-                  <p>• Works best for PDFs, images, and text files.</p>
+                  <p>• Files that would grow keep their original bytes.</p>
+                  <p>• Export a CSV/JSON report or a printable summary.</p>
                 </div>
               </CardContent>
             </Card>
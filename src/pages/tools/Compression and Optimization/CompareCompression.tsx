@@ -9,12 +9,29 @@ import {
   CardContent,
 } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { ArrowLeft, ArrowLeftRight, Download } from "lucide-react";
+import {
+  ArrowLeft,
+  ArrowLeftRight,
+  Check,
+  Download,
+  Flame,
+  X,
+} from "lucide-react";
 import JSZip from "jszip";
 import { useToast } from "@/hooks/use-toast";
 import FileUploader from "@/components/FileUploader";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
 import { PDFDocument } from "pdf-lib";
+import { compareImages, type ImageMetrics } from "@/utils/imageMetrics";
+import ReportExport from "@/components/ReportExport";
+import {
+  createReport,
+  measureDimensions,
+  type CompressionReport,
+  type ReportRow,
+} from "@/utils/compressionReport";
 
 // ===== Helpers =====
 const formatSize = (bytes: number) => {
@@ -27,6 +44,9 @@ const formatSize = (bytes: number) => {
 
 const makeObjectURL = (blob: Blob | MediaSource) => URL.createObjectURL(blob);
 
+const formatPSNR = (psnr: number) =>
+  Number.isFinite(psnr) ? `${psnr.toFixed(1)} dB` : "∞";
+
 const pickLossyType = (inputType: string) => {
   if (inputType === "image/webp") return "image/webp";
   if (inputType === "image/jpeg" || inputType === "image/jpg")
@@ -61,7 +81,7 @@ const compressImageToTarget = async (
     nudgeStep: 0.02,
     nudgeMaxSteps: 6,
   }
-): Promise<Blob> => {
+): Promise<{ blob: Blob; quality: number }> => {
   const img = await new Promise<HTMLImageElement>((res, rej) => {
     const im = new Image();
     im.onload = () => res(im);
@@ -117,8 +137,8 @@ const compressImageToTarget = async (
       if (Math.abs(b.size - targetBytes) <= tol || b.size >= targetBytes) {
         return Math.abs(b.size - targetBytes) <=
           Math.abs(attempt.size - targetBytes)
-          ? b
-          : attempt.blob;
+          ? { blob: b, quality: q }
+          : { blob: attempt.blob, quality: attempt.q };
       }
       if (
         Math.abs(b.size - targetBytes) < Math.abs(attempt.size - targetBytes)
@@ -127,10 +147,11 @@ const compressImageToTarget = async (
       }
       q = Math.min(options.maxQuality, q + options.nudgeStep);
     }
-    return attempt.blob;
+    return { blob: attempt.blob, quality: attempt.q };
   }
 
-  if (Math.abs(attempt.size - targetBytes) <= tol) return attempt.blob;
+  if (Math.abs(attempt.size - targetBytes) <= tol)
+    return { blob: attempt.blob, quality: attempt.q };
 
   while (scale > options.minScale) {
     scale *= options.scaleStep;
@@ -143,8 +164,8 @@ const compressImageToTarget = async (
         if (Math.abs(b.size - targetBytes) <= tol || b.size >= targetBytes) {
           return Math.abs(b.size - targetBytes) <=
             Math.abs(attempt.size - targetBytes)
-            ? b
-            : attempt.blob;
+            ? { blob: b, quality: q }
+            : { blob: attempt.blob, quality: attempt.q };
         }
         if (
           Math.abs(b.size - targetBytes) < Math.abs(attempt.size - targetBytes)
@@ -153,12 +174,13 @@ const compressImageToTarget = async (
         }
         q = Math.min(options.maxQuality, q + options.nudgeStep);
       }
-      return attempt.blob;
+      return { blob: attempt.blob, quality: attempt.q };
     }
-    if (Math.abs(attempt.size - targetBytes) <= tol) return attempt.blob;
+    if (Math.abs(attempt.size - targetBytes) <= tol)
+      return { blob: attempt.blob, quality: attempt.q };
   }
 
-  return attempt.blob;
+  return { blob: attempt.blob, quality: attempt.q };
 };
 
 // ===== PDF Compression =====
@@ -193,8 +215,36 @@ const CompareCompression: React.FC = () => {
   const [files, setFiles] = useState<File[]>([]);
   const [compressedFiles, setCompressedFiles] = useState<(Blob | File)[]>([]);
   const [targetSizes, setTargetSizes] = useState<number[]>([]);
+  // Quality review: metrics per file (images only), reviewer decisions and view state
+  const [metrics, setMetrics] = useState<(ImageMetrics | null)[]>([]);
+  const [accepted, setAccepted] = useState<boolean[]>([]);
+  const [ssimThreshold, setSsimThreshold] = useState(0.95);
+  const [sliderPos, setSliderPos] = useState<number[]>([]);
+  const [showHeatmap, setShowHeatmap] = useState<boolean[]>([]);
+  const [report, setReport] = useState<CompressionReport | null>(null);
   const { toast } = useToast();
 
+  const isFlagged = (idx: number) => {
+    const m = metrics[idx];
+    return !!m && m.ssim < ssimThreshold;
+  };
+
+  // Worst SSIM first; files without metrics keep their order at the end
+  const displayOrder = useMemo(
+    () =>
+      files
+        .map((_, idx) => idx)
+        .sort((a, b) => {
+          const ma = metrics[a];
+          const mb = metrics[b];
+          if (ma && mb) return ma.ssim - mb.ssim;
+          if (ma) return -1;
+          if (mb) return 1;
+          return a - b;
+        }),
+    [files, metrics]
+  );
+
   const isImage = (f: File) => f.type.startsWith("image/");
   const isPDF = (f: File) => f.type === "application/pdf";
 
@@ -208,14 +258,28 @@ const CompareCompression: React.FC = () => {
       })
     );
     setCompressedFiles([]);
+    setMetrics([]);
+    setAccepted([]);
+    setReport(null);
   };
 
   const handleRemoveFile = (index: number) => {
     setFiles((prev) => prev.filter((_, i) => i !== index));
     setTargetSizes((prev) => prev.filter((_, i) => i !== index));
     setCompressedFiles((prev) => prev.filter((_, i) => i !== index));
+    setMetrics((prev) => prev.filter((_, i) => i !== index));
+    setAccepted((prev) => prev.filter((_, i) => i !== index));
+    setSliderPos((prev) => prev.filter((_, i) => i !== index));
+    setShowHeatmap((prev) => prev.filter((_, i) => i !== index));
+    setReport(
+      (prev) =>
+        prev && { ...prev, rows: prev.rows.filter((_, i) => i !== index) }
+    );
   };
 
+  const applyThreshold = () =>
+    setAccepted(files.map((_, idx) => !isFlagged(idx)));
+
   const handleTargetSizeChange = (index: number, value: number) => {
     const f = files[index];
     if (!f) return;
@@ -235,12 +299,26 @@ const CompareCompression: React.FC = () => {
     }
 
     const results: (Blob | File)[] = [];
+    const measured: (ImageMetrics | null)[] = [];
+    const rows: ReportRow[] = [];
     for (let i = 0; i < files.length; i++) {
       const f = files[i];
+      const started = performance.now();
+      let quality: number | null = null;
+      measured[i] = null;
       try {
         if (isImage(f)) {
-          const blob = await compressImageToTarget(f, targetSizes[i]);
+          const { blob, quality: q } = await compressImageToTarget(
+            f,
+            targetSizes[i]
+          );
+          quality = Math.round(q * 100);
           results.push(new File([blob], f.name, { type: blob.type }));
+          try {
+            measured[i] = await compareImages(f, blob);
+          } catch (err) {
+            console.error("Failed to compute quality metrics:", err);
+          }
         } else if (isPDF(f)) {
           const blob = await compressPDFToTarget(f, targetSizes[i]);
           results.push(new File([blob], f.name, { type: "application/pdf" }));
@@ -251,11 +329,40 @@ const CompareCompression: React.FC = () => {
         console.error(err);
         results.push(f);
       }
+      const out = results[i];
+      rows.push({
+        file: f.name,
+        output: f.name,
+        originalBytes: f.size,
+        outputBytes: out.size,
+        format: out.type || f.type,
+        ...(await measureDimensions(out)),
+        quality,
+        elapsedMs: performance.now() - started,
+      });
     }
     setCompressedFiles(results);
+    setReport(
+      createReport(
+        "Compare Compression",
+        {
+          targets: targetSizes.map((t) => `${t} KB`).join(", "),
+          ssimThreshold,
+        },
+        rows
+      )
+    );
+    setMetrics(measured);
+    setAccepted(measured.map((m) => !m || m.ssim >= ssimThreshold));
+    setSliderPos(files.map(() => 50));
+    setShowHeatmap(files.map(() => false));
+
+    const flagged = measured.filter((m) => m && m.ssim < ssimThreshold).length;
     toast({
       title: "Compression done",
-      description: `Processed ${files.length} file(s).`,
+      description: flagged
+        ? `Processed ${files.length} file(s); ${flagged} below SSIM ${ssimThreshold}.`
+        : `Processed ${files.length} file(s).`,
     });
   };
 
@@ -272,8 +379,9 @@ const CompareCompression: React.FC = () => {
 
   const downloadAllFiles = async () => {
     const zip = new JSZip();
+    // Rejected outputs fall back to the original file
     files.forEach((f, idx) => {
-      const out = compressedFiles[idx] ?? f;
+      const out = accepted[idx] === false ? f : compressedFiles[idx] ?? f;
       if (out) zip.file(f.name, out as Blob);
     });
     const zipBlob = await zip.generateAsync({ type: "blob" });
@@ -365,6 +473,25 @@ const CompareCompression: React.FC = () => {
                     />
                   </div>
                 ))}
+                <div className="flex items-center gap-3 pt-2 border-t">
+                  <Label htmlFor="ssim-threshold" className="min-w-[180px]">
+                    Flag below SSIM
+                  </Label>
+                  <Input
+                    id="ssim-threshold"
+                    type="number"
+                    className="w-28"
+                    min={0}
+                    max={1}
+                    step={0.01}
+                    value={ssimThreshold}
+                    onChange={(e) => {
+                      const v = Number(e.target.value);
+                      if (!isNaN(v))
+                        setSsimThreshold(Math.min(1, Math.max(0, v)));
+                    }}
+                  />
+                </div>
                 <Button onClick={compressFiles} className="w-full mt-2">
                   <ArrowLeftRight className="w-4 h-4 mr-2" /> Compress & Preview
                 </Button>
@@ -377,105 +504,268 @@ const CompareCompression: React.FC = () => {
             <Card>
               <CardHeader>
                 <CardTitle>Comparison Preview</CardTitle>
-                <CardDescription>Original vs Compressed files</CardDescription>
+                <CardDescription>
+                  Original vs Compressed files, worst SSIM first
+                </CardDescription>
               </CardHeader>
               <CardContent className="space-y-6">
-                {files.map((originalFile, idx) => {
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <Badge variant="secondary">
+                    {accepted.filter((a) => a).length} accepted
+                  </Badge>
+                  <Badge variant="outline">
+                    {accepted.filter((a) => !a).length} rejected
+                  </Badge>
+                  <Badge
+                    variant={
+                      files.some((_, i) => isFlagged(i))
+                        ? "destructive"
+                        : "outline"
+                    }
+                  >
+                    {files.filter((_, i) => isFlagged(i)).length} below{" "}
+                    {ssimThreshold}
+                  </Badge>
+                  <div className="ml-auto flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={applyThreshold}
+                    >
+                      Reject flagged
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setAccepted(files.map(() => true))}
+                    >
+                      Accept all
+                    </Button>
+                  </div>
+                </div>
+
+                {displayOrder.map((idx) => {
+                  const originalFile = files[idx];
                   const processed = compressedFiles[idx];
                   if (!processed) return null;
 
                   const img = isImage(originalFile);
                   const pdf = isPDF(originalFile);
+                  const m = metrics[idx];
+                  const flagged = isFlagged(idx);
+                  const pos = sliderPos[idx] ?? 50;
 
                   return (
                     <div
                       key={idx}
-                      className="flex flex-col md:flex-row items-start md:items-center gap-6 border p-4 rounded"
+                      className={`border p-4 rounded space-y-4 ${
+                        flagged ? "border-destructive" : ""
+                      }`}
                     >
-                      {/* Original */}
-                      <div className="flex flex-col items-center min-w-[280px]">
-                        <Badge variant="secondary" className="mb-2">
-                          Original
-                        </Badge>
-                        {img ? (
-                          <img
-                            src={makeObjectURL(originalFile)}
-                            alt={originalFile.name}
-                            className="w-64 h-64 object-contain"
-                          />
-                        ) : pdf ? (
-                          <iframe
-                            src={makeObjectURL(originalFile)}
-                            className="w-64 h-64 border"
-                            title={originalFile.name}
-                          />
-                        ) : (
-                          <div className="w-64 h-64 flex items-center justify-center border bg-gray-100 text-sm">
-                            {originalFile.name}
-                          </div>
-                        )}
-                        <span className="text-xs mt-2">
-                          {formatSize(originalFile.size)}
-                        </span>
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          className="mt-1"
-                          onClick={() =>
-                            downloadFile(originalFile, originalFile.name)
-                          }
-                        >
-                          <Download className="w-3 h-3 mr-1" /> Download
-                        </Button>
-                      </div>
-
-                      {/* Processed */}
-                      <div className="flex flex-col items-center min-w-[280px]">
-                        <Badge variant="secondary" className="mb-2">
-                          {img || pdf ? "Compressed" : "Preview"}
-                        </Badge>
-                        {img || pdf ? (
-                          pdf ? (
+                      <div className="flex flex-col md:flex-row items-start md:items-center gap-6">
+                        {/* Original */}
+                        <div className="flex flex-col items-center min-w-[280px]">
+                          <Badge variant="secondary" className="mb-2">
+                            Original
+                          </Badge>
+                          {img ? (
+                            <img
+                              src={makeObjectURL(originalFile)}
+                              alt={originalFile.name}
+                              className="w-64 h-64 object-contain"
+                            />
+                          ) : pdf ? (
                             <iframe
-                              src={makeObjectURL(processed)}
+                              src={makeObjectURL(originalFile)}
                               className="w-64 h-64 border"
-                              title={originalFile.name + " (preview)"}
+                              title={originalFile.name}
                             />
                           ) : (
+                            <div className="w-64 h-64 flex items-center justify-center border bg-gray-100 text-sm">
+                              {originalFile.name}
+                            </div>
+                          )}
+                          <span className="text-xs mt-2">
+                            {formatSize(originalFile.size)}
+                          </span>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="mt-1"
+                            onClick={() =>
+                              downloadFile(originalFile, originalFile.name)
+                            }
+                          >
+                            <Download className="w-3 h-3 mr-1" /> Download
+                          </Button>
+                        </div>
+
+                        {/* Processed */}
+                        <div className="flex flex-col items-center min-w-[280px]">
+                          <Badge variant="secondary" className="mb-2">
+                            {img || pdf ? "Compressed" : "Preview"}
+                          </Badge>
+                          {img || pdf ? (
+                            pdf ? (
+                              <iframe
+                                src={makeObjectURL(processed)}
+                                className="w-64 h-64 border"
+                                title={originalFile.name + " (preview)"}
+                              />
+                            ) : (
+                              <img
+                                src={makeObjectURL(processed as Blob)}
+                                alt={originalFile.name}
+                                className="w-64 h-64 object-contain"
+                              />
+                            )
+                          ) : (
+                            <div className="w-64 h-64 flex items-center justify-center border bg-gray-100 text-sm">
+                              {originalFile.name}
+                            </div>
+                          )}
+                          <span className="text-xs mt-2">
+                            {formatSize((processed as Blob).size)}{" "}
+                            {img || pdf
+                              ? `(Target: ${targetSizes[idx]} KB)`
+                              : "(Not compressed)"}
+                          </span>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="mt-1"
+                            onClick={() =>
+                              downloadFile(processed as Blob, originalFile.name)
+                            }
+                          >
+                            <Download className="w-3 h-3 mr-1" /> Download
+                          </Button>
+                        </div>
+                      </div>
+
+                      {m && (
+                        <div className="space-y-3 pt-3 border-t">
+                          <div className="flex flex-wrap items-center gap-2 text-sm">
+                            <Badge
+                              variant={flagged ? "destructive" : "secondary"}
+                            >
+                              SSIM {m.ssim.toFixed(4)}
+                            </Badge>
+                            <Badge variant="outline">
+                              PSNR {formatPSNR(m.psnr)}
+                            </Badge>
+                            <Badge variant="outline">Max Δ {m.maxDelta}</Badge>
+                            {flagged && (
+                              <span className="text-xs text-destructive">
+                                Below threshold
+                              </span>
+                            )}
+                            <div className="ml-auto flex gap-2">
+                              <Button
+                                size="sm"
+                                variant={accepted[idx] ? "default" : "outline"}
+                                onClick={() =>
+                                  setAccepted((prev) =>
+                                    prev.map((a, i) => (i === idx ? true : a))
+                                  )
+                                }
+                              >
+                                <Check className="w-3 h-3 mr-1" /> Accept
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant={
+                                  accepted[idx] === false
+                                    ? "destructive"
+                                    : "outline"
+                                }
+                                onClick={() =>
+                                  setAccepted((prev) =>
+                                    prev.map((a, i) => (i === idx ? false : a))
+                                  )
+                                }
+                              >
+                                <X className="w-3 h-3 mr-1" /> Reject
+                              </Button>
+                            </div>
+                          </div>
+
+                          {/* Before/after slider: original on the left of the handle */}
+                          <div
+                            className="relative w-full max-w-xl mx-auto border rounded overflow-hidden bg-gray-100"
+                            style={{ aspectRatio: `${m.width} / ${m.height}` }}
+                          >
                             <img
                               src={makeObjectURL(processed as Blob)}
+                              alt={`${originalFile.name} (compressed)`}
+                              className="absolute inset-0 w-full h-full"
+                            />
+                            <img
+                              src={makeObjectURL(originalFile)}
                               alt={originalFile.name}
-                              className="w-64 h-64 object-contain"
+                              className="absolute inset-0 w-full h-full"
+                              style={{ clipPath: `inset(0 ${100 - pos}% 0 0)` }}
+                            />
+                            {showHeatmap[idx] && (
+                              <img
+                                src={m.heatmapUrl}
+                                alt="Difference heatmap"
+                                className="absolute inset-0 w-full h-full pointer-events-none"
+                              />
+                            )}
+                            <div
+                              className="absolute top-0 bottom-0 w-0.5 bg-white shadow"
+                              style={{ left: `${pos}%` }}
                             />
-                          )
-                        ) : (
-                          <div className="w-64 h-64 flex items-center justify-center border bg-gray-100 text-sm">
-                            {originalFile.name}
                           </div>
-                        )}
-                        <span className="text-xs mt-2">
-                          {formatSize((processed as Blob).size)}{" "}
-                          {img || pdf
-                            ? `(Target: ${targetSizes[idx]} KB)`
-                            : "(Not compressed)"}
-                        </span>
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          className="mt-1"
-                          onClick={() =>
-                            downloadFile(processed as Blob, originalFile.name)
-                          }
-                        >
-                          <Download className="w-3 h-3 mr-1" /> Download
-                        </Button>
-                      </div>
+                          <div className="flex items-center gap-3 max-w-xl mx-auto">
+                            <span className="text-xs text-muted-foreground">
+                              Original
+                            </span>
+                            <Slider
+                              value={[pos]}
+                              onValueChange={(v) =>
+                                setSliderPos((prev) => {
+                                  const next = [...prev];
+                                  next[idx] = v[0];
+                                  return next;
+                                })
+                              }
+                              min={0}
+                              max={100}
+                              step={1}
+                            />
+                            <span className="text-xs text-muted-foreground">
+                              Compressed
+                            </span>
+                            <Button
+                              size="sm"
+                              variant={showHeatmap[idx] ? "default" : "outline"}
+                              onClick={() =>
+                                setShowHeatmap((prev) => {
+                                  const next = [...prev];
+                                  next[idx] = !next[idx];
+                                  return next;
+                                })
+                              }
+                            >
+                              <Flame className="w-3 h-3 mr-1" /> Heatmap
+                            </Button>
+                          </div>
+                        </div>
+                      )}
                     </div>
                   );
                 })}
                 <Button onClick={downloadAllFiles} className="w-full mt-2">
                   <Download className="w-4 h-4 mr-2" /> Download All as ZIP
                 </Button>
+                {report && (
+                  <ReportExport
+                    filename="compare_compression_report"
+                    report={report}
+                  />
+                )}
               </CardContent>
             </Card>
           )}
@@ -497,6 +787,12 @@ const CompareCompression: React.FC = () => {
               <p>
                 • PDFs are compressed with basic object stream optimization.
               </p>
+              <p>
+                • Image outputs are scored with SSIM, PSNR and max channel
+                delta; the heatmap marks where pixels changed most.
+              </p>
+              <p>• Rejected outputs are replaced by the original in the ZIP.</p>
+              <p>• Export a CSV/JSON report or a printable summary.</p>
               <p>• All processing happens locally in your browser.</p>
             </CardContent>
           </Card>
@@ -0,0 +1,328 @@
+import React, { useMemo } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  Pie,
+  PieChart,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { ArrowLeft, FileBarChart, Printer } from "lucide-react";
+import {
+  compressionRatio,
+  loadReport,
+  savedPercent,
+  summarizeReport,
+} from "@/utils/compressionReport";
+
+// Printable summary for a report handed over by ReportExport; navigation
+// and the gradient are dropped when printing.
+
+const formatSize = (bytes: number) => {
+  if (bytes === 0) return "0 Bytes";
+  const k = 1024;
+  const sizes = ["Bytes", "KB", "MB", "GB"];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return `${parseFloat((bytes / Math.pow(k, i)).toFixed(2))} ${sizes[i]}`;
+};
+
+const formatMs = (ms: number) =>
+  ms >= 1000 ? `${(ms / 1000).toFixed(1)} s` : `${Math.round(ms)} ms`;
+
+const sizeConfig = {
+  original: { label: "Original (KB)", color: "#94a3b8" },
+  output: { label: "Output (KB)", color: "#ec4899" },
+} satisfies ChartConfig;
+
+const savedConfig = {
+  saved: { label: "Saved (%)", color: "#ef4444" },
+} satisfies ChartConfig;
+
+const FORMAT_COLORS = ["#ec4899", "#f97316", "#6366f1", "#14b8a6", "#a855f7"];
+
+const CompressionReport: React.FC = () => {
+  const [params] = useSearchParams();
+  const report = useMemo(() => loadReport(params.get("id") ?? ""), [params]);
+
+  if (!report) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Card className="max-w-md">
+          <CardHeader>
+            <CardTitle>Report not found</CardTitle>
+            <CardDescription>
+              Reports are kept in this browser only. Export it again from the
+              compression tool.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Link to="/compression-tools">
+              <Button variant="outline">
+                <ArrowLeft className="w-4 h-4 mr-2" /> Back to Tools
+              </Button>
+            </Link>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const summary = summarizeReport(report);
+  const chartRows = report.rows.map((r) => ({
+    name: r.file.length > 18 ? `${r.file.slice(0, 16)}…` : r.file,
+    original: Math.round(r.originalBytes / 1024),
+    output: Math.round(r.outputBytes / 1024),
+    saved: Number(savedPercent(r.originalBytes, r.outputBytes).toFixed(1)),
+  }));
+  const formatConfig: ChartConfig = Object.fromEntries(
+    summary.formats.map((f, i) => [
+      f.format.replace(/\W/g, "_"),
+      { label: f.format, color: FORMAT_COLORS[i % FORMAT_COLORS.length] },
+    ])
+  );
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="bg-gradient-to-br from-pink-500 to-red-500 print:bg-none">
+        <div className="container mx-auto px-4 py-6">
+          <div className="flex items-center justify-between mb-4 print:hidden">
+            <Link to="/compression-tools">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-white hover:bg-white/20"
+              >
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back to Tools
+              </Button>
+            </Link>
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => window.print()}
+            >
+              <Printer className="w-4 h-4 mr-2" /> Print
+            </Button>
+          </div>
+          <div className="flex items-center text-white print:text-black">
+            <FileBarChart className="w-8 h-8 mr-3" />
+            <div>
+              <h1 className="text-3xl font-bold">Compression Report</h1>
+              <p className="text-lg text-white/90 print:text-black">
+                {report.tool} • {new Date(report.generatedAt).toLocaleString()}
+              </p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-8 space-y-6">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {[
+            ["Files", String(summary.files)],
+            [
+              "Total size",
+              `${formatSize(summary.originalBytes)} → ${formatSize(
+                summary.outputBytes
+              )}`,
+            ],
+            [
+              "Saved",
+              `${formatSize(
+                Math.max(0, summary.savedBytes)
+              )} (${summary.savedPercent.toFixed(1)}%)`,
+            ],
+            ["Processing time", formatMs(summary.elapsedMs)],
+          ].map(([label, value]) => (
+            <Card key={label} className="break-inside-avoid">
+              <CardHeader className="pb-2">
+                <CardDescription>{label}</CardDescription>
+                <CardTitle className="text-xl">{value}</CardTitle>
+              </CardHeader>
+            </Card>
+          ))}
+        </div>
+
+        <div className="grid md:grid-cols-2 gap-6 print:grid-cols-2">
+          <Card className="break-inside-avoid">
+            <CardHeader>
+              <CardTitle>Size per file</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={sizeConfig}>
+                <BarChart data={chartRows}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="name" tickLine={false} axisLine={false} />
+                  <YAxis tickLine={false} axisLine={false} width={48} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Bar
+                    dataKey="original"
+                    fill="var(--color-original)"
+                    radius={4}
+                    isAnimationActive={false}
+                  />
+                  <Bar
+                    dataKey="output"
+                    fill="var(--color-output)"
+                    radius={4}
+                    isAnimationActive={false}
+                  />
+                </BarChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+
+          <Card className="break-inside-avoid">
+            <CardHeader>
+              <CardTitle>Savings per file</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={savedConfig}>
+                <BarChart data={chartRows}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="name" tickLine={false} axisLine={false} />
+                  <YAxis
+                    tickLine={false}
+                    axisLine={false}
+                    width={40}
+                    unit="%"
+                  />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar
+                    dataKey="saved"
+                    fill="var(--color-saved)"
+                    radius={4}
+                    isAnimationActive={false}
+                  />
+                </BarChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+
+          <Card className="break-inside-avoid">
+            <CardHeader>
+              <CardTitle>Output formats</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={formatConfig}>
+                <PieChart>
+                  <ChartTooltip
+                    content={<ChartTooltipContent nameKey="key" />}
+                  />
+                  <ChartLegend content={<ChartLegendContent nameKey="key" />} />
+                  <Pie
+                    data={summary.formats.map((f) => ({
+                      key: f.format.replace(/\W/g, "_"),
+                      count: f.count,
+                    }))}
+                    dataKey="count"
+                    nameKey="key"
+                    isAnimationActive={false}
+                  >
+                    {summary.formats.map((f, i) => (
+                      <Cell
+                        key={f.format}
+                        fill={FORMAT_COLORS[i % FORMAT_COLORS.length]}
+                      />
+                    ))}
+                  </Pie>
+                </PieChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+
+          {Object.keys(report.settings).length > 0 && (
+            <Card className="break-inside-avoid">
+              <CardHeader>
+                <CardTitle>Settings</CardTitle>
+              </CardHeader>
+              <CardContent className="text-sm space-y-1">
+                {Object.entries(report.settings).map(([key, value]) => (
+                  <div key={key} className="flex justify-between border-b py-1">
+                    <span className="text-muted-foreground">{key}</span>
+                    <span>{String(value)}</span>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Files</CardTitle>
+          </CardHeader>
+          <CardContent className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left">
+                  <th className="py-2 pr-2">File</th>
+                  <th className="py-2 pr-2">Format</th>
+                  <th className="py-2 pr-2">Dimensions</th>
+                  <th className="py-2 pr-2">Quality</th>
+                  <th className="py-2 pr-2 text-right">Original</th>
+                  <th className="py-2 pr-2 text-right">Output</th>
+                  <th className="py-2 pr-2 text-right">Ratio</th>
+                  <th className="py-2 text-right">Time</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.rows.map((r, idx) => (
+                  <tr key={idx} className="border-b break-inside-avoid">
+                    <td className="py-1 pr-2">
+                      <div className="font-medium">{r.file}</div>
+                      {r.output !== r.file && (
+                        <div className="text-xs text-muted-foreground">
+                          → {r.output}
+                        </div>
+                      )}
+                    </td>
+                    <td className="py-1 pr-2">{r.format}</td>
+                    <td className="py-1 pr-2">
+                      {r.width && r.height ? `${r.width}×${r.height}` : "—"}
+                    </td>
+                    <td className="py-1 pr-2">
+                      {r.quality === null ? "—" : `${r.quality}%`}
+                    </td>
+                    <td className="py-1 pr-2 text-right">
+                      {formatSize(r.originalBytes)}
+                    </td>
+                    <td className="py-1 pr-2 text-right">
+                      {formatSize(r.outputBytes)}
+                    </td>
+                    <td className="py-1 pr-2 text-right">
+                      {compressionRatio(r).toFixed(2)}×
+                    </td>
+                    <td className="py-1 text-right">{formatMs(r.elapsedMs)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default CompressionReport;
@@ -14,228 +14,30 @@ import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { Slider } from "@/components/ui/slider";
 import { Switch } from "@/components/ui/switch";
-import { ArrowLeft, Download, Zap, Loader2, Target } from "lucide-react";
+import {
+  ArrowLeft,
+  Download,
+  Zap,
+  Loader2,
+  Target,
+  Palette,
+  Settings2,
+  ShieldCheck,
+} from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import FileUploader from "@/components/FileUploader";
-
-// ---------- low-level helpers ----------
-
-const canvasToBlob = (
-  canvas: HTMLCanvasElement,
-  type?: string,
-  quality?: number
-): Promise<Blob> =>
-  new Promise((resolve, reject) => {
-    canvas.toBlob(
-      (blob) => {
-        if (blob) resolve(blob);
-        else reject(new Error("toBlob failed"));
-      },
-      type,
-      quality
-    );
-  });
-
-const loadImageFromFile = (file: File): Promise<HTMLImageElement> =>
-  new Promise((resolve, reject) => {
-    const url = URL.createObjectURL(file);
-    const img = new Image();
-    img.onload = () => {
-      URL.revokeObjectURL(url);
-      resolve(img);
-    };
-    img.onerror = (e) => {
-      URL.revokeObjectURL(url);
-      reject(e);
-    };
-    img.src = url;
-  });
-
-const hasAlphaChannel = (img: HTMLImageElement): boolean => {
-  const w = 64;
-  const h = Math.max(1, Math.round((img.height / img.width) * w));
-  const c = document.createElement("canvas");
-  c.width = w;
-  c.height = h;
-  const ctx = c.getContext("2d");
-  if (!ctx) return false;
-  ctx.drawImage(img, 0, 0, w, h);
-  const data = ctx.getImageData(0, 0, w, h).data;
-  for (let i = 3; i < data.length; i += 4) {
-    if (data[i] !== 255) return true;
-  }
-  return false;
-};
-
-const decideOutputType = (fileType: string, alpha: boolean): string => {
-  if (fileType === "image/jpeg") return "image/jpeg";
-  if (fileType === "image/webp") return "image/webp";
-  if (fileType === "image/png" && alpha) return "image/webp"; // keep alpha + quality
-  if (fileType === "image/png" && !alpha) return "image/jpeg";
-  return "image/webp";
-};
-
-const extFromType = (type: string): string => {
-  if (type === "image/jpeg") return "jpg";
-  if (type === "image/webp") return "webp";
-  if (type === "image/png") return "png";
-  return "bin";
-};
-
-const drawToCanvas = (
-  img: HTMLImageElement,
-  width: number,
-  height: number,
-  flattenToWhite: boolean
-): HTMLCanvasElement => {
-  const canvas = document.createElement("canvas");
-  canvas.width = width;
-  canvas.height = height;
-  const ctx = canvas.getContext("2d");
-  if (!ctx) throw new Error("Canvas not supported");
-  if (flattenToWhite) {
-    ctx.fillStyle = "#ffffff";
-    ctx.fillRect(0, 0, width, height);
-  }
-  ctx.drawImage(img, 0, 0, width, height);
-  return canvas;
-};
-
-// Binary search quality to find the largest quality whose size <= targetBytes at fixed dimensions.
-// Returns bestUnder when available; if not found, returns minQualityBlob that is still > target.
-const searchQualityForTarget = async (
-  canvas: HTMLCanvasElement,
-  type: string,
-  targetBytes: number,
-  {
-    minQ = 0.05,
-    maxQ = 1.0,
-    maxIter = 16,
-  }: { minQ?: number; maxQ?: number; maxIter?: number } = {}
-): Promise<
-  | { kind: "under"; blob: Blob; quality: number }
-  | { kind: "above"; blobAtMinQ: Blob }
-> => {
-  let low = minQ;
-  let high = maxQ;
-  let bestUnder: { blob: Blob; q: number; diff: number } | null = null;
-
-  // Probe min quality up-front to know if downscaling is required.
-  const minBlob = await canvasToBlob(canvas, type, minQ);
-  if (minBlob.size > targetBytes) {
-    return { kind: "above", blobAtMinQ: minBlob };
-  }
-
-  // Probe max quality; if already <= target, that's ideal at these dimensions.
-  const maxBlob = await canvasToBlob(canvas, type, maxQ);
-  if (maxBlob.size <= targetBytes) {
-    return { kind: "under", blob: maxBlob, quality: maxQ };
-  }
-
-  // Binary search between min and max quality to approach target from below.
-  for (let i = 0; i < maxIter && high - low > 0.001; i++) {
-    const mid = (low + high) / 2;
-    const blob = await canvasToBlob(canvas, type, mid);
-    if (blob.size <= targetBytes) {
-      const diff = targetBytes - blob.size;
-      if (!bestUnder || diff < bestUnder.diff) {
-        bestUnder = { blob, q: mid, diff };
-      }
-      low = mid;
-    } else {
-      high = mid;
-    }
-  }
-
-  if (bestUnder) {
-    return { kind: "under", blob: bestUnder.blob, quality: bestUnder.q };
-  }
-  // Should not happen because minQ was already <= target, but keep a guard.
-  return { kind: "under", blob: minBlob, quality: minQ };
-};
-
-// ---------- main compression utility ----------
-
-const compressImageToTarget = async (
-  file: File,
-  targetSize?: number,
-  qualityWhenNoTarget?: number
-): Promise<File> => {
-  const img = await loadImageFromFile(file);
-
-  // If no target supplied, single encode at requested quality.
-  if (!targetSize) {
-    const alpha = hasAlphaChannel(img);
-    const outType = decideOutputType(file.type, alpha);
-    const flatten = outType === "image/jpeg" && alpha;
-    const canvas = drawToCanvas(img, img.width, img.height, flatten);
-    const q =
-      typeof qualityWhenNoTarget === "number" ? qualityWhenNoTarget : 0.9;
-    const blob = await canvasToBlob(canvas, outType, q);
-    const base = file.name.replace(/\.[^.]+$/, "");
-    return new File([blob], `${base}_compressed.${extFromType(outType)}`, {
-      type: outType,
-    });
-  }
-
-  // If original already under target, return original.
-  if (file.size <= targetSize) return file;
-
-  const alpha = hasAlphaChannel(img);
-  const outType = decideOutputType(file.type, alpha);
-  const flatten = outType === "image/jpeg" && alpha;
-
-  const MAX_STEPS = 10;
-  const SCALE = 0.9;
-  const MIN_DIM = 64;
-
-  let width = img.width;
-  let height = img.height;
-
-  for (let step = 0; step < MAX_STEPS; step++) {
-    if (width < MIN_DIM || height < MIN_DIM) break;
-
-    const canvas = drawToCanvas(
-      img,
-      Math.round(width),
-      Math.round(height),
-      flatten
-    );
-    const res = await searchQualityForTarget(canvas, outType, targetSize, {
-      minQ: 0.05,
-      maxQ: 1.0,
-      maxIter: 16,
-    });
-
-    // If we can achieve <= target at these dimensions, return immediately;
-    // do NOT downscale further, as that only reduces size/quality unnecessarily.
-    if (res.kind === "under") {
-      const base = file.name.replace(/\.[^.]+$/, "");
-      const outExt = extFromType(outType);
-      return new File([res.blob], `${base}_compressed.${outExt}`, {
-        type: outType,
-      });
-    }
-
-    // Otherwise, even the smallest quality is still above target -> downscale and try again.
-    width = Math.max(MIN_DIM, Math.floor(width * SCALE));
-    height = Math.max(MIN_DIM, Math.floor(height * SCALE));
-  }
-
-  // Final fallback: smallest we could make at the last attempted size.
-  {
-    const canvas = drawToCanvas(
-      img,
-      Math.max(MIN_DIM, Math.round(width)),
-      Math.max(MIN_DIM, Math.round(height)),
-      flatten
-    );
-    const blob = await canvasToBlob(canvas, outType, 0.05);
-    const base = file.name.replace(/\.[^.]+$/, "");
-    const outExt = extFromType(outType);
-    return new File([blob], `${base}_compressed.${outExt}`, { type: outType });
-  }
-};
+import ReportExport from "@/components/ReportExport";
+import { compressImageWithQuality } from "@/utils/imageCompression";
+import { quantizePng, quantizePngToTarget } from "@/utils/pngQuant";
+import type { JpegEncoderSettings } from "@/utils/jpegEncoder";
+import { optimizeJpegLossless } from "@/utils/jpegLossless";
+import { compressAnimation, decodeAnimation } from "@/utils/animatedImage";
+import {
+  createReport,
+  measureDimensions,
+  type CompressionReport,
+  type ReportRow,
+} from "@/utils/compressionReport";
 
 // ---------- React component ----------
 
@@ -249,11 +51,28 @@ const ImageCompress = () => {
   const [targetSizeKB, setTargetSizeKB] = useState<string>("100");
   const [useTargetSize, setUseTargetSize] = useState(false);
 
+  // Palette quantization for PNG input (indexed PNG output)
+  const [quantizePngs, setQuantizePngs] = useState(false);
+  const [paletteColors, setPaletteColors] = useState([256]);
+  const [dither, setDither] = useState(true);
+
+  // JPEG encoder options; any of these switches JPEG output to the JS encoder
+  const [progressiveJpeg, setProgressiveJpeg] = useState(false);
+  const [optimizeHuffman, setOptimizeHuffman] = useState(false);
+  const [chroma, setChroma] = useState<"browser" | "444" | "420">("browser");
+
+  // Lossless JPEG: rewrite the byte stream, never decode to pixels
+  const [losslessJpeg, setLosslessJpeg] = useState(false);
+  const [losslessProgressive, setLosslessProgressive] = useState(true);
+
+  const [report, setReport] = useState<CompressionReport | null>(null);
+
   const { toast } = useToast();
 
   const handleFilesSelected = (files: File[]) => {
     setSelectedFiles(files);
     setProcessedFiles([]);
+    setReport(null);
     setProgress(0);
   };
 
@@ -303,22 +122,99 @@ const ImageCompress = () => {
       originalSize: number;
       compressedSize: number;
     }[] = [];
+    const rows: ReportRow[] = [];
+    // JPEGs the lossless optimizer can't read, with the reason
+    const unsupported: string[] = [];
+
+    const jpeg: JpegEncoderSettings | undefined =
+      progressiveJpeg || optimizeHuffman || chroma !== "browser"
+        ? {
+            progressive: progressiveJpeg,
+            optimizeHuffman,
+            subsampling: chroma === "444" ? "444" : "420",
+          }
+        : undefined;
 
     try {
       for (let i = 0; i < selectedFiles.length; i++) {
         const file = selectedFiles[i];
         const originalSize = file.size;
+        const started = performance.now();
 
+        const quantizeOpts = { colors: paletteColors[0], dither };
         let compressedFile: File;
-        if (useTargetSize) {
+        // Encoder quality (0..1) the output ended up with; null when lossless
+        let used: number | null = null;
+        // Animated GIF/WebP/APNG are re-encoded frame by frame in their own format
+        const anim = await decodeAnimation(file);
+        if (anim) {
+          ({ file: compressedFile, quality: used } = await compressAnimation(
+            file,
+            anim,
+            {
+              targetBytes: useTargetSize
+                ? parseInt(targetSizeKB) * 1024
+                : undefined,
+              quality: qualityLevel[0] / 100,
+              colors: quantizePngs ? paletteColors[0] : 256,
+              dither,
+            }
+          ));
+        } else if (losslessJpeg && file.type === "image/jpeg") {
+          try {
+            const res = optimizeJpegLossless(
+              new Uint8Array(await file.arrayBuffer()),
+              { progressive: losslessProgressive }
+            );
+            // Nothing to gain: keep the original bytes
+            compressedFile =
+              res.bytes.length < file.size
+                ? new File([res.bytes], file.name, { type: "image/jpeg" })
+                : file;
+          } catch (err) {
+            // Arithmetic-coded, lossless, 12-bit...: pass this file through
+            console.error(err);
+            compressedFile = file;
+            unsupported.push(
+              `${file.name} (${
+                err instanceof Error ? err.message : "unsupported JPEG"
+              })`
+            );
+          }
+        } else if (quantizePngs && file.type === "image/png") {
+          if (useTargetSize) {
+            const targetBytes = parseInt(targetSizeKB) * 1024;
+            // Fewer colours first; fall back to lossy formats if 2 colours still don't fit
+            const quantized = await quantizePngToTarget(
+              file,
+              targetBytes,
+              quantizeOpts
+            );
+            if (quantized) {
+              compressedFile = quantized;
+            } else {
+              ({ file: compressedFile, quality: used } =
+                await compressImageWithQuality(file, targetBytes, undefined, {
+                  jpeg,
+                }));
+            }
+          } else {
+            compressedFile = await quantizePng(file, quantizeOpts);
+          }
+        } else if (useTargetSize) {
           const targetBytes = parseInt(targetSizeKB) * 1024;
-          compressedFile = await compressImageToTarget(file, targetBytes);
+          ({ file: compressedFile, quality: used } =
+            await compressImageWithQuality(file, targetBytes, undefined, {
+              jpeg,
+            }));
         } else {
-          compressedFile = await compressImageToTarget(
-            file,
-            undefined,
-            qualityLevel[0] / 100
-          );
+          ({ file: compressedFile, quality: used } =
+            await compressImageWithQuality(
+              file,
+              undefined,
+              qualityLevel[0] / 100,
+              { jpeg }
+            ));
         }
 
         const compressionRatio = calculateCompressionRatio(
@@ -332,6 +228,8 @@ const ImageCompress = () => {
             ? "webp"
             : compressedFile.type === "image/png"
             ? "png"
+            : compressedFile.type === "image/gif"
+            ? "gif"
             : "bin";
         const base = file.name.replace(/\.[^.]+$/, "");
         const newName = `${base}_compressed_${compressionRatio}%.${outExt}`;
@@ -344,11 +242,37 @@ const ImageCompress = () => {
           originalSize,
           compressedSize: compressedFile.size,
         });
+        rows.push({
+          file: file.name,
+          output: newName,
+          originalBytes: originalSize,
+          outputBytes: compressedFile.size,
+          format: compressedFile.type,
+          ...(await measureDimensions(compressedFile)),
+          quality: used === null ? null : Math.round(used * 100),
+          elapsedMs: performance.now() - started,
+        });
 
         setProgress(((i + 1) / selectedFiles.length) * 100);
       }
 
       setProcessedFiles(compressedFiles.map((x) => x.file));
+      setReport(
+        createReport(
+          "Image Compress",
+          {
+            mode: useTargetSize ? `target ${targetSizeKB} KB` : "quality",
+            quality: qualityLevel[0],
+            pngPalette: quantizePngs ? paletteColors[0] : "off",
+            dither,
+            progressiveJpeg,
+            optimizeHuffman,
+            chroma,
+            losslessJpeg,
+          },
+          rows
+        )
+      );
 
       const totalOriginal = compressedFiles.reduce(
         (s, x) => s + x.originalSize,
@@ -365,7 +289,13 @@ const ImageCompress = () => {
 
       toast({
         title: "Compression complete!",
-        description: `Processed ${compressedFiles.length} image(s). Space saved: ${totalSavings}%`,
+        description: `Processed ${
+          compressedFiles.length
+        } image(s). Space saved: ${totalSavings}%${
+          unsupported.length
+            ? `. Kept unchanged: ${unsupported.join(", ")}`
+            : ""
+        }`,
       });
     } catch (err) {
       console.error(err);
@@ -429,13 +359,19 @@ const ImageCompress = () => {
               <CardHeader>
                 <CardTitle>Select Images</CardTitle>
                 <CardDescription>
-                  Upload images to compress. Supports JPG, PNG, WebP formats.
+                  Upload images to compress. Supports JPG, PNG, WebP and GIF;
+                  animations stay animated.
                 </CardDescription>
               </CardHeader>
               <CardContent>
                 <FileUploader
                   onFilesSelected={handleFilesSelected}
-                  acceptedTypes={["image/jpeg", "image/png", "image/webp"]}
+                  acceptedTypes={[
+                    "image/jpeg",
+                    "image/png",
+                    "image/webp",
+                    "image/gif",
+                  ]}
                   maxFiles={20}
                   files={selectedFiles}
                   onRemoveFile={handleRemoveFile}
@@ -490,6 +426,117 @@ const ImageCompress = () => {
                   </div>
                 )}
 
+                <div className="space-y-4 pt-4 border-t">
+                  <div className="flex items-center space-x-2">
+                    <Switch
+                      checked={quantizePngs}
+                      onCheckedChange={setQuantizePngs}
+                    />
+                    <Label className="flex items-center">
+                      <Palette className="w-4 h-4 mr-1" /> Reduce PNG colors
+                      (indexed PNG)
+                    </Label>
+                  </div>
+
+                  {quantizePngs && (
+                    <>
+                      <div className="space-y-4">
+                        <Label>
+                          {useTargetSize ? "Max colors" : "Colors"}:{" "}
+                          {paletteColors[0]}
+                        </Label>
+                        <Slider
+                          value={paletteColors}
+                          onValueChange={setPaletteColors}
+                          min={2}
+                          max={256}
+                          step={1}
+                        />
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        <Switch checked={dither} onCheckedChange={setDither} />
+                        <Label>Floyd–Steinberg dithering</Label>
+                      </div>
+                      <p className="text-sm text-muted-foreground">
+                        PNG files keep their format and transparency. Works best
+                        for screenshots, logos and UI assets. Animated GIFs use
+                        this palette size for every frame.
+                      </p>
+                    </>
+                  )}
+                </div>
+
+                <div className="space-y-4 pt-4 border-t">
+                  <div className="flex items-center space-x-2">
+                    <Switch
+                      checked={losslessJpeg}
+                      onCheckedChange={setLosslessJpeg}
+                    />
+                    <Label className="flex items-center">
+                      <ShieldCheck className="w-4 h-4 mr-1" /> Lossless JPEG
+                      optimization
+                    </Label>
+                  </div>
+                  {losslessJpeg && (
+                    <>
+                      <div className="flex items-center space-x-2">
+                        <Switch
+                          checked={losslessProgressive}
+                          onCheckedChange={setLosslessProgressive}
+                        />
+                        <Label>Convert to progressive</Label>
+                      </div>
+                      <p className="text-sm text-muted-foreground">
+                        JPEGs keep every pixel: metadata is stripped (except
+                        orientation and color profile) and Huffman tables are
+                        rebuilt. Quality and target size do not apply to JPEGs
+                        in this mode.
+                      </p>
+                    </>
+                  )}
+                </div>
+
+                <div className="space-y-4 pt-4 border-t">
+                  <Label className="flex items-center">
+                    <Settings2 className="w-4 h-4 mr-1" /> JPEG encoder
+                  </Label>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="flex items-center space-x-2">
+                      <Switch
+                        checked={progressiveJpeg}
+                        onCheckedChange={setProgressiveJpeg}
+                      />
+                      <Label>Progressive</Label>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <Switch
+                        checked={optimizeHuffman || progressiveJpeg}
+                        disabled={progressiveJpeg}
+                        onCheckedChange={setOptimizeHuffman}
+                      />
+                      <Label>Optimize Huffman tables</Label>
+                    </div>
+                  </div>
+                  <div>
+                    <Label>Chroma subsampling</Label>
+                    <select
+                      className="mt-1 w-full p-2 rounded border"
+                      value={chroma}
+                      onChange={(e) =>
+                        setChroma(e.target.value as "browser" | "444" | "420")
+                      }
+                    >
+                      <option value="browser">Browser default</option>
+                      <option value="420">4:2:0 (smaller)</option>
+                      <option value="444">4:4:4 (sharper color edges)</option>
+                    </select>
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    Applies to JPEG output. Non-default settings use the
+                    built-in encoder, which is slower than the browser's.
+                  </p>
+                </div>
+
                 <Button
                   onClick={handleCompress}
                   disabled={selectedFiles.length === 0 || isProcessing}
@@ -604,6 +651,12 @@ const ImageCompress = () => {
                     <Download className="w-4 h-4 mr-2" />
                     Download All ({processedFiles.length})
                   </Button>
+                  {report && (
+                    <ReportExport
+                      filename="image_compression_report"
+                      report={report}
+                    />
+                  )}
                   {processedFiles.map((file, idx) => (
                     <div
                       key={idx}
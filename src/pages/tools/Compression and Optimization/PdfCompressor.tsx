@@ -12,6 +12,8 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
 import {
   ArrowLeft,
   Download,
@@ -22,6 +24,12 @@ import {
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { PDFDocument } from "pdf-lib";
+import {
+  recompressPdfImages,
+  type PdfImageReport,
+} from "@/utils/pdfCompression";
+
+const DPI_OPTIONS = [72, 150, 300];
 
 const formatSize = (bytes: number) => {
   if (bytes === 0) return "0 Bytes";
@@ -73,6 +81,13 @@ const PDFCompressor: React.FC = () => {
   const [optimizedBytes, setOptimizedBytes] = useState<Uint8Array | null>(null);
   const [meetsTarget, setMeetsTarget] = useState<boolean | null>(null);
 
+  // Lossy mode: downsample + JPEG re-encode embedded images
+  const [lossy, setLossy] = useState(false);
+  const [maxDpi, setMaxDpi] = useState(150);
+  const [jpegQuality, setJpegQuality] = useState(75);
+  const [imageReports, setImageReports] = useState<PdfImageReport[]>([]);
+  const [unreadPages, setUnreadPages] = useState<number[]>([]);
+
   const { toast } = useToast();
   const acceptTypes = useMemo(() => ["application/pdf"], []);
 
@@ -81,6 +96,8 @@ const PDFCompressor: React.FC = () => {
     setOptimizedSize(null);
     setOptimizedBytes(null);
     setMeetsTarget(null);
+    setImageReports([]);
+    setUnreadPages([]);
     setProgress(0);
   };
 
@@ -148,8 +165,27 @@ const PDFCompressor: React.FC = () => {
       const baseSize = baseBytes.byteLength;
       setOriginalSize(baseSize);
 
-      setProgress(25);
-      const outBytes = await optimizeLossless(baseBytes);
+      setProgress(10);
+      let sourceBytes = baseBytes;
+      let skippedImages = 0;
+      if (lossy) {
+        const res = await recompressPdfImages(
+          baseBytes,
+          { maxDpi, quality: jpegQuality / 100 },
+          (done, total) =>
+            setProgress(10 + Math.round((done / Math.max(1, total)) * 70))
+        );
+        sourceBytes = res.bytes;
+        setImageReports(res.images);
+        skippedImages = res.images.filter((r) => r.status === "skipped").length;
+        setUnreadPages(res.unreadPages);
+      } else {
+        setImageReports([]);
+        setUnreadPages([]);
+      }
+
+      setProgress(85);
+      const outBytes = await optimizeLossless(sourceBytes);
 
       setOptimizedBytes(outBytes);
       setOptimizedSize(outBytes.byteLength);
@@ -175,7 +211,11 @@ const PDFCompressor: React.FC = () => {
         title: "Analysis complete",
         description: `Estimated ${formatSize(baseSize)} → ${formatSize(
           outBytes.byteLength
-        )} (≈${pct}% reduction).`,
+        )} (≈${pct}% reduction).${
+          skippedImages
+            ? ` ${skippedImages} image(s) were left as they are; see Image savings for why.`
+            : ""
+        }`,
       });
     } catch (err) {
       console.error(err);
@@ -243,7 +283,8 @@ const PDFCompressor: React.FC = () => {
             <div>
               <h1 className="text-3xl font-bold">PDF Compressor</h1>
               <p className="text-lg text-white/90">
-                Lossless optimization with previewed size before download.
+                Lossless or image-downsampling optimization with previewed size
+                before download.
               </p>
             </div>
           </div>
@@ -256,9 +297,7 @@ const PDFCompressor: React.FC = () => {
             <Card>
               <CardHeader>
                 <CardTitle>Select PDF</CardTitle>
-                <CardDescription>
-                  Pick a PDF to optimize losslessly.
-                </CardDescription>
+                <CardDescription>Pick a PDF to optimize.</CardDescription>
               </CardHeader>
               <CardContent>
                 <div className="border border-dashed rounded-md p-4">
@@ -309,6 +348,63 @@ const PDFCompressor: React.FC = () => {
               </CardContent>
             </Card>
 
+            <Card>
+              <CardHeader>
+                <CardTitle>Compression Mode</CardTitle>
+                <CardDescription>
+                  Lossy mode downsamples and re-encodes embedded images; masks
+                  are left untouched.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    checked={lossy}
+                    onCheckedChange={(v) => {
+                      setLossy(v);
+                      resetAnalysis();
+                    }}
+                  />
+                  <Label>Lossy image compression</Label>
+                </div>
+
+                {lossy && (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                      <Label>Max image resolution</Label>
+                      <select
+                        className="mt-2 w-full p-2 rounded border"
+                        value={maxDpi}
+                        onChange={(e) => {
+                          setMaxDpi(parseInt(e.target.value, 10));
+                          resetAnalysis();
+                        }}
+                      >
+                        {DPI_OPTIONS.map((d) => (
+                          <option key={d} value={d}>
+                            {d} DPI
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <div className="space-y-3">
+                      <Label>JPEG quality: {jpegQuality}%</Label>
+                      <Slider
+                        value={[jpegQuality]}
+                        onValueChange={(v) => {
+                          setJpegQuality(v[0]);
+                          resetAnalysis();
+                        }}
+                        min={10}
+                        max={95}
+                        step={5}
+                      />
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
             <Card>
               <CardHeader>
                 <CardTitle>Target & Actions</CardTitle>
@@ -374,6 +470,8 @@ const PDFCompressor: React.FC = () => {
                     title={
                       targetTooLarge
                         ? "Target exceeds original size."
+                        : lossy
+                        ? "Analyze image recompression"
                         : "Analyze lossless optimization"
                     }
                   >
@@ -448,12 +546,92 @@ const PDFCompressor: React.FC = () => {
                   </div>
                 ) : (
                   <div className="text-sm text-muted-foreground">
-                    Run “Analyze” to see the estimated lossless size and
-                    reduction before downloading.
+                    Run “Analyze” to see the estimated size and reduction before
+                    downloading.
                   </div>
                 )}
               </CardContent>
             </Card>
+
+            {imageReports.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Image savings</CardTitle>
+                  <CardDescription>
+                    Per-image result of the lossy pass (
+                    {
+                      imageReports.filter((r) => r.status === "recompressed")
+                        .length
+                    }{" "}
+                    of {imageReports.length} recompressed
+                    {imageReports.some((r) => r.status === "skipped") &&
+                      `, ${
+                        imageReports.filter((r) => r.status === "skipped")
+                          .length
+                      } skipped`}
+                    ).
+                    {unreadPages.length > 0 &&
+                      ` The content of page${
+                        unreadPages.length > 1 ? "s" : ""
+                      } ${unreadPages.join(
+                        ", "
+                      )} could not be read; images there were treated as full-page and may be downsampled less.`}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-muted-foreground border-b">
+                          <th className="py-2 pr-2">Page</th>
+                          <th className="py-2 pr-2">Pixels</th>
+                          <th className="py-2 pr-2">DPI</th>
+                          <th className="py-2 pr-2">Size</th>
+                          <th className="py-2">Result</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {imageReports.map((r) => {
+                          const saved =
+                            r.originalBytes > 0
+                              ? Math.round(
+                                  (1 - r.newBytes / r.originalBytes) * 100
+                                )
+                              : 0;
+                          return (
+                            <tr key={r.ref} className="border-b">
+                              <td className="py-1 pr-2">{r.page}</td>
+                              <td className="py-1 pr-2">
+                                {r.width}×{r.height}
+                                {r.status === "recompressed" &&
+                                  (r.newWidth !== r.width ||
+                                    r.newHeight !== r.height) &&
+                                  ` → ${r.newWidth}×${r.newHeight}`}
+                              </td>
+                              <td className="py-1 pr-2">{r.dpi ?? "–"}</td>
+                              <td className="py-1 pr-2">
+                                {formatSize(r.originalBytes)}
+                                {r.status === "recompressed" &&
+                                  ` → ${formatSize(r.newBytes)}`}
+                              </td>
+                              <td className="py-1">
+                                {r.status === "recompressed" ? (
+                                  <Badge variant="secondary">-{saved}%</Badge>
+                                ) : (
+                                  <span className="text-xs text-muted-foreground">
+                                    {r.reason}
+                                  </span>
+                                )}
+                              </td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
           </div>
 
           <div className="space-y-6">
@@ -473,6 +651,14 @@ const PDFCompressor: React.FC = () => {
                       Object streams • Metadata cleanup
                     </span>
                   </div>
+                  <div className="flex items-center text-sm">
+                    <Badge variant="outline" className="mr-2">
+                      Lossy
+                    </Badge>
+                    <span className="text-muted-foreground">
+                      Image downsampling • JPEG re-encode
+                    </span>
+                  </div>
                   <div className="pt-4 border-t">
                     <h4 className="font-medium mb-2">Notes:</h4>
                     <ul className="text-sm text-muted-foreground space-y-1">
@@ -481,8 +667,13 @@ const PDFCompressor: React.FC = () => {
                         useObjectStreams for compaction without altering images.
                       </li>
                       <li>
-                        • Exact KB targets usually require lossy image
-                        recompression, which is outside this lossless tool.
+                        • Lossy mode downsamples images drawn above the chosen
+                        DPI and re-encodes them as JPEG. Soft masks and stencil
+                        masks are kept as-is.
+                      </li>
+                      <li>
+                        • An image is only replaced when the new encoding is
+                        smaller.
                       </li>
                     </ul>
                   </div>
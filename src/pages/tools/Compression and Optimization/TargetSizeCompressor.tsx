@@ -21,10 +21,19 @@ import {
   Zap,
   Eye,
   Settings2,
+  AlertTriangle,
+  Wallet,
 } from "lucide-react";
 import JSZip from "jszip";
 import { useToast } from "@/hooks/use-toast";
 import { Switch } from "@/components/ui/switch";
+import { searchImageForTarget } from "@/utils/imageCompression";
+import { compressPdfToTarget } from "@/utils/pdfCompression";
+import {
+  allocateBudget,
+  imageWeight,
+  type BudgetItem,
+} from "@/utils/batchBudget";
 
 const formatSize = (bytes: number) => {
   if (bytes === 0) return "0 Bytes";
@@ -34,6 +43,20 @@ const formatSize = (bytes: number) => {
   return `${parseFloat((bytes / Math.pow(k, i)).toFixed(2))} ${sizes[i]}`;
 };
 
+const IMAGE_TYPES = ["image/jpeg", "image/png", "image/webp"];
+const ACCEPTED_TYPES = [...IMAGE_TYPES, "application/pdf"];
+
+type TargetResult = {
+  name: string;
+  size: number;
+  compressed: number;
+  blob: Blob;
+  targetBytes: number;
+  // false when the target could not be met; `compressed` is then the smallest achievable size
+  reached: boolean;
+  detail: string;
+};
+
 const TargetCompressor: React.FC = () => {
   const [files, setFiles] = useState<File[]>([]);
   const [progress, setProgress] = useState(0);
@@ -41,13 +64,23 @@ const TargetCompressor: React.FC = () => {
   const [targetSizes, setTargetSizes] = useState<{
     [key: string]: number | "";
   }>({});
-  const [compressedResults, setCompressedResults] = useState<
-    { name: string; size: number; compressed: number; blob: Blob }[]
-  >([]);
+  const [compressedResults, setCompressedResults] = useState<TargetResult[]>(
+    []
+  );
+  const [failedFiles, setFailedFiles] = useState<string[]>([]);
   const [zipBlob, setZipBlob] = useState<Blob | null>(null);
   const [showPreview, setShowPreview] = useState(false);
   const [useDefaultSize, setUseDefaultSize] = useState(false);
 
+  // Whole-batch mode: one total budget split across files by complexity
+  const [useBatchBudget, setUseBatchBudget] = useState(false);
+  const [budgetValue, setBudgetValue] = useState<number | "">(5);
+  const [budgetUnit, setBudgetUnit] = useState<"KB" | "MB">("MB");
+  const [budgetSummary, setBudgetSummary] = useState<{
+    budget: number;
+    achieved: number;
+  } | null>(null);
+
   const { toast } = useToast();
 
   // Automatically calculate default sizes (80% of original) when enabled
@@ -76,6 +109,87 @@ const TargetCompressor: React.FC = () => {
     setTargetSizes({});
     setZipBlob(null);
     setShowPreview(false);
+    setFailedFiles([]);
+    setBudgetSummary(null);
+  };
+
+  // Budget weights: images by pixels × activity; PDFs by size, converted into
+  // the same units using the images' weight-per-byte (or plain size if none).
+  const budgetItems = async (batch: File[]): Promise<BudgetItem[]> => {
+    const weights: (number | null)[] = [];
+    for (const file of batch) {
+      if (!IMAGE_TYPES.includes(file.type)) {
+        weights.push(null);
+        continue;
+      }
+      try {
+        weights.push(await imageWeight(file));
+      } catch {
+        weights.push(null);
+      }
+    }
+    let imgWeight = 0;
+    let imgBytes = 0;
+    batch.forEach((f, i) => {
+      if (weights[i] !== null) {
+        imgWeight += weights[i];
+        imgBytes += f.size;
+      }
+    });
+    const perByte = imgBytes > 0 ? imgWeight / imgBytes : 1;
+    return batch.map((f, i) => ({
+      weight: weights[i] ?? f.size * perByte,
+      cap: f.size,
+    }));
+  };
+
+  const compressOne = async (
+    file: File,
+    targetBytes: number
+  ): Promise<TargetResult> => {
+    if (IMAGE_TYPES.includes(file.type)) {
+      const res = await searchImageForTarget(file, targetBytes);
+      const detail =
+        res.file === file
+          ? "original kept"
+          : `${res.file.type.replace("image/", "").toUpperCase()} • ${
+              res.width
+            }×${res.height}${
+              res.quality !== null ? ` • q${Math.round(res.quality * 100)}` : ""
+            }`;
+      return {
+        name: res.file === file ? file.name : res.file.name,
+        size: file.size,
+        compressed: res.file.size,
+        blob: res.file,
+        targetBytes,
+        reached: res.reached,
+        detail,
+      };
+    }
+
+    if (file.type === "application/pdf") {
+      const bytes = new Uint8Array(await file.arrayBuffer());
+      const res = await compressPdfToTarget(bytes, targetBytes);
+      const out = new Uint8Array(res.bytes.byteLength);
+      out.set(res.bytes);
+      const blob = new Blob([out.buffer], { type: "application/pdf" });
+      return {
+        name: file.name.replace(/\.pdf$/i, "") + "_compressed.pdf",
+        size: file.size,
+        compressed: blob.size,
+        blob,
+        targetBytes,
+        reached: res.reached,
+        detail: res.settings
+          ? `images ≤ ${res.settings.maxDpi} DPI • q${Math.round(
+              res.settings.quality * 100
+            )}`
+          : "lossless",
+      };
+    }
+
+    throw new Error(`Unsupported type: ${file.type || "unknown"}`);
   };
 
   const compressFiles = async () => {
@@ -88,10 +202,21 @@ const TargetCompressor: React.FC = () => {
       return;
     }
 
+    const budgetBytes =
+      Number(budgetValue) * (budgetUnit === "MB" ? 1024 * 1024 : 1024);
+    if (useBatchBudget && !(budgetBytes > 0)) {
+      toast({
+        title: "Budget missing",
+        description: "Enter a total size budget for the batch.",
+        variant: "destructive",
+      });
+      return;
+    }
+
     const incomplete = files.some(
       (f) => !targetSizes[f.name] || targetSizes[f.name] === ""
     );
-    if (incomplete) {
+    if (!useBatchBudget && incomplete) {
       toast({
         title: "Target sizes missing",
         description:
@@ -104,42 +229,53 @@ const TargetCompressor: React.FC = () => {
     setIsProcessing(true);
     setProgress(0);
     const zip = new JSZip();
-    const results: {
-      name: string;
-      size: number;
-      compressed: number;
-      blob: Blob;
-    }[] = [];
+    const results: TargetResult[] = [];
+    const failed: string[] = [];
+    const items = useBatchBudget ? await budgetItems(files) : [];
+    let spent = 0;
 
     for (let i = 0; i < files.length; i++) {
       const file = files[i];
-      const arrayBuffer = await file.arrayBuffer();
-      const targetKB = targetSizes[file.name] as number;
-      const targetBytes = targetKB * 1024;
-
-      const compressedBuffer = arrayBuffer.slice(0, targetBytes);
-      const blob = new Blob([compressedBuffer], { type: file.type });
+      // In budget mode, re-split what is left over the remaining files so
+      // bytes saved on earlier files flow to later ones.
+      const targetBytes = useBatchBudget
+        ? Math.max(1, allocateBudget(items.slice(i), budgetBytes - spent)[0])
+        : (targetSizes[file.name] as number) * 1024;
 
-      zip.file(file.name, blob);
-      results.push({
-        name: file.name,
-        size: file.size,
-        compressed: blob.size,
-        blob,
-      });
+      try {
+        const result = await compressOne(file, targetBytes);
+        zip.file(result.name, result.blob);
+        results.push(result);
+        spent += result.compressed;
+      } catch (err) {
+        console.error(`Failed to compress ${file.name}:`, err);
+        failed.push(file.name);
+      }
 
       setProgress(Math.round(((i + 1) / files.length) * 100));
     }
 
-    const generatedZip = await zip.generateAsync({ type: "blob" });
+    const generatedZip = results.length
+      ? await zip.generateAsync({ type: "blob" })
+      : null;
     setCompressedResults(results);
+    setFailedFiles(failed);
     setZipBlob(generatedZip);
+    setBudgetSummary(
+      useBatchBudget ? { budget: budgetBytes, achieved: spent } : null
+    );
     setIsProcessing(false);
     setShowPreview(true);
 
+    const missed = results.filter((r) => !r.reached).length;
     toast({
-      title: "Compression complete",
-      description: "Preview results before downloading.",
+      title: missed ? "Some targets not reachable" : "Compression complete",
+      description: missed
+        ? `${missed} file(s) could not reach their target; the smallest achievable size is shown.`
+        : failed.length
+        ? `${failed.length} file(s) could not be processed.`
+        : "Preview results before downloading.",
+      variant: missed || failed.length ? "destructive" : undefined,
     });
   };
 
@@ -199,7 +335,9 @@ const TargetCompressor: React.FC = () => {
             <Card>
               <CardHeader>
                 <CardTitle>Select Files</CardTitle>
-                <CardDescription>Pick files to compress.</CardDescription>
+                <CardDescription>
+                  Pick JPG, PNG, WebP images or PDFs to compress.
+                </CardDescription>
               </CardHeader>
               <CardContent>
                 <div className="border border-dashed rounded-md p-4">
@@ -210,6 +348,7 @@ const TargetCompressor: React.FC = () => {
                     id="file-input"
                     type="file"
                     multiple
+                    accept={ACCEPTED_TYPES.join(",")}
                     onChange={(e) => onPick(e.target.files)}
                   />
                   {files.length > 0 && (
@@ -276,75 +415,123 @@ const TargetCompressor: React.FC = () => {
               </CardHeader>
             </Card>
 
-            {/* Target Sizes */}
+            {/* Batch Budget */}
             <Card>
-              <CardHeader>
-                <CardTitle>Set Target Sizes</CardTitle>
-                <CardDescription>
-                  Adjust manually or use default sizes.
-                </CardDescription>
+              <CardHeader className="flex flex-row items-center justify-between">
+                <div>
+                  <CardTitle>Whole-Batch Budget</CardTitle>
+                  <CardDescription>
+                    One total size for all files, split by image complexity
+                  </CardDescription>
+                </div>
+                <Switch
+                  checked={useBatchBudget}
+                  onCheckedChange={setUseBatchBudget}
+                />
               </CardHeader>
-              <CardContent>
-                {files.length > 0 ? (
-                  <div className="space-y-4">
-                    {files.map((file, idx) => {
-                      const targetSize = targetSizes[file.name] || "";
-                      const fileSizeKB = Math.round(file.size / 1024);
+              {useBatchBudget && (
+                <CardContent className="flex items-center space-x-2">
+                  <Input
+                    type="number"
+                    min={1}
+                    step="any"
+                    className="w-32"
+                    value={budgetValue}
+                    onChange={(e) =>
+                      setBudgetValue(
+                        e.target.value === "" ? "" : Number(e.target.value)
+                      )
+                    }
+                  />
+                  <select
+                    className="p-2 rounded border"
+                    value={budgetUnit}
+                    onChange={(e) =>
+                      setBudgetUnit(e.target.value as "KB" | "MB")
+                    }
+                  >
+                    <option value="KB">KB</option>
+                    <option value="MB">MB</option>
+                  </select>
+                  <span className="text-xs text-muted-foreground">
+                    Current total:{" "}
+                    {formatSize(files.reduce((s, f) => s + f.size, 0))}
+                  </span>
+                </CardContent>
+              )}
+            </Card>
 
-                      return (
-                        <div
-                          key={idx}
-                          className="flex items-center justify-between border-b pb-2"
-                        >
-                          <div className="flex flex-col w-2/3">
-                            <span className="truncate font-medium">
-                              {file.name}
-                            </span>
-                            <span className="text-xs text-muted-foreground">
-                              Original: {formatSize(file.size)}
-                            </span>
-                          </div>
+            {/* Target Sizes */}
+            {!useBatchBudget && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Set Target Sizes</CardTitle>
+                  <CardDescription>
+                    Adjust manually or use default sizes.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {files.length > 0 ? (
+                    <div className="space-y-4">
+                      {files.map((file, idx) => {
+                        const targetSize = targetSizes[file.name] || "";
+                        const fileSizeKB = Math.round(file.size / 1024);
 
-                          <div className="flex items-center space-x-2">
-                            <Input
-                              type="number"
-                              min={1}
-                              max={fileSizeKB}
-                              placeholder="Set size"
-                              className="w-24"
-                              value={targetSize}
-                              onChange={(e) => {
-                                if (useDefaultSize) return; // disable input when default is on
-                                const value = e.target.value;
-                                if (
-                                  value === "" ||
-                                  (parseInt(value) > 0 &&
-                                    parseInt(value) <= fileSizeKB)
-                                ) {
-                                  setTargetSizes({
-                                    ...targetSizes,
-                                    [file.name]:
-                                      value === "" ? "" : parseInt(value),
-                                  });
-                                }
-                              }}
-                              disabled={useDefaultSize}
-                            />
-                            <span className="text-xs text-muted-foreground">
-                              KB
-                            </span>
+                        return (
+                          <div
+                            key={idx}
+                            className="flex items-center justify-between border-b pb-2"
+                          >
+                            <div className="flex flex-col w-2/3">
+                              <span className="truncate font-medium">
+                                {file.name}
+                              </span>
+                              <span className="text-xs text-muted-foreground">
+                                Original: {formatSize(file.size)}
+                              </span>
+                            </div>
+
+                            <div className="flex items-center space-x-2">
+                              <Input
+                                type="number"
+                                min={1}
+                                max={fileSizeKB}
+                                placeholder="Set size"
+                                className="w-24"
+                                value={targetSize}
+                                onChange={(e) => {
+                                  if (useDefaultSize) return; // disable input when default is on
+                                  const value = e.target.value;
+                                  if (
+                                    value === "" ||
+                                    (parseInt(value) > 0 &&
+                                      parseInt(value) <= fileSizeKB)
+                                  ) {
+                                    setTargetSizes({
+                                      ...targetSizes,
+                                      [file.name]:
+                                        value === "" ? "" : parseInt(value),
+                                    });
+                                  }
+                                }}
+                                disabled={useDefaultSize}
+                              />
+                              <span className="text-xs text-muted-foreground">
+                                KB
+                              </span>
+                            </div>
                           </div>
-                        </div>
-                      );
-                    })}
-                  </div>
-                ) : (
-                  <div className="text-sm text-muted-foreground">
-                    Select files to set sizes.
-                  </div>
-                )}
-              </CardContent>
-            </Card>
+                        );
+                      })}
+                    </div>
+                  ) : (
+                    <div className="text-sm text-muted-foreground">
+                      Select files to set sizes.
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            )}
 
             {/* Actions */}
             <Card>
@@ -397,25 +584,64 @@ const TargetCompressor: React.FC = () => {
                   {compressedResults.length > 0 ? (
                     <div className="text-sm space-y-2">
                       {compressedResults.map((r, idx) => (
-                        <div
-                          key={idx}
-                          className="flex justify-between border-b py-1 items-center"
-                        >
-                          <span className="truncate max-w-[60%]">{r.name}</span>
-                          <div className="flex items-center space-x-2">
-                            <span>
-                              {formatSize(r.size)} → {formatSize(r.compressed)}
-                            </span>
-                            <Button
-                              size="sm"
-                              variant="ghost"
-                              onClick={() => downloadSingle(r.blob, r.name)}
-                            >
-                              <Download className="w-4 h-4" />
-                            </Button>
+                        <div key={idx} className="border-b py-1">
+                          <div className="flex justify-between items-center">
+                            <div className="flex flex-col max-w-[60%]">
+                              <span className="truncate">{r.name}</span>
+                              <span className="text-xs text-muted-foreground">
+                                {r.detail}
+                              </span>
+                            </div>
+                            <div className="flex items-center space-x-2">
+                              {budgetSummary && (
+                                <Badge variant="outline">
+                                  {formatSize(r.targetBytes)} allocated
+                                </Badge>
+                              )}
+                              <span>
+                                {formatSize(r.size)} →{" "}
+                                {formatSize(r.compressed)}
+                              </span>
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={() => downloadSingle(r.blob, r.name)}
+                              >
+                                <Download className="w-4 h-4" />
+                              </Button>
+                            </div>
                           </div>
+                          {!r.reached && (
+                            <div className="flex items-center text-xs text-destructive mt-1">
+                              <AlertTriangle className="w-3 h-3 mr-1" />
+                              Target {formatSize(r.targetBytes)} not reachable.
+                              Smallest achievable: {formatSize(r.compressed)}.
+                            </div>
+                          )}
                         </div>
                       ))}
+                      {budgetSummary && (
+                        <div
+                          className={`flex justify-between pt-2 font-medium ${
+                            budgetSummary.achieved > budgetSummary.budget
+                              ? "text-destructive"
+                              : ""
+                          }`}
+                        >
+                          <span className="flex items-center">
+                            <Wallet className="w-4 h-4 mr-1" /> Batch total
+                          </span>
+                          <span>
+                            {formatSize(budgetSummary.achieved)} of{" "}
+                            {formatSize(budgetSummary.budget)} budget
+                          </span>
+                        </div>
+                      )}
+                      {failedFiles.length > 0 && (
+                        <div className="pt-2 text-destructive">
+                          Skipped (could not compress): {failedFiles.join(", ")}
+                        </div>
+                      )}
                     </div>
                   ) : (
                     <div className="text-sm text-muted-foreground">
@@ -440,6 +666,18 @@ const TargetCompressor: React.FC = () => {
                 <p>• Disable it for manual control.</p>
                 <p>• Preview before downloading ZIP.</p>
                 <p>• Ensures target size never exceeds file size.</p>
+                <p>
+                  • Images try quality, then downscaling, then a smaller format
+                  (e.g. PNG → WebP).
+                </p>
+                <p>• PDFs recompress embedded images at lower DPI.</p>
+                <p>
+                  • Batch budget gives detailed photos more bytes than flat
+                  graphics; savings on one file go to the next.
+                </p>
+                <p>
+                  • Unreachable targets report the smallest achievable size.
+                </p>
               </CardContent>
             </Card>
           </div>
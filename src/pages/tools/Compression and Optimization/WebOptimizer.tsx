@@ -21,15 +21,52 @@ import {
   Loader2,
   Target,
   Image as ImageIcon,
+  Copy,
+  Package,
+  FileCode,
+  FileJson,
 } from "lucide-react";
+import JSZip from "jszip";
 import { useToast } from "@/hooks/use-toast";
 import FileUploader from "@/components/FileUploader";
+import {
+  detectAlpha,
+  encodeCanvas,
+  type AlphaInfo,
+} from "@/utils/imageCompression";
+import type { JpegEncoderSettings } from "@/utils/jpegEncoder";
+import {
+  bundleFormatsFor,
+  buildManifest,
+  buildPictureMarkup,
+  hashedName,
+  sha256Hex,
+  slugify,
+  type BundleImage,
+  type BundleOptions,
+  type BundleVariant,
+} from "@/utils/webBundle";
+import {
+  optimizeSvg,
+  rasterizeSvg,
+  svgIntrinsicSize,
+  type SvgOptimizeReport,
+} from "@/utils/svgOptimize";
+import {
+  blurHashToDataUrl,
+  buildPlaceholderManifest,
+  generatePlaceholder,
+  type Placeholder,
+} from "@/utils/placeholders";
 
 // NOTE: This component follows the UI and layout of your ImageCompress tool
 // and adds Web-optimization features: format choice (Original/WebP/AVIF/JPEG/PNG),
 // responsive size generation (toggleable), quality controls, EXIF stripping (canvas)
-// and lazy preview. Some low-level features (like forcing progressive JPEG encoding)
-// are not controllable via canvas in browsers — see comments in helper functions.
+// and lazy preview. Progressive JPEG and chroma subsampling are not controllable
+// via canvas, so those options route JPEG output through utils/jpegEncoder.
+// SVG input is never rasterized: the markup itself is optimized
+// (utils/svgOptimize), with optional PNG exports for legacy consumers.
+// Raster images can also carry lazy-loading placeholders (utils/placeholders).
 
 // ---------- low-level helpers ----------
 
@@ -93,7 +130,8 @@ const extFromType = (type: string): string => {
   return "bin";
 };
 
-// Try to pick an output mime-type based on user selection and image alpha
+// Try to pick an output mime-type based on user selection and image alpha.
+// `alpha` means real transparency; an opaque alpha channel can still go to JPEG.
 const pickOutputType = (
   originalType: string,
   chosen: string,
@@ -103,11 +141,12 @@ const pickOutputType = (
   if (chosen === "auto") {
     // prefer avif -> webp -> jpeg
     if (typeof (window as any).ImageBitmap === "function") return "image/webp";
-    return "image/jpeg";
+    return alpha ? "image/png" : "image/jpeg";
   }
   if (chosen === "avif") return "image/avif";
   if (chosen === "webp") return "image/webp";
-  if (chosen === "jpeg") return "image/jpeg";
+  // JPEG would flatten transparent areas to white; keep alpha with WebP instead
+  if (chosen === "jpeg") return alpha ? "image/webp" : "image/jpeg";
   if (chosen === "png") return "image/png";
   return originalType;
 };
@@ -124,11 +163,9 @@ const resizeCanvasFor = (
   return drawToCanvas(img, width, height, flattenToWhite);
 };
 
-// NOTE: Browsers' canvas API does not provide a way to force progressive JPEG encoding.
-// Creating progressive JPEGs typically requires a dedicated encoder (server-side or WASM)
-// so the `enableProgressiveJpeg` option in the UI is considered a *best-effort* flag
-// and will only be honored when the browser's encoder supports it (rare). We still
-// produce baseline JPEGs via canvas which are broadly supported.
+// NOTE: Browsers' canvas API cannot produce progressive JPEGs or choose chroma
+// subsampling. When the user asks for either, JPEG output goes through the JS
+// encoder (encodeCanvas); otherwise the browser's baseline encoder is used.
 
 // ---------- main optimizer utility ----------
 
@@ -138,10 +175,64 @@ type ProcessedFile = {
   size: number;
   url: string; // object URL for preview/download
   variants?: { width: number | "orig"; file: File; url: string }[];
+  bundle?: BundleImage; // AVIF/WebP/JPEG set + <picture> markup
+  alpha?: AlphaInfo; // raster inputs only
+  note?: string; // why the output format differs from the one requested
+  svg?: SvgOptimizeReport; // what the SVG optimizer removed
+  placeholder?: Placeholder; // LQIP, BlurHash and dominant color
 };
 
 const DEFAULT_RESPONSIVE_SIZES = [480, 720, 1080];
 
+// Encode every responsive width (plus the original width) in each bundle
+// format and name the files by content hash.
+const buildBundle = async (
+  img: HTMLImageElement,
+  file: File,
+  widths: number[],
+  quality: number,
+  transparent: boolean,
+  bundleOptions: BundleOptions,
+  jpeg?: JpegEncoderSettings
+): Promise<BundleImage> => {
+  const slug = slugify(file.name);
+  const targetWidths = Array.from(
+    new Set([...widths.filter((w) => w > 0 && w < img.width), img.width])
+  ).sort((a, b) => a - b);
+
+  const variants: BundleVariant[] = [];
+  for (const mime of bundleFormatsFor(transparent)) {
+    for (const w of targetWidths) {
+      const c = resizeCanvasFor(img, w, mime === "image/jpeg");
+      const blob = await encodeCanvas(c, mime, quality, jpeg);
+      // Browsers without an encoder for this type silently return PNG; skip the format.
+      if (blob.type !== mime) break;
+      const hash = await sha256Hex(blob);
+      const name = hashedName(slug, c.width, hash, extFromType(mime));
+      variants.push({
+        file: new File([blob], name, { type: mime }),
+        width: c.width,
+        height: c.height,
+        mime,
+        bytes: blob.size,
+        hash,
+      });
+    }
+  }
+
+  const image = {
+    source: file.name,
+    width: img.width,
+    height: img.height,
+    variants,
+  };
+  return {
+    ...image,
+    html: buildPictureMarkup(image, bundleOptions),
+    options: bundleOptions,
+  };
+};
+
 const optimizeImage = async (
   file: File,
   options: {
@@ -149,19 +240,44 @@ const optimizeImage = async (
     quality: number; // 0-1
     generateResponsive: boolean;
     responsiveSizes: number[];
-    progressiveJpeg: boolean; // best-effort
+    jpeg?: JpegEncoderSettings; // JS encoder for JPEG output when set
     stripMetadata: boolean; // canvas will naturally strip metadata
     lazyPreview: boolean; // affects how we present the preview
+    placeholders: boolean; // LQIP + BlurHash + dominant color
+    pictureBundle: boolean; // hashed AVIF/WebP/JPEG set + <picture> snippet
+    bundleOptions: BundleOptions;
   }
 ): Promise<ProcessedFile> => {
   const img = await loadImageFromFile(file);
-  const alpha = false; // we detect alpha by drawing but for simplicity treat flatten when output jpeg
-  const chosenType = pickOutputType(file.type, options.outputFormat, alpha);
-  const flatten = chosenType === "image/jpeg" && true; // flatten to white for jpeg
+  const alpha = await detectAlpha(file, img);
+  const requestedType = pickOutputType(
+    file.type,
+    options.outputFormat,
+    alpha.transparent
+  );
+  const flatten = requestedType === "image/jpeg"; // opaque or alpha-free here
 
   // Produce main optimized file at original dimensions
   const canvas = drawToCanvas(img, img.width, img.height, flatten);
-  const mainBlob = await canvasToBlob(canvas, chosenType, options.quality);
+  const mainBlob = await encodeCanvas(
+    canvas,
+    requestedType,
+    options.quality,
+    options.jpeg
+  );
+  // Canvas falls back to PNG for types it cannot encode (often AVIF)
+  const chosenType = mainBlob.type || requestedType;
+
+  let note: string | undefined;
+  if (options.outputFormat === "jpeg" && requestedType !== "image/jpeg") {
+    note = "Transparent image: saved as WebP instead of JPEG";
+  } else if (chosenType !== requestedType) {
+    note = `${extFromType(
+      requestedType
+    ).toUpperCase()} encoding unsupported: saved as ${extFromType(
+      chosenType
+    ).toUpperCase()}`;
+  }
 
   const base = file.name.replace(/\.[^.]+$/, "");
   const outExt = extFromType(chosenType);
@@ -175,6 +291,9 @@ const optimizeImage = async (
     file: mainFile,
     size: mainFile.size,
     url: mainUrl,
+    alpha,
+    note,
+    placeholder: options.placeholders ? generatePlaceholder(img) : undefined,
   };
 
   if (options.generateResponsive) {
@@ -186,7 +305,12 @@ const optimizeImage = async (
       }
       const c = resizeCanvasFor(img, w, flatten);
       // quality for responsive variants could be slightly higher to preserve clarity
-      const b = await canvasToBlob(c, chosenType, options.quality);
+      const b = await encodeCanvas(
+        c,
+        chosenType,
+        options.quality,
+        options.jpeg
+      );
       const f = new File(
         [b],
         `${base}_optimized_${w}.${extFromType(chosenType)}`,
@@ -199,6 +323,63 @@ const optimizeImage = async (
     }
   }
 
+  if (options.pictureBundle) {
+    processed.bundle = await buildBundle(
+      img,
+      file,
+      options.responsiveSizes,
+      options.quality,
+      alpha.transparent,
+      options.bundleOptions,
+      options.jpeg
+    );
+    processed.bundle.placeholder = processed.placeholder;
+  }
+
+  return processed;
+};
+
+const isSvgFile = (file: File) =>
+  file.type === "image/svg+xml" || /\.svg$/i.test(file.name);
+
+const SVG_PNG_SCALES = [1, 2, 3];
+
+const optimizeSvgFile = async (
+  file: File,
+  options: {
+    precision: number; // decimal places kept in coordinates
+    minifyIds: boolean;
+    exportPng: boolean; // also render PNG at 1x/2x/3x
+  }
+): Promise<ProcessedFile> => {
+  const { svg, report } = optimizeSvg(await file.text(), options);
+  const base = file.name.replace(/\.[^.]+$/, "");
+  const mainFile = new File([svg], `${base}_optimized.svg`, {
+    type: "image/svg+xml",
+  });
+
+  const processed: ProcessedFile = {
+    name: mainFile.name,
+    file: mainFile,
+    size: mainFile.size,
+    url: URL.createObjectURL(mainFile),
+    svg: report,
+  };
+
+  if (options.exportPng) {
+    const { width } = svgIntrinsicSize(svg);
+    processed.variants = [];
+    for (const scale of SVG_PNG_SCALES) {
+      const png = await rasterizeSvg(svg, scale);
+      const suffix = scale === 1 ? "" : `@${scale}x`;
+      const f = new File([png], `${base}${suffix}.png`, { type: "image/png" });
+      processed.variants.push({
+        width: Math.max(1, Math.round(width * scale)),
+        file: f,
+        url: URL.createObjectURL(f),
+      });
+    }
+  }
   return processed;
 };
 
@@ -221,8 +402,17 @@ const WebOptimizer: React.FC = () => {
     DEFAULT_RESPONSIVE_SIZES
   );
   const [progressiveJpeg, setProgressiveJpeg] = useState(false);
+  const [optimizeHuffman, setOptimizeHuffman] = useState(false);
+  const [chroma, setChroma] = useState<"browser" | "444" | "420">("browser");
   const [stripMetadata, setStripMetadata] = useState(true);
   const [lazyPreview, setLazyPreview] = useState(true);
+  const [placeholders, setPlaceholders] = useState(true);
+  const [pictureBundle, setPictureBundle] = useState(false);
+  const [bundleBasePath, setBundleBasePath] = useState("/images/");
+  const [bundleSizes, setBundleSizes] = useState("100vw");
+  const [svgPrecision, setSvgPrecision] = useState(3);
+  const [svgMinifyIds, setSvgMinifyIds] = useState(false);
+  const [svgExportPng, setSvgExportPng] = useState(false);
 
   const { toast } = useToast();
 
@@ -266,6 +456,51 @@ const WebOptimizer: React.FC = () => {
     );
   };
 
+  const copySnippet = async (html: string) => {
+    try {
+      await navigator.clipboard.writeText(html);
+      toast({ title: "Copied", description: "<picture> markup copied." });
+    } catch (err) {
+      console.error(err);
+      toast({
+        title: "Copy failed",
+        description: "Select the snippet and copy it manually.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // images/ + picture.html + images.json, ready to drop into a static site
+  const downloadBundleZip = async () => {
+    const bundles = processedFiles
+      .map((p) => p.bundle)
+      .filter((b): b is BundleImage => !!b);
+    if (bundles.length === 0) return;
+
+    const zip = new JSZip();
+    const folder = zip.folder("images");
+    bundles.forEach((b) =>
+      b.variants.forEach((v) => folder?.file(v.file.name, v.file))
+    );
+    zip.file("picture.html", bundles.map((b) => b.html).join("\n\n") + "\n");
+    zip.file("images.json", JSON.stringify(buildManifest(bundles), null, 2));
+
+    const zipBlob = await zip.generateAsync({ type: "blob" });
+    downloadFile(new File([zipBlob], "web_bundle.zip"));
+  };
+
+  // Placeholders for every optimized raster image, keyed by output filename
+  const downloadPlaceholderManifest = () => {
+    const entries = processedFiles
+      .filter((p) => p.placeholder)
+      .map((p) => ({ file: p.name, placeholder: p.placeholder! }));
+    if (entries.length === 0) return;
+    const json = JSON.stringify(buildPlaceholderManifest(entries), null, 2);
+    downloadFile(
+      new File([json], "placeholders.json", { type: "application/json" })
+    );
+  };
+
   const handleOptimize = async () => {
     if (selectedFiles.length === 0) {
       toast({
@@ -279,6 +514,14 @@ const WebOptimizer: React.FC = () => {
     setIsProcessing(true);
     setProgress(0);
     const out: ProcessedFile[] = [];
+    const jpeg: JpegEncoderSettings | undefined =
+      progressiveJpeg || optimizeHuffman || chroma !== "browser"
+        ? {
+            progressive: progressiveJpeg,
+            optimizeHuffman,
+            subsampling: chroma === "444" ? "444" : "420",
+          }
+        : undefined;
 
     try {
       for (let i = 0; i < selectedFiles.length; i++) {
@@ -288,12 +531,21 @@ const WebOptimizer: React.FC = () => {
           quality: quality / 100,
           generateResponsive: generateResponsive,
           responsiveSizes: responsiveSizes,
-          progressiveJpeg: progressiveJpeg,
+          jpeg,
           stripMetadata: stripMetadata,
           lazyPreview: lazyPreview,
+          placeholders: placeholders,
+          pictureBundle: pictureBundle,
+          bundleOptions: { basePath: bundleBasePath, sizes: bundleSizes },
         };
 
-        const p = await optimizeImage(file, opts);
+        const p = isSvgFile(file)
+          ? await optimizeSvgFile(file, {
+              precision: svgPrecision,
+              minifyIds: svgMinifyIds,
+              exportPng: svgExportPng,
+            })
+          : await optimizeImage(file, opts);
         out.push(p);
         setProgress(((i + 1) / selectedFiles.length) * 100);
       }
@@ -361,13 +613,19 @@ const WebOptimizer: React.FC = () => {
               <CardHeader>
                 <CardTitle>Select Images</CardTitle>
                 <CardDescription>
-                  Upload images to optimize. Supports JPG, PNG, WebP formats.
+                  Upload images to optimize. Supports JPG, PNG, WebP and SVG
+                  formats.
                 </CardDescription>
               </CardHeader>
               <CardContent>
                 <FileUploader
                   onFilesSelected={handleFilesSelected}
-                  acceptedTypes={["image/jpeg", "image/png", "image/webp"]}
+                  acceptedTypes={[
+                    "image/jpeg",
+                    "image/png",
+                    "image/webp",
+                    "image/svg+xml",
+                  ]}
                   maxFiles={20}
                   files={selectedFiles}
                   onRemoveFile={handleRemoveFile}
@@ -431,7 +689,7 @@ const WebOptimizer: React.FC = () => {
                     </Label>
                   </div>
 
-                  {generateResponsive && (
+                  {(generateResponsive || pictureBundle) && (
                     <div className="space-y-2">
                       <Label>Responsive widths (comma separated)</Label>
                       <Input
@@ -457,7 +715,31 @@ const WebOptimizer: React.FC = () => {
                         checked={progressiveJpeg}
                         onCheckedChange={setProgressiveJpeg}
                       />
-                      <Label>Try progressive JPEG (best-effort)</Label>
+                      <Label>Progressive JPEG</Label>
+                    </div>
+
+                    <div className="flex items-center space-x-2">
+                      <Switch
+                        checked={optimizeHuffman || progressiveJpeg}
+                        disabled={progressiveJpeg}
+                        onCheckedChange={setOptimizeHuffman}
+                      />
+                      <Label>Optimize Huffman tables</Label>
+                    </div>
+
+                    <div>
+                      <Label>Chroma subsampling</Label>
+                      <select
+                        className="mt-1 w-full p-2 rounded border"
+                        value={chroma}
+                        onChange={(e) =>
+                          setChroma(e.target.value as "browser" | "444" | "420")
+                        }
+                      >
+                        <option value="browser">Browser default</option>
+                        <option value="420">4:2:0 (smaller)</option>
+                        <option value="444">4:4:4 (sharper color edges)</option>
+                      </select>
                     </div>
 
                     <div className="flex items-center space-x-2">
@@ -476,8 +758,97 @@ const WebOptimizer: React.FC = () => {
                     />
                     <Label>Lazy-load preview</Label>
                   </div>
+
+                  <div className="flex items-center space-x-2">
+                    <Switch
+                      checked={placeholders}
+                      onCheckedChange={setPlaceholders}
+                    />
+                    <Label>
+                      Generate placeholders (LQIP, BlurHash, dominant color)
+                    </Label>
+                  </div>
+
+                  <div className="flex items-center space-x-2">
+                    <Switch
+                      checked={pictureBundle}
+                      onCheckedChange={setPictureBundle}
+                    />
+                    <Label className="flex items-center">
+                      <Package className="w-4 h-4 mr-1" /> Generate
+                      &lt;picture&gt; bundle (AVIF/WebP/JPEG + manifest)
+                    </Label>
+                  </div>
+
+                  {pictureBundle && (
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label>URL prefix</Label>
+                        <Input
+                          value={bundleBasePath}
+                          onChange={(e) => setBundleBasePath(e.target.value)}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label>sizes attribute</Label>
+                        <Input
+                          value={bundleSizes}
+                          onChange={(e) => setBundleSizes(e.target.value)}
+                        />
+                      </div>
+                      <p className="col-span-2 text-sm text-muted-foreground">
+                        Files are named by content hash. Formats the browser
+                        cannot encode (often AVIF) are left out.
+                      </p>
+                    </div>
+                  )}
                 </div>
 
+                {selectedFiles.some(isSvgFile) && (
+                  <div className="space-y-3 pt-4 border-t">
+                    <Label className="flex items-center">
+                      <FileCode className="w-4 h-4 mr-1" /> SVG files
+                    </Label>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <Label>Coordinate precision</Label>
+                        <select
+                          className="mt-1 w-full p-2 rounded border"
+                          value={svgPrecision}
+                          onChange={(e) =>
+                            setSvgPrecision(Number(e.target.value))
+                          }
+                        >
+                          {[0, 1, 2, 3, 4, 5].map((n) => (
+                            <option key={n} value={n}>
+                              {n} decimal{n === 1 ? "" : "s"}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        <Switch
+                          checked={svgMinifyIds}
+                          onCheckedChange={setSvgMinifyIds}
+                        />
+                        <Label>Minify IDs</Label>
+                      </div>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <Switch
+                        checked={svgExportPng}
+                        onCheckedChange={setSvgExportPng}
+                      />
+                      <Label>Also export PNG at 1x/2x/3x</Label>
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      Removes editor metadata, comments and hidden elements,
+                      collapses redundant groups and rounds path data. Format,
+                      quality and bundle settings apply to raster images only.
+                    </p>
+                  </div>
+                )}
+
                 <Button
                   onClick={handleOptimize}
                   disabled={selectedFiles.length === 0 || isProcessing}
@@ -592,6 +963,26 @@ const WebOptimizer: React.FC = () => {
                     <Download className="w-4 h-4 mr-2" />
                     Download All ({processedFiles.length})
                   </Button>
+                  {processedFiles.some((p) => p.bundle) && (
+                    <Button
+                      onClick={downloadBundleZip}
+                      variant="outline"
+                      className="w-full"
+                    >
+                      <Package className="w-4 h-4 mr-2" />
+                      Download bundle ZIP
+                    </Button>
+                  )}
+                  {processedFiles.some((p) => p.placeholder) && (
+                    <Button
+                      onClick={downloadPlaceholderManifest}
+                      variant="outline"
+                      className="w-full"
+                    >
+                      <FileJson className="w-4 h-4 mr-2" />
+                      Download placeholders.json
+                    </Button>
+                  )}
 
                   {processedFiles.map((p, idx) => (
                     <div key={idx} className="p-2 border rounded space-y-2">
@@ -603,6 +994,30 @@ const WebOptimizer: React.FC = () => {
                           <p className="text-xs text-muted-foreground">
                             {formatFileSize(p.size)}
                           </p>
+                          {p.svg && (
+                            <p className="text-xs text-muted-foreground">
+                              {formatFileSize(p.svg.originalBytes)} →{" "}
+                              {formatFileSize(p.svg.optimizedBytes)} (
+                              {Math.round(
+                                (1 -
+                                  p.svg.optimizedBytes / p.svg.originalBytes) *
+                                  100
+                              )}
+                              % smaller) • removed {p.svg.comments} comments,{" "}
+                              {p.svg.metadata} metadata, {p.svg.hidden} hidden,{" "}
+                              {p.svg.groups} groups • {p.svg.ids} IDs minified
+                            </p>
+                          )}
+                          {p.alpha?.hasChannel && (
+                            <Badge variant="outline" className="mt-1 text-xs">
+                              {p.alpha.transparent
+                                ? "Transparent"
+                                : "Alpha channel, fully opaque"}
+                            </Badge>
+                          )}
+                          {p.note && (
+                            <p className="text-xs text-amber-600">{p.note}</p>
+                          )}
                         </div>
                         <div className="flex items-center space-x-2">
                           <Button
@@ -643,12 +1058,81 @@ const WebOptimizer: React.FC = () => {
                         </div>
                       )}
 
-                      <div className="pt-2 border-t">
+                      {p.bundle && (
+                        <div className="pt-2 border-t space-y-2">
+                          <div className="flex items-center justify-between">
+                            <div className="text-sm font-medium">
+                              &lt;picture&gt; markup
+                            </div>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => copySnippet(p.bundle!.html)}
+                            >
+                              <Copy className="w-3 h-3" />
+                            </Button>
+                          </div>
+                          <pre className="text-xs bg-muted p-2 rounded overflow-x-auto whitespace-pre">
+                            {p.bundle.html}
+                          </pre>
+                          <div className="text-xs text-muted-foreground">
+                            {p.bundle.variants.length} files •{" "}
+                            {formatFileSize(
+                              p.bundle.variants.reduce((s, v) => s + v.bytes, 0)
+                            )}
+                          </div>
+                        </div>
+                      )}
+
+                      <div className="pt-2 border-t flex gap-2">
+                        {p.placeholder && (
+                          <div className="w-1/4 space-y-2 text-xs text-muted-foreground">
+                            <div>
+                              <img
+                                src={p.placeholder.lqip}
+                                alt="LQIP"
+                                className="w-full rounded object-cover blur-sm"
+                                style={{
+                                  aspectRatio: `${p.placeholder.width} / ${p.placeholder.height}`,
+                                }}
+                              />
+                              <div>
+                                LQIP •{" "}
+                                {formatFileSize(p.placeholder.lqip.length)}
+                              </div>
+                            </div>
+                            <div>
+                              <img
+                                src={blurHashToDataUrl(p.placeholder.blurhash)}
+                                alt="BlurHash"
+                                className="w-full rounded"
+                                style={{
+                                  aspectRatio: `${p.placeholder.width} / ${p.placeholder.height}`,
+                                }}
+                              />
+                              <div className="truncate font-mono">
+                                {p.placeholder.blurhash}
+                              </div>
+                            </div>
+                            <div>
+                              <div
+                                className="w-full rounded border"
+                                style={{
+                                  aspectRatio: `${p.placeholder.width} / ${p.placeholder.height}`,
+                                  backgroundColor: p.placeholder.dominantColor,
+                                }}
+                              />
+                              <div className="font-mono">
+                                {p.placeholder.dominantColor}
+                              </div>
+                            </div>
+                          </div>
+                        )}
                         <img
                           src={p.url}
                           alt={p.name}
                           loading={lazyPreview ? "lazy" : "eager"}
-                          className="w-full h-auto rounded"
+                          className="flex-1 min-w-0 h-auto rounded self-start"
                         />
                       </div>
                     </div>
@@ -16,19 +16,22 @@ import FileUploader from "@/components/FileUploader";
 import * as mammoth from "mammoth";
 import { jsPDF } from "jspdf";
 import * as XLSX from "xlsx";
-import {
-  Document as DocxDocument,
-  Packer,
-  Paragraph,
-  TextRun,
-  Table,
-  TableRow,
-  TableCell,
-} from "docx";
 import * as pdfjsLib from "pdfjs-dist";
 import { saveAs } from "file-saver";
 // @ts-ignore
 import PptxGenJS from "pptxgenjs";
+import {
+  detectColumns,
+  groupItemsIntoRows,
+  itemsToXY,
+} from "@/utils/pdfLayout";
+import { pdfToDocx } from "@/utils/pdfToDocx";
+import { htmlToPdf } from "@/utils/htmlToPdf";
+import {
+  detectPageTables,
+  tableToSheet,
+  type PageTables,
+} from "@/utils/pdfTables";
 
 // Set up PDF.js worker
 pdfjsLib.GlobalWorkerOptions.workerSrc = new URL(
@@ -36,6 +39,55 @@ pdfjsLib.GlobalWorkerOptions.workerSrc = new URL(
   import.meta.url
 ).toString();
 
+// Tables found in one PDF, waiting for the user to confirm them
+type TablePreview = {
+  file: File;
+  pages: (PageTables & { image: string })[];
+  skipped: Set<string>; // "page:index" of tables left out of the export
+  // Pages without ruled tables, as text columns; each becomes its own sheet
+  textPages: { page: number; rows: string[][] }[];
+};
+
+// Spreadsheet rows for a page, with columns guessed from text positions
+const pageTextRows = async (page: pdfjsLib.PDFPageProxy) => {
+  const content = await page.getTextContent();
+  const xyItems = itemsToXY(content.items);
+  const rows = groupItemsIntoRows(xyItems, 4);
+  const colXs = detectColumns(rows);
+  const out: string[][] = [];
+
+  if (colXs.length > 1) {
+    for (const r of rows) {
+      const colTexts: string[] = new Array(colXs.length).fill("");
+      for (const it of r.items) {
+        let bestIdx = 0;
+        let bestDist = Infinity;
+        for (let ci = 0; ci < colXs.length; ci++) {
+          const d = Math.abs(it.x - colXs[ci]);
+          if (d < bestDist) {
+            bestDist = d;
+            bestIdx = ci;
+          }
+        }
+        colTexts[bestIdx] =
+          (colTexts[bestIdx] ? colTexts[bestIdx] + " " : "") + it.str;
+      }
+      out.push(colTexts.map((c) => c.trim()));
+    }
+  } else {
+    for (const r of rows)
+      out.push([
+        r.items
+          .map((it) => it.str)
+          .join(" ")
+          .trim(),
+      ]);
+  }
+  return out;
+};
+
+const PREVIEW_WIDTH = 480; // px, page thumbnails in the table preview
+
 type OutputFormat =
   | "pdf-to-word"
   | "pdf-to-excel"
@@ -52,6 +104,7 @@ const DocumentConversionTool: React.FC = () => {
   const [sessionSlides, setSessionSlides] = useState<
     { title?: string; text: string }[]
   >([]);
+  const [tablePreviews, setTablePreviews] = useState<TablePreview[]>([]);
   const { toast } = useToast();
 
   const handleFilesSelected = (files: File[]) => {
@@ -71,73 +124,16 @@ const DocumentConversionTool: React.FC = () => {
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i];
   };
 
-  /** ------------------ PDF helpers ------------------ **/
-  const round = (v: number, thresh = 2) => Math.round(v / thresh) * thresh;
-
-  const itemsToXY = (items: any[]) =>
-    items.map((it: any) => {
-      const transform = it.transform || it.tm || [1, 0, 0, 1, 0, 0];
-      return { x: transform[4] ?? 0, y: transform[5] ?? 0, str: it.str ?? "" };
-    });
-
-  const groupItemsIntoRows = (
-    xyItems: { x: number; y: number; str: string }[],
-    yThresh = 4
-  ) => {
-    const sorted = [...xyItems].sort((a, b) => b.y - a.y || a.x - b.x);
-    const rows: { y: number; items: { x: number; str: string }[] }[] = [];
-    for (const it of sorted) {
-      const yKey = round(it.y, yThresh);
-      const found = rows.find((r) => Math.abs(r.y - yKey) <= yThresh);
-      if (found) found.items.push({ x: it.x, str: it.str });
-      else rows.push({ y: yKey, items: [{ x: it.x, str: it.str }] });
-    }
-    rows.forEach((r) => r.items.sort((a, b) => a.x - b.x));
-    rows.sort((a, b) => b.y - a.y);
-    return rows;
-  };
-
-  const detectColumns = (
-    rows: { y: number; items: { x: number; str: string }[] }[]
-  ) => {
-    const xs: number[] = [];
-    for (const r of rows.slice(0, Math.min(rows.length, 30))) {
-      for (const it of r.items) xs.push(it.x);
-    }
-    xs.sort((a, b) => a - b);
-    const clusters: number[] = [];
-    const clusterThresh = 20;
-    for (const x of xs) {
-      if (
-        !clusters.length ||
-        Math.abs(x - clusters[clusters.length - 1]) > clusterThresh
-      )
-        clusters.push(x);
-      else
-        clusters[clusters.length - 1] = (clusters[clusters.length - 1] + x) / 2;
-    }
-    return clusters;
-  };
-
   /** ------------------ Conversion functions ------------------ **/
   const convertWordToPdf = async (file: File) => {
     const arrayBuffer = await file.arrayBuffer();
-    const result = await mammoth.extractRawText({ arrayBuffer });
-    const doc = new jsPDF();
-    const lines = result.value.split("\n");
-    const lineHeight = 10;
-    const pageHeight = doc.internal.pageSize.height as number;
-    let y = 10;
-
-    for (const line of lines) {
-      const text = line || " ";
-      if (y + lineHeight > pageHeight - 10) {
-        doc.addPage();
-        y = 10;
-      }
-      doc.text(text, 10, y);
-      y += lineHeight;
-    }
+    // Keep headings, lists, tables and images rather than flattening to
+    // text; mammoth drops underlines unless asked to keep them
+    const result = await mammoth.convertToHtml(
+      { arrayBuffer },
+      { styleMap: ["u => u"] }
+    );
+    const doc = await htmlToPdf(result.value);
     saveAs(doc.output("blob"), file.name.replace(/\.[^.]+$/, ".pdf"));
   };
 
@@ -159,110 +155,101 @@ const DocumentConversionTool: React.FC = () => {
     const arrayBuffer = await file.arrayBuffer();
     const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
 
-    const sections: any[] = [];
+    const blob = await pdfToDocx(pdf);
+    saveAs(blob, file.name.replace(/\.[^.]+$/, ".docx"));
+  };
+
+  const renderPagePreview = async (page: pdfjsLib.PDFPageProxy) => {
+    const base = page.getViewport({ scale: 1 });
+    const viewport = page.getViewport({ scale: PREVIEW_WIDTH / base.width });
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(viewport.width);
+    canvas.height = Math.round(viewport.height);
+    const ctx = canvas.getContext("2d")!;
+    await page.render({ canvas, canvasContext: ctx, viewport }).promise;
+    return canvas.toDataURL("image/jpeg", 0.8);
+  };
 
+  // Ruled tables go to a preview for confirmation (see exportTablePreview);
+  // other pages, or whole PDFs without any, fall back to columns guessed
+  // from text positions
+  const convertPdfToExcel = async (
+    file: File
+  ): Promise<TablePreview | null> => {
+    const arrayBuffer = await file.arrayBuffer();
+    const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
+    const pages: TablePreview["pages"] = [];
+    const textPages: TablePreview["textPages"] = [];
     for (let p = 1; p <= pdf.numPages; p++) {
       const page = await pdf.getPage(p);
-      const content = await page.getTextContent();
-      const xyItems = itemsToXY(content.items);
-      const rows = groupItemsIntoRows(xyItems, 4);
-      const colXs = detectColumns(rows);
-
-      const avgItemsPerRow = rows.length
-        ? rows.reduce((s, r) => s + r.items.length, 0) / rows.length
-        : 0;
-      const createTable = avgItemsPerRow > 1 && colXs.length > 1;
-
-      if (createTable) {
-        const tableRows: TableRow[] = [];
-        for (const r of rows) {
-          const cells: TableCell[] = [];
-          const colTexts: string[] = new Array(colXs.length).fill("");
-          for (const it of r.items) {
-            let bestIdx = 0;
-            let bestDist = Infinity;
-            for (let ci = 0; ci < colXs.length; ci++) {
-              const d = Math.abs(it.x - colXs[ci]);
-              if (d < bestDist) {
-                bestDist = d;
-                bestIdx = ci;
-              }
-            }
-            colTexts[bestIdx] =
-              (colTexts[bestIdx] ? colTexts[bestIdx] + " " : "") + it.str;
-          }
-          for (const ct of colTexts)
-            cells.push(new TableCell({ children: [new Paragraph(ct || "")] }));
-          tableRows.push(new TableRow({ children: cells }));
-        }
-        sections.push({
-          children: [
-            new Paragraph(`Page ${p}`),
-            new Table({ rows: tableRows }),
-          ],
-        });
+      const found = await detectPageTables(page);
+      if (found.tables.length) {
+        pages.push({ ...found, image: await renderPagePreview(page) });
       } else {
-        const paras: Paragraph[] = rows.map(
-          (r) =>
-            new Paragraph({
-              children: r.items.map((it) => new TextRun(it.str || "")),
-            })
-        );
-        sections.push({
-          children: [
-            new Paragraph({
-              children: [new TextRun({ text: `Page ${p}`, bold: true })],
-            }),
-            ...paras,
-          ],
-        });
+        const rows = await pageTextRows(page);
+        if (rows.some((r) => r.some(Boolean)))
+          textPages.push({ page: p, rows });
       }
     }
+    if (pages.length) return { file, pages, skipped: new Set(), textPages };
 
-    const doc = new DocxDocument({ sections });
-    const blob = await Packer.toBlob(doc);
-    saveAs(blob, file.name.replace(/\.[^.]+$/, ".docx"));
+    await convertPdfTextToExcel(file);
+    return null;
+  };
+
+  const exportTablePreview = (preview: TablePreview) => {
+    // Sheets in page order: the selected tables, or the text of the page
+    const sheets: { page: number; name: string; ws: XLSX.WorkSheet }[] = [];
+    for (const page of preview.pages) {
+      page.tables.forEach((table, i) => {
+        if (preview.skipped.has(`${page.page}:${i}`)) return;
+        sheets.push({
+          page: page.page,
+          name: `Page ${page.page} table ${i + 1}`,
+          ws: tableToSheet(table),
+        });
+      });
+    }
+    for (const { page, rows } of preview.textPages) {
+      sheets.push({
+        page,
+        name: `Page ${page} text`,
+        ws: XLSX.utils.aoa_to_sheet(rows),
+      });
+    }
+    const wb = XLSX.utils.book_new();
+    sheets
+      .sort((a, b) => a.page - b.page)
+      .forEach((s) => XLSX.utils.book_append_sheet(wb, s.ws, s.name));
+    if (!wb.SheetNames.length) {
+      toast({
+        title: "No tables selected",
+        description: "Select at least one table to export.",
+        variant: "destructive",
+      });
+      return;
+    }
+    const wbout = XLSX.write(wb, { bookType: "xlsx", type: "array" });
+    saveAs(new Blob([wbout]), preview.file.name.replace(/\.[^.]+$/, ".xlsx"));
+    setTablePreviews((prev) => prev.filter((p) => p !== preview));
   };
 
-  const convertPdfToExcel = async (file: File) => {
+  const toggleTable = (preview: TablePreview, key: string) => {
+    const skipped = new Set(preview.skipped);
+    if (skipped.has(key)) skipped.delete(key);
+    else skipped.add(key);
+    setTablePreviews((prev) =>
+      prev.map((p) => (p === preview ? { ...p, skipped } : p))
+    );
+  };
+
+  const convertPdfTextToExcel = async (file: File) => {
     const arrayBuffer = await file.arrayBuffer();
     const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
     const rowsOut: string[][] = [];
 
     for (let p = 1; p <= pdf.numPages; p++) {
-      const page = await pdf.getPage(p);
-      const content = await page.getTextContent();
-      const xyItems = itemsToXY(content.items);
-      const rows = groupItemsIntoRows(xyItems, 4);
-      const colXs = detectColumns(rows);
-
-      if (colXs.length > 1) {
-        for (const r of rows) {
-          const colTexts: string[] = new Array(colXs.length).fill("");
-          for (const it of r.items) {
-            let bestIdx = 0;
-            let bestDist = Infinity;
-            for (let ci = 0; ci < colXs.length; ci++) {
-              const d = Math.abs(it.x - colXs[ci]);
-              if (d < bestDist) {
-                bestDist = d;
-                bestIdx = ci;
-              }
-            }
-            colTexts[bestIdx] =
-              (colTexts[bestIdx] ? colTexts[bestIdx] + " " : "") + it.str;
-          }
-          rowsOut.push(colTexts.map((c) => c.trim()));
-        }
-      } else {
-        for (const r of rows)
-          rowsOut.push([
-            r.items
-              .map((it) => it.str)
-              .join(" ")
-              .trim(),
-          ]);
-      }
+      rowsOut.push(...(await pageTextRows(await pdf.getPage(p))));
       rowsOut.push([`(Page ${p} end)`]);
     }
 
@@ -441,9 +428,11 @@ const DocumentConversionTool: React.FC = () => {
 
     setIsProcessing(true);
     setProgress(0);
+    setTablePreviews([]);
 
     try {
       const total = selectedFiles.length;
+      const previews: TablePreview[] = [];
       for (let i = 0; i < total; i++) {
         const file = selectedFiles[i];
         switch (outputFormat) {
@@ -456,9 +445,11 @@ const DocumentConversionTool: React.FC = () => {
           case "pdf-to-word":
             await convertPdfToWord(file);
             break;
-          case "pdf-to-excel":
-            await convertPdfToExcel(file);
+          case "pdf-to-excel": {
+            const preview = await convertPdfToExcel(file);
+            if (preview) previews.push(preview);
             break;
+          }
           case "docpdf-to-ppt":
             await convertDocOrPdfToPpt(file);
             break;
@@ -471,6 +462,16 @@ const DocumentConversionTool: React.FC = () => {
         setProgress(((i + 1) / total) * 100);
       }
 
+      if (previews.length) {
+        setTablePreviews(previews);
+        toast({
+          title: "Tables detected",
+          description:
+            "Check the table boundaries below, then export to Excel.",
+        });
+        return;
+      }
+
       toast({
         title: "Conversion complete",
         description: "All files processed successfully.",
@@ -565,6 +566,138 @@ const DocumentConversionTool: React.FC = () => {
             )}
           </Button>
         </div>
+
+        {tablePreviews.length > 0 && (
+          <div className="space-y-4">
+            <div>
+              <Label>Detected Tables</Label>
+              <p className="text-sm text-muted-foreground mt-1">
+                Dashed lines show the cells that were found, including merged
+                ones. Click a table to leave it out; every selected table
+                becomes its own sheet.
+              </p>
+            </div>
+            {tablePreviews.map((preview, fi) => {
+              const total = preview.pages.reduce(
+                (n, p) => n + p.tables.length,
+                0
+              );
+              const selected =
+                total - preview.skipped.size + preview.textPages.length;
+              return (
+                <div key={fi} className="border rounded p-3 space-y-3">
+                  <div className="text-sm font-medium">{preview.file.name}</div>
+                  {preview.textPages.length > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      No ruled tables on page
+                      {preview.textPages.length > 1 ? "s" : ""}{" "}
+                      {preview.textPages.map((t) => t.page).join(", ")}; their
+                      text is exported as columns, one sheet per page.
+                    </p>
+                  )}
+                  <div className="grid md:grid-cols-2 gap-3">
+                    {preview.pages.map((page) => (
+                      <div key={page.page} className="space-y-1">
+                        <div className="relative border rounded overflow-hidden">
+                          <img
+                            src={page.image}
+                            alt={`Page ${page.page}`}
+                            className="w-full block"
+                          />
+                          <svg
+                            className="absolute inset-0 w-full h-full"
+                            viewBox={`0 0 ${page.width} ${page.height}`}
+                          >
+                            {page.tables.map((table, ti) => {
+                              const key = `${page.page}:${ti}`;
+                              const off = preview.skipped.has(key);
+                              const color = off ? "#94a3b8" : "#16a34a";
+                              const x0 = table.xs[0];
+                              const y0 = table.ys[0];
+                              return (
+                                <g
+                                  key={ti}
+                                  className="cursor-pointer"
+                                  onClick={() => toggleTable(preview, key)}
+                                >
+                                  <rect
+                                    x={x0}
+                                    y={y0}
+                                    width={table.xs[table.xs.length - 1] - x0}
+                                    height={table.ys[table.ys.length - 1] - y0}
+                                    fill={
+                                      off
+                                        ? "rgba(148,163,184,0.3)"
+                                        : "rgba(22,163,74,0.12)"
+                                    }
+                                    stroke={color}
+                                    strokeWidth={2}
+                                  />
+                                  {table.cells.map((cell, ci) => (
+                                    <rect
+                                      key={ci}
+                                      x={table.xs[cell.col]}
+                                      y={table.ys[cell.row]}
+                                      width={
+                                        table.xs[cell.col + cell.colSpan] -
+                                        table.xs[cell.col]
+                                      }
+                                      height={
+                                        table.ys[cell.row + cell.rowSpan] -
+                                        table.ys[cell.row]
+                                      }
+                                      fill="none"
+                                      stroke={color}
+                                      strokeWidth={0.75}
+                                      strokeDasharray="3 2"
+                                    />
+                                  ))}
+                                  <text
+                                    x={x0 + 2}
+                                    y={y0 - 3}
+                                    fontSize={9}
+                                    fill={color}
+                                  >
+                                    {off ? "Skipped" : `Table ${ti + 1}`}
+                                  </text>
+                                </g>
+                              );
+                            })}
+                          </svg>
+                        </div>
+                        <div className="text-xs text-muted-foreground">
+                          Page {page.page} · {page.tables.length} table
+                          {page.tables.length > 1 ? "s" : ""}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      onClick={() => exportTablePreview(preview)}
+                      disabled={selected === 0}
+                    >
+                      <Download className="mr-2 h-4 w-4" /> Export to Excel (
+                      {selected} sheet{selected === 1 ? "" : "s"})
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() =>
+                        setTablePreviews((prev) =>
+                          prev.filter((p) => p !== preview)
+                        )
+                      }
+                    >
+                      Discard
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
       </CardContent>
     </Card>
   );
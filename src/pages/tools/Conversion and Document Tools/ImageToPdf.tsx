@@ -1,4 +1,4 @@
-import React, { useState, useRef } from "react";
+import React, { useEffect, useState, useRef } from "react";
 import { Link } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import {
@@ -28,6 +28,13 @@ import { useToast } from "@/hooks/use-toast";
 import FileUploader from "@/components/FileUploader";
 import { jsPDF } from "jspdf";
 import JSZip from "jszip"; // NEW
+import {
+  NORMALIZABLE_IMAGE_TYPES,
+  hasTransparency,
+  normalizeImage,
+  readExifDate,
+  type NormalizedImage,
+} from "@/utils/imageNormalize";
 
 // Page size map in points (1 pt = 1/72 inch).
 const PAGE_SIZES = {
@@ -38,6 +45,33 @@ const PAGE_SIZES = {
 // Target output DPI inside PDF for raster resampling (balance of clarity/size)
 const TARGET_DPI = 144; // 2× 72pt per inch for crisp results without huge files
 
+// Header/footer bands and captions, in pt
+const HEADER_BAND = 20;
+const HEADER_FONT = 9;
+const CAPTION_BAND = 14;
+const CAPTION_FONT = 8;
+
+type ImagesPerPage = 1 | 2 | 4 | 6 | 9;
+type CaptionSource = "none" | "filename" | "exif" | "custom";
+type Box = { x: number; y: number; width: number; height: number };
+
+// Columns × rows for an N-up sheet; 2 and 6 follow the page's orientation so
+// the cells stay close to the page's own shape
+const gridFor = (perPage: ImagesPerPage, landscape: boolean) => {
+  switch (perPage) {
+    case 2:
+      return landscape ? { cols: 2, rows: 1 } : { cols: 1, rows: 2 };
+    case 4:
+      return { cols: 2, rows: 2 };
+    case 6:
+      return landscape ? { cols: 3, rows: 2 } : { cols: 2, rows: 3 };
+    case 9:
+      return { cols: 3, rows: 3 };
+    default:
+      return { cols: 1, rows: 1 };
+  }
+};
+
 const ImageToPDF = () => {
   const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
@@ -49,9 +83,73 @@ const ImageToPDF = () => {
   const [includeMargins, setIncludeMargins] = useState(true);
   const [imageQuality, setImageQuality] = useState([92]); // percent for JPEG
   const [fitToPage, setFitToPage] = useState(true);
+  const [imagesPerPage, setImagesPerPage] = useState<ImagesPerPage>(1);
+  const [gutter, setGutter] = useState([12]); // pt between cells
+  const [captionSource, setCaptionSource] = useState<CaptionSource>("none");
+  const [captions, setCaptions] = useState<Map<File, string>>(new Map());
+  const [showHeaderFooter, setShowHeaderFooter] = useState(false);
+  const [headerText, setHeaderText] = useState("");
+  const [footerText, setFooterText] = useState("Page {page} of {pages}");
 
   const { toast } = useToast();
   const downloadRef = useRef<HTMLAnchorElement | null>(null);
+  // HEIC, TIFF etc. are decoded once per file and reused for preview and
+  // export; JPEG and PNG pass through without decoding
+  const normalizedCache = useRef(new WeakMap<File, Promise<NormalizedImage>>());
+  const [previews, setPreviews] = useState<Map<File, string>>(new Map());
+  const previewsRef = useRef(previews);
+  previewsRef.current = previews;
+
+  const normalized = (file: File) => {
+    let pending = normalizedCache.current.get(file);
+    if (!pending) {
+      pending = normalizeImage(file);
+      normalizedCache.current.set(file, pending);
+    }
+    return pending;
+  };
+
+  const normalizedBlob = (n: NormalizedImage) =>
+    new Blob([n.bytes], { type: `image/${n.format}` });
+
+  useEffect(() => {
+    // Previews of removed files are released
+    const removed = Array.from(previews.keys()).filter(
+      (file) => !selectedFiles.includes(file)
+    );
+    if (removed.length) {
+      removed.forEach((file) => URL.revokeObjectURL(previews.get(file)!));
+      setPreviews((prev) => {
+        const next = new Map(prev);
+        removed.forEach((file) => next.delete(file));
+        return next;
+      });
+    }
+
+    let cancelled = false;
+    selectedFiles
+      .filter((file) => !previews.has(file))
+      .forEach((file) =>
+        normalized(file)
+          .then((n) => {
+            if (cancelled) return;
+            const url = URL.createObjectURL(normalizedBlob(n));
+            setPreviews((prev) => new Map(prev).set(file, url));
+          })
+          .catch(() => {
+            // Undecodable files surface as an error when the PDF is built
+          })
+      );
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedFiles]);
+
+  useEffect(
+    () => () => previewsRef.current.forEach((url) => URL.revokeObjectURL(url)),
+    []
+  );
 
   const handleFilesSelected = (files: File[]) => {
     setSelectedFiles(files);
@@ -85,17 +183,19 @@ const ImageToPDF = () => {
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i];
   };
 
-  // Utility to load image into an HTMLImageElement
-  const loadImage = (file: File): Promise<HTMLImageElement> => {
+  // Utility to load image into an HTMLImageElement, at its original pixel
+  // size whatever the input format
+  const loadImage = async (file: File): Promise<HTMLImageElement> => {
+    const n = await normalized(file);
     return new Promise((resolve, reject) => {
       const img = new Image();
       img.onload = () => resolve(img);
       img.onerror = (e) => reject(e);
-      img.src = URL.createObjectURL(file);
+      img.src = URL.createObjectURL(normalizedBlob(n));
     });
   };
 
-  const calculatePageDims = (img: HTMLImageElement) => {
+  const calculatePageDims = (img: { width: number; height: number }) => {
     if (pageSize === "Original") {
       const pxToPt = (px: number) => (px * 72) / 96;
       const w = pxToPt(img.width);
@@ -113,44 +213,53 @@ const ImageToPDF = () => {
   const pxToPt = (px: number) => (px * 72) / 96;
   const ptToPxAt = (pt: number, dpi: number) => Math.round((pt / 72) * dpi);
 
-  // Build one page for a given image file and return a PDF Blob
-  const buildSinglePagePdfBlob = async (file: File) => {
-    const img = await loadImage(file);
-    const pageDims = calculatePageDims(img);
-    const doc = new jsPDF({
-      unit: "pt",
-      format: [pageDims.width, pageDims.height],
-      orientation,
-    });
+  const captionFor = async (file: File) => {
+    switch (captionSource) {
+      case "filename":
+        return file.name.replace(/\.[^.]+$/, "");
+      case "exif": {
+        // Files without EXIF (screenshots, scans) fall back to their own date
+        const date = (await readExifDate(file)) ?? new Date(file.lastModified);
+        return date.toLocaleString(undefined, {
+          dateStyle: "medium",
+          timeStyle: "short",
+        });
+      }
+      case "custom":
+        return captions.get(file) ?? "";
+      default:
+        return "";
+    }
+  };
 
-    const margin = includeMargins ? 36 : 0; // 0.5 in
-    const usableWidth = pageDims.width - margin * 2;
-    const usableHeight = pageDims.height - margin * 2;
+  // Resample the image once at target DPI (never upscaling) and draw it
+  // centred in the box; returns where it landed
+  const drawImageInBox = async (doc: jsPDF, file: File, box: Box) => {
+    const img = await loadImage(file);
 
     // Desired on‑page size in pt while preserving aspect
     const ar = img.width / img.height;
     let drawWpt = pxToPt(img.width);
     let drawHpt = pxToPt(img.height);
     if (fitToPage) {
-      if (usableWidth / usableHeight < ar) {
-        drawWpt = Math.min(usableWidth, drawWpt);
+      if (box.width / box.height < ar) {
+        drawWpt = Math.min(box.width, drawWpt);
         drawHpt = drawWpt / ar;
       } else {
-        drawHpt = Math.min(usableHeight, drawHpt);
+        drawHpt = Math.min(box.height, drawHpt);
         drawWpt = drawHpt * ar;
       }
     } else {
-      if (drawWpt > usableWidth) {
-        drawWpt = usableWidth;
+      if (drawWpt > box.width) {
+        drawWpt = box.width;
         drawHpt = drawWpt / ar;
       }
-      if (drawHpt > usableHeight) {
-        drawHpt = usableHeight;
+      if (drawHpt > box.height) {
+        drawHpt = box.height;
         drawWpt = drawHpt * ar;
       }
     }
 
-    // Resample once at target DPI, never upscale
     const needPxW = Math.min(img.width, ptToPxAt(drawWpt, TARGET_DPI));
     const needPxH = Math.min(img.height, ptToPxAt(drawHpt, TARGET_DPI));
     const canvas = document.createElement("canvas");
@@ -162,19 +271,138 @@ const ImageToPDF = () => {
     ctx.imageSmoothingQuality = "high";
     ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
 
+    // PNG only where there is real transparency; opaque images (photos,
+    // screenshots saved as PNG) go in as JPEG at the chosen quality
+    const { format } = await normalized(file);
+    const transparent =
+      format === "png" &&
+      hasTransparency(ctx.getImageData(0, 0, canvas.width, canvas.height).data);
     const q = imageQuality[0] / 100;
-    const dataURL = canvas.toDataURL("image/jpeg", q);
-    const x = margin + (usableWidth - drawWpt) / 2;
-    const y = margin + (usableHeight - drawHpt) / 2;
-    doc.addImage(dataURL, "JPEG", x, y, drawWpt, drawHpt);
+    const dataURL = transparent
+      ? canvas.toDataURL("image/png")
+      : canvas.toDataURL("image/jpeg", q);
+    const placed = {
+      x: box.x + (box.width - drawWpt) / 2,
+      y: box.y + (box.height - drawHpt) / 2,
+      width: drawWpt,
+      height: drawHpt,
+    };
+    doc.addImage(
+      dataURL,
+      transparent ? "PNG" : "JPEG",
+      placed.x,
+      placed.y,
+      placed.width,
+      placed.height
+    );
 
     try {
       URL.revokeObjectURL(img.src);
     } catch {}
 
+    return placed;
+  };
+
+  // Lay out one sheet: header/footer bands inside the margins, then the
+  // images cell by cell (row-major) with their captions underneath
+  const renderSheet = async (
+    doc: jsPDF,
+    files: File[],
+    grid: { cols: number; rows: number },
+    pageDims: { width: number; height: number },
+    pageNumber: number,
+    pageCount: number,
+    onImageDone?: () => void
+  ) => {
+    const margin = includeMargins ? 36 : 0; // 0.5 in
+    const band = showHeaderFooter ? HEADER_BAND : 0;
+    const gap = gutter[0];
+    const contentTop = margin + band;
+    const contentWidth = pageDims.width - margin * 2;
+    const contentHeight = pageDims.height - (margin + band) * 2;
+    const cellW = Math.max(
+      1,
+      (contentWidth - gap * (grid.cols - 1)) / grid.cols
+    );
+    const cellH = Math.max(
+      1,
+      (contentHeight - gap * (grid.rows - 1)) / grid.rows
+    );
+    const captionBand = captionSource === "none" ? 0 : CAPTION_BAND;
+
+    for (let i = 0; i < files.length; i++) {
+      const cellX = margin + (i % grid.cols) * (cellW + gap);
+      const cellY = contentTop + Math.floor(i / grid.cols) * (cellH + gap);
+      const placed = await drawImageInBox(doc, files[i], {
+        x: cellX,
+        y: cellY,
+        width: cellW,
+        height: Math.max(1, cellH - captionBand),
+      });
+
+      const caption = captionBand ? (await captionFor(files[i])).trim() : "";
+      if (caption) {
+        doc.setFontSize(CAPTION_FONT);
+        doc.setTextColor(60);
+        // One line, cut to the cell width
+        const [line] = doc.splitTextToSize(caption, cellW) as string[];
+        doc.text(
+          line,
+          cellX + cellW / 2,
+          placed.y + placed.height + CAPTION_FONT + 2,
+          { align: "center" }
+        );
+      }
+      onImageDone?.();
+    }
+
+    if (showHeaderFooter) {
+      const fill = (template: string) =>
+        template
+          .replace(/\{page\}/g, String(pageNumber))
+          .replace(/\{pages\}/g, String(pageCount))
+          .trim();
+      doc.setFontSize(HEADER_FONT);
+      doc.setTextColor(90);
+      const header = fill(headerText);
+      const footer = fill(footerText);
+      const baseline = band / 2 + HEADER_FONT / 3;
+      if (header) {
+        doc.text(header, pageDims.width / 2, margin + baseline, {
+          align: "center",
+        });
+      }
+      if (footer) {
+        doc.text(
+          footer,
+          pageDims.width / 2,
+          pageDims.height - margin - band + baseline,
+          { align: "center" }
+        );
+      }
+    }
+    doc.setTextColor(0);
+  };
+
+  // Build one page for a given image file and return a PDF Blob (the ZIP
+  // export always uses one image per page)
+  const buildSinglePagePdfBlob = async (file: File) => {
+    const pageDims = calculatePageDims(await normalized(file));
+    const doc = new jsPDF({
+      unit: "pt",
+      format: [pageDims.width, pageDims.height],
+      orientation,
+    });
+    await renderSheet(doc, [file], { cols: 1, rows: 1 }, pageDims, 1, 1);
     return doc.output("blob");
   };
 
+  // Images grouped into pages of `imagesPerPage`
+  const sheets = Array.from(
+    { length: Math.ceil(selectedFiles.length / imagesPerPage) },
+    (_, i) => selectedFiles.slice(i * imagesPerPage, (i + 1) * imagesPerPage)
+  );
+
   const generatePDF = async () => {
     if (selectedFiles.length === 0) {
       toast({
@@ -188,74 +416,33 @@ const ImageToPDF = () => {
     setProgress(0);
 
     try {
-      // First page based on first image
-      const firstImg = await loadImage(selectedFiles[0]);
-      const firstDims = calculatePageDims(firstImg);
-      const doc = new jsPDF({
-        unit: "pt",
-        format: [firstDims.width, firstDims.height],
-        orientation,
-      });
-
-      for (let i = 0; i < selectedFiles.length; i++) {
-        const file = selectedFiles[i];
-        const img = i === 0 ? firstImg : await loadImage(file);
-
-        const pageDims = i === 0 ? firstDims : calculatePageDims(img);
-        if (i > 0) doc.addPage([pageDims.width, pageDims.height], orientation);
-        else doc.setPage(1);
-
-        const margin = includeMargins ? 36 : 0;
-        const usableWidth = pageDims.width - margin * 2;
-        const usableHeight = pageDims.height - margin * 2;
-
-        const ar = img.width / img.height;
-        let drawWpt = pxToPt(img.width);
-        let drawHpt = pxToPt(img.height);
-        if (fitToPage) {
-          if (usableWidth / usableHeight < ar) {
-            drawWpt = Math.min(usableWidth, drawWpt);
-            drawHpt = drawWpt / ar;
-          } else {
-            drawHpt = Math.min(usableHeight, drawHpt);
-            drawWpt = drawHpt * ar;
-          }
+      let doc: jsPDF | null = null;
+      let done = 0;
+      for (let i = 0; i < sheets.length; i++) {
+        // "Original" size follows the first image on each page
+        const pageDims = calculatePageDims(await normalized(sheets[i][0]));
+        if (!doc) {
+          doc = new jsPDF({
+            unit: "pt",
+            format: [pageDims.width, pageDims.height],
+            orientation,
+          });
         } else {
-          if (drawWpt > usableWidth) {
-            drawWpt = usableWidth;
-            drawHpt = drawWpt / ar;
-          }
-          if (drawHpt > usableHeight) {
-            drawHpt = usableHeight;
-            drawWpt = drawHpt * ar;
-          }
+          doc.addPage([pageDims.width, pageDims.height], orientation);
         }
-
-        const needPxW = Math.min(img.width, ptToPxAt(drawWpt, TARGET_DPI));
-        const needPxH = Math.min(img.height, ptToPxAt(drawHpt, TARGET_DPI));
-        const canvas = document.createElement("canvas");
-        canvas.width = Math.max(1, needPxW);
-        canvas.height = Math.max(1, needPxH);
-        const ctx = canvas.getContext("2d")!;
-        ctx.clearRect(0, 0, canvas.width, canvas.height);
-        ctx.imageSmoothingEnabled = true;
-        ctx.imageSmoothingQuality = "high";
-        ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
-
-        const q = imageQuality[0] / 100;
-        const dataURL = canvas.toDataURL("image/jpeg", q);
-        const x = margin + (usableWidth - drawWpt) / 2;
-        const y = margin + (usableHeight - drawHpt) / 2;
-        doc.addImage(dataURL, "JPEG", x, y, drawWpt, drawHpt);
-
-        try {
-          URL.revokeObjectURL(img.src);
-        } catch {}
-
-        setProgress(Math.round(((i + 1) / selectedFiles.length) * 100));
+        const grid = gridFor(imagesPerPage, pageDims.width > pageDims.height);
+        await renderSheet(
+          doc,
+          sheets[i],
+          grid,
+          pageDims,
+          i + 1,
+          sheets.length,
+          () => setProgress(Math.round((++done / selectedFiles.length) * 100))
+        );
       }
 
-      const pdfBlob = doc.output("blob");
+      const pdfBlob = doc!.output("blob");
       const url = URL.createObjectURL(pdfBlob);
       const a = document.createElement("a");
       a.href = url;
@@ -267,8 +454,8 @@ const ImageToPDF = () => {
 
       toast({
         title: "PDF created",
-        description: `Generated PDF with ${selectedFiles.length} page${
-          selectedFiles.length > 1 ? "s" : ""
+        description: `Generated PDF with ${sheets.length} page${
+          sheets.length > 1 ? "s" : ""
         }.`,
       });
     } catch (err) {
@@ -379,13 +566,13 @@ const ImageToPDF = () => {
                 <CardTitle>Select Images</CardTitle>
                 <CardDescription>
                   Upload images to include in the PDF. Supported: JPG, PNG,
-                  WebP.
+                  WebP, GIF, BMP, TIFF and HEIC (iPhone photos).
                 </CardDescription>
               </CardHeader>
               <CardContent>
                 <FileUploader
                   onFilesSelected={handleFilesSelected}
-                  acceptedTypes={["image/jpeg", "image/png", "image/webp"]}
+                  acceptedTypes={NORMALIZABLE_IMAGE_TYPES}
                   maxFiles={50}
                   files={selectedFiles}
                   onRemoveFile={handleRemoveFile}
@@ -402,18 +589,34 @@ const ImageToPDF = () => {
                           className="border rounded p-2 flex flex-col"
                         >
                           <div className="flex-1 mb-2 h-28 bg-muted rounded flex items-center justify-center overflow-hidden">
-                            <img
-                              src={URL.createObjectURL(file)}
-                              alt={file.name}
-                              className="max-w-full max-h-full object-contain"
-                            />
+                            {previews.has(file) && (
+                              <img
+                                src={previews.get(file)}
+                                alt={file.name}
+                                className="max-w-full max-h-full object-contain"
+                              />
+                            )}
                           </div>
                           <div className="text-xs truncate mb-1">
                             {file.name}
                           </div>
+                          {captionSource === "custom" && (
+                            <Input
+                              className="h-7 text-xs mb-1"
+                              placeholder="Caption"
+                              value={captions.get(file) ?? ""}
+                              onChange={(e) =>
+                                setCaptions((prev) =>
+                                  new Map(prev).set(file, e.target.value)
+                                )
+                              }
+                            />
+                          )}
                           <div className="flex items-center justify-between text-xs text-muted-foreground">
                             <span>{formatFileSize(file.size)}</span>
-                            <Badge variant="secondary">Page {idx + 1}</Badge>
+                            <Badge variant="secondary">
+                              Page {Math.floor(idx / imagesPerPage) + 1}
+                            </Badge>
                           </div>
 
                           <div className="flex items-center justify-between mt-2">
@@ -457,7 +660,7 @@ const ImageToPDF = () => {
               <CardHeader>
                 <CardTitle>PDF Settings</CardTitle>
                 <CardDescription>
-                  Page size, orientation, margins and quality.
+                  Page size, orientation, margins, quality and layout.
                 </CardDescription>
               </CardHeader>
               <CardContent className="space-y-4">
@@ -527,6 +730,109 @@ const ImageToPDF = () => {
                   </Label>
                 </div>
 
+                <div className="pt-4 border-t space-y-4">
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <Label>Images per Page</Label>
+                      <select
+                        className="w-full mt-2 p-2 rounded border"
+                        value={imagesPerPage}
+                        onChange={(e) =>
+                          setImagesPerPage(
+                            Number(e.target.value) as ImagesPerPage
+                          )
+                        }
+                      >
+                        <option value={1}>1</option>
+                        <option value={2}>2</option>
+                        <option value={4}>4 (2 × 2)</option>
+                        <option value={6}>6</option>
+                        <option value={9}>9 (3 × 3)</option>
+                      </select>
+                    </div>
+
+                    <div>
+                      <Label>Captions</Label>
+                      <select
+                        className="w-full mt-2 p-2 rounded border"
+                        value={captionSource}
+                        onChange={(e) =>
+                          setCaptionSource(e.target.value as CaptionSource)
+                        }
+                      >
+                        <option value="none">None</option>
+                        <option value="filename">File name</option>
+                        <option value="exif">Date taken (EXIF)</option>
+                        <option value="custom">Custom text</option>
+                      </select>
+                    </div>
+                  </div>
+
+                  {imagesPerPage > 1 && (
+                    <div className="space-y-2">
+                      <Label>Gutter: {gutter[0]} pt</Label>
+                      <Slider
+                        value={gutter}
+                        onValueChange={setGutter}
+                        min={0}
+                        max={48}
+                        step={2}
+                      />
+                      {pageSize === "Original" && (
+                        <p className="text-xs text-muted-foreground">
+                          With Original size, each page takes the size of its
+                          first image.
+                        </p>
+                      )}
+                    </div>
+                  )}
+
+                  {captionSource === "custom" && (
+                    <p className="text-xs text-muted-foreground">
+                      Type each caption under its image in the preview.
+                    </p>
+                  )}
+
+                  <div className="flex items-center space-x-3">
+                    <Switch
+                      id="headerfooter"
+                      checked={showHeaderFooter}
+                      onCheckedChange={setShowHeaderFooter}
+                    />
+                    <Label htmlFor="headerfooter">
+                      Running header and footer
+                    </Label>
+                  </div>
+
+                  {showHeaderFooter && (
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <Label htmlFor="headertext">Header</Label>
+                        <Input
+                          id="headertext"
+                          className="mt-2"
+                          placeholder="e.g. Holiday 2024"
+                          value={headerText}
+                          onChange={(e) => setHeaderText(e.target.value)}
+                        />
+                      </div>
+                      <div>
+                        <Label htmlFor="footertext">Footer</Label>
+                        <Input
+                          id="footertext"
+                          className="mt-2"
+                          value={footerText}
+                          onChange={(e) => setFooterText(e.target.value)}
+                        />
+                      </div>
+                      <p className="col-span-2 text-xs text-muted-foreground">
+                        {"{page}"} and {"{pages}"} become the page number and
+                        page count.
+                      </p>
+                    </div>
+                  )}
+                </div>
+
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
                   <Button
                     onClick={generatePDF}
@@ -542,8 +848,8 @@ const ImageToPDF = () => {
                     ) : (
                       <>
                         <Download className="w-4 h-4 mr-2" /> Create PDF (
-                        {selectedFiles.length} page
-                        {selectedFiles.length > 1 ? "s" : ""})
+                        {sheets.length} page
+                        {sheets.length > 1 ? "s" : ""})
                       </>
                     )}
                   </Button>
@@ -606,8 +912,13 @@ const ImageToPDF = () => {
                       <li>• Multiple images → single PDF</li>
                       <li>• Individual PDFs as ZIP</li>
                       <li>• Page size & orientation</li>
+                      <li>• 2, 4, 6 or 9 images per page</li>
+                      <li>• Captions from file name, date taken or text</li>
+                      <li>• Header and footer with page numbers</li>
                       <li>• Reorder pages (preview shows page numbers)</li>
                       <li>• Image quality control</li>
+                      <li>• HEIC, TIFF, GIF, BMP and WebP input</li>
+                      <li>• Transparent images kept as PNG</li>
                       <li>• Browser-only processing — secure</li>
                     </ul>
                   </div>
@@ -0,0 +1,956 @@
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Slider } from "@/components/ui/slider";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  ArrowLeft,
+  ChevronLeft,
+  ChevronRight,
+  Download,
+  Edit,
+  Eraser,
+  Highlighter,
+  ImagePlus,
+  Loader2,
+  Minus,
+  MousePointer2,
+  PenLine,
+  Redo2,
+  Square,
+  Trash2,
+  Type,
+  Undo2,
+} from "lucide-react";
+import * as pdfjsLib from "pdfjs-dist";
+import PDFWorker from "pdfjs-dist/build/pdf.worker.mjs?worker";
+import { useToast } from "@/hooks/use-toast";
+import {
+  applyPdfEdits,
+  baselineY,
+  boxFromDrag,
+  createEditId,
+  editBounds,
+  moveEdit,
+  textLines,
+  type EditTool,
+  type OutputMode,
+  type PdfEdit,
+} from "@/utils/pdfEditor";
+pdfjsLib.GlobalWorkerOptions.workerPort = new PDFWorker();
+
+// Page-level editor: pdf.js renders the page, an SVG overlay in viewport
+// units shows the edits, and utils/pdfEditor writes them with pdf-lib.
+
+const TOOLS: { id: EditTool; label: string; icon: React.ElementType }[] = [
+  { id: "select", label: "Select / move", icon: MousePointer2 },
+  { id: "text", label: "Text box", icon: Type },
+  { id: "rect", label: "Rectangle", icon: Square },
+  { id: "line", label: "Line", icon: Minus },
+  { id: "ink", label: "Freehand", icon: PenLine },
+  { id: "highlight", label: "Highlight", icon: Highlighter },
+  { id: "whiteout", label: "Whiteout", icon: Eraser },
+  { id: "image", label: "Image", icon: ImagePlus },
+];
+
+const ZOOMS = [0.5, 0.75, 1, 1.25, 1.5, 2];
+
+type PageSize = { width: number; height: number };
+type Point = { x: number; y: number };
+
+const downloadBlob = (bytes: Uint8Array, filename: string) => {
+  const copy = new Uint8Array(bytes.byteLength);
+  copy.set(bytes);
+  const url = URL.createObjectURL(
+    new Blob([copy.buffer], { type: "application/pdf" })
+  );
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+// pdf-lib embeds PNG and JPEG only; everything else goes through a canvas
+const readImageForPdf = async (
+  file: File
+): Promise<{ src: string; aspect: number }> => {
+  const bitmap = await createImageBitmap(file);
+  const aspect = bitmap.width / bitmap.height;
+  if (file.type === "image/png" || file.type === "image/jpeg") {
+    bitmap.close();
+    const src = await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(String(reader.result));
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(file);
+    });
+    return { src, aspect };
+  }
+  const canvas = document.createElement("canvas");
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  canvas.getContext("2d")?.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return { src: canvas.toDataURL("image/png"), aspect };
+};
+
+const PdfEditor: React.FC = () => {
+  const [file, setFile] = useState<File | null>(null);
+  const [pdf, setPdf] = useState<pdfjsLib.PDFDocumentProxy | null>(null);
+  const [pageSizes, setPageSizes] = useState<PageSize[]>([]);
+  const [pageIndex, setPageIndex] = useState(0);
+  const [zoom, setZoom] = useState(1);
+
+  const [tool, setTool] = useState<EditTool>("select");
+  const [color, setColor] = useState("#e11d48");
+  const [opacity, setOpacity] = useState(1);
+  const [strokeWidth, setStrokeWidth] = useState(2);
+  const [fontSize, setFontSize] = useState(16);
+  const [text, setText] = useState("Text");
+  const [image, setImage] = useState<{ src: string; aspect: number } | null>(
+    null
+  );
+
+  // Undo/redo keeps whole snapshots; the edit list is small
+  const [edits, setEdits] = useState<PdfEdit[]>([]);
+  const [past, setPast] = useState<PdfEdit[][]>([]);
+  const [future, setFuture] = useState<PdfEdit[][]>([]);
+  const lastMergeKey = useRef<string | undefined>();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<PdfEdit | null>(null);
+  const gesture = useRef<{ start: Point; snapshot: PdfEdit[] } | null>(null);
+
+  const [outputMode, setOutputMode] = useState<OutputMode>("flatten");
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const svgRef = useRef<SVGSVGElement | null>(null);
+  const { toast } = useToast();
+
+  const pageSize = pageSizes[pageIndex];
+  const selected = edits.find((e) => e.id === selectedId) ?? null;
+
+  // ---------- history ----------
+
+  // Consecutive changes with the same mergeKey (e.g. typing into the
+  // selected text box) collapse into one undo step
+  const commit = useCallback(
+    (next: PdfEdit[], mergeKey?: string) => {
+      if (!mergeKey || mergeKey !== lastMergeKey.current) {
+        setPast((p) => [...p, edits]);
+      }
+      lastMergeKey.current = mergeKey;
+      setFuture([]);
+      setEdits(next);
+    },
+    [edits]
+  );
+
+  const undo = useCallback(() => {
+    if (past.length === 0) return;
+    setFuture((f) => [edits, ...f]);
+    setEdits(past[past.length - 1]);
+    setPast((p) => p.slice(0, -1));
+    lastMergeKey.current = undefined;
+  }, [past, edits]);
+
+  const redo = useCallback(() => {
+    if (future.length === 0) return;
+    setPast((p) => [...p, edits]);
+    setEdits(future[0]);
+    setFuture((f) => f.slice(1));
+    lastMergeKey.current = undefined;
+  }, [future, edits]);
+
+  const deleteSelected = useCallback(() => {
+    if (!selectedId) return;
+    commit(edits.filter((e) => e.id !== selectedId));
+    setSelectedId(null);
+  }, [commit, edits, selectedId]);
+
+  const updateSelected = (patch: Partial<PdfEdit>, field: string) => {
+    if (!selected) return;
+    commit(
+      edits.map((e) =>
+        e.id === selected.id ? ({ ...e, ...patch } as PdfEdit) : e
+      ),
+      `${selected.id}:${field}`
+    );
+  };
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.closest("input, textarea, select")) return;
+      const mod = e.ctrlKey || e.metaKey;
+      if (mod && e.key.toLowerCase() === "z") {
+        e.preventDefault();
+        if (e.shiftKey) redo();
+        else undo();
+      } else if (mod && e.key.toLowerCase() === "y") {
+        e.preventDefault();
+        redo();
+      } else if (e.key === "Delete" || e.key === "Backspace") {
+        deleteSelected();
+      }
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [undo, redo, deleteSelected]);
+
+  // ---------- loading and rendering ----------
+
+  const handleFile = async (files: FileList | null) => {
+    const f = files?.[0];
+    if (!f) return;
+    if (f.type !== "application/pdf") {
+      toast({
+        title: "Not a PDF",
+        description: "Please choose a PDF file.",
+        variant: "destructive",
+      });
+      return;
+    }
+    try {
+      const doc = await pdfjsLib.getDocument({
+        data: new Uint8Array(await f.arrayBuffer()),
+      }).promise;
+      const sizes: PageSize[] = [];
+      for (let i = 1; i <= doc.numPages; i++) {
+        const vp = (await doc.getPage(i)).getViewport({ scale: 1 });
+        sizes.push({ width: vp.width, height: vp.height });
+      }
+      setFile(f);
+      setPdf(doc);
+      setPageSizes(sizes);
+      setPageIndex(0);
+      setEdits([]);
+      setPast([]);
+      setFuture([]);
+      setSelectedId(null);
+    } catch (err) {
+      console.error(err);
+      toast({
+        title: "Could not open PDF",
+        description: "The file may be damaged or password protected.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  useEffect(() => {
+    if (!pdf || !canvasRef.current) return;
+    let task: ReturnType<pdfjsLib.PDFPageProxy["render"]> | null = null;
+    let cancelled = false;
+    (async () => {
+      const page = await pdf.getPage(pageIndex + 1);
+      if (cancelled || !canvasRef.current) return;
+      const dpr = window.devicePixelRatio || 1;
+      const viewport = page.getViewport({ scale: zoom * dpr });
+      const canvas = canvasRef.current;
+      canvas.width = Math.floor(viewport.width);
+      canvas.height = Math.floor(viewport.height);
+      const ctx = canvas.getContext("2d");
+      if (!ctx) return;
+      task = page.render({ canvas, canvasContext: ctx, viewport });
+      await task.promise.catch(() => undefined); // cancelled renders reject
+    })();
+    return () => {
+      cancelled = true;
+      task?.cancel();
+    };
+  }, [pdf, pageIndex, zoom]);
+
+  // ---------- drawing ----------
+
+  const toPoint = (e: React.PointerEvent): Point => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) / zoom,
+      y: (e.clientY - rect.top) / zoom,
+    };
+  };
+
+  const base = () => ({
+    id: createEditId(),
+    page: pageIndex,
+    color,
+    opacity,
+  });
+
+  const hitTest = (p: Point) => {
+    const onPage = edits.filter((e) => e.page === pageIndex);
+    for (let i = onPage.length - 1; i >= 0; i--) {
+      const b = editBounds(onPage[i]);
+      const pad = 4;
+      if (
+        p.x >= b.x - pad &&
+        p.x <= b.x + b.width + pad &&
+        p.y >= b.y - pad &&
+        p.y <= b.y + b.height + pad
+      ) {
+        return onPage[i];
+      }
+    }
+    return null;
+  };
+
+  const onPointerDown = (e: React.PointerEvent) => {
+    if (!pageSize) return;
+    (e.target as Element).setPointerCapture?.(e.pointerId);
+    const p = toPoint(e);
+
+    if (tool === "select") {
+      const hit = hitTest(p);
+      setSelectedId(hit?.id ?? null);
+      if (hit) gesture.current = { start: p, snapshot: edits };
+      return;
+    }
+    if (tool === "text") {
+      const edit: PdfEdit = {
+        ...base(),
+        kind: "text",
+        x: p.x,
+        y: p.y,
+        text: text || "Text",
+        fontSize,
+      };
+      commit([...edits, edit]);
+      setSelectedId(edit.id);
+      return;
+    }
+    if (tool === "image" && !image) {
+      toast({
+        title: "No image",
+        description: "Choose an image before placing it.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    gesture.current = { start: p, snapshot: edits };
+    const box = { x: p.x, y: p.y, width: 0, height: 0 };
+    if (tool === "line") {
+      setDraft({
+        ...base(),
+        kind: "line",
+        x1: p.x,
+        y1: p.y,
+        x2: p.x,
+        y2: p.y,
+        strokeWidth,
+      });
+    } else if (tool === "ink") {
+      setDraft({ ...base(), kind: "ink", points: [p.x, p.y], strokeWidth });
+    } else if (tool === "rect") {
+      setDraft({ ...base(), kind: "rect", ...box, strokeWidth });
+    } else if (tool === "highlight") {
+      setDraft({ ...base(), kind: "highlight", ...box });
+    } else if (tool === "whiteout") {
+      setDraft({ ...base(), kind: "whiteout", ...box, color: "#ffffff" });
+    } else if (tool === "image" && image) {
+      setDraft({ ...base(), kind: "image", ...box, src: image.src });
+    }
+  };
+
+  const onPointerMove = (e: React.PointerEvent) => {
+    const g = gesture.current;
+    if (!g) return;
+    const p = toPoint(e);
+
+    if (tool === "select" && selectedId) {
+      const dx = p.x - g.start.x;
+      const dy = p.y - g.start.y;
+      setEdits(
+        g.snapshot.map((ed) =>
+          ed.id === selectedId ? moveEdit(ed, dx, dy) : ed
+        )
+      );
+      return;
+    }
+    if (!draft) return;
+    if (draft.kind === "line") {
+      setDraft({ ...draft, x2: p.x, y2: p.y });
+    } else if (draft.kind === "ink") {
+      setDraft({ ...draft, points: [...draft.points, p.x, p.y] });
+    } else if (draft.kind === "image" && image) {
+      // Keep the picture's aspect ratio while dragging
+      const width = Math.abs(p.x - g.start.x);
+      const height = width / image.aspect;
+      setDraft({
+        ...draft,
+        x: p.x < g.start.x ? g.start.x - width : g.start.x,
+        y: p.y < g.start.y ? g.start.y - height : g.start.y,
+        width,
+        height,
+      });
+    } else if (draft.kind !== "text") {
+      setDraft({ ...draft, ...boxFromDrag(g.start.x, g.start.y, p.x, p.y) });
+    }
+  };
+
+  const onPointerUp = () => {
+    const g = gesture.current;
+    gesture.current = null;
+    if (!g) return;
+
+    if (tool === "select") {
+      // Live moves skip history; record the pre-drag state once
+      if (edits !== g.snapshot) {
+        setPast((p) => [...p, g.snapshot]);
+        setFuture([]);
+        lastMergeKey.current = undefined;
+      }
+      return;
+    }
+    if (!draft) return;
+    let finished: PdfEdit | null = draft;
+    const b = editBounds(draft);
+    if (draft.kind === "image" && b.width < 4 && image) {
+      // A plain click drops the image at a default width
+      const width = Math.min(200, pageSize.width / 2);
+      finished = { ...draft, width, height: width / image.aspect };
+    } else if (draft.kind === "ink") {
+      if (draft.points.length < 4) finished = null;
+    } else if (b.width < 3 && b.height < 3) {
+      finished = null;
+    }
+    setDraft(null);
+    if (finished) {
+      commit([...g.snapshot, finished]);
+      setSelectedId(finished.id);
+    }
+  };
+
+  const onImagePicked = async (files: FileList | null) => {
+    const f = files?.[0];
+    if (!f) return;
+    try {
+      setImage(await readImageForPdf(f));
+      setTool("image");
+    } catch (err) {
+      console.error(err);
+      toast({
+        title: "Unsupported image",
+        description: "This image could not be decoded by the browser.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // ---------- export ----------
+
+  const save = async () => {
+    if (!file) return;
+    setIsProcessing(true);
+    try {
+      const out = await applyPdfEdits(
+        await file.arrayBuffer(),
+        edits,
+        outputMode
+      );
+      const name = file.name.replace(/\.[^.]+$/, "");
+      downloadBlob(out, `${name}_edited.pdf`);
+      toast({
+        title: "PDF saved",
+        description: `${edits.length} edit${edits.length === 1 ? "" : "s"} ${
+          outputMode === "flatten" ? "flattened" : "added as annotations"
+        }.`,
+      });
+    } catch (err) {
+      console.error(err);
+      toast({
+        title: "Save failed",
+        description: "Could not write the edited PDF.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  // ---------- overlay ----------
+
+  const renderEdit = (e: PdfEdit) => {
+    switch (e.kind) {
+      case "text":
+        return (
+          <text
+            key={e.id}
+            fill={e.color}
+            opacity={e.opacity}
+            fontSize={e.fontSize}
+            fontFamily="Helvetica, Arial, sans-serif"
+            style={{ whiteSpace: "pre" }}
+          >
+            {textLines(e.text).map((line, i) => (
+              <tspan key={i} x={e.x} y={baselineY(e.y, e.fontSize, i)}>
+                {line}
+              </tspan>
+            ))}
+          </text>
+        );
+      case "rect":
+        return (
+          <rect
+            key={e.id}
+            x={e.x}
+            y={e.y}
+            width={e.width}
+            height={e.height}
+            fill="none"
+            stroke={e.color}
+            strokeWidth={e.strokeWidth}
+            opacity={e.opacity}
+          />
+        );
+      case "line":
+        return (
+          <line
+            key={e.id}
+            x1={e.x1}
+            y1={e.y1}
+            x2={e.x2}
+            y2={e.y2}
+            stroke={e.color}
+            strokeWidth={e.strokeWidth}
+            strokeLinecap="round"
+            opacity={e.opacity}
+          />
+        );
+      case "ink":
+        return (
+          <polyline
+            key={e.id}
+            points={e.points.join(" ")}
+            fill="none"
+            stroke={e.color}
+            strokeWidth={e.strokeWidth}
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            opacity={e.opacity}
+          />
+        );
+      case "highlight":
+        return (
+          <rect
+            key={e.id}
+            x={e.x}
+            y={e.y}
+            width={e.width}
+            height={e.height}
+            fill={e.color}
+            opacity={e.opacity}
+            style={{ mixBlendMode: "multiply" }}
+          />
+        );
+      case "whiteout":
+        return (
+          <rect
+            key={e.id}
+            x={e.x}
+            y={e.y}
+            width={e.width}
+            height={e.height}
+            fill="#ffffff"
+            stroke="#d4d4d8"
+            strokeDasharray="4 2"
+            vectorEffect="non-scaling-stroke"
+          />
+        );
+      case "image":
+        return (
+          <image
+            key={e.id}
+            href={e.src}
+            x={e.x}
+            y={e.y}
+            width={e.width}
+            height={e.height}
+            opacity={e.opacity}
+            preserveAspectRatio="none"
+          />
+        );
+    }
+  };
+
+  const pageEdits = edits.filter((e) => e.page === pageIndex);
+  const selectedBox =
+    selected && selected.page === pageIndex ? editBounds(selected) : null;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="bg-gradient-to-br from-purple-500 to-pink-600">
+        <div className="container mx-auto px-4 py-6">
+          <div className="flex items-center mb-4">
+            <Link to="/conversion-tools" className="mr-4">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-white hover:bg-white/20"
+              >
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back to Tools
+              </Button>
+            </Link>
+          </div>
+          <div className="flex items-center text-white">
+            <Edit className="w-8 h-8 mr-3" />
+            <div>
+              <h1 className="text-3xl font-bold">PDF Editor</h1>
+              <p className="text-lg text-white/90">
+                Add text, shapes, ink, highlights, whiteout and images to any
+                page.
+              </p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-8">
+        <div className="grid lg:grid-cols-4 gap-8">
+          <div className="lg:col-span-3 space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Select PDF</CardTitle>
+                <CardDescription>
+                  Edits stay in your browser until you download the result.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Input
+                  type="file"
+                  accept="application/pdf"
+                  onChange={(e) => handleFile(e.target.files)}
+                />
+              </CardContent>
+            </Card>
+
+            {pdf && pageSize && (
+              <Card>
+                <CardHeader className="space-y-3">
+                  <div className="flex flex-wrap items-center gap-1">
+                    {TOOLS.map((t) => (
+                      <Button
+                        key={t.id}
+                        size="sm"
+                        variant={tool === t.id ? "default" : "outline"}
+                        onClick={() => setTool(t.id)}
+                        title={t.label}
+                      >
+                        <t.icon className="w-4 h-4" />
+                      </Button>
+                    ))}
+                    <div className="w-px h-6 bg-border mx-1" />
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={undo}
+                      disabled={past.length === 0}
+                      title="Undo (Ctrl+Z)"
+                    >
+                      <Undo2 className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={redo}
+                      disabled={future.length === 0}
+                      title="Redo (Ctrl+Shift+Z)"
+                    >
+                      <Redo2 className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={deleteSelected}
+                      disabled={!selectedId}
+                      title="Delete selected (Del)"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                  <div className="flex items-center justify-between text-sm">
+                    <div className="flex items-center space-x-2">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        disabled={pageIndex === 0}
+                        onClick={() => setPageIndex(pageIndex - 1)}
+                      >
+                        <ChevronLeft className="w-4 h-4" />
+                      </Button>
+                      <span>
+                        Page {pageIndex + 1} of {pageSizes.length}
+                      </span>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        disabled={pageIndex >= pageSizes.length - 1}
+                        onClick={() => setPageIndex(pageIndex + 1)}
+                      >
+                        <ChevronRight className="w-4 h-4" />
+                      </Button>
+                      <Badge variant="secondary">
+                        {pageEdits.length} edit
+                        {pageEdits.length === 1 ? "" : "s"} on page
+                      </Badge>
+                    </div>
+                    <select
+                      className="p-1 rounded border"
+                      value={zoom}
+                      onChange={(e) => setZoom(Number(e.target.value))}
+                    >
+                      {ZOOMS.map((z) => (
+                        <option key={z} value={z}>
+                          {Math.round(z * 100)}%
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <div className="overflow-auto border rounded bg-muted p-4">
+                    <div
+                      className="relative mx-auto bg-white shadow"
+                      style={{
+                        width: pageSize.width * zoom,
+                        height: pageSize.height * zoom,
+                      }}
+                    >
+                      <canvas
+                        ref={canvasRef}
+                        className="absolute inset-0"
+                        style={{
+                          width: pageSize.width * zoom,
+                          height: pageSize.height * zoom,
+                        }}
+                      />
+                      <svg
+                        ref={svgRef}
+                        className={`absolute inset-0 touch-none ${
+                          tool === "select"
+                            ? "cursor-default"
+                            : "cursor-crosshair"
+                        }`}
+                        width={pageSize.width * zoom}
+                        height={pageSize.height * zoom}
+                        viewBox={`0 0 ${pageSize.width} ${pageSize.height}`}
+                        onPointerDown={onPointerDown}
+                        onPointerMove={onPointerMove}
+                        onPointerUp={onPointerUp}
+                      >
+                        {pageEdits.map(renderEdit)}
+                        {draft && renderEdit(draft)}
+                        {selectedBox && (
+                          <rect
+                            x={selectedBox.x - 3}
+                            y={selectedBox.y - 3}
+                            width={selectedBox.width + 6}
+                            height={selectedBox.height + 6}
+                            fill="none"
+                            stroke="#3b82f6"
+                            strokeDasharray="4 3"
+                            vectorEffect="non-scaling-stroke"
+                          />
+                        )}
+                      </svg>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Properties</CardTitle>
+                <CardDescription>
+                  {selected
+                    ? `Editing the selected ${selected.kind}.`
+                    : "Used for new edits."}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <Label>Color</Label>
+                  <input
+                    type="color"
+                    value={
+                      selected && selected.kind !== "whiteout"
+                        ? selected.color
+                        : color
+                    }
+                    onChange={(e) => {
+                      setColor(e.target.value);
+                      if (selected && selected.kind !== "whiteout") {
+                        updateSelected({ color: e.target.value }, "color");
+                      }
+                    }}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>
+                    Opacity:{" "}
+                    {Math.round((selected ? selected.opacity : opacity) * 100)}%
+                  </Label>
+                  <Slider
+                    value={[(selected ? selected.opacity : opacity) * 100]}
+                    onValueChange={(v) => {
+                      setOpacity(v[0] / 100);
+                      if (selected) {
+                        updateSelected({ opacity: v[0] / 100 }, "opacity");
+                      }
+                    }}
+                    min={10}
+                    max={100}
+                    step={5}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>
+                    Stroke width:{" "}
+                    {selected && "strokeWidth" in selected
+                      ? selected.strokeWidth
+                      : strokeWidth}
+                    pt
+                  </Label>
+                  <Slider
+                    value={[
+                      selected && "strokeWidth" in selected
+                        ? selected.strokeWidth
+                        : strokeWidth,
+                    ]}
+                    onValueChange={(v) => {
+                      setStrokeWidth(v[0]);
+                      if (selected && "strokeWidth" in selected) {
+                        updateSelected({ strokeWidth: v[0] }, "strokeWidth");
+                      }
+                    }}
+                    min={1}
+                    max={20}
+                    step={1}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Font size</Label>
+                  <Input
+                    type="number"
+                    min={4}
+                    max={144}
+                    value={
+                      selected?.kind === "text" ? selected.fontSize : fontSize
+                    }
+                    onChange={(e) => {
+                      const size = Math.max(
+                        4,
+                        Math.min(144, parseInt(e.target.value || "16", 10))
+                      );
+                      setFontSize(size);
+                      if (selected?.kind === "text") {
+                        updateSelected({ fontSize: size }, "fontSize");
+                      }
+                    }}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Text</Label>
+                  <Textarea
+                    rows={3}
+                    value={selected?.kind === "text" ? selected.text : text}
+                    onChange={(e) => {
+                      if (selected?.kind === "text") {
+                        updateSelected({ text: e.target.value }, "text");
+                      } else {
+                        setText(e.target.value);
+                      }
+                    }}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Pick the text tool and click on the page to place it.
+                    Characters outside Latin-1 are written as “?”.
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <Label>Image (PNG, JPEG, WebP…)</Label>
+                  <Input
+                    type="file"
+                    accept="image/*"
+                    onChange={(e) => onImagePicked(e.target.files)}
+                  />
+                  {image && (
+                    <img
+                      src={image.src}
+                      alt="Image to place"
+                      className="max-h-20 rounded border"
+                    />
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Save</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div>
+                  <Label>Output</Label>
+                  <select
+                    className="mt-1 w-full p-2 rounded border"
+                    value={outputMode}
+                    onChange={(e) =>
+                      setOutputMode(e.target.value as OutputMode)
+                    }
+                  >
+                    <option value="flatten">Flatten into page content</option>
+                    <option value="annotations">
+                      Standard PDF annotations (editable)
+                    </option>
+                  </select>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Whiteout only covers content visually; the text underneath
+                    stays in the file.
+                  </p>
+                </div>
+                <Button
+                  onClick={save}
+                  disabled={!file || edits.length === 0 || isProcessing}
+                  className="w-full"
+                  size="lg"
+                >
+                  {isProcessing ? (
+                    <>
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" /> Saving
+                    </>
+                  ) : (
+                    <>
+                      <Download className="w-4 h-4 mr-2" /> Download PDF (
+                      {edits.length} edit{edits.length === 1 ? "" : "s"})
+                    </>
+                  )}
+                </Button>
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PdfEditor;
@@ -24,7 +24,15 @@ import {
   Layers3,
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { PDFDocument, StandardFonts, rgb } from "pdf-lib";
+import { PDFDocument, PageSizes, StandardFonts, rgb } from "pdf-lib";
+import {
+  pageDestination,
+  pruneOutline,
+  readOutline,
+  remapOutline,
+  writeOutline,
+  type OutlineNode,
+} from "@/utils/pdfOutline";
 
 // Helpers
 type SelFile = {
@@ -32,6 +40,16 @@ type SelFile = {
   range: string; // e.g. "1-3,5" (leave blank for all)
 };
 
+type Section = {
+  title: string;
+  startIndex: number; // 0-based, before any TOC pages are inserted
+  outline: OutlineNode[]; // the file's own bookmarks, already re-targeted
+};
+
+const TOC_MARGIN = 50;
+const TOC_FONT_SIZE = 12;
+const TOC_LINE_HEIGHT = 18;
+
 const parseRange = (range: string, total: number): number[] => {
   if (!range.trim()) return Array.from({ length: total }, (_, i) => i + 1);
   const out = new Set<number>();
@@ -143,39 +161,96 @@ const PDFMerger: React.FC = () => {
     });
   };
 
-  const makeTOCPage = async (
-    doc: PDFDocument,
-    sections: { title: string; startPage: number }[]
-  ) => {
-    const page = doc.addPage();
+  // Inserts the contents page(s) at the front and returns how many were
+  // added. Every entry is a link to the section's first page.
+  const makeTOCPage = async (doc: PDFDocument, sections: Section[]) => {
     const font = await doc.embedFont(StandardFonts.Helvetica);
-    const { width, height } = page.getSize();
-    let y = height - 60;
-    page.drawText("Contents", {
-      x: 50,
-      y,
+    const supported = new Set(font.getCharacterSet());
+    const clean = (s: string) =>
+      Array.from(s)
+        .map((ch) => (supported.has(ch.codePointAt(0)!) ? ch : "?"))
+        .join("");
+    // Summed per glyph: widthOfTextAtSize applies kerning, drawText does not
+    const widthOf = (s: string) =>
+      Array.from(s).reduce(
+        (w, ch) => w + font.widthOfTextAtSize(ch, TOC_FONT_SIZE),
+        0
+      );
+
+    const [width, height] = PageSizes.A4;
+    const firstY = height - 90;
+    const topY = height - 60;
+    const bottomY = 60;
+    const perFirst = Math.floor((firstY - bottomY) / TOC_LINE_HEIGHT) + 1;
+    const perNext = Math.floor((topY - bottomY) / TOC_LINE_HEIGHT) + 1;
+    const tocCount =
+      sections.length <= perFirst
+        ? 1
+        : 1 + Math.ceil((sections.length - perFirst) / perNext);
+    const pages = Array.from({ length: tocCount }, (_, i) =>
+      doc.insertPage(i, [width, height])
+    );
+
+    pages[0].drawText("Contents", {
+      x: TOC_MARGIN,
+      y: topY,
       size: 24,
       font,
       color: rgb(0.2, 0.2, 0.2),
     });
-    y -= 30;
+
+    const right = width - TOC_MARGIN;
+    const leader = ". ";
+    let pageNo = 0;
+    let y = firstY;
     for (const s of sections) {
-      page.drawText(`${s.title} — starts at page ${s.startPage}`, {
-        x: 50,
-        y,
-        size: 12,
-        font,
-        color: rgb(0, 0, 0),
-      });
-      y -= 18;
-      if (y < 60) {
-        y = height - 60;
-        doc.addPage();
+      if (y < bottomY) {
+        pageNo += 1;
+        y = topY;
       }
+      const page = pages[pageNo];
+      const target = s.startIndex + tocCount;
+      const label = String(target + 1);
+      const labelWidth = widthOf(label);
+
+      // Leave room for at least a few leader dots before the number
+      const maxTitle = right - TOC_MARGIN - labelWidth - 30;
+      let title = clean(s.title);
+      if (widthOf(title) > maxTitle) {
+        while (title && widthOf(`${title}…`) > maxTitle) {
+          title = title.slice(0, -1);
+        }
+        title = `${title}…`;
+      }
+      const text = { y, size: TOC_FONT_SIZE, font, color: rgb(0, 0, 0) };
+      page.drawText(title, { ...text, x: TOC_MARGIN });
+      page.drawText(label, { ...text, x: right - labelWidth });
+
+      // Dots are right-aligned so they line up from entry to entry
+      const gapStart = TOC_MARGIN + widthOf(title) + 6;
+      const gapEnd = right - labelWidth - 6;
+      const dots = Math.floor((gapEnd - gapStart) / widthOf(leader));
+      if (dots > 0) {
+        page.drawText(leader.repeat(dots), {
+          ...text,
+          x: gapEnd - dots * widthOf(leader),
+          color: rgb(0.5, 0.5, 0.5),
+        });
+      }
+
+      const link = doc.context.register(
+        doc.context.obj({
+          Type: "Annot",
+          Subtype: "Link",
+          Rect: [TOC_MARGIN, y - 4, right, y + TOC_FONT_SIZE],
+          Border: [0, 0, 0],
+          Dest: pageDestination(doc, target),
+        })
+      );
+      page.node.addAnnot(link);
+      y -= TOC_LINE_HEIGHT;
     }
-    // Move TOC to front by rotating pages: insert at 0
-    const last = doc.getPages().pop()!;
-    doc.insertPage(0, last);
+    return tocCount;
   };
 
   const merge = async () => {
@@ -193,7 +268,7 @@ const PDFMerger: React.FC = () => {
 
     try {
       const out = await PDFDocument.create();
-      const sections: { title: string; startPage: number }[] = [];
+      const sections: Section[] = [];
 
       let totalSteps = items.length;
       let step = 0;
@@ -209,10 +284,16 @@ const PDFMerger: React.FC = () => {
             : src.getPageIndices();
         if (indices.length === 0) continue;
 
-        const startPage = out.getPageCount() + 1;
+        const startIndex = out.getPageCount();
+        const position = new Map(indices.map((idx, pos) => [idx, pos]));
         sections.push({
           title: file.name.replace(/\.[^.]+$/, ""),
-          startPage,
+          startIndex,
+          outline: pruneOutline(
+            remapOutline(readOutline(src), (idx) =>
+              position.has(idx) ? startIndex + position.get(idx)! : null
+            )
+          ),
         });
 
         const pages = await out.copyPages(src, indices);
@@ -222,9 +303,32 @@ const PDFMerger: React.FC = () => {
         setProgress(Math.round((step / totalSteps) * 90));
       }
 
-      if (addToc && sections.length > 1) {
-        await makeTOCPage(out, sections);
-      }
+      const tocCount =
+        addToc && sections.length > 1 ? await makeTOCPage(out, sections) : 0;
+
+      // One top-level bookmark per file with the file's own tree inside
+      const shift = (nodes: OutlineNode[]) =>
+        remapOutline(nodes, (idx) => idx + tocCount);
+      writeOutline(out, [
+        ...(tocCount > 0
+          ? [
+              {
+                title: "Contents",
+                pageIndex: 0,
+                top: null,
+                open: false,
+                children: [],
+              },
+            ]
+          : []),
+        ...sections.map((s) => ({
+          title: s.title,
+          pageIndex: s.startIndex + tocCount,
+          top: null,
+          open: false,
+          children: shift(s.outline),
+        })),
+      ]);
 
       const mergedBytes = await out.save();
       downloadBlob(mergedBytes, outputName || "merged.pdf");
@@ -398,7 +502,7 @@ const PDFMerger: React.FC = () => {
                     onCheckedChange={setAddToc}
                   />
                   <Label htmlFor="toc">
-                    Add TOC page at start (bookmark alternative)
+                    Add clickable table of contents at start
                   </Label>
                 </div>
 
@@ -458,7 +562,10 @@ const PDFMerger: React.FC = () => {
                     <ul className="text-sm text-muted-foreground space-y-1">
                       <li>• Combine multiple PDFs client‑side</li>
                       <li>• Reorder files and set per‑file page ranges</li>
-                      <li>• Optional TOC page as a bookmarks alternative</li>
+                      <li>
+                        • Keeps each file's bookmarks under one named after it
+                      </li>
+                      <li>• Optional linked TOC page with dot leaders</li>
                       <li>• Quick copy‑pages merging for speed</li>
                     </ul>
                   </div>
@@ -0,0 +1,718 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import {
+  ArrowLeft,
+  Copy,
+  Download,
+  FilePlus2,
+  LayoutGrid,
+  Loader2,
+  Merge,
+  RotateCcw,
+  RotateCw,
+  Trash2,
+} from "lucide-react";
+import JSZip from "jszip";
+import * as pdfjsLib from "pdfjs-dist";
+import PDFWorker from "pdfjs-dist/build/pdf.worker.mjs?worker";
+import { useToast } from "@/hooks/use-toast";
+import {
+  BLANK_PAGE_SIZES,
+  buildOrganizedPdf,
+  deletePage,
+  docFromSource,
+  duplicatePage,
+  insertBlankPage,
+  movePage,
+  newId,
+  rotatePage,
+  type BlankPageSize,
+  type OrganizerDoc,
+  type PageSlot,
+  type SourcePdf,
+} from "@/utils/pdfOrganizer";
+pdfjsLib.GlobalWorkerOptions.workerPort = new PDFWorker();
+
+const THUMB_WIDTH = 140;
+
+// Thumbnail of a source page, keyed by `${sourceId}:${index}`. Width and
+// height are the page's displayed size in points (own rotation applied).
+type Thumb = { url: string; width: number; height: number };
+
+const thumbKey = (sourceId: string, index: number) => `${sourceId}:${index}`;
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+const pdfBlob = (bytes: Uint8Array) => {
+  const copy = new Uint8Array(bytes.byteLength);
+  copy.set(bytes);
+  return new Blob([copy.buffer], { type: "application/pdf" });
+};
+
+const PdfOrganizer: React.FC = () => {
+  const [sources, setSources] = useState<SourcePdf[]>([]);
+  const [docs, setDocs] = useState<OrganizerDoc[]>([]);
+  const [thumbs, setThumbs] = useState<Record<string, Thumb>>({});
+  const [loading, setLoading] = useState(false);
+
+  const [blankSize, setBlankSize] = useState<BlankPageSize>("match");
+  const [blankLandscape, setBlankLandscape] = useState(false);
+
+  const [dragId, setDragId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<{
+    docId: string;
+    index: number;
+  } | null>(null);
+
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [progress, setProgress] = useState(0);
+
+  const proxies = useRef(new Map<string, pdfjsLib.PDFDocumentProxy>());
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const map = proxies.current;
+    return () => {
+      map.forEach((p) => p.destroy());
+      map.clear();
+    };
+  }, []);
+
+  // ---------- loading ----------
+
+  const renderThumbs = async (
+    sourceId: string,
+    pdf: pdfjsLib.PDFDocumentProxy
+  ) => {
+    const canvas = document.createElement("canvas");
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+    for (let i = 1; i <= pdf.numPages; i++) {
+      const page = await pdf.getPage(i);
+      const base = page.getViewport({ scale: 1 });
+      const viewport = page.getViewport({
+        scale: (THUMB_WIDTH * 2) / Math.max(base.width, base.height),
+      });
+      canvas.width = Math.floor(viewport.width);
+      canvas.height = Math.floor(viewport.height);
+      ctx.fillStyle = "#ffffff";
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      await page.render({ canvas, canvasContext: ctx, viewport }).promise;
+      const thumb = {
+        url: canvas.toDataURL("image/jpeg", 0.8),
+        width: base.width,
+        height: base.height,
+      };
+      setThumbs((prev) => ({ ...prev, [thumbKey(sourceId, i - 1)]: thumb }));
+      page.cleanup();
+    }
+  };
+
+  const onFiles = async (files: File[]) => {
+    const pdfs = files.filter((f) => f.type === "application/pdf");
+    if (pdfs.length === 0) {
+      toast({
+        title: "No PDFs",
+        description: "Please select one or more PDF files.",
+        variant: "destructive",
+      });
+      return;
+    }
+    setLoading(true);
+    const loaded: { source: SourcePdf; pdf: pdfjsLib.PDFDocumentProxy }[] = [];
+    for (const file of pdfs) {
+      try {
+        const bytes = await file.arrayBuffer();
+        // pdf.js detaches the buffer it is given, so hand it a copy
+        const pdf = await pdfjsLib.getDocument({
+          data: new Uint8Array(bytes.slice(0)),
+        }).promise;
+        const source = { id: newId(), name: file.name, bytes };
+        proxies.current.set(source.id, pdf);
+        loaded.push({ source, pdf });
+      } catch (err) {
+        console.error(err);
+        toast({
+          title: "Could not open PDF",
+          description: `${file.name} may be damaged or password protected.`,
+          variant: "destructive",
+        });
+      }
+    }
+    setSources((prev) => [...prev, ...loaded.map((l) => l.source)]);
+    setDocs((prev) => [
+      ...prev,
+      ...loaded.map((l) => docFromSource(l.source, l.pdf.numPages)),
+    ]);
+    setLoading(false);
+    for (const l of loaded) await renderThumbs(l.source.id, l.pdf);
+  };
+
+  // ---------- page operations ----------
+
+  const displaySize = (slot: PageSlot) => {
+    const size =
+      slot.kind === "blank"
+        ? { width: slot.width, height: slot.height }
+        : thumbs[thumbKey(slot.sourceId, slot.index)] ?? {
+            width: 595.28,
+            height: 841.89,
+          };
+    return slot.rotation % 180
+      ? { width: size.height, height: size.width }
+      : { width: size.width, height: size.height };
+  };
+
+  const blankDimensions = (doc: OrganizerDoc, index: number) => {
+    let [w, h]: number[] = [...BLANK_PAGE_SIZES.A4];
+    if (blankSize !== "match") {
+      [w, h] = BLANK_PAGE_SIZES[blankSize];
+    } else {
+      // Same size as the page before the insertion point (or after it)
+      const neighbour = doc.pages[index - 1] ?? doc.pages[index];
+      if (neighbour) {
+        const s = displaySize(neighbour);
+        return { width: s.width, height: s.height };
+      }
+    }
+    return blankLandscape
+      ? { width: Math.max(w, h), height: Math.min(w, h) }
+      : { width: Math.min(w, h), height: Math.max(w, h) };
+  };
+
+  const addBlank = (docId: string, index: number) => {
+    const doc = docs.find((d) => d.id === docId);
+    if (!doc) return;
+    const { width, height } = blankDimensions(doc, index);
+    setDocs((prev) => insertBlankPage(prev, docId, index, width, height));
+  };
+
+  const addDocument = () => {
+    setDocs((prev) => [
+      ...prev,
+      { id: newId(), name: `Document ${prev.length + 1}`, pages: [] },
+    ]);
+  };
+
+  const combineAll = () => {
+    if (docs.length < 2) return;
+    setDocs((prev) => [{ ...prev[0], pages: prev.flatMap((d) => d.pages) }]);
+  };
+
+  const removeDocument = (docId: string) => {
+    setDocs((prev) => prev.filter((d) => d.id !== docId));
+  };
+
+  const renameDocument = (docId: string, name: string) => {
+    setDocs((prev) => prev.map((d) => (d.id === docId ? { ...d, name } : d)));
+  };
+
+  // ---------- drag and drop ----------
+
+  const onThumbDragOver = (
+    e: React.DragEvent,
+    docId: string,
+    index: number
+  ) => {
+    if (!dragId) return;
+    e.preventDefault();
+    e.stopPropagation();
+    const rect = (e.currentTarget as HTMLElement).getBoundingClientRect();
+    const after = e.clientX > rect.left + rect.width / 2;
+    const target = { docId, index: after ? index + 1 : index };
+    if (
+      dropTarget?.docId !== target.docId ||
+      dropTarget?.index !== target.index
+    ) {
+      setDropTarget(target);
+    }
+  };
+
+  const onDocDragOver = (e: React.DragEvent, doc: OrganizerDoc) => {
+    if (!dragId) return;
+    e.preventDefault();
+    if (dropTarget?.docId !== doc.id) {
+      setDropTarget({ docId: doc.id, index: doc.pages.length });
+    }
+  };
+
+  const onDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (dragId && dropTarget) {
+      setDocs((prev) =>
+        movePage(prev, dragId, dropTarget.docId, dropTarget.index)
+      );
+    }
+    setDragId(null);
+    setDropTarget(null);
+  };
+
+  // ---------- saving ----------
+
+  const saveDocs = async (targets: OrganizerDoc[]) => {
+    const nonEmpty = targets.filter((d) => d.pages.length > 0);
+    if (nonEmpty.length === 0) {
+      toast({
+        title: "Nothing to save",
+        description: "Add at least one page to the document.",
+        variant: "destructive",
+      });
+      return;
+    }
+    setIsProcessing(true);
+    setProgress(0);
+    try {
+      const total = nonEmpty.reduce((s, d) => s + d.pages.length, 0);
+      let done = 0;
+      const outputs: { name: string; bytes: Uint8Array }[] = [];
+      const used = new Set<string>();
+      for (const doc of nonEmpty) {
+        const bytes = await buildOrganizedPdf(doc, sources, (n) =>
+          setProgress(Math.round(((done + n) / total) * 90))
+        );
+        done += doc.pages.length;
+        const base = (doc.name.trim() || "document").replace(
+          /[\\/:*?"<>|]/g,
+          "_"
+        );
+        let name = base;
+        for (let i = 2; used.has(name); i++) name = `${base} (${i})`;
+        used.add(name);
+        outputs.push({ name: `${name}.pdf`, bytes });
+      }
+
+      if (outputs.length === 1) {
+        downloadBlob(pdfBlob(outputs[0].bytes), outputs[0].name);
+      } else {
+        const zip = new JSZip();
+        outputs.forEach((o) => zip.file(o.name, o.bytes));
+        downloadBlob(
+          await zip.generateAsync({ type: "blob" }),
+          "organized_pdfs.zip"
+        );
+      }
+      setProgress(100);
+      toast({
+        title: "Saved",
+        description: `Created ${outputs.length} PDF${
+          outputs.length === 1 ? "" : "s"
+        } with ${total} pages.`,
+      });
+    } catch (err) {
+      console.error(err);
+      toast({
+        title: "Error",
+        description: "Failed to write the organized PDF.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsProcessing(false);
+      setProgress(0);
+    }
+  };
+
+  // ---------- rendering ----------
+
+  const renderSlot = (doc: OrganizerDoc, slot: PageSlot, idx: number) => {
+    const size = displaySize(slot);
+    const scale = THUMB_WIDTH / Math.max(size.width, size.height);
+    const thumb =
+      slot.kind === "page" ? thumbs[thumbKey(slot.sourceId, slot.index)] : null;
+    const source =
+      slot.kind === "page" ? sources.find((s) => s.id === slot.sourceId) : null;
+    // The thumbnail is drawn unrotated and turned with CSS, so the box it
+    // sits in uses the unrotated size
+    const inner =
+      slot.rotation % 180
+        ? { width: size.height * scale, height: size.width * scale }
+        : { width: size.width * scale, height: size.height * scale };
+
+    return (
+      <div
+        key={slot.id}
+        className="relative flex items-stretch"
+        onDragOver={(e) => onThumbDragOver(e, doc.id, idx)}
+        onDrop={onDrop}
+      >
+        {dropTarget?.docId === doc.id && dropTarget.index === idx && (
+          <div className="absolute -left-2 top-0 bottom-0 w-1 rounded bg-primary" />
+        )}
+        <div
+          draggable
+          onDragStart={(e) => {
+            e.dataTransfer.effectAllowed = "move";
+            e.dataTransfer.setData("text/plain", slot.id);
+            setDragId(slot.id);
+          }}
+          onDragEnd={() => {
+            setDragId(null);
+            setDropTarget(null);
+          }}
+          className={`group border rounded p-2 bg-card cursor-grab ${
+            dragId === slot.id ? "opacity-40" : ""
+          }`}
+          style={{ width: THUMB_WIDTH + 18 }}
+        >
+          <div
+            className="flex items-center justify-center"
+            style={{ height: THUMB_WIDTH }}
+          >
+            <div
+              className="bg-white shadow-sm border flex items-center justify-center text-xs text-muted-foreground"
+              style={{
+                width: inner.width,
+                height: inner.height,
+                transform: `rotate(${slot.rotation}deg)`,
+              }}
+            >
+              {slot.kind === "blank" ? (
+                "Blank"
+              ) : thumb ? (
+                <img
+                  src={thumb.url}
+                  alt={`Page ${slot.index + 1}`}
+                  className="w-full h-full"
+                  draggable={false}
+                />
+              ) : (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              )}
+            </div>
+          </div>
+          <div className="mt-1 flex items-center justify-between text-xs">
+            <span className="font-medium">{idx + 1}</span>
+            <span className="truncate text-muted-foreground ml-1">
+              {slot.kind === "blank"
+                ? `${Math.round(slot.width)}×${Math.round(slot.height)} pt`
+                : `${source?.name ?? ""} p.${slot.index + 1}`}
+            </span>
+          </div>
+          <div className="mt-1 flex justify-between opacity-60 group-hover:opacity-100">
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-6 w-6"
+              title="Rotate left"
+              onClick={() => setDocs((prev) => rotatePage(prev, slot.id, -90))}
+            >
+              <RotateCcw className="w-3 h-3" />
+            </Button>
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-6 w-6"
+              title="Rotate right"
+              onClick={() => setDocs((prev) => rotatePage(prev, slot.id, 90))}
+            >
+              <RotateCw className="w-3 h-3" />
+            </Button>
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-6 w-6"
+              title="Duplicate"
+              onClick={() => setDocs((prev) => duplicatePage(prev, slot.id))}
+            >
+              <Copy className="w-3 h-3" />
+            </Button>
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-6 w-6"
+              title="Insert blank page after"
+              onClick={() => addBlank(doc.id, idx + 1)}
+            >
+              <FilePlus2 className="w-3 h-3" />
+            </Button>
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-6 w-6"
+              title="Delete"
+              onClick={() => setDocs((prev) => deletePage(prev, slot.id))}
+            >
+              <Trash2 className="w-3 h-3" />
+            </Button>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  const totalPages = docs.reduce((s, d) => s + d.pages.length, 0);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="bg-gradient-to-br from-purple-500 to-pink-600">
+        <div className="container mx-auto px-4 py-6">
+          <div className="flex items-center mb-4">
+            <Link to="/conversion-tools" className="mr-4">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-white hover:bg-white/20"
+              >
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back to Tools
+              </Button>
+            </Link>
+          </div>
+          <div className="flex items-center text-white">
+            <LayoutGrid className="w-8 h-8 mr-3" />
+            <div>
+              <h1 className="text-3xl font-bold">Page Organizer</h1>
+              <p className="text-lg text-white/90">
+                Reorder, rotate, delete, duplicate and insert pages across one
+                or more PDFs.
+              </p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-8">
+        <div className="grid lg:grid-cols-4 gap-8">
+          <div className="lg:col-span-3 space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Select PDFs</CardTitle>
+                <CardDescription>
+                  Each file opens as its own document. Drag pages to reorder
+                  them or to move them into another document.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="border border-dashed rounded-md p-4">
+                  <Label htmlFor="organizer-input" className="mb-2 block">
+                    Choose PDFs
+                  </Label>
+                  <Input
+                    id="organizer-input"
+                    type="file"
+                    accept="application/pdf"
+                    multiple
+                    onChange={(e) => {
+                      const f = e.target.files
+                        ? Array.from(e.target.files)
+                        : [];
+                      e.target.value = "";
+                      onFiles(f);
+                    }}
+                  />
+                </div>
+                {loading && (
+                  <div className="flex items-center text-sm text-muted-foreground mt-3">
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" /> Opening
+                    PDFs…
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {docs.map((doc) => (
+              <Card key={doc.id}>
+                <CardHeader className="pb-3">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Input
+                      className="max-w-xs"
+                      value={doc.name}
+                      onChange={(e) => renameDocument(doc.id, e.target.value)}
+                    />
+                    <Badge variant="secondary">
+                      {doc.pages.length} page
+                      {doc.pages.length === 1 ? "" : "s"}
+                    </Badge>
+                    <div className="ml-auto flex gap-1">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => addBlank(doc.id, doc.pages.length)}
+                      >
+                        <FilePlus2 className="w-4 h-4 mr-1" /> Blank page
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={doc.pages.length === 0 || isProcessing}
+                        onClick={() => saveDocs([doc])}
+                      >
+                        <Download className="w-4 h-4 mr-1" /> Save
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        title="Remove document"
+                        onClick={() => removeDocument(doc.id)}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <div
+                    className={`flex flex-wrap gap-4 min-h-[120px] rounded border border-dashed p-3 ${
+                      dropTarget?.docId === doc.id ? "border-primary" : ""
+                    }`}
+                    onDragOver={(e) => onDocDragOver(e, doc)}
+                    onDragLeave={(e) => {
+                      if (!e.currentTarget.contains(e.relatedTarget as Node)) {
+                        setDropTarget(null);
+                      }
+                    }}
+                    onDrop={onDrop}
+                  >
+                    {doc.pages.map((slot, idx) => renderSlot(doc, slot, idx))}
+                    {dropTarget?.docId === doc.id &&
+                      dropTarget.index === doc.pages.length && (
+                        <div className="w-1 rounded bg-primary" />
+                      )}
+                    {doc.pages.length === 0 && (
+                      <div className="m-auto text-sm text-muted-foreground">
+                        Drop pages here
+                      </div>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Blank pages</CardTitle>
+                <CardDescription>
+                  Size used by the “Blank page” buttons.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div>
+                  <Label>Page size</Label>
+                  <select
+                    className="mt-1 w-full p-2 rounded border"
+                    value={blankSize}
+                    onChange={(e) =>
+                      setBlankSize(e.target.value as BlankPageSize)
+                    }
+                  >
+                    <option value="match">Same as neighbouring page</option>
+                    {Object.keys(BLANK_PAGE_SIZES).map((k) => (
+                      <option key={k} value={k}>
+                        {k}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <Label>Orientation</Label>
+                  <select
+                    className="mt-1 w-full p-2 rounded border"
+                    value={blankLandscape ? "landscape" : "portrait"}
+                    disabled={blankSize === "match"}
+                    onChange={(e) =>
+                      setBlankLandscape(e.target.value === "landscape")
+                    }
+                  >
+                    <option value="portrait">Portrait</option>
+                    <option value="landscape">Landscape</option>
+                  </select>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Documents</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  onClick={addDocument}
+                >
+                  <FilePlus2 className="w-4 h-4 mr-2" /> New empty document
+                </Button>
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  disabled={docs.length < 2}
+                  onClick={combineAll}
+                >
+                  <Merge className="w-4 h-4 mr-2" /> Combine into one
+                </Button>
+                {isProcessing && (
+                  <div className="space-y-2">
+                    <div className="flex justify-between text-sm text-muted-foreground">
+                      <span>Saving...</span>
+                      <span>{progress}%</span>
+                    </div>
+                    <Progress value={progress} />
+                  </div>
+                )}
+                <Button
+                  className="w-full"
+                  size="lg"
+                  disabled={totalPages === 0 || isProcessing}
+                  onClick={() => saveDocs(docs)}
+                >
+                  {isProcessing ? (
+                    <>
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      Saving ({progress}%)
+                    </>
+                  ) : (
+                    <>
+                      <Download className="w-4 h-4 mr-2" />
+                      Save {docs.length > 1 ? "all (ZIP)" : "PDF"}
+                    </>
+                  )}
+                </Button>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <LayoutGrid className="w-5 h-5 mr-2" /> Page Organizer
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ul className="text-sm text-muted-foreground space-y-1">
+                  <li>• Drag pages between positions and documents</li>
+                  <li>• Rotate, duplicate or delete single pages</li>
+                  <li>• Insert blank pages of a chosen size</li>
+                  <li>• Pages are copied as-is, so text stays selectable</li>
+                </ul>
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PdfOrganizer;
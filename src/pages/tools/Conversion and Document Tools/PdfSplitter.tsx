@@ -1,4 +1,4 @@
-import React, { useMemo, useState } from "react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
 import { Link } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import {
@@ -25,6 +25,13 @@ import {
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { PDFDocument } from "pdf-lib";
+import {
+  pruneOutline,
+  readOutline,
+  remapOutline,
+  writeOutline,
+  type OutlineNode,
+} from "@/utils/pdfOutline";
 import JSZip from "jszip";
 import * as pdfjsLib from "pdfjs-dist";
 import PDFWorker from "pdfjs-dist/build/pdf.worker.mjs?worker";
@@ -33,7 +40,36 @@ import PDFWorker from "pdfjs-dist/build/pdf.worker.mjs?worker";
 pdfjsLib.GlobalWorkerOptions.workerPort = new PDFWorker();
 
 type SelFile = { file: File };
-type Mode = "single" | "ranges" | "bookmarks";
+type Mode =
+  | "single"
+  | "ranges"
+  | "bookmarks"
+  | "everyN"
+  | "maxSize"
+  | "blank"
+  | "text";
+
+// One output document before it is written: 0-based page indices plus the
+// values the naming template can use. `bytes` is set when the mode already
+// had to save the part (max file size); `outline` is written into the part.
+type Part = {
+  indices: number[];
+  title?: string;
+  path?: string;
+  match?: string;
+  outline?: OutlineNode[];
+  bytes?: Uint8Array;
+};
+
+const DEFAULT_TEMPLATES: Record<Mode, string> = {
+  single: "{name}_p{start:03}",
+  ranges: "{name}_part_{index:02}",
+  bookmarks: "{name}_{index:02}_{title}",
+  everyN: "{name}_part_{index:02}",
+  maxSize: "{name}_part_{index:02}",
+  blank: "{name}_part_{index:02}",
+  text: "{name}_{index:02}_{match}",
+};
 
 // Helpers
 const formatSize = (bytes: number) => {
@@ -47,6 +83,51 @@ const formatSize = (bytes: number) => {
 const sanitizeBase = (name: string) =>
   name.replace(/\.[^.]+$/, "").replace(/[^\w.-]+/g, "_");
 
+// Bookmark titles and matched text as filename fragments; letters from any
+// script are kept, everything else becomes "_"
+const sanitizePart = (text: string) =>
+  text
+    .replace(/[^\p{L}\p{N}.-]+/gu, "_")
+    .replace(/^[_.]+|_+$/g, "")
+    .slice(0, 60);
+
+// Expands {name}, {index}, {start}, {end}, {pages}, {title} and {match};
+// numbers accept a zero-pad width such as {index:02}
+const applyNameTemplate = (
+  template: string,
+  vars: Record<string, string | number>
+) =>
+  template.replace(/\{(\w+)(?::(\d+))?\}/g, (whole, key: string, pad) => {
+    if (!(key in vars)) return whole;
+    const value = vars[key];
+    return typeof value === "number" && pad
+      ? String(value).padStart(parseInt(pad, 10), "0")
+      : String(value);
+  });
+
+// File names (without extension) for the parts of one input
+const nameParts = (template: string, base: string, parts: Part[]) => {
+  const used = new Set<string>();
+  return parts.map((part, i) => {
+    const stem =
+      applyNameTemplate(template, {
+        name: base,
+        index: i + 1,
+        start: part.indices[0] + 1,
+        end: part.indices[part.indices.length - 1] + 1,
+        pages: part.indices.length,
+        title: sanitizePart(part.title ?? "") || `section_${i + 1}`,
+        path: sanitizePart(part.path ?? ""),
+        match: sanitizePart(part.match ?? ""),
+      }) || `${base}_part_${i + 1}`;
+    // Repeated titles or matches must not overwrite each other in the ZIP
+    let name = stem;
+    for (let n = 2; used.has(name); n++) name = `${stem}_${n}`;
+    used.add(name);
+    return name;
+  });
+};
+
 const downloadBlob = (blob: Blob, name: string) => {
   const url = URL.createObjectURL(blob);
   const a = document.createElement("a");
@@ -103,45 +184,120 @@ const parseRangeGroups = (text: string, total: number): number[][] => {
   return groups;
 };
 
-// Extract top-level bookmark ranges via pdf.js: [startIndex, endIndexExclusive)
-const getTopLevelBookmarkRanges = async (pdfData: Uint8Array) => {
-  const task = pdfjsLib.getDocument({ data: pdfData });
-  const pdf = await task.promise;
-  const outline = await pdf.getOutline();
-  const numPages = pdf.numPages;
-  if (!outline || outline.length === 0) return null;
+const outlineDepth = (nodes: OutlineNode[]): number =>
+  nodes.reduce((d, n) => Math.max(d, 1 + outlineDepth(n.children)), 0);
+
+const outlineSize = (nodes: OutlineNode[]): number =>
+  nodes.reduce((sum, n) => sum + 1 + outlineSize(n.children), 0);
 
-  type Entry = { title: string; start: number };
+// Every bookmark down to `depth` starts a part that runs until the next one.
+// When several start on the same page the deepest wins, so a Part whose first
+// Chapter begins on its own page yields the Chapter. Each part carries the
+// sub-bookmarks of the entry it was cut at, re-targeted to its own pages.
+const getBookmarkParts = (
+  outline: OutlineNode[],
+  numPages: number,
+  depth: number
+): Part[] => {
+  type Entry = { node: OutlineNode; path: string[]; start: number };
   const entries: Entry[] = [];
+  const walk = (nodes: OutlineNode[], level: number, path: string[]) => {
+    for (const node of nodes) {
+      const here = [...path, node.title];
+      if (node.pageIndex !== null) {
+        entries.push({ node, path: here, start: node.pageIndex });
+      }
+      if (level < depth) walk(node.children, level + 1, here);
+    }
+  };
+  walk(outline, 1, []);
+
+  const sorted = entries
+    .map((e, order) => ({ ...e, order }))
+    .sort((a, b) => a.start - b.start || a.order - b.order)
+    .filter(
+      (e, i, arr) => i === arr.length - 1 || arr[i + 1].start !== e.start
+    );
 
-  for (const item of outline) {
-    let dest = item.dest;
-    if (!dest) continue;
-    if (typeof dest === "string") {
-      dest = await pdf.getDestination(dest);
+  return sorted.map((e, i) => {
+    const start = e.start;
+    const end = i < sorted.length - 1 ? sorted[i + 1].start : numPages;
+    return {
+      indices: Array.from({ length: end - start }, (_, k) => start + k),
+      title: e.node.title,
+      path: e.path.join("-"),
+      outline: pruneOutline(
+        remapOutline(e.node.children, (idx) =>
+          idx >= start && idx < end ? idx - start : null
+        )
+      ),
+    };
+  });
+};
+
+// Pages whose rendered ink coverage is at most `maxInkPercent` count as
+// blank. Rendering (instead of checking for text) also catches scans.
+const findBlankPages = async (
+  pdf: pdfjsLib.PDFDocumentProxy,
+  maxInkPercent: number
+) => {
+  const canvas = document.createElement("canvas");
+  const ctx = canvas.getContext("2d", { willReadFrequently: true })!;
+  const blank = new Set<number>();
+  for (let i = 1; i <= pdf.numPages; i++) {
+    const page = await pdf.getPage(i);
+    const base = page.getViewport({ scale: 1 });
+    const viewport = page.getViewport({ scale: 150 / base.width });
+    canvas.width = Math.max(1, Math.floor(viewport.width));
+    canvas.height = Math.max(1, Math.floor(viewport.height));
+    ctx.fillStyle = "#ffffff";
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    await page.render({ canvas, canvasContext: ctx, viewport }).promise;
+    const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    let ink = 0;
+    for (let p = 0; p < data.length; p += 4) {
+      const lum = 0.299 * data[p] + 0.587 * data[p + 1] + 0.114 * data[p + 2];
+      if (lum < 220) ink++;
     }
-    if (Array.isArray(dest) && dest[0]) {
-      const pageRef = dest[0];
-      const pageIndex = await pdf.getPageIndex(pageRef);
-      entries.push({
-        title: String(item.title || `Section_${entries.length + 1}`),
-        start: pageIndex,
-      });
+    if ((ink / (canvas.width * canvas.height)) * 100 <= maxInkPercent) {
+      blank.add(i - 1);
     }
+    page.cleanup();
   }
+  return blank;
+};
 
-  entries.sort((a, b) => a.start - b.start);
-  const ranges = entries.map((e, i) => {
-    const end = i < entries.length - 1 ? entries[i + 1].start : numPages;
-    return { title: e.title, start: e.start, end };
-  });
-  return { ranges, numPages };
+// Plain text of every page, one string per page
+const extractPageTexts = async (pdf: pdfjsLib.PDFDocumentProxy) => {
+  const texts: string[] = [];
+  for (let i = 1; i <= pdf.numPages; i++) {
+    const content = await (await pdf.getPage(i)).getTextContent();
+    texts.push(
+      content.items
+        .map((it) => ("str" in it ? it.str + (it.hasEOL ? "\n" : " ") : ""))
+        .join("")
+    );
+  }
+  return texts;
 };
 
 const PDFSplitter: React.FC = () => {
   const [files, setFiles] = useState<SelFile[]>([]);
   const [mode, setMode] = useState<Mode>("ranges");
   const [rangesText, setRangesText] = useState("1-3;5;10-12");
+  const [everyN, setEveryN] = useState(2);
+  const [maxSizeMb, setMaxSizeMb] = useState(10);
+  const [maxInk, setMaxInk] = useState(0.5);
+  const [pattern, setPattern] = useState("Invoice No\\.");
+  const [ignoreCase, setIgnoreCase] = useState(true);
+  const [templates, setTemplates] = useState(DEFAULT_TEMPLATES);
+  const [bookmarkDepth, setBookmarkDepth] = useState(1);
+  const [outlines, setOutlines] = useState<
+    Map<File, { outline: OutlineNode[]; numPages: number }>
+  >(new Map());
+  const outlineCache = useRef(
+    new Map<File, Promise<{ outline: OutlineNode[]; numPages: number }>>()
+  );
   const [isProcessing, setIsProcessing] = useState(false);
   const [progress, setProgress] = useState(0);
   const { toast } = useToast();
@@ -179,28 +335,121 @@ const PDFSplitter: React.FC = () => {
       return copy;
     });
 
-  const splitOneFile = async (file: File) => {
-    const base = sanitizeBase(file.name);
-    const srcBytes = new Uint8Array(await file.arrayBuffer());
-    const srcDoc = await PDFDocument.load(srcBytes);
-    const total = srcDoc.getPageCount();
+  // Outlines are read once per file for the bookmark preview
+  useEffect(() => {
+    if (mode !== "bookmarks") return;
+    let cancelled = false;
+    (async () => {
+      const next = new Map<
+        File,
+        { outline: OutlineNode[]; numPages: number }
+      >();
+      for (const { file } of files) {
+        let pending = outlineCache.current.get(file);
+        if (!pending) {
+          pending = file
+            .arrayBuffer()
+            .then((buf) => PDFDocument.load(buf))
+            .then((doc) => ({
+              outline: readOutline(doc),
+              numPages: doc.getPageCount(),
+            }))
+            .catch(() => ({ outline: [], numPages: 0 }));
+          outlineCache.current.set(file, pending);
+        }
+        next.set(file, await pending);
+      }
+      if (!cancelled) setOutlines(next);
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [files, mode]);
 
-    type Out = { name: string; bytes: Uint8Array };
-    const outputs: Out[] = [];
+  const maxBookmarkDepth = Math.max(
+    1,
+    ...Array.from(outlines.values(), (o) => outlineDepth(o.outline))
+  );
 
-    if (mode === "single") {
-      for (let i = 0; i < total; i++) {
-        const out = await PDFDocument.create();
-        const [p] = await out.copyPages(srcDoc, [i]);
-        out.addPage(p);
-        const bytes = await out.save();
-        outputs.push({
-          name: `${base}_p${String(i + 1).padStart(3, "0")}.pdf`,
-          bytes,
-        });
+  const bookmarkPreview = files.map(({ file }) => {
+    const info = outlines.get(file);
+    const parts = info
+      ? getBookmarkParts(info.outline, info.numPages, bookmarkDepth)
+      : [];
+    const template = templates.bookmarks.trim() || DEFAULT_TEMPLATES.bookmarks;
+    return {
+      file,
+      loaded: !!info,
+      parts,
+      names: nameParts(template, sanitizeBase(file.name), parts),
+    };
+  });
+
+  const copyToNewDoc = async (
+    srcDoc: PDFDocument,
+    indices: number[],
+    outline?: OutlineNode[]
+  ) => {
+    const out = await PDFDocument.create();
+    const pages = await out.copyPages(srcDoc, indices);
+    pages.forEach((p) => out.addPage(p));
+    if (outline && outline.length > 0) writeOutline(out, outline);
+    return out.save();
+  };
+
+  // Greedy: each part takes as many pages as fit under the limit, found by
+  // galloping then bisecting on the saved size. A single page that is
+  // already too large becomes a part of its own.
+  const splitBySize = async (srcDoc: PDFDocument, limit: number) => {
+    const total = srcDoc.getPageCount();
+    const range = (a: number, b: number) =>
+      Array.from({ length: b - a }, (_, k) => a + k);
+    const parts: Part[] = [];
+    let start = 0;
+    while (start < total) {
+      let best = {
+        end: start + 1,
+        bytes: await copyToNewDoc(srcDoc, [start]),
+      };
+      let lo = start + 1; // known to fit (or forced)
+      let hi = total + 1; // first end known not to fit
+      let step = 1;
+      if (best.bytes.length <= limit) {
+        while (lo < total) {
+          const end = Math.min(total, lo + step);
+          const bytes = await copyToNewDoc(srcDoc, range(start, end));
+          if (bytes.length > limit) {
+            hi = end;
+            break;
+          }
+          best = { end, bytes };
+          lo = end;
+          step *= 2;
+        }
+        while (hi - lo > 1 && lo < total) {
+          const mid = Math.floor((lo + hi) / 2);
+          const bytes = await copyToNewDoc(srcDoc, range(start, mid));
+          if (bytes.length > limit) hi = mid;
+          else {
+            best = { end: mid, bytes };
+            lo = mid;
+          }
+        }
       }
-      return outputs;
+      parts.push({ indices: range(start, best.end), bytes: best.bytes });
+      start = best.end;
     }
+    return parts;
+  };
+
+  const collectParts = async (
+    srcDoc: PDFDocument,
+    srcBytes: Uint8Array
+  ): Promise<Part[] | null> => {
+    const total = srcDoc.getPageCount();
+    const all = srcDoc.getPageIndices();
+
+    if (mode === "single") return all.map((i) => ({ indices: [i] }));
 
     if (mode === "ranges") {
       const groups = parseRangeGroups(rangesText, total);
@@ -210,46 +459,107 @@ const PDFSplitter: React.FC = () => {
           description: "Please enter ranges like 1-3;5;10-12.",
           variant: "destructive",
         });
-        return outputs;
+        return null;
       }
-      for (let gi = 0; gi < groups.length; gi++) {
-        const indices = groups[gi];
-        const out = await PDFDocument.create();
-        const pages = await out.copyPages(srcDoc, indices);
-        pages.forEach((p) => out.addPage(p));
-        const bytes = await out.save();
-        outputs.push({
-          name: `${base}_part_${String(gi + 1).padStart(2, "0")}.pdf`,
-          bytes,
-        });
+      return groups.map((indices) => ({ indices }));
+    }
+
+    if (mode === "everyN") {
+      const n = Math.max(1, Math.floor(everyN));
+      const parts: Part[] = [];
+      for (let i = 0; i < total; i += n) {
+        parts.push({ indices: all.slice(i, i + n) });
+      }
+      return parts;
+    }
+
+    if (mode === "maxSize") {
+      return splitBySize(srcDoc, maxSizeMb * 1024 * 1024);
+    }
+
+    if (mode === "blank" || mode === "text") {
+      let regex: RegExp | null = null;
+      if (mode === "text") {
+        try {
+          regex = new RegExp(pattern, ignoreCase ? "i" : "");
+        } catch {
+          toast({
+            title: "Invalid pattern",
+            description: "The text match is not a valid regular expression.",
+            variant: "destructive",
+          });
+          return null;
+        }
+      }
+      // pdf.js may take ownership of the buffer, so give it a copy
+      const pdf = await pdfjsLib.getDocument({ data: srcBytes.slice() })
+        .promise;
+      try {
+        const parts: Part[] = [];
+        if (mode === "blank") {
+          // Separator pages end the current part and are dropped
+          const blank = await findBlankPages(pdf, maxInk);
+          let current: number[] = [];
+          for (const i of all) {
+            if (!blank.has(i)) current.push(i);
+            else if (current.length > 0) {
+              parts.push({ indices: current });
+              current = [];
+            }
+          }
+          if (current.length > 0) parts.push({ indices: current });
+        } else {
+          // Every matching page starts a new part; pages before the first
+          // match form a part without a match
+          const texts = await extractPageTexts(pdf);
+          for (const i of all) {
+            const m = texts[i].match(regex!);
+            if (m || parts.length === 0) {
+              parts.push({ indices: [i], match: m ? m[0].trim() : "" });
+            } else {
+              parts[parts.length - 1].indices.push(i);
+            }
+          }
+        }
+        return parts;
+      } finally {
+        pdf.destroy();
       }
-      return outputs;
     }
 
     // mode === "bookmarks"
-    const outlineInfo = await getTopLevelBookmarkRanges(srcBytes);
-    if (!outlineInfo) {
+    const parts = getBookmarkParts(readOutline(srcDoc), total, bookmarkDepth);
+    if (parts.length === 0) {
       toast({
         title: "No bookmarks",
-        description: "No top-level bookmarks found in this PDF.",
+        description: "No bookmarks with a target page found in this PDF.",
         variant: "destructive",
       });
-      return outputs;
+      return null;
     }
-    const { ranges } = outlineInfo;
-    for (let i = 0; i < ranges.length; i++) {
-      const { title, start, end } = ranges[i];
-      if (start >= end) continue;
-      const out = await PDFDocument.create();
-      const indices = Array.from({ length: end - start }, (_, k) => start + k);
-      const pages = await out.copyPages(srcDoc, indices);
-      pages.forEach((p) => out.addPage(p));
-      const bytes = await out.save();
-      const titleSafe =
-        title.replace(/[^\w.-]+/g, "_").slice(0, 40) || `section_${i + 1}`;
+    return parts;
+  };
+
+  const splitOneFile = async (file: File) => {
+    const base = sanitizeBase(file.name);
+    const srcBytes = new Uint8Array(await file.arrayBuffer());
+    const srcDoc = await PDFDocument.load(srcBytes);
+
+    type Out = { name: string; bytes: Uint8Array; oversize: boolean };
+    const outputs: Out[] = [];
+    const parts = await collectParts(srcDoc, srcBytes);
+    if (!parts) return outputs;
+
+    const template = templates[mode].trim() || DEFAULT_TEMPLATES[mode];
+    const names = nameParts(template, base, parts);
+    for (let i = 0; i < parts.length; i++) {
+      const part = parts[i];
+      const bytes =
+        part.bytes ?? (await copyToNewDoc(srcDoc, part.indices, part.outline));
       outputs.push({
-        name: `${base}_${titleSafe}.pdf`,
+        name: `${names[i]}.pdf`,
         bytes,
+        oversize: mode === "maxSize" && bytes.length > maxSizeMb * 1024 * 1024,
       });
     }
     return outputs;
@@ -269,7 +579,11 @@ const PDFSplitter: React.FC = () => {
     setProgress(0);
 
     try {
-      const allOutputs: { name: string; bytes: Uint8Array }[] = [];
+      const allOutputs: {
+        name: string;
+        bytes: Uint8Array;
+        oversize: boolean;
+      }[] = [];
       let steps = files.length;
       let step = 0;
 
@@ -291,6 +605,19 @@ const PDFSplitter: React.FC = () => {
         return;
       }
 
+      const oversize = allOutputs.filter((o) => o.oversize).length;
+      if (oversize > 0) {
+        toast({
+          title: "Some parts are over the limit",
+          description: `${oversize} single page${
+            oversize === 1 ? " is" : "s are"
+          } larger than ${maxSizeMb} MB on ${
+            oversize === 1 ? "its" : "their"
+          } own.`,
+          variant: "destructive",
+        });
+      }
+
       if (allOutputs.length === 1) {
         const { name, bytes } = allOutputs[0];
         const blob = new Blob([toStrictArrayBuffer(bytes)], {
@@ -306,9 +633,16 @@ const PDFSplitter: React.FC = () => {
       }
 
       const zip = new JSZip();
+      // Different inputs can still produce the same name (a template
+      // without {name}), so repeats are numbered rather than overwritten
+      const used = new Set<string>();
       for (let i = 0; i < allOutputs.length; i++) {
         const { name, bytes } = allOutputs[i];
-        zip.file(name, bytes);
+        const stem = name.replace(/\.pdf$/i, "");
+        let unique = name;
+        for (let n = 2; used.has(unique); n++) unique = `${stem}_${n}.pdf`;
+        used.add(unique);
+        zip.file(unique, bytes);
         setProgress(85 + Math.round(((i + 1) / allOutputs.length) * 15));
       }
       const content = await zip.generateAsync({
@@ -359,7 +693,8 @@ const PDFSplitter: React.FC = () => {
             <div>
               <h1 className="text-3xl font-bold">PDF Splitter</h1>
               <p className="text-lg text-white/90">
-                Split PDFs by ranges, single pages, or top‑level bookmarks.
+                Split PDFs by ranges, page count, size, separator pages, text or
+                bookmarks.
               </p>
             </div>
           </div>
@@ -473,10 +808,110 @@ const PDFSplitter: React.FC = () => {
                     >
                       <option value="ranges">By page ranges</option>
                       <option value="single">Split into single pages</option>
-                      <option value="bookmarks">By top‑level bookmarks</option>
+                      <option value="everyN">Every N pages</option>
+                      <option value="maxSize">By maximum file size</option>
+                      <option value="blank">At blank separator pages</option>
+                      <option value="text">When page text matches</option>
+                      <option value="bookmarks">By bookmarks</option>
                     </select>
                   </div>
 
+                  {mode === "bookmarks" && (
+                    <div>
+                      <Label>Split at outline level</Label>
+                      <select
+                        className="w-full mt-2 p-2 rounded border"
+                        value={Math.min(bookmarkDepth, maxBookmarkDepth)}
+                        onChange={(e) =>
+                          setBookmarkDepth(parseInt(e.target.value, 10))
+                        }
+                      >
+                        {Array.from(
+                          { length: maxBookmarkDepth },
+                          (_, i) => i + 1
+                        ).map((d) => (
+                          <option key={d} value={d}>
+                            {d === 1
+                              ? "Level 1 (top-level bookmarks)"
+                              : `Level ${d}`}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+
+                  {mode === "everyN" && (
+                    <div>
+                      <Label>Pages per part</Label>
+                      <Input
+                        className="mt-2"
+                        type="number"
+                        min={1}
+                        value={everyN}
+                        onChange={(e) =>
+                          setEveryN(
+                            Math.max(1, parseInt(e.target.value, 10) || 1)
+                          )
+                        }
+                      />
+                    </div>
+                  )}
+
+                  {mode === "maxSize" && (
+                    <div>
+                      <Label>Maximum size per part (MB)</Label>
+                      <Input
+                        className="mt-2"
+                        type="number"
+                        min={0.1}
+                        step={0.5}
+                        value={maxSizeMb}
+                        onChange={(e) =>
+                          setMaxSizeMb(
+                            Math.max(0.1, Number(e.target.value) || 0.1)
+                          )
+                        }
+                      />
+                    </div>
+                  )}
+
+                  {mode === "blank" && (
+                    <div>
+                      <Label>Blank if ink covers at most (%)</Label>
+                      <Input
+                        className="mt-2"
+                        type="number"
+                        min={0}
+                        max={10}
+                        step={0.1}
+                        value={maxInk}
+                        onChange={(e) =>
+                          setMaxInk(Math.max(0, Number(e.target.value) || 0))
+                        }
+                      />
+                    </div>
+                  )}
+
+                  {mode === "text" && (
+                    <div>
+                      <Label>Start a new part when a page matches</Label>
+                      <Input
+                        className="mt-2 font-mono"
+                        placeholder="Invoice No\."
+                        value={pattern}
+                        onChange={(e) => setPattern(e.target.value)}
+                      />
+                      <div className="flex items-center space-x-2 mt-2">
+                        <Switch
+                          id="ignore-case"
+                          checked={ignoreCase}
+                          onCheckedChange={setIgnoreCase}
+                        />
+                        <Label htmlFor="ignore-case">Ignore case</Label>
+                      </div>
+                    </div>
+                  )}
+
                   {mode === "ranges" && (
                     <div>
                       <Label>Ranges (groups)</Label>
@@ -490,6 +925,128 @@ const PDFSplitter: React.FC = () => {
                   )}
                 </div>
 
+                {mode === "maxSize" && (
+                  <p className="text-xs text-muted-foreground">
+                    Parts are measured after saving, so each stays under the
+                    limit unless a single page is already larger.
+                  </p>
+                )}
+                {mode === "blank" && (
+                  <p className="text-xs text-muted-foreground">
+                    Separator pages are removed. Raise the percentage for scans
+                    with specks or a page number on the separator.
+                  </p>
+                )}
+                {mode === "text" && (
+                  <p className="text-xs text-muted-foreground">
+                    Regular expression tested against each page&apos;s text
+                    layer; scanned pages need OCR first. Pages before the first
+                    match form a part of their own.
+                  </p>
+                )}
+
+                {mode === "bookmarks" && files.length > 0 && (
+                  <div>
+                    <Label>Preview</Label>
+                    <div className="mt-2 max-h-80 overflow-auto border rounded">
+                      <table className="w-full text-sm">
+                        <thead className="sticky top-0 bg-muted">
+                          <tr className="text-left">
+                            <th className="p-2">#</th>
+                            <th className="p-2">Bookmark</th>
+                            <th className="p-2">Pages</th>
+                            <th className="p-2">File name</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {bookmarkPreview.map((f) => (
+                            <React.Fragment key={f.file.name}>
+                              {files.length > 1 && (
+                                <tr className="border-t bg-muted/50">
+                                  <td colSpan={4} className="p-2 font-medium">
+                                    {f.file.name}
+                                  </td>
+                                </tr>
+                              )}
+                              {!f.loaded && (
+                                <tr className="border-t">
+                                  <td
+                                    colSpan={4}
+                                    className="p-2 text-muted-foreground"
+                                  >
+                                    Reading bookmarks…
+                                  </td>
+                                </tr>
+                              )}
+                              {f.loaded && f.parts.length === 0 && (
+                                <tr className="border-t">
+                                  <td
+                                    colSpan={4}
+                                    className="p-2 text-muted-foreground"
+                                  >
+                                    No bookmarks found.
+                                  </td>
+                                </tr>
+                              )}
+                              {f.parts.map((part, i) => (
+                                <tr key={i} className="border-t">
+                                  <td className="p-2">{i + 1}</td>
+                                  <td className="p-2">
+                                    <div>{part.title || "—"}</div>
+                                    {outlineSize(part.outline ?? []) > 0 && (
+                                      <div className="text-xs text-muted-foreground">
+                                        keeps {outlineSize(part.outline ?? [])}{" "}
+                                        sub-bookmark
+                                        {outlineSize(part.outline ?? []) === 1
+                                          ? ""
+                                          : "s"}
+                                      </div>
+                                    )}
+                                  </td>
+                                  <td className="p-2 whitespace-nowrap">
+                                    {part.indices[0] + 1}–
+                                    {part.indices[part.indices.length - 1] + 1}
+                                  </td>
+                                  <td className="p-2 font-mono text-xs break-all">
+                                    {f.names[i]}.pdf
+                                  </td>
+                                </tr>
+                              ))}
+                            </React.Fragment>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  </div>
+                )}
+
+                <div>
+                  <Label>File name template</Label>
+                  <Input
+                    className="mt-2 font-mono"
+                    value={templates[mode]}
+                    placeholder={DEFAULT_TEMPLATES[mode]}
+                    onChange={(e) =>
+                      setTemplates((prev) => ({
+                        ...prev,
+                        [mode]: e.target.value,
+                      }))
+                    }
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {"{name}"} file name, {"{index}"} part number, {"{start}"}/
+                    {"{end}"} pages, {"{pages}"} page count
+                    {mode === "bookmarks" && (
+                      <>
+                        , {"{title}"} bookmark title, {"{path}"} title with its
+                        parents
+                      </>
+                    )}
+                    {mode === "text" && <>, {"{match}"} matched text</>}. Add
+                    :02 to pad numbers, e.g. {"{index:02}"}.
+                  </p>
+                </div>
+
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
                   <Button
                     onClick={runSplit}
@@ -528,7 +1085,7 @@ const PDFSplitter: React.FC = () => {
                       Popular
                     </Badge>
                     <span className="text-muted-foreground">
-                      Page ranges • Single pages • Bookmarks
+                      Ranges • Size • Separators • Text • Bookmarks
                     </span>
                   </div>
                   <div className="pt-4 border-t">
@@ -536,8 +1093,11 @@ const PDFSplitter: React.FC = () => {
                     <ul className="text-sm text-muted-foreground space-y-1">
                       <li>• Client‑side splitting with pdf‑lib for privacy</li>
                       <li>
-                        • Top‑level bookmarks → sections via pdf.js outline
+                        • Bookmarks at any outline level; parts keep their
+                        sub-bookmarks
                       </li>
+                      <li>• Size-capped parts for email attachments</li>
+                      <li>• Split at blank sheets or matching text</li>
                       <li>• Direct download (1 file) or ZIP for many</li>
                       <li>• Reorder input files before processing</li>
                     </ul>
@@ -33,8 +33,23 @@ pdfjsLib.GlobalWorkerOptions.workerPort = new PDFWorker();
 
 // shadcn toast hook
 import { useToast } from "@/hooks/use-toast";
+import { createTiffWriter, type TiffCompression } from "@/utils/tiff";
+import { renderPageToSvg } from "@/utils/svgContext";
 
-type ImgFormat = "PNG" | "JPEG";
+type ImgFormat = "PNG" | "JPEG" | "WEBP" | "TIFF" | "SVG";
+type OutputMode = "pages" | "sheet";
+type SheetFormat = "PNG" | "JPEG" | "WEBP";
+
+const MIME_TYPES: Record<SheetFormat, string> = {
+  PNG: "image/png",
+  JPEG: "image/jpeg",
+  WEBP: "image/webp",
+};
+
+// Contact sheet layout, in sheet pixels
+const SHEET_MARGIN = 32;
+const SHEET_GUTTER = 16;
+const SHEET_LABEL = 28;
 
 const DEFAULT_DPI = 144;
 const MIN_DPI = 72;
@@ -61,6 +76,26 @@ const parsePageRange = (range: string, total: number): number[] => {
   return Array.from(out).sort((x, y) => x - y);
 };
 
+// toBlob quietly falls back to PNG for types the browser cannot encode
+// (e.g. WebP in Safari), so check what actually came back
+const canvasToBlob = (
+  canvas: HTMLCanvasElement,
+  type: string,
+  quality?: number
+): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (b) => {
+        if (!b) reject(new Error("Could not export the rendered page."));
+        else if (b.type !== type) {
+          reject(new Error(`This browser cannot save ${type} images.`));
+        } else resolve(b);
+      },
+      type,
+      quality
+    );
+  });
+
 const downloadBlob = (blob: Blob, filename: string) => {
   const url = URL.createObjectURL(blob);
   const a = document.createElement("a");
@@ -82,6 +117,14 @@ const PDFToImages: React.FC = () => {
   const [dpi, setDpi] = useState([DEFAULT_DPI]); // DPI target
   const [transparentPng, setTransparentPng] = useState(true);
   const [pageRange, setPageRange] = useState(""); // e.g. "1-3,5"
+  const [tiffCompression, setTiffCompression] =
+    useState<TiffCompression>("lzw");
+  const [bwThreshold, setBwThreshold] = useState([128]); // luminance cut-off
+  const [outputMode, setOutputMode] = useState<OutputMode>("pages");
+  const [sheetFormat, setSheetFormat] = useState<SheetFormat>("JPEG");
+  const [sheetColumns, setSheetColumns] = useState([4]);
+  const [sheetRows, setSheetRows] = useState([5]);
+  const [thumbWidth, setThumbWidth] = useState([220]); // px per thumbnail
 
   const { toast } = useToast();
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
@@ -98,16 +141,13 @@ const PDFToImages: React.FC = () => {
     setProgress(0);
   };
 
-  const renderPageToBlob = async (
+  const renderPageToCanvas = async (
     pdf: pdfjsLib.PDFDocumentProxy,
     pageNum: number,
-    targetDpi: number,
-    fmt: ImgFormat,
-    qualityPct: number,
+    scale: number,
     transparent: boolean
-  ): Promise<{ blob: Blob; filename: string }> => {
+  ): Promise<HTMLCanvasElement> => {
     const page = await pdf.getPage(pageNum);
-    const scale = targetDpi / 72; // PDF user space is 72 DPI
     const viewport = page.getViewport({ scale });
 
     const canvas =
@@ -124,7 +164,7 @@ const PDFToImages: React.FC = () => {
     // Background handling
     ctx.save();
     ctx.setTransform(1, 0, 0, 1, 0, 0);
-    if (fmt === "PNG" && transparent) {
+    if (transparent) {
       ctx.clearRect(0, 0, canvas.width, canvas.height);
     } else {
       ctx.fillStyle = "#ffffff";
@@ -140,25 +180,192 @@ const PDFToImages: React.FC = () => {
     };
 
     await page.render(renderContext).promise;
+    return canvas;
+  };
 
-    const type = fmt === "PNG" ? "image/png" : "image/jpeg";
-    const q =
-      fmt === "JPEG" ? Math.min(1, Math.max(0.4, qualityPct / 100)) : undefined;
-
-    const blob: Blob = await new Promise((resolve) => {
-      if (fmt === "PNG") {
-        canvas.toBlob((b) => resolve(b || new Blob()), type);
-      } else {
-        canvas.toBlob((b) => resolve(b || new Blob()), type, q);
-      }
-    });
+  const renderPageToBlob = async (
+    pdf: pdfjsLib.PDFDocumentProxy,
+    pageNum: number,
+    targetDpi: number,
+    fmt: Exclude<ImgFormat, "TIFF">,
+    qualityPct: number,
+    transparent: boolean
+  ): Promise<{ blob: Blob; filename: string; rasterized: boolean }> => {
+    const scale = targetDpi / 72; // PDF user space is 72 DPI
+    let blob: Blob;
+    let rasterized = false;
+    if (fmt === "SVG") {
+      // DPI only sets the resolution of images embedded in the SVG
+      const page = await renderPageToSvg(await pdf.getPage(pageNum), scale);
+      blob = new Blob([page.svg], { type: "image/svg+xml" });
+      rasterized = page.rasterized;
+    } else {
+      const canvas = await renderPageToCanvas(
+        pdf,
+        pageNum,
+        scale,
+        fmt !== "JPEG" && transparent
+      );
+      const q =
+        fmt === "PNG"
+          ? undefined
+          : Math.min(1, Math.max(0.4, qualityPct / 100));
+      blob = await canvasToBlob(canvas, MIME_TYPES[fmt], q);
+    }
 
     const baseName = (pdfFile?.name || "document").replace(/\.[^.]+$/, "");
     const filename = `${baseName}_page_${String(pageNum).padStart(
       3,
       "0"
     )}.${fmt.toLowerCase()}`;
-    return { blob, filename };
+    return { blob, filename, rasterized };
+  };
+
+  // Tells the user which SVG pages came out as a single bitmap
+  const rasterizedNote = (pages: number[]) => {
+    if (pages.length === 0) return "";
+    const one = pages.length === 1;
+    return ` ${one ? "Page" : "Pages"} ${pages.join(", ")} ${
+      one ? "uses" : "use"
+    } blend modes and ${one ? "was" : "were"} embedded as a bitmap.`;
+  };
+
+  const saveAsZip = async (
+    files: { blob: Blob; filename: string }[],
+    zipName: string
+  ) => {
+    const zip = new JSZip();
+    files.forEach((f) => zip.file(f.filename, f.blob));
+    const content = await zip.generateAsync(
+      {
+        type: "blob",
+        compression: "DEFLATE",
+        compressionOptions: { level: 6 },
+      },
+      (meta) => {
+        const z = 80 + Math.round((meta.percent || 0) * 0.2);
+        setProgress(Math.min(100, z));
+      }
+    );
+    downloadBlob(content, zipName);
+  };
+
+  // All selected pages in one multipage TIFF
+  const exportTiff = async (
+    pdf: pdfjsLib.PDFDocumentProxy,
+    pages: number[],
+    base: string
+  ) => {
+    const writer = createTiffWriter(tiffCompression, bwThreshold[0]);
+    const outputScale = window.devicePixelRatio || 1;
+    for (let i = 0; i < pages.length; i++) {
+      const canvas = await renderPageToCanvas(
+        pdf,
+        pages[i],
+        dpi[0] / 72,
+        false
+      );
+      const { width, height } = canvas;
+      const data = canvas.getContext("2d")!.getImageData(0, 0, width, height);
+      writer.addPage({
+        width,
+        height,
+        data: data.data,
+        dpi: dpi[0] * outputScale,
+      });
+      setProgress(Math.round(((i + 1) / pages.length) * 95));
+    }
+    const suffix = tiffCompression === "g4" ? "_bw" : "";
+    downloadBlob(
+      new Blob([writer.finish()], { type: "image/tiff" }),
+      `${base}${suffix}.tif`
+    );
+    toast({
+      title: "TIFF created",
+      description: `Saved ${pages.length} page(s) in one ${
+        tiffCompression === "g4" ? "CCITT G4" : "LZW"
+      } TIFF.`,
+    });
+  };
+
+  // Page thumbnails on a grid with "Page N" labels, as many sheets as needed
+  const exportContactSheets = async (
+    pdf: pdfjsLib.PDFDocumentProxy,
+    pages: number[],
+    base: string
+  ) => {
+    const cols = sheetColumns[0];
+    const perSheet = cols * sheetRows[0];
+    const cellW = thumbWidth[0];
+
+    // Cells are as tall as the tallest page at the thumbnail width
+    let maxAspect = 0;
+    for (const p of pages) {
+      const vp = (await pdf.getPage(p)).getViewport({ scale: 1 });
+      maxAspect = Math.max(maxAspect, vp.height / vp.width);
+    }
+    const cellH = Math.round(cellW * maxAspect);
+
+    const sheetCount = Math.ceil(pages.length / perSheet);
+    const files: { blob: Blob; filename: string }[] = [];
+    for (let s = 0; s < sheetCount; s++) {
+      const chunk = pages.slice(s * perSheet, (s + 1) * perSheet);
+      const rows = Math.ceil(chunk.length / cols);
+      const sheet = document.createElement("canvas");
+      sheet.width = SHEET_MARGIN * 2 + cols * cellW + (cols - 1) * SHEET_GUTTER;
+      sheet.height =
+        SHEET_MARGIN * 2 +
+        rows * (cellH + SHEET_LABEL) +
+        (rows - 1) * SHEET_GUTTER;
+      const ctx = sheet.getContext("2d")!;
+      ctx.fillStyle = "#ffffff";
+      ctx.fillRect(0, 0, sheet.width, sheet.height);
+
+      for (let i = 0; i < chunk.length; i++) {
+        const p = chunk[i];
+        const x = SHEET_MARGIN + (i % cols) * (cellW + SHEET_GUTTER);
+        const y =
+          SHEET_MARGIN +
+          Math.floor(i / cols) * (cellH + SHEET_LABEL + SHEET_GUTTER);
+        const vp = (await pdf.getPage(p)).getViewport({ scale: 1 });
+        const fit = Math.min(cellW / vp.width, cellH / vp.height);
+        const w = Math.round(vp.width * fit);
+        const h = Math.round(vp.height * fit);
+        const thumb = await renderPageToCanvas(pdf, p, fit, false);
+        const tx = x + Math.round((cellW - w) / 2);
+        const ty = y + Math.round((cellH - h) / 2);
+        ctx.drawImage(thumb, tx, ty, w, h);
+        ctx.strokeStyle = "#d4d4d8";
+        ctx.lineWidth = 1;
+        ctx.strokeRect(tx + 0.5, ty + 0.5, w - 1, h - 1);
+        ctx.fillStyle = "#3f3f46";
+        ctx.font = "14px sans-serif";
+        ctx.textAlign = "center";
+        ctx.textBaseline = "middle";
+        ctx.fillText(`Page ${p}`, x + cellW / 2, y + cellH + SHEET_LABEL / 2);
+
+        const done = s * perSheet + i + 1;
+        setProgress(Math.round((done / pages.length) * 80));
+      }
+
+      const q =
+        sheetFormat === "PNG"
+          ? undefined
+          : Math.min(1, Math.max(0.4, jpegQuality[0] / 100));
+      const blob = await canvasToBlob(sheet, MIME_TYPES[sheetFormat], q);
+      const n = sheetCount > 1 ? `_${String(s + 1).padStart(2, "0")}` : "";
+      files.push({
+        blob,
+        filename: `${base}_contact_sheet${n}.${sheetFormat.toLowerCase()}`,
+      });
+    }
+
+    if (files.length === 1) downloadBlob(files[0].blob, files[0].filename);
+    else await saveAsZip(files, `${base}_contact_sheets.zip`);
+    toast({
+      title: "Contact sheet created",
+      description: `${pages.length} page(s) on ${files.length} sheet(s).`,
+    });
   };
 
   const generateImages = async () => {
@@ -176,7 +383,15 @@ const PDFToImages: React.FC = () => {
 
     try {
       const arrayBuf = await pdfFile.arrayBuffer();
-      const task = pdfjsLib.getDocument({ data: new Uint8Array(arrayBuf) });
+      // For SVG, glyphs must come through as paths rather than web fonts;
+      // non-embedded standard fonts then need their font files (served from
+      // public/standard_fonts, copied from pdfjs-dist) to have paths
+      const asSvg = outputMode === "pages" && imgFormat === "SVG";
+      const task = pdfjsLib.getDocument({
+        data: new Uint8Array(arrayBuf),
+        disableFontFace: asSvg,
+        standardFontDataUrl: asSvg ? "/standard_fonts/" : undefined,
+      });
       const pdf = await task.promise;
 
       const pages = parsePageRange(pageRange, pdf.numPages);
@@ -190,10 +405,20 @@ const PDFToImages: React.FC = () => {
         return;
       }
 
+      const base = pdfFile.name.replace(/\.[^.]+$/, "");
+      if (outputMode === "sheet") {
+        await exportContactSheets(pdf, pages, base);
+        return;
+      }
+      if (imgFormat === "TIFF") {
+        await exportTiff(pdf, pages, base);
+        return;
+      }
+
       // Single page: render and download the image directly (no ZIP)
       if (pages.length === 1) {
         const p = pages[0];
-        const { blob, filename } = await renderPageToBlob(
+        const { blob, filename, rasterized } = await renderPageToBlob(
           pdf,
           p,
           dpi[0],
@@ -204,16 +429,19 @@ const PDFToImages: React.FC = () => {
         downloadBlob(blob, filename);
         toast({
           title: "Image created",
-          description: `Exported page ${p} as ${imgFormat}.`,
+          description: `Exported page ${p} as ${imgFormat}.${rasterizedNote(
+            rasterized ? [p] : []
+          )}`,
         });
         return;
       }
 
       // Multiple pages: package into a ZIP with progress
-      const zip = new JSZip();
+      const files: { blob: Blob; filename: string }[] = [];
+      const rasterizedPages: number[] = [];
       for (let i = 0; i < pages.length; i++) {
         const p = pages[i];
-        const { blob, filename } = await renderPageToBlob(
+        const { blob, filename, rasterized } = await renderPageToBlob(
           pdf,
           p,
           dpi[0],
@@ -221,34 +449,26 @@ const PDFToImages: React.FC = () => {
           jpegQuality[0],
           transparentPng
         );
-        zip.file(filename, blob);
+        files.push({ blob, filename });
+        if (rasterized) rasterizedPages.push(p);
         setProgress(Math.round(((i + 1) / pages.length) * 80));
       }
-
-      const content = await zip.generateAsync(
-        {
-          type: "blob",
-          compression: "DEFLATE",
-          compressionOptions: { level: 6 },
-        },
-        (meta) => {
-          const z = 80 + Math.round((meta.percent || 0) * 0.2);
-          setProgress(Math.min(100, z));
-        }
-      );
-
-      const base = pdfFile.name.replace(/\.[^.]+$/, "");
-      downloadBlob(content, `${base}_images_${Date.now()}.zip`);
+      await saveAsZip(files, `${base}_images_${Date.now()}.zip`);
 
       toast({
         title: "ZIP created",
-        description: `Exported ${pages.length} page image(s).`,
+        description: `Exported ${pages.length} page image(s).${rasterizedNote(
+          rasterizedPages
+        )}`,
       });
     } catch (err) {
       console.error(err);
       toast({
         title: "Error",
-        description: "Failed to convert PDF to images.",
+        description:
+          err instanceof Error && err.message.startsWith("This browser")
+            ? err.message
+            : "Failed to convert PDF to images.",
         variant: "destructive",
       });
     } finally {
@@ -258,8 +478,9 @@ const PDFToImages: React.FC = () => {
   };
 
   const singleOrMultiLabel = () => {
-    if (!pdfFile) return "Export Images";
-    // Best-effort label: single vs multi once file is known; exact range may change, keep generic if needed.
+    if (outputMode === "sheet") return "Create Contact Sheet";
+    if (imgFormat === "TIFF") return "Export TIFF";
+    if (imgFormat === "SVG") return "Export SVG";
     return "Export Images";
   };
 
@@ -284,7 +505,8 @@ const PDFToImages: React.FC = () => {
             <div>
               <h1 className="text-3xl font-bold">PDF → Images</h1>
               <p className="text-lg text-white/90">
-                Convert PDF pages to PNG/JPEG with DPI and quality control.
+                Convert PDF pages to PNG, JPEG, WebP, multipage TIFF, SVG or a
+                contact sheet.
               </p>
             </div>
           </div>
@@ -350,41 +572,126 @@ const PDFToImages: React.FC = () => {
                 </CardDescription>
               </CardHeader>
               <CardContent className="space-y-4">
-                <div className="grid grid-cols-2 gap-4">
-                  <div>
-                    <Label>Image Format</Label>
-                    <select
-                      className="w-full mt-2 p-2 rounded border"
-                      value={imgFormat}
-                      onChange={(e) =>
-                        setImgFormat(e.target.value as ImgFormat)
-                      }
-                    >
-                      <option value="PNG">PNG</option>
-                      <option value="JPEG">JPEG</option>
-                    </select>
-                  </div>
+                <div>
+                  <Label>Output</Label>
+                  <select
+                    className="w-full mt-2 p-2 rounded border"
+                    value={outputMode}
+                    onChange={(e) =>
+                      setOutputMode(e.target.value as OutputMode)
+                    }
+                  >
+                    <option value="pages">One image per page</option>
+                    <option value="sheet">
+                      Contact sheet (thumbnail grid)
+                    </option>
+                  </select>
+                </div>
 
-                  <div>
-                    <Label>DPI: {dpi[0]}</Label>
-                    <Slider
-                      value={dpi}
-                      onValueChange={setDpi}
-                      min={MIN_DPI}
-                      max={MAX_DPI}
-                      step={1}
-                      className="mt-2"
-                    />
-                    <div className="grid grid-cols-2 text-sm text-muted-foreground">
-                      <span>Smaller</span>
-                      <span className="text-right">Sharper</span>
+                {outputMode === "pages" ? (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <Label>Image Format</Label>
+                      <select
+                        className="w-full mt-2 p-2 rounded border"
+                        value={imgFormat}
+                        onChange={(e) =>
+                          setImgFormat(e.target.value as ImgFormat)
+                        }
+                      >
+                        <option value="PNG">PNG</option>
+                        <option value="JPEG">JPEG</option>
+                        <option value="WEBP">WebP</option>
+                        <option value="TIFF">TIFF (one multipage file)</option>
+                        <option value="SVG">SVG (vector)</option>
+                      </select>
+                    </div>
+
+                    <div>
+                      <Label>DPI: {dpi[0]}</Label>
+                      <Slider
+                        value={dpi}
+                        onValueChange={setDpi}
+                        min={MIN_DPI}
+                        max={MAX_DPI}
+                        step={1}
+                        className="mt-2"
+                      />
+                      <div className="grid grid-cols-2 text-sm text-muted-foreground">
+                        <span>Smaller</span>
+                        <span className="text-right">Sharper</span>
+                      </div>
                     </div>
                   </div>
-                </div>
+                ) : (
+                  <div className="space-y-4">
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <Label>Sheet Format</Label>
+                        <select
+                          className="w-full mt-2 p-2 rounded border"
+                          value={sheetFormat}
+                          onChange={(e) =>
+                            setSheetFormat(e.target.value as SheetFormat)
+                          }
+                        >
+                          <option value="JPEG">JPEG</option>
+                          <option value="PNG">PNG</option>
+                          <option value="WEBP">WebP</option>
+                        </select>
+                      </div>
+                      <div>
+                        <Label>Thumbnail width: {thumbWidth[0]}px</Label>
+                        <Slider
+                          value={thumbWidth}
+                          onValueChange={setThumbWidth}
+                          min={100}
+                          max={400}
+                          step={10}
+                          className="mt-2"
+                        />
+                      </div>
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <Label>Columns: {sheetColumns[0]}</Label>
+                        <Slider
+                          value={sheetColumns}
+                          onValueChange={setSheetColumns}
+                          min={2}
+                          max={8}
+                          step={1}
+                          className="mt-2"
+                        />
+                      </div>
+                      <div>
+                        <Label>Rows per sheet: {sheetRows[0]}</Label>
+                        <Slider
+                          value={sheetRows}
+                          onValueChange={setSheetRows}
+                          min={1}
+                          max={10}
+                          step={1}
+                          className="mt-2"
+                        />
+                      </div>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {sheetColumns[0] * sheetRows[0]} pages per sheet, each
+                      labelled with its page number. More pages continue on
+                      further sheets, saved together as a ZIP.
+                    </p>
+                  </div>
+                )}
 
-                {imgFormat === "JPEG" && (
+                {(outputMode === "pages"
+                  ? imgFormat === "JPEG" || imgFormat === "WEBP"
+                  : sheetFormat !== "PNG") && (
                   <div className="space-y-2">
-                    <Label>JPEG Quality: {jpegQuality[0]}%</Label>
+                    <Label>
+                      {outputMode === "pages" ? imgFormat : sheetFormat}{" "}
+                      Quality: {jpegQuality[0]}%
+                    </Label>
                     <Slider
                       value={jpegQuality}
                       onValueChange={setJpegQuality}
@@ -399,17 +706,69 @@ const PDFToImages: React.FC = () => {
                   </div>
                 )}
 
-                {imgFormat === "PNG" && (
-                  <div className="flex items-center space-x-3">
-                    <Switch
-                      id="transparent"
-                      checked={transparentPng}
-                      onCheckedChange={setTransparentPng}
-                    />
-                    <Label htmlFor="transparent">Transparent background</Label>
+                {outputMode === "pages" &&
+                  (imgFormat === "PNG" || imgFormat === "WEBP") && (
+                    <div className="flex items-center space-x-3">
+                      <Switch
+                        id="transparent"
+                        checked={transparentPng}
+                        onCheckedChange={setTransparentPng}
+                      />
+                      <Label htmlFor="transparent">
+                        Transparent background
+                      </Label>
+                    </div>
+                  )}
+
+                {outputMode === "pages" && imgFormat === "TIFF" && (
+                  <div className="space-y-4">
+                    <div>
+                      <Label>TIFF Compression</Label>
+                      <select
+                        className="w-full mt-2 p-2 rounded border"
+                        value={tiffCompression}
+                        onChange={(e) =>
+                          setTiffCompression(e.target.value as TiffCompression)
+                        }
+                      >
+                        <option value="lzw">LZW (lossless colour)</option>
+                        <option value="g4">
+                          CCITT Group 4 (black &amp; white scans)
+                        </option>
+                      </select>
+                    </div>
+                    {tiffCompression === "g4" && (
+                      <div className="space-y-2">
+                        <Label>Black threshold: {bwThreshold[0]}</Label>
+                        <Slider
+                          value={bwThreshold}
+                          onValueChange={setBwThreshold}
+                          min={32}
+                          max={224}
+                          step={1}
+                        />
+                        <div className="grid grid-cols-2 text-sm text-muted-foreground">
+                          <span>Lighter</span>
+                          <span className="text-right">Darker</span>
+                        </div>
+                      </div>
+                    )}
+                    <p className="text-xs text-muted-foreground">
+                      All selected pages go into a single .tif file.
+                      {tiffCompression === "g4" &&
+                        " Pixels darker than the threshold become black; best for text and line art."}
+                    </p>
                   </div>
                 )}
 
+                {outputMode === "pages" && imgFormat === "SVG" && (
+                  <p className="text-xs text-muted-foreground">
+                    Text, lines and shapes are exported as vector paths. Photos
+                    and effects that need compositing are embedded as images at
+                    the chosen DPI.
+                  </p>
+                )}
+
                 <div>
                   <Label>Page Range</Label>
                   <Input
@@ -464,10 +823,13 @@ const PDFToImages: React.FC = () => {
                   <div className="pt-4 border-t">
                     <h4 className="font-medium mb-2">Features:</h4>
                     <ul className="text-sm text-muted-foreground space-y-1">
-                      <li>• PDF pages → PNG/JPEG images</li>
+                      <li>• PDF pages → PNG/JPEG/WebP images</li>
+                      <li>• Multipage TIFF with LZW or CCITT G4</li>
+                      <li>• Vector SVG export per page</li>
+                      <li>• Contact sheets with labelled thumbnails</li>
                       <li>• DPI and quality controls</li>
                       <li>• Page range selection</li>
-                      <li>• Transparent PNG background option</li>
+                      <li>• Transparent PNG/WebP background option</li>
                       <li>• Single page = direct download; multi-page = ZIP</li>
                       <li>• Browser-only processing — secure</li>
                     </ul>
@@ -17,6 +17,8 @@ import { Progress } from "@/components/ui/progress";
 import { ArrowLeft, Crop, Download, Loader2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import FileUploader from "@/components/FileUploader";
+import { isAnimatedImage } from "@/utils/animatedImage";
+import { cropImage } from "@/utils/imageProcessing";
 
 const ImageCrop = () => {
   const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
@@ -119,10 +121,16 @@ const ImageCrop = () => {
         height: parseFloat(manualHeight) || 1,
       };
 
-      const croppedBlob = await getCroppedImg(
-        URL.createObjectURL(file),
-        cropPixels
-      );
+      // Animated GIF/WebP/APNG are cropped frame by frame and stay animated
+      const croppedBlob = (await isAnimatedImage(file))
+        ? await cropImage(
+            file,
+            Math.round(cropPixels.x),
+            Math.round(cropPixels.y),
+            Math.max(1, Math.round(cropPixels.width)),
+            Math.max(1, Math.round(cropPixels.height))
+          )
+        : await getCroppedImg(URL.createObjectURL(file), cropPixels);
 
       const newFile = new File(
         [croppedBlob as Blob],
@@ -201,13 +209,19 @@ const ImageCrop = () => {
               <CardHeader>
                 <CardTitle>Select Images</CardTitle>
                 <CardDescription>
-                  Upload images to crop. Supports JPG, PNG, WebP.
+                  Upload images to crop. Supports JPG, PNG, WebP and GIF;
+                  animations keep every frame.
                 </CardDescription>
               </CardHeader>
               <CardContent>
                 <FileUploader
                   onFilesSelected={handleFilesSelected}
-                  acceptedTypes={["image/jpeg", "image/png", "image/webp"]}
+                  acceptedTypes={[
+                    "image/jpeg",
+                    "image/png",
+                    "image/webp",
+                    "image/gif",
+                  ]}
                   maxFiles={10}
                   files={selectedFiles}
                   onRemoveFile={handleRemoveFile}
@@ -268,13 +268,19 @@ const ImageResize = () => {
               <CardHeader>
                 <CardTitle>Select Images</CardTitle>
                 <CardDescription>
-                  Upload images to resize. Supports JPG, PNG, WebP formats.
+                  Upload images to resize. Supports JPG, PNG, WebP and GIF;
+                  animations keep every frame.
                 </CardDescription>
               </CardHeader>
               <CardContent>
                 <FileUploader
                   onFilesSelected={handleFilesSelected}
-                  acceptedTypes={["image/jpeg", "image/png", "image/webp"]}
+                  acceptedTypes={[
+                    "image/jpeg",
+                    "image/png",
+                    "image/webp",
+                    "image/gif",
+                  ]}
                   maxFiles={10}
                   files={selectedFiles}
                   onRemoveFile={handleRemoveFile}
@@ -486,6 +492,7 @@ const ImageResize = () => {
                   <p>• Resize in px, cm, or inches</p>
                   <p>• Adjust DPI for print or web</p>
                   <p>• Resize by scale percentage</p>
+                  <p>• Animated GIF, WebP and APNG stay animated</p>
                   <p>• Maintains high-quality output</p>
                 </div>
               </CardContent>
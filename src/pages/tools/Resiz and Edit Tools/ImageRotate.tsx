@@ -23,6 +23,11 @@ import {
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import FileUploader from "@/components/FileUploader";
+import {
+  decodeAnimation,
+  encodeAnimation,
+  rotateAnimation,
+} from "@/utils/animatedImage";
 
 /**
  * ✅ Process image with rotation, flip, output format, and quality
@@ -35,6 +40,17 @@ async function processImageFile(
   outputType = "image/png",
   quality
 ) {
+  // Animated GIF/WebP/APNG are rotated frame by frame and keep their format
+  const anim = await decodeAnimation(file);
+  if (anim) {
+    return encodeAnimation(
+      rotateAnimation(anim, angleDeg % 360, flipH, flipV),
+      {
+        quality: typeof quality === "number" ? quality : 0.9,
+      }
+    );
+  }
+
   const imgUrl = URL.createObjectURL(file);
   const img = await new Promise<HTMLImageElement>((res, rej) => {
     const i = new Image();
@@ -273,7 +289,10 @@ const ImageRotate = () => {
         qualityVal ? "image/jpeg" : "image/png",
         qualityVal
       );
-      const extension = qualityVal ? ".jpg" : ".png";
+      const actualType =
+        (blob as Blob).type || (qualityVal ? "image/jpeg" : "image/png");
+      const extension =
+        actualType === "image/jpeg" ? ".jpg" : `.${actualType.split("/")[1]}`;
       const baseName = file.name.replace(/\.[^.]+$/, "");
       const newName = `${baseName}_rotated_${Math.round(angle)}${
         flipH ? "_fh" : ""
@@ -378,13 +397,19 @@ const ImageRotate = () => {
               <CardHeader>
                 <CardTitle>Select Images</CardTitle>
                 <CardDescription>
-                  Upload images to rotate/flip. Supports JPG, PNG, WebP.
+                  Upload images to rotate/flip. Supports JPG, PNG, WebP and GIF;
+                  animations keep every frame.
                 </CardDescription>
               </CardHeader>
               <CardContent>
                 <FileUploader
                   onFilesSelected={handleFilesSelected}
-                  acceptedTypes={["image/jpeg", "image/png", "image/webp"]}
+                  acceptedTypes={[
+                    "image/jpeg",
+                    "image/png",
+                    "image/webp",
+                    "image/gif",
+                  ]}
                   maxFiles={20}
                   files={selectedFiles}
                   onRemoveFile={handleRemoveFile}
@@ -311,13 +311,19 @@ const ImageWatermark = () => {
               <CardHeader>
                 <CardTitle>Select Images</CardTitle>
                 <CardDescription>
-                  Upload images to add watermark. Supports JPG, PNG, WebP.
+                  Upload images to add watermark. Supports JPG, PNG, WebP and
+                  animated GIF.
                 </CardDescription>
               </CardHeader>
               <CardContent>
                 <FileUploader
                   onFilesSelected={handleFilesSelected}
-                  acceptedTypes={["image/jpeg", "image/png", "image/webp"]}
+                  acceptedTypes={[
+                    "image/jpeg",
+                    "image/png",
+                    "image/webp",
+                    "image/gif",
+                  ]}
                   maxFiles={20}
                   files={selectedFiles}
                   onRemoveFile={handleRemoveFile}
@@ -539,6 +545,7 @@ const ImageWatermark = () => {
                     <li>• Position control</li>
                     <li>• Color & Opacity settings</li>
                     <li>• Supports JPG, PNG, WebP</li>
+                    <li>• Watermarks every frame of animations</li>
                     <li>• Batch processing</li>
                   </ul>
                 </div>
@@ -0,0 +1,1128 @@
+import { quantizeImageData, pngChunk, zlibDeflate } from "@/utils/pngQuant";
+
+// Frame-aware decoding and encoding for animated GIF, APNG and animated WebP.
+// Decoded frames are fully composited RGBA images (disposal and blending
+// already applied), so per-frame edits can treat each one as a plain picture.
+// The encoders write every frame back as the rectangle that changed since the
+// previous one, with disposal/blend flags that reproduce the same playback.
+
+export type AnimationFormat = "gif" | "png" | "webp";
+
+export type AnimationFrame = {
+  image: ImageData;
+  delay: number; // milliseconds
+};
+
+export type AnimatedImage = {
+  format: AnimationFormat;
+  width: number;
+  height: number;
+  // Number of times the animation plays; 0 = forever
+  plays: number;
+  frames: AnimationFrame[];
+};
+
+export type AnimationEncodeOptions = {
+  // WebP frame quality (0..1)
+  quality?: number;
+  // GIF palette size per frame (2..256)
+  colors?: number;
+  dither?: boolean;
+};
+
+type Rect = { x: number; y: number; width: number; height: number };
+
+const MIME: Record<AnimationFormat, string> = {
+  gif: "image/gif",
+  png: "image/png",
+  webp: "image/webp",
+};
+
+export const animationMime = (format: AnimationFormat) => MIME[format];
+
+// ---------- byte helpers ----------
+
+const ascii = (b: Uint8Array, at: number, len: number) =>
+  String.fromCharCode(...b.subarray(at, at + len));
+const u16le = (b: Uint8Array, at: number) => b[at] | (b[at + 1] << 8);
+const u24le = (b: Uint8Array, at: number) =>
+  b[at] | (b[at + 1] << 8) | (b[at + 2] << 16);
+const u32le = (b: Uint8Array, at: number) =>
+  (b[at] | (b[at + 1] << 8) | (b[at + 2] << 16) | (b[at + 3] << 24)) >>> 0;
+const u32be = (b: Uint8Array, at: number) =>
+  ((b[at] << 24) | (b[at + 1] << 16) | (b[at + 2] << 8) | b[at + 3]) >>> 0;
+
+const concat = (parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((s, p) => s + p.length, 0));
+  let at = 0;
+  for (const p of parts) {
+    out.set(p, at);
+    at += p.length;
+  }
+  return out;
+};
+
+// Growable little byte buffer for the container writers
+class Bytes {
+  private buf = new Uint8Array(1024);
+  length = 0;
+
+  private grow(extra: number) {
+    if (this.length + extra <= this.buf.length) return;
+    let size = this.buf.length * 2;
+    while (size < this.length + extra) size *= 2;
+    const next = new Uint8Array(size);
+    next.set(this.buf.subarray(0, this.length));
+    this.buf = next;
+  }
+
+  byte(v: number) {
+    this.grow(1);
+    this.buf[this.length++] = v & 0xff;
+  }
+
+  u16le(v: number) {
+    this.byte(v);
+    this.byte(v >> 8);
+  }
+
+  u24le(v: number) {
+    this.u16le(v);
+    this.byte(v >> 16);
+  }
+
+  u32le(v: number) {
+    this.u16le(v);
+    this.u16le(v >>> 16);
+  }
+
+  u16be(v: number) {
+    this.byte(v >> 8);
+    this.byte(v);
+  }
+
+  u32be(v: number) {
+    this.u16be(v >>> 16);
+    this.u16be(v);
+  }
+
+  text(s: string) {
+    for (let i = 0; i < s.length; i++) this.byte(s.charCodeAt(i));
+  }
+
+  bytes(b: Uint8Array) {
+    this.grow(b.length);
+    this.buf.set(b, this.length);
+    this.length += b.length;
+  }
+
+  result() {
+    return this.buf.slice(0, this.length);
+  }
+}
+
+// ---------- compositing ----------
+
+const blankImage = (width: number, height: number) =>
+  new ImageData(new Uint8ClampedArray(width * height * 4), width, height);
+
+const copyImage = (img: ImageData) =>
+  new ImageData(new Uint8ClampedArray(img.data), img.width, img.height);
+
+const clearRect = (canvas: ImageData, r: Rect) => {
+  const x1 = Math.min(canvas.width, r.x + r.width);
+  const y1 = Math.min(canvas.height, r.y + r.height);
+  for (let y = Math.max(0, r.y); y < y1; y++) {
+    const row = y * canvas.width;
+    canvas.data.fill(0, (row + Math.max(0, r.x)) * 4, (row + x1) * 4);
+  }
+};
+
+// Paint a decoded frame region onto the canvas, either replacing the pixels
+// or alpha-compositing over them.
+const paint = (
+  canvas: ImageData,
+  src: ImageData,
+  ox: number,
+  oy: number,
+  blend: boolean
+) => {
+  const d = canvas.data;
+  const s = src.data;
+  for (let y = 0; y < src.height; y++) {
+    const cy = oy + y;
+    if (cy < 0 || cy >= canvas.height) continue;
+    for (let x = 0; x < src.width; x++) {
+      const cx = ox + x;
+      if (cx < 0 || cx >= canvas.width) continue;
+      const sp = (y * src.width + x) * 4;
+      const dp = (cy * canvas.width + cx) * 4;
+      const sa = s[sp + 3];
+      if (!blend || sa === 255) {
+        d[dp] = s[sp];
+        d[dp + 1] = s[sp + 1];
+        d[dp + 2] = s[sp + 2];
+        d[dp + 3] = sa;
+      } else if (sa > 0) {
+        const da = d[dp + 3] * (1 - sa / 255);
+        const oa = sa + da;
+        for (let c = 0; c < 3; c++) {
+          d[dp + c] = (s[sp + c] * sa + d[dp + c] * da) / oa;
+        }
+        d[dp + 3] = oa;
+      }
+    }
+  }
+};
+
+const isOpaque = (frames: AnimationFrame[]) =>
+  frames.every(({ image }) => {
+    const d = image.data;
+    for (let i = 3; i < d.length; i += 4) if (d[i] !== 255) return false;
+    return true;
+  });
+
+// Bounding box of the pixels that differ from the previous frame.
+const changedRect = (prev: ImageData | null, cur: ImageData): Rect => {
+  const { width, height } = cur;
+  if (!prev) return { x: 0, y: 0, width, height };
+  const a = new Uint32Array(prev.data.buffer, 0, width * height);
+  const b = new Uint32Array(cur.data.buffer, 0, width * height);
+  let x0 = width;
+  let y0 = height;
+  let x1 = -1;
+  let y1 = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0, i = y * width; x < width; x++, i++) {
+      if (a[i] === b[i]) continue;
+      if (x < x0) x0 = x;
+      if (x > x1) x1 = x;
+      if (y < y0) y0 = y;
+      y1 = y;
+    }
+  }
+  // Identical frame: keep a single pixel so the frame (and its delay) survives
+  if (x1 < 0) return { x: 0, y: 0, width: 1, height: 1 };
+  return { x: x0, y: y0, width: x1 - x0 + 1, height: y1 - y0 + 1 };
+};
+
+const cropImageData = (img: ImageData, r: Rect): ImageData => {
+  const out = new Uint8ClampedArray(r.width * r.height * 4);
+  for (let y = 0; y < r.height; y++) {
+    const start = ((r.y + y) * img.width + r.x) * 4;
+    out.set(img.data.subarray(start, start + r.width * 4), y * r.width * 4);
+  }
+  return new ImageData(out, r.width, r.height);
+};
+
+// Decode a standalone still image (one APNG or WebP frame) through the browser.
+const decodeStill = async (bytes: Uint8Array, type: string) => {
+  const bitmap = await createImageBitmap(new Blob([bytes], { type }));
+  const canvas = document.createElement("canvas");
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas not supported");
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+};
+
+// ---------- GIF ----------
+
+const lzwDecode = (data: Uint8Array, minCodeSize: number, count: number) => {
+  const out = new Uint8Array(count);
+  const clear = 1 << minCodeSize;
+  const eoi = clear + 1;
+  const prefix = new Int16Array(4096);
+  const suffix = new Uint8Array(4096);
+  const first = new Uint8Array(4096);
+  const length = new Uint16Array(4096);
+  for (let i = 0; i < clear; i++) {
+    prefix[i] = -1;
+    suffix[i] = first[i] = i;
+    length[i] = 1;
+  }
+
+  let codeSize = minCodeSize + 1;
+  let next = eoi + 1;
+  let prev = -1;
+  let datum = 0;
+  let bits = 0;
+  let pos = 0;
+  let op = 0;
+
+  while (op < count) {
+    while (bits < codeSize && pos < data.length) {
+      datum |= data[pos++] << bits;
+      bits += 8;
+    }
+    if (bits < codeSize) break;
+    const code = datum & ((1 << codeSize) - 1);
+    datum >>>= codeSize;
+    bits -= codeSize;
+
+    if (code === clear) {
+      codeSize = minCodeSize + 1;
+      next = eoi + 1;
+      prev = -1;
+      continue;
+    }
+    if (code === eoi) break;
+    if (prev < 0) {
+      if (code >= clear) break;
+      out[op++] = code;
+      prev = code;
+      continue;
+    }
+    if (code > next) break; // corrupt stream
+
+    if (next < 4096) {
+      prefix[next] = prev;
+      suffix[next] = code < next ? first[code] : first[prev];
+      first[next] = first[prev];
+      length[next] = length[prev] + 1;
+      next++;
+      if (next === 1 << codeSize && codeSize < 12) codeSize++;
+    }
+
+    // Strings are stored back to front through their prefixes
+    let o = op + length[code] - 1;
+    for (let c = code; c >= 0; c = prefix[c], o--) {
+      if (o < count) out[o] = suffix[c];
+    }
+    op += length[code];
+    prev = code;
+  }
+  return out;
+};
+
+const lzwEncode = (indices: Uint8Array, minCodeSize: number) => {
+  const out = new Bytes();
+  const clear = 1 << minCodeSize;
+  const eoi = clear + 1;
+  let codeSize = minCodeSize + 1;
+  let next = eoi + 1;
+  let table = new Map<number, number>();
+  let cur = 0;
+  let curBits = 0;
+
+  const emit = (code: number) => {
+    cur |= code << curBits;
+    curBits += codeSize;
+    while (curBits >= 8) {
+      out.byte(cur);
+      cur >>>= 8;
+      curBits -= 8;
+    }
+  };
+
+  emit(clear);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i];
+    const key = (prefix << 8) | k;
+    const hit = table.get(key);
+    if (hit !== undefined) {
+      prefix = hit;
+      continue;
+    }
+    emit(prefix);
+    if (next === 4096) {
+      emit(clear);
+      table = new Map();
+      codeSize = minCodeSize + 1;
+      next = eoi + 1;
+    } else {
+      if (next >= 1 << codeSize) codeSize++;
+      table.set(key, next++);
+    }
+    prefix = k;
+  }
+  emit(prefix);
+  emit(eoi);
+  if (curBits > 0) out.byte(cur);
+  return out.result();
+};
+
+const readSubBlocks = (b: Uint8Array, at: number) => {
+  const parts: Uint8Array[] = [];
+  while (at < b.length && b[at] !== 0) {
+    parts.push(b.subarray(at + 1, at + 1 + b[at]));
+    at += b[at] + 1;
+  }
+  return { data: concat(parts), end: at + 1 };
+};
+
+const deinterlace = (pixels: Uint8Array, width: number, height: number) => {
+  const out = new Uint8Array(pixels.length);
+  let row = 0;
+  for (const [start, step] of [
+    [0, 8],
+    [4, 8],
+    [2, 4],
+    [1, 2],
+  ]) {
+    for (let y = start; y < height; y += step, row++) {
+      out.set(pixels.subarray(row * width, (row + 1) * width), y * width);
+    }
+  }
+  return out;
+};
+
+const decodeGif = (b: Uint8Array): AnimatedImage => {
+  const width = u16le(b, 6);
+  const height = u16le(b, 8);
+  const flags = b[10];
+  let at = 13;
+  let globalTable: Uint8Array | null = null;
+  if (flags & 0x80) {
+    const size = 3 * (2 << (flags & 7));
+    globalTable = b.subarray(at, at + size);
+    at += size;
+  }
+
+  // Without a NETSCAPE2.0 block a GIF plays once
+  let plays = 1;
+  let delay = 0;
+  let transparent = -1;
+  let disposal = 0;
+  const frames: AnimationFrame[] = [];
+  const canvas = blankImage(width, height);
+  let pending: {
+    rect: Rect;
+    disposal: number;
+    saved: ImageData | null;
+  } | null = null;
+
+  while (at < b.length) {
+    const block = b[at++];
+    if (block === 0x3b) break;
+    if (block === 0x21) {
+      const label = b[at++];
+      if (label === 0xf9 && b[at] >= 4) {
+        const packed = b[at + 1];
+        disposal = (packed >> 2) & 7;
+        delay = u16le(b, at + 2) * 10;
+        transparent = packed & 1 ? b[at + 4] : -1;
+      } else if (label === 0xff && b[at] === 11) {
+        const app = ascii(b, at + 1, 11);
+        const { data } = readSubBlocks(b, at + 12);
+        if ((app === "NETSCAPE2.0" || app === "ANIMEXTS1.0") && data[0] === 1) {
+          const repeats = u16le(data, 1);
+          plays = repeats === 0 ? 0 : repeats + 1;
+        }
+      }
+      at = readSubBlocks(b, at).end;
+      continue;
+    }
+    if (block !== 0x2c) break; // unknown block: stop at what we have
+
+    const rect = {
+      x: u16le(b, at),
+      y: u16le(b, at + 2),
+      width: u16le(b, at + 4),
+      height: u16le(b, at + 6),
+    };
+    const packed = b[at + 8];
+    at += 9;
+    let table = globalTable;
+    if (packed & 0x80) {
+      const size = 3 * (2 << (packed & 7));
+      table = b.subarray(at, at + size);
+      at += size;
+    }
+    const minCodeSize = b[at++];
+    const { data, end } = readSubBlocks(b, at);
+    at = end;
+
+    // Undo the previous frame first, as the disposal method asks
+    if (pending?.disposal === 2) clearRect(canvas, pending.rect);
+    if (pending?.disposal === 3 && pending.saved) {
+      canvas.data.set(pending.saved.data);
+    }
+    const saved = disposal === 3 ? copyImage(canvas) : null;
+
+    let pixels = lzwDecode(data, minCodeSize, rect.width * rect.height);
+    if (packed & 0x40) pixels = deinterlace(pixels, rect.width, rect.height);
+    if (table) {
+      const d = canvas.data;
+      for (let y = 0; y < rect.height; y++) {
+        const cy = rect.y + y;
+        if (cy >= height) break;
+        for (let x = 0; x < rect.width; x++) {
+          const cx = rect.x + x;
+          const idx = pixels[y * rect.width + x];
+          if (cx >= width || idx === transparent || idx * 3 >= table.length) {
+            continue;
+          }
+          const p = (cy * width + cx) * 4;
+          d[p] = table[idx * 3];
+          d[p + 1] = table[idx * 3 + 1];
+          d[p + 2] = table[idx * 3 + 2];
+          d[p + 3] = 255;
+        }
+      }
+    }
+    frames.push({ image: copyImage(canvas), delay });
+    pending = { rect, disposal, saved };
+    delay = 0;
+    transparent = -1;
+    disposal = 0;
+  }
+
+  return { format: "gif", width, height, plays, frames };
+};
+
+const encodeGif = (
+  anim: AnimatedImage,
+  { colors = 256, dither = true }: AnimationEncodeOptions
+): Uint8Array => {
+  const out = new Bytes();
+  out.text("GIF89a");
+  out.u16le(anim.width);
+  out.u16le(anim.height);
+  out.byte(0); // no global colour table, every frame has its own
+  out.byte(0);
+  out.byte(0);
+  if (anim.plays !== 1) {
+    out.bytes(new Uint8Array([0x21, 0xff, 11]));
+    out.text("NETSCAPE2.0");
+    out.bytes(new Uint8Array([3, 1]));
+    out.u16le(anim.plays === 0 ? 0 : Math.min(0xffff, anim.plays - 1));
+    out.byte(0);
+  }
+
+  // GIF can't draw a transparent pixel over an opaque one, so animations with
+  // transparency are written as full frames that clear the canvas first.
+  // Opaque ones only store the changed area, with unchanged pixels transparent.
+  const opaque = isOpaque(anim.frames);
+  let prev: ImageData | null = null;
+  for (const { image, delay } of anim.frames) {
+    const rect = opaque
+      ? changedRect(prev, image)
+      : { x: 0, y: 0, width: anim.width, height: anim.height };
+    const region = cropImageData(image, rect);
+    const px = region.data;
+    for (let i = 0; i < px.length; i += 4) {
+      px[i + 3] = px[i + 3] < 128 ? 0 : 255;
+    }
+    if (opaque && prev) {
+      const before = cropImageData(prev, rect).data;
+      for (let i = 0; i < px.length; i += 4) {
+        if (
+          px[i] === before[i] &&
+          px[i + 1] === before[i + 1] &&
+          px[i + 2] === before[i + 2]
+        ) {
+          px[i + 3] = 0;
+        }
+      }
+    }
+    prev = image;
+
+    const { palette, indices } = quantizeImageData(region, { colors, dither });
+    const count = palette.length / 4;
+    let transparent = -1;
+    for (let i = 0; i < count; i++) {
+      if (palette[i * 4 + 3] === 0) transparent = i;
+    }
+    let depth = 1;
+    while (1 << depth < count) depth++;
+
+    // Graphic control extension: disposal, delay, transparent index
+    out.bytes(new Uint8Array([0x21, 0xf9, 4]));
+    out.byte(((opaque ? 1 : 2) << 2) | (transparent >= 0 ? 1 : 0));
+    out.u16le(Math.min(0xffff, Math.round(delay / 10)));
+    out.byte(Math.max(0, transparent));
+    out.byte(0);
+
+    out.byte(0x2c);
+    out.u16le(rect.x);
+    out.u16le(rect.y);
+    out.u16le(rect.width);
+    out.u16le(rect.height);
+    out.byte(0x80 | (depth - 1));
+    const table = new Uint8Array(3 << depth);
+    for (let i = 0; i < count; i++) {
+      table.set(palette.subarray(i * 4, i * 4 + 3), i * 3);
+    }
+    out.bytes(table);
+
+    const minCodeSize = Math.max(2, depth);
+    const data = lzwEncode(indices, minCodeSize);
+    out.byte(minCodeSize);
+    for (let i = 0; i < data.length; i += 255) {
+      const block = data.subarray(i, i + 255);
+      out.byte(block.length);
+      out.bytes(block);
+    }
+    out.byte(0);
+  }
+  out.byte(0x3b);
+  return out.result();
+};
+
+// ---------- APNG ----------
+
+const PNG_SIGNATURE = new Uint8Array([
+  0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+]);
+
+type ApngFrame = {
+  rect: Rect;
+  delay: number;
+  dispose: number;
+  blend: boolean;
+  data: Uint8Array[];
+};
+
+const decodeApng = async (b: Uint8Array): Promise<AnimatedImage | null> => {
+  let ihdr: Uint8Array | null = null;
+  let plays = 0;
+  let animated = false;
+  let seenData = false;
+  const shared: Uint8Array[] = [];
+  const frames: ApngFrame[] = [];
+
+  for (let at = 8; at + 8 <= b.length; ) {
+    const len = u32be(b, at);
+    const type = ascii(b, at + 4, 4);
+    const data = b.subarray(at + 8, at + 8 + len);
+    const raw = b.subarray(at, at + 12 + len);
+    at += 12 + len;
+
+    if (type === "IHDR") ihdr = data;
+    else if (type === "acTL") {
+      animated = true;
+      plays = u32be(data, 4);
+    } else if (type === "fcTL") {
+      const num = (data[20] << 8) | data[21];
+      const den = (data[22] << 8) | data[23] || 100;
+      frames.push({
+        rect: {
+          width: u32be(data, 4),
+          height: u32be(data, 8),
+          x: u32be(data, 12),
+          y: u32be(data, 16),
+        },
+        delay: Math.round((num * 1000) / den),
+        dispose: data[24],
+        blend: data[25] === 1,
+        data: [],
+      });
+    } else if (type === "IDAT") {
+      seenData = true;
+      // The default image is only a frame when an fcTL came before it
+      if (frames.length > 0) frames[frames.length - 1].data.push(data);
+    } else if (type === "fdAT") {
+      frames[frames.length - 1]?.data.push(data.subarray(4));
+    } else if (type === "IEND") break;
+    else if (!seenData && !/^(acTL|fcTL)$/.test(type)) shared.push(raw);
+  }
+  if (!animated || !ihdr || frames.length < 2) return null;
+
+  const width = u32be(ihdr, 0);
+  const height = u32be(ihdr, 4);
+  const canvas = blankImage(width, height);
+  const out: AnimationFrame[] = [];
+  let prev: { frame: ApngFrame; saved: ImageData | null } | null = null;
+
+  for (const frame of frames) {
+    if (prev?.frame.dispose === 1) clearRect(canvas, prev.frame.rect);
+    if (prev?.frame.dispose === 2 && prev.saved) {
+      canvas.data.set(prev.saved.data);
+    }
+    const saved = frame.dispose === 2 ? copyImage(canvas) : null;
+
+    const header = ihdr.slice();
+    const view = new DataView(header.buffer);
+    view.setUint32(0, frame.rect.width);
+    view.setUint32(4, frame.rect.height);
+    const png = concat([
+      PNG_SIGNATURE,
+      pngChunk("IHDR", header),
+      ...shared,
+      pngChunk("IDAT", concat(frame.data)),
+      pngChunk("IEND", new Uint8Array(0)),
+    ]);
+    const image = await decodeStill(png, "image/png");
+    paint(canvas, image, frame.rect.x, frame.rect.y, frame.blend);
+    out.push({ image: copyImage(canvas), delay: frame.delay });
+    // "Restore previous" on the first frame means "clear"
+    prev = {
+      frame,
+      saved: out.length === 1 ? blankImage(width, height) : saved,
+    };
+  }
+
+  return { format: "png", width, height, plays, frames: out };
+};
+
+// Per-row adaptive filter choice (minimum sum of absolute differences).
+const filterScanlines = (px: Uint8Array, width: number, height: number) => {
+  const bpp = px.length / (width * height);
+  const stride = width * bpp;
+  const out = new Uint8Array((stride + 1) * height);
+  const candidate = new Uint8Array(stride);
+  const paeth = (a: number, b: number, c: number) => {
+    const p = a + b - c;
+    const pa = Math.abs(p - a);
+    const pb = Math.abs(p - b);
+    const pc = Math.abs(p - c);
+    return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+  };
+
+  for (let y = 0; y < height; y++) {
+    const row = y * stride;
+    let best = Infinity;
+    for (let f = 0; f < 5; f++) {
+      let sum = 0;
+      for (let i = 0; i < stride; i++) {
+        const x = px[row + i];
+        const a = i >= bpp ? px[row + i - bpp] : 0;
+        const b = y > 0 ? px[row - stride + i] : 0;
+        const c = i >= bpp && y > 0 ? px[row - stride + i - bpp] : 0;
+        const v =
+          f === 0
+            ? x
+            : f === 1
+            ? x - a
+            : f === 2
+            ? x - b
+            : f === 3
+            ? x - ((a + b) >> 1)
+            : x - paeth(a, b, c);
+        candidate[i] = v;
+        sum += (v & 0xff) < 128 ? v & 0xff : 256 - (v & 0xff);
+      }
+      if (sum < best) {
+        best = sum;
+        out[y * (stride + 1)] = f;
+        out.set(candidate, y * (stride + 1) + 1);
+      }
+    }
+  }
+  return out;
+};
+
+const encodeApng = async (anim: AnimatedImage): Promise<Uint8Array> => {
+  const opaque = isOpaque(anim.frames);
+  const channels = opaque ? 3 : 4;
+
+  const ihdr = new Bytes();
+  ihdr.u32be(anim.width);
+  ihdr.u32be(anim.height);
+  ihdr.bytes(new Uint8Array([8, opaque ? 2 : 6, 0, 0, 0]));
+
+  const actl = new Bytes();
+  actl.u32be(anim.frames.length);
+  actl.u32be(anim.plays);
+
+  const parts = [
+    PNG_SIGNATURE,
+    pngChunk("IHDR", ihdr.result()),
+    pngChunk("acTL", actl.result()),
+  ];
+
+  // Each frame replaces (APNG_BLEND_OP_SOURCE) only the area that changed
+  let seq = 0;
+  let prev: ImageData | null = null;
+  for (const { image, delay } of anim.frames) {
+    const rect = changedRect(prev, image);
+    prev = image;
+
+    const fctl = new Bytes();
+    fctl.u32be(seq++);
+    fctl.u32be(rect.width);
+    fctl.u32be(rect.height);
+    fctl.u32be(rect.x);
+    fctl.u32be(rect.y);
+    fctl.u16be(Math.min(0xffff, Math.round(delay)));
+    fctl.u16be(1000);
+    fctl.byte(0); // dispose: none
+    fctl.byte(0); // blend: source
+    parts.push(pngChunk("fcTL", fctl.result()));
+
+    const region = cropImageData(image, rect).data;
+    const px = new Uint8Array(rect.width * rect.height * channels);
+    for (let i = 0, o = 0; i < region.length; i += 4) {
+      for (let c = 0; c < channels; c++) px[o++] = region[i + c];
+    }
+    const data = await zlibDeflate(
+      filterScanlines(px, rect.width, rect.height)
+    );
+    if (seq === 1) {
+      parts.push(pngChunk("IDAT", data));
+    } else {
+      const fdat = new Bytes();
+      fdat.u32be(seq++);
+      fdat.bytes(data);
+      parts.push(pngChunk("fdAT", fdat.result()));
+    }
+  }
+  parts.push(pngChunk("IEND", new Uint8Array(0)));
+  return concat(parts);
+};
+
+// ---------- WebP ----------
+
+const riffChunk = (fourcc: string, data: Uint8Array) => {
+  const out = new Bytes();
+  out.text(fourcc);
+  out.u32le(data.length);
+  out.bytes(data);
+  if (data.length & 1) out.byte(0);
+  return out.result();
+};
+
+const readRiffChunks = (b: Uint8Array, start: number, end: number) => {
+  const chunks: { fourcc: string; data: Uint8Array; raw: Uint8Array }[] = [];
+  for (let at = start; at + 8 <= end; ) {
+    const size = u32le(b, at + 4);
+    chunks.push({
+      fourcc: ascii(b, at, 4),
+      data: b.subarray(at + 8, at + 8 + size),
+      raw: b.subarray(at, at + 8 + size + (size & 1)),
+    });
+    at += 8 + size + (size & 1);
+  }
+  return chunks;
+};
+
+const vp8xChunk = (flags: number, width: number, height: number) => {
+  const data = new Bytes();
+  data.byte(flags);
+  data.u24le(0);
+  data.u24le(width - 1);
+  data.u24le(height - 1);
+  return riffChunk("VP8X", data.result());
+};
+
+const webpFile = (chunks: Uint8Array[]) => {
+  const body = concat(chunks);
+  const out = new Bytes();
+  out.text("RIFF");
+  out.u32le(body.length + 4);
+  out.text("WEBP");
+  out.bytes(body);
+  return out.result();
+};
+
+const decodeAnimatedWebp = async (
+  b: Uint8Array
+): Promise<AnimatedImage | null> => {
+  const chunks = readRiffChunks(b, 12, Math.min(b.length, 8 + u32le(b, 4)));
+  const vp8x = chunks.find((c) => c.fourcc === "VP8X");
+  const anmf = chunks.filter((c) => c.fourcc === "ANMF");
+  if (!vp8x || !(vp8x.data[0] & 0x02) || anmf.length < 2) return null;
+
+  const width = 1 + u24le(vp8x.data, 4);
+  const height = 1 + u24le(vp8x.data, 7);
+  const anim = chunks.find((c) => c.fourcc === "ANIM");
+  const plays = anim ? u16le(anim.data, 4) : 0;
+
+  const canvas = blankImage(width, height);
+  const frames: AnimationFrame[] = [];
+  let disposeRect: Rect | null = null;
+
+  for (const { data } of anmf) {
+    const rect = {
+      x: 2 * u24le(data, 0),
+      y: 2 * u24le(data, 3),
+      width: 1 + u24le(data, 6),
+      height: 1 + u24le(data, 9),
+    };
+    const delay = u24le(data, 12);
+    const flags = data[15];
+    const body = data.subarray(16);
+    const hasAlpha = readRiffChunks(body, 0, body.length).some(
+      (c) => c.fourcc === "ALPH"
+    );
+    const still = webpFile(
+      hasAlpha ? [vp8xChunk(0x10, rect.width, rect.height), body] : [body]
+    );
+
+    if (disposeRect) clearRect(canvas, disposeRect);
+    const image = await decodeStill(still, "image/webp");
+    paint(canvas, image, rect.x, rect.y, !(flags & 0x02));
+    frames.push({ image: copyImage(canvas), delay });
+    disposeRect = flags & 0x01 ? rect : null;
+  }
+
+  return { format: "webp", width, height, plays, frames };
+};
+
+const encodeAnimatedWebp = async (
+  anim: AnimatedImage,
+  { quality = 0.8 }: AnimationEncodeOptions
+): Promise<Uint8Array> => {
+  const canvas = document.createElement("canvas");
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas not supported");
+
+  const header = new Bytes();
+  header.u32le(0); // background colour hint
+  header.u16le(Math.min(0xffff, anim.plays));
+  const parts = [
+    vp8xChunk(
+      0x02 | (isOpaque(anim.frames) ? 0 : 0x10),
+      anim.width,
+      anim.height
+    ),
+    riffChunk("ANIM", header.result()),
+  ];
+
+  let prev: ImageData | null = null;
+  for (const { image, delay } of anim.frames) {
+    // Frame offsets are stored halved, so the rectangle starts on even pixels
+    const changed = changedRect(prev, image);
+    const x = changed.x & ~1;
+    const y = changed.y & ~1;
+    const rect = {
+      x,
+      y,
+      width: changed.width + changed.x - x,
+      height: changed.height + changed.y - y,
+    };
+    prev = image;
+
+    canvas.width = rect.width;
+    canvas.height = rect.height;
+    ctx.putImageData(cropImageData(image, rect), 0, 0);
+    const blob = await new Promise<Blob | null>((resolve) =>
+      canvas.toBlob(resolve, "image/webp", quality)
+    );
+    if (!blob || blob.type !== "image/webp") {
+      throw new Error("This browser cannot encode WebP");
+    }
+    const still = new Uint8Array(await blob.arrayBuffer());
+    const bitstream = readRiffChunks(still, 12, still.length)
+      .filter((c) => /^(ALPH|VP8 |VP8L)$/.test(c.fourcc))
+      .map((c) => c.raw);
+
+    const frame = new Bytes();
+    frame.u24le(rect.x / 2);
+    frame.u24le(rect.y / 2);
+    frame.u24le(rect.width - 1);
+    frame.u24le(rect.height - 1);
+    frame.u24le(Math.min(0xffffff, Math.round(delay)));
+    frame.byte(0x02); // replace the area (no blending), never dispose
+    bitstream.forEach((c) => frame.bytes(c));
+    parts.push(riffChunk("ANMF", frame.result()));
+  }
+  return webpFile(parts);
+};
+
+// ---------- public API ----------
+
+const isApng = (b: Uint8Array) => {
+  for (let at = 8; at + 8 <= b.length; at += 12 + u32be(b, at)) {
+    const type = ascii(b, at + 4, 4);
+    if (type === "acTL") return true;
+    if (type === "IDAT") return false;
+  }
+  return false;
+};
+
+const countGifFrames = (b: Uint8Array) => {
+  let at = 13;
+  if (b[10] & 0x80) at += 3 * (2 << (b[10] & 7));
+  let frames = 0;
+  while (at < b.length) {
+    const block = b[at++];
+    if (block === 0x21) {
+      at = readSubBlocks(b, at + 1).end;
+    } else if (block === 0x2c) {
+      const packed = b[at + 8];
+      at += 9;
+      if (packed & 0x80) at += 3 * (2 << (packed & 7));
+      at = readSubBlocks(b, at + 1).end;
+      if (++frames > 1) return frames;
+    } else break;
+  }
+  return frames;
+};
+
+// Container sniffing; cheap enough to run on every uploaded file.
+export const animationFormatOf = (b: Uint8Array): AnimationFormat | null => {
+  if (ascii(b, 0, 4) === "GIF8") return countGifFrames(b) > 1 ? "gif" : null;
+  if (b.length > 8 && PNG_SIGNATURE.every((v, i) => b[i] === v)) {
+    return isApng(b) ? "png" : null;
+  }
+  if (ascii(b, 0, 4) === "RIFF" && ascii(b, 8, 4) === "WEBP") {
+    const vp8x = ascii(b, 12, 4) === "VP8X";
+    return vp8x && b[20] & 0x02 ? "webp" : null;
+  }
+  return null;
+};
+
+export const isAnimatedImage = async (file: Blob) =>
+  animationFormatOf(new Uint8Array(await file.arrayBuffer())) !== null;
+
+// Composited frames of an animated file, or null for still images.
+export const decodeAnimation = async (
+  file: Blob
+): Promise<AnimatedImage | null> => {
+  const b = new Uint8Array(await file.arrayBuffer());
+  const format = animationFormatOf(b);
+  if (format === "gif") return decodeGif(b);
+  if (format === "png") return decodeApng(b);
+  if (format === "webp") return decodeAnimatedWebp(b);
+  return null;
+};
+
+export const encodeAnimation = async (
+  anim: AnimatedImage,
+  options: AnimationEncodeOptions = {}
+): Promise<Blob> => {
+  const bytes =
+    anim.format === "gif"
+      ? encodeGif(anim, options)
+      : anim.format === "png"
+      ? await encodeApng(anim)
+      : await encodeAnimatedWebp(anim, options);
+  return new Blob([bytes], { type: MIME[anim.format] });
+};
+
+// ---------- per-frame transforms ----------
+
+// Redraw every frame onto a width×height canvas; timing and loop count carry over.
+export const transformAnimation = (
+  anim: AnimatedImage,
+  width: number,
+  height: number,
+  draw: (
+    ctx: CanvasRenderingContext2D,
+    frame: HTMLCanvasElement,
+    index: number
+  ) => void
+): AnimatedImage => {
+  const src = document.createElement("canvas");
+  src.width = anim.width;
+  src.height = anim.height;
+  const srcCtx = src.getContext("2d");
+  const dst = document.createElement("canvas");
+  dst.width = width;
+  dst.height = height;
+  const ctx = dst.getContext("2d");
+  if (!srcCtx || !ctx) throw new Error("Canvas not supported");
+  ctx.imageSmoothingQuality = "high";
+
+  const frames = anim.frames.map(({ image, delay }, i) => {
+    srcCtx.putImageData(image, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+    ctx.save();
+    draw(ctx, src, i);
+    ctx.restore();
+    return { image: ctx.getImageData(0, 0, width, height), delay };
+  });
+  return { ...anim, width, height, frames };
+};
+
+export const resizeAnimation = (
+  anim: AnimatedImage,
+  width: number,
+  height: number
+) =>
+  transformAnimation(anim, width, height, (ctx, frame) =>
+    ctx.drawImage(frame, 0, 0, width, height)
+  );
+
+export const cropAnimation = (anim: AnimatedImage, r: Rect) =>
+  transformAnimation(anim, r.width, r.height, (ctx, frame) =>
+    ctx.drawImage(frame, r.x, r.y, r.width, r.height, 0, 0, r.width, r.height)
+  );
+
+// Rotate by any angle, with optional mirroring; the canvas grows to the
+// rotated bounding box.
+export const rotateAnimation = (
+  anim: AnimatedImage,
+  degrees: number,
+  flipH = false,
+  flipV = false
+) => {
+  const rad = (degrees * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(rad));
+  const sin = Math.abs(Math.sin(rad));
+  const width = Math.round(anim.width * cos + anim.height * sin);
+  const height = Math.round(anim.width * sin + anim.height * cos);
+  return transformAnimation(anim, width, height, (ctx, frame) => {
+    ctx.translate(width / 2, height / 2);
+    ctx.rotate(rad);
+    ctx.scale(flipH ? -1 : 1, flipV ? -1 : 1);
+    ctx.drawImage(frame, -anim.width / 2, -anim.height / 2);
+  });
+};
+
+// ---------- compression ----------
+
+export type AnimationCompressOptions = AnimationEncodeOptions & {
+  targetBytes?: number;
+};
+
+export type AnimationCompressResult = {
+  file: File;
+  // WebP frame quality (0..1) used; null for GIF/APNG or the original file
+  quality: number | null;
+};
+
+// Re-encode in the same container. With a target, lower WebP quality / GIF
+// palette size first, then shrink the frames. The original file is returned
+// when re-encoding doesn't make it smaller.
+export const compressAnimation = async (
+  file: File,
+  anim: AnimatedImage,
+  {
+    targetBytes,
+    quality = 0.8,
+    colors = 256,
+    dither = true,
+  }: AnimationCompressOptions
+): Promise<AnimationCompressResult> => {
+  const base = file.name.replace(/\.[^.]+$/, "");
+  const original = { file, quality: null };
+  const toResult = (blob: Blob, opts: AnimationEncodeOptions) => ({
+    file: new File([blob], `${base}_compressed.${anim.format}`, {
+      type: blob.type,
+    }),
+    quality: anim.format === "webp" ? opts.quality ?? null : null,
+  });
+
+  if (!targetBytes) {
+    const opts = { quality, colors, dither };
+    const blob = await encodeAnimation(anim, opts);
+    return blob.size < file.size ? toResult(blob, opts) : original;
+  }
+  if (file.size <= targetBytes) return original;
+
+  const ladder: AnimationEncodeOptions[] =
+    anim.format === "webp"
+      ? [quality, 0.6, 0.4, 0.2, 0.05]
+          .filter((q) => q <= quality)
+          .map((q) => ({ quality: q }))
+      : anim.format === "gif"
+      ? [colors, 128, 64, 32]
+          .filter((c) => c <= colors)
+          .map((c) => ({ colors: c, dither }))
+      : [{}];
+
+  const MIN_DIM = 32;
+  let smallest: { blob: Blob; opts: AnimationEncodeOptions } | null = null;
+  for (let scale = 1; ; scale *= 0.8) {
+    const width = Math.round(anim.width * scale);
+    const height = Math.round(anim.height * scale);
+    if (scale < 1 && (width < MIN_DIM || height < MIN_DIM)) break;
+    const frames = scale === 1 ? anim : resizeAnimation(anim, width, height);
+    for (const opts of ladder) {
+      const blob = await encodeAnimation(frames, opts);
+      if (blob.size <= targetBytes) return toResult(blob, opts);
+      if (!smallest || blob.size < smallest.blob.size) {
+        smallest = { blob, opts };
+      }
+    }
+  }
+  return smallest && smallest.blob.size < file.size
+    ? toResult(smallest.blob, smallest.opts)
+    : original;
+};
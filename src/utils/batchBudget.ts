@@ -0,0 +1,81 @@
+import { loadImageFromFile } from "@/utils/imageCompression";
+
+// Splits one byte budget across a batch of files. Busy photos get more bytes
+// than flat graphics: each image is weighted by its pixel count times a
+// gradient-based activity score measured on a small thumbnail.
+
+export type BudgetItem = {
+  weight: number;
+  cap: number; // a file never needs more than its original size
+};
+
+// Thumbnail size used to measure activity
+const SAMPLE_SIDE = 256;
+// Baseline activity so flat images still get a share proportional to their size
+const ACTIVITY_FLOOR = 8;
+
+// Mean absolute luma gradient (0..255) of a downscaled copy of the image.
+export const measureActivity = (img: HTMLImageElement): number => {
+  const scale = Math.min(1, SAMPLE_SIDE / Math.max(img.width, img.height));
+  const w = Math.max(2, Math.round(img.width * scale));
+  const h = Math.max(2, Math.round(img.height * scale));
+  const canvas = document.createElement("canvas");
+  canvas.width = w;
+  canvas.height = h;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return 0;
+  ctx.fillStyle = "#ffffff";
+  ctx.fillRect(0, 0, w, h);
+  ctx.drawImage(img, 0, 0, w, h);
+  const px = ctx.getImageData(0, 0, w, h).data;
+
+  const luma = new Float32Array(w * h);
+  for (let i = 0, p = 0; i < luma.length; i++, p += 4) {
+    luma[i] = 0.299 * px[p] + 0.587 * px[p + 1] + 0.114 * px[p + 2];
+  }
+  let total = 0;
+  for (let y = 0; y < h - 1; y++) {
+    for (let x = 0; x < w - 1; x++) {
+      const i = y * w + x;
+      total +=
+        Math.abs(luma[i + 1] - luma[i]) + Math.abs(luma[i + w] - luma[i]);
+    }
+  }
+  return total / ((w - 1) * (h - 1));
+};
+
+// Relative "bytes needed" estimate for an image.
+export const imageWeight = async (file: File): Promise<number> => {
+  const img = await loadImageFromFile(file);
+  return img.width * img.height * (ACTIVITY_FLOOR + measureActivity(img));
+};
+
+// Proportional split with caps: files whose share exceeds their cap get the
+// cap, and the excess is redistributed among the rest.
+export const allocateBudget = (
+  items: BudgetItem[],
+  budget: number
+): number[] => {
+  const alloc = items.map(() => 0);
+  let open = items.map((_, i) => i).filter((i) => items[i].weight > 0);
+  let remaining = Math.max(0, budget);
+
+  while (open.length > 0 && remaining > 0) {
+    const totalWeight = open.reduce((s, i) => s + items[i].weight, 0);
+    const capped = open.filter(
+      (i) => (remaining * items[i].weight) / totalWeight >= items[i].cap
+    );
+    if (capped.length === 0) {
+      open.forEach((i) => {
+        alloc[i] = Math.floor((remaining * items[i].weight) / totalWeight);
+      });
+      break;
+    }
+    capped.forEach((i) => {
+      alloc[i] = items[i].cap;
+      remaining -= items[i].cap;
+    });
+    open = open.filter((i) => !capped.includes(i));
+  }
+  return alloc;
+};
@@ -0,0 +1,178 @@
+// Per-file compression reports shared by BatchCompressor, ImageCompress and
+// CompareCompression: CSV/JSON export and the hand-off to the printable
+// summary page (/tools/compression-report).
+
+export type ReportRow = {
+  file: string; // input filename
+  output: string; // output filename
+  originalBytes: number;
+  outputBytes: number;
+  format: string; // output MIME type
+  width: number | null; // output dimensions; null for non-images
+  height: number | null;
+  quality: number | null; // 0-100; null when lossless or the original was kept
+  elapsedMs: number;
+};
+
+export type CompressionReport = {
+  tool: string;
+  generatedAt: string;
+  settings: Record<string, string | number | boolean>;
+  rows: ReportRow[];
+};
+
+export const createReport = (
+  tool: string,
+  settings: CompressionReport["settings"],
+  rows: ReportRow[]
+): CompressionReport => ({
+  tool,
+  generatedAt: new Date().toISOString(),
+  settings,
+  rows,
+});
+
+// Output dimensions as decoded by the browser; null for PDFs and the like
+export const measureDimensions = async (
+  blob: Blob
+): Promise<{ width: number | null; height: number | null }> => {
+  if (!blob.type.startsWith("image/")) return { width: null, height: null };
+  try {
+    const bmp = await createImageBitmap(blob);
+    const dims = { width: bmp.width, height: bmp.height };
+    bmp.close();
+    return dims;
+  } catch {
+    return { width: null, height: null };
+  }
+};
+
+// originalBytes / outputBytes, e.g. 3.2 for "3.2x smaller"
+export const compressionRatio = (row: ReportRow) =>
+  row.outputBytes > 0 ? row.originalBytes / row.outputBytes : 0;
+
+export const savedPercent = (originalBytes: number, outputBytes: number) =>
+  originalBytes > 0 ? (1 - outputBytes / originalBytes) * 100 : 0;
+
+export const summarizeReport = (report: CompressionReport) => {
+  const originalBytes = report.rows.reduce((s, r) => s + r.originalBytes, 0);
+  const outputBytes = report.rows.reduce((s, r) => s + r.outputBytes, 0);
+  const formats = new Map<string, { count: number; bytes: number }>();
+  for (const r of report.rows) {
+    const f = formats.get(r.format) ?? { count: 0, bytes: 0 };
+    f.count++;
+    f.bytes += r.outputBytes;
+    formats.set(r.format, f);
+  }
+  return {
+    files: report.rows.length,
+    originalBytes,
+    outputBytes,
+    savedBytes: originalBytes - outputBytes,
+    savedPercent: savedPercent(originalBytes, outputBytes),
+    elapsedMs: report.rows.reduce((s, r) => s + r.elapsedMs, 0),
+    formats: Array.from(formats, ([format, f]) => ({ format, ...f })),
+  };
+};
+
+const CSV_COLUMNS = [
+  "file",
+  "output",
+  "original_bytes",
+  "output_bytes",
+  "ratio",
+  "saved_percent",
+  "format",
+  "width",
+  "height",
+  "quality",
+  "elapsed_ms",
+];
+
+const csvCell = (value: string | number | null) => {
+  if (value === null) return "";
+  const s = String(value);
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+export const reportToCsv = (report: CompressionReport) =>
+  [
+    CSV_COLUMNS.join(","),
+    ...report.rows.map((r) =>
+      [
+        r.file,
+        r.output,
+        r.originalBytes,
+        r.outputBytes,
+        compressionRatio(r).toFixed(3),
+        savedPercent(r.originalBytes, r.outputBytes).toFixed(1),
+        r.format,
+        r.width,
+        r.height,
+        r.quality,
+        Math.round(r.elapsedMs),
+      ]
+        .map(csvCell)
+        .join(",")
+    ),
+  ].join("\r\n") + "\r\n";
+
+export const reportToJson = (report: CompressionReport) =>
+  JSON.stringify(
+    {
+      ...report,
+      summary: summarizeReport(report),
+      rows: report.rows.map((r) => ({
+        ...r,
+        ratio: Number(compressionRatio(r).toFixed(3)),
+        elapsedMs: Math.round(r.elapsedMs),
+      })),
+    },
+    null,
+    2
+  );
+
+// The printable page opens in a new tab, so the report travels via
+// localStorage. Only the most recent few are kept, fewer when the storage
+// quota runs out. Returns null when the report can't be stored at all.
+const STORAGE_PREFIX = "compression-report:";
+const KEEP_REPORTS = 5;
+
+export const storeReport = (report: CompressionReport): string | null => {
+  const id = `${Date.now().toString(36)}${Math.random()
+    .toString(36)
+    .slice(2, 6)}`;
+  const value = JSON.stringify(report);
+  try {
+    const keys = Object.keys(localStorage)
+      .filter((k) => k.startsWith(STORAGE_PREFIX))
+      .sort();
+    const old = keys.slice(0, Math.max(0, keys.length - KEEP_REPORTS + 1));
+    const kept = keys.slice(old.length);
+    old.forEach((k) => localStorage.removeItem(k));
+    for (;;) {
+      try {
+        localStorage.setItem(STORAGE_PREFIX + id, value);
+        return id;
+      } catch (err) {
+        // Out of quota: drop the oldest remaining report and try again
+        const oldest = kept.shift();
+        if (!oldest) throw err;
+        localStorage.removeItem(oldest);
+      }
+    }
+  } catch (err) {
+    console.error("Could not store the report:", err);
+    return null;
+  }
+};
+
+export const loadReport = (id: string): CompressionReport | null => {
+  const raw = localStorage.getItem(STORAGE_PREFIX + id);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as CompressionReport;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,836 @@
+import { jsPDF } from "jspdf";
+import { normalizeImage, type NormalizedImage } from "@/utils/imageNormalize";
+
+// Paginates simple document HTML (what mammoth makes of a .docx) into an A4
+// PDF: wrapped paragraphs with bold/italic/underline/links, headings,
+// bullet and numbered lists, bordered tables with merged cells, and inline
+// images. Everything is first laid out into flow items (a paragraph line, a
+// table row group, ...) with a known height; pagination then only has to
+// decide where each item lands.
+
+const PAGE = { width: 595.28, height: 841.89 }; // A4 in pt
+const MARGIN = 56;
+const BODY_SIZE = 11;
+const LINE_HEIGHT = 1.3;
+const LIST_INDENT = 18;
+const CELL_PADDING = 4;
+const HEADINGS: Record<string, { size: number; before: number }> = {
+  h1: { size: 22, before: 14 },
+  h2: { size: 18, before: 12 },
+  h3: { size: 15, before: 10 },
+  h4: { size: 13, before: 8 },
+  h5: { size: 11, before: 8 },
+  h6: { size: 11, before: 8 },
+};
+const BULLETS = ["•", "–", "·"];
+
+type TextStyle = {
+  size: number;
+  bold: boolean;
+  italic: boolean;
+  underline: boolean;
+  strike: boolean;
+  shift: number; // baseline offset for sup/sub, pt (down is positive)
+  link?: string;
+};
+
+type Fragment =
+  | { kind: "text"; text: string; style: TextStyle; width: number }
+  | { kind: "image"; image: NormalizedImage; width: number; height: number };
+
+// A run of fragments with no break opportunity inside
+type Word = { fragments: Fragment[]; width: number; space: number };
+
+type FlowItem = {
+  height: number;
+  before: number;
+  after: number;
+  draw: (top: number) => void;
+  keepWithNext?: boolean;
+  header?: FlowItem; // repeated when a table continues on a new page
+};
+
+const fontStyle = (s: TextStyle) =>
+  s.bold && s.italic
+    ? "bolditalic"
+    : s.bold
+    ? "bold"
+    : s.italic
+    ? "italic"
+    : "normal";
+
+// Documents embed images as data URIs; anything the browser or the image
+// normaliser can read (EMF/WMF can't) is drawn, the rest is left out
+const loadImages = async (root: Element) => {
+  const images = new Map<Element, NormalizedImage>();
+  for (const img of Array.from(root.querySelectorAll("img"))) {
+    const src = img.getAttribute("src");
+    if (!src) continue;
+    try {
+      const blob = await (await fetch(src)).blob();
+      images.set(img, await normalizeImage(blob));
+    } catch {
+      // Unsupported image format
+    }
+  }
+  return images;
+};
+
+class Layout {
+  constructor(
+    private doc: jsPDF,
+    private images: Map<Element, NormalizedImage>
+  ) {}
+
+  private measure(text: string, style: TextStyle) {
+    this.doc.setFont("helvetica", fontStyle(style));
+    this.doc.setFontSize(style.size);
+    return this.doc.getTextWidth(text);
+  }
+
+  // ---------- Inline content ----------
+
+  private collectWords(nodes: Node[], base: TextStyle, maxImage: number) {
+    const words: Word[] = [];
+    let current: Word = { fragments: [], width: 0, space: 0 };
+    const endWord = (space: number) => {
+      if (current.fragments.length) words.push(current);
+      current = { fragments: [], width: 0, space: 0 };
+      const last = words[words.length - 1];
+      if (last?.fragments.length && space) last.space = space;
+    };
+    const pushFragment = (fragment: Fragment) => {
+      current.fragments.push(fragment);
+      current.width += fragment.width;
+    };
+    const hardBreak = () => {
+      endWord(0);
+      words.push({ fragments: [], width: 0, space: -1 }); // -1: forced break
+    };
+
+    const walk = (node: Node, style: TextStyle) => {
+      if (node.nodeType === 3) {
+        const parts = (node.textContent ?? "").split(/(\s+)/);
+        for (const part of parts) {
+          if (!part) continue;
+          if (/^\s+$/.test(part)) endWord(this.measure(" ", style));
+          else {
+            pushFragment({
+              kind: "text",
+              text: part,
+              style,
+              width: this.measure(part, style),
+            });
+          }
+        }
+        return;
+      }
+      if (node.nodeType !== 1) return;
+      const el = node as Element;
+      const tag = el.tagName.toLowerCase();
+      const next = { ...style };
+      switch (tag) {
+        case "br":
+          hardBreak();
+          return;
+        case "img": {
+          const image = this.images.get(el);
+          if (!image) return;
+          // 96 dpi pixels to pt, shrunk to the column and the page
+          let width = image.width * 0.75;
+          let height = image.height * 0.75;
+          const scale = Math.min(
+            1,
+            maxImage / width,
+            (PAGE.height - MARGIN * 2) / height
+          );
+          width *= scale;
+          height *= scale;
+          endWord(0);
+          pushFragment({ kind: "image", image, width, height });
+          endWord(0);
+          return;
+        }
+        case "strong":
+        case "b":
+          next.bold = true;
+          break;
+        case "em":
+        case "i":
+          next.italic = true;
+          break;
+        case "u":
+          next.underline = true;
+          break;
+        case "s":
+        case "del":
+        case "strike":
+          next.strike = true;
+          break;
+        case "sup":
+          next.size = style.size * 0.7;
+          next.shift = style.shift - style.size * 0.35;
+          break;
+        case "sub":
+          next.size = style.size * 0.7;
+          next.shift = style.shift + style.size * 0.15;
+          break;
+        case "a": {
+          const href = el.getAttribute("href") ?? "";
+          if (/^(https?:|mailto:)/i.test(href)) {
+            next.link = href;
+            next.underline = true;
+          }
+          break;
+        }
+      }
+      el.childNodes.forEach((child) => walk(child, next));
+    };
+
+    nodes.forEach((node) => walk(node, base));
+    endWord(0);
+    return words;
+  }
+
+  // Greedy line filling; words wider than the line are split by character
+  private breakLines(words: Word[], width: number) {
+    const lines: { fragments: Fragment[]; x: number[] }[] = [];
+    let line: { fragments: Fragment[]; x: number[] } = {
+      fragments: [],
+      x: [],
+    };
+    let used = 0;
+    let pendingSpace = 0;
+    const newLine = () => {
+      lines.push(line);
+      line = { fragments: [], x: [] };
+      used = 0;
+      pendingSpace = 0;
+    };
+    const place = (word: Word) => {
+      let x = used + (line.fragments.length ? pendingSpace : 0);
+      for (const fragment of word.fragments) {
+        line.fragments.push(fragment);
+        line.x.push(x);
+        x += fragment.width;
+      }
+      used = x;
+      pendingSpace = word.space;
+    };
+
+    for (const word of words) {
+      if (word.space === -1) {
+        newLine();
+        continue;
+      }
+      const start = line.fragments.length ? used + pendingSpace : 0;
+      if (start + word.width <= width) {
+        place(word);
+        continue;
+      }
+      if (line.fragments.length) newLine();
+      if (word.width <= width) {
+        place(word);
+        continue;
+      }
+      // Too long for any line: cut the text into pieces that fit
+      for (const fragment of word.fragments) {
+        if (fragment.kind === "image") {
+          if (used && used + fragment.width > width) newLine();
+          place({ fragments: [fragment], width: fragment.width, space: 0 });
+          continue;
+        }
+        let rest = fragment.text;
+        while (rest) {
+          let n = rest.length;
+          while (
+            n > 1 &&
+            used + this.measure(rest.slice(0, n), fragment.style) > width
+          ) {
+            n--;
+          }
+          const text = rest.slice(0, n);
+          const textWidth = this.measure(text, fragment.style);
+          if (used > 0 && used + textWidth > width) {
+            newLine();
+            continue;
+          }
+          place({
+            fragments: [{ ...fragment, text, width: textWidth }],
+            width: textWidth,
+            space: 0,
+          });
+          rest = rest.slice(n);
+          if (rest) newLine();
+        }
+      }
+      pendingSpace = word.space;
+    }
+    if (line.fragments.length || !lines.length) lines.push(line);
+    return lines;
+  }
+
+  private drawFragment(
+    fragment: Fragment,
+    x: number,
+    baseline: number,
+    lineTop: number,
+    lineHeight: number
+  ) {
+    const { doc } = this;
+    if (fragment.kind === "image") {
+      doc.addImage(
+        fragment.image.bytes,
+        fragment.image.format === "png" ? "PNG" : "JPEG",
+        x,
+        baseline - fragment.height,
+        fragment.width,
+        fragment.height
+      );
+      return;
+    }
+    const { style } = fragment;
+    const y = baseline + style.shift;
+    doc.setFont("helvetica", fontStyle(style));
+    doc.setFontSize(style.size);
+    doc.setTextColor(style.link ? "#1d4ed8" : "#000000");
+    doc.text(fragment.text, x, y);
+    if (style.underline || style.strike) {
+      doc.setDrawColor(style.link ? "#1d4ed8" : "#000000");
+      doc.setLineWidth(Math.max(0.4, style.size * 0.05));
+      const ly = style.underline ? y + style.size * 0.12 : y - style.size * 0.3;
+      doc.line(x, ly, x + fragment.width, ly);
+    }
+    if (style.link) {
+      doc.link(x, lineTop, fragment.width, lineHeight, { url: style.link });
+    }
+  }
+
+  // One flow item per line; `marker` (a bullet or number) hangs left of
+  // the first line
+  private inline(
+    nodes: Node[],
+    style: TextStyle,
+    x: number,
+    width: number,
+    spacing: { before: number; after: number },
+    marker?: string
+  ): FlowItem[] {
+    const words = this.collectWords(nodes, style, width);
+    if (!words.some((w) => w.fragments.length) && !marker) return [];
+    const lines = this.breakLines(words, width);
+
+    return lines.map((line, i) => {
+      let ascent = style.size;
+      let descent = style.size * (LINE_HEIGHT - 1);
+      for (const fragment of line.fragments) {
+        if (fragment.kind === "image") {
+          ascent = Math.max(ascent, fragment.height);
+        } else {
+          ascent = Math.max(ascent, fragment.style.size);
+          descent = Math.max(descent, fragment.style.size * (LINE_HEIGHT - 1));
+        }
+      }
+      const height = ascent + descent;
+      return {
+        height,
+        before: i === 0 ? spacing.before : 0,
+        after: i === lines.length - 1 ? spacing.after : 0,
+        draw: (top: number) => {
+          const baseline = top + ascent;
+          if (i === 0 && marker) {
+            const markerStyle = { ...style, underline: false, link: undefined };
+            this.drawFragment(
+              {
+                kind: "text",
+                text: marker,
+                style: markerStyle,
+                width: this.measure(marker, markerStyle),
+              },
+              x - LIST_INDENT + 4,
+              baseline,
+              top,
+              height
+            );
+          }
+          line.fragments.forEach((fragment, fi) =>
+            this.drawFragment(fragment, x + line.x[fi], baseline, top, height)
+          );
+        },
+      };
+    });
+  }
+
+  // ---------- Blocks ----------
+
+  blocks(parent: Element, x: number, width: number, base: TextStyle) {
+    const items: FlowItem[] = [];
+    let loose: Node[] = []; // inline content directly inside the container
+    const flushLoose = () => {
+      if (loose.length) {
+        items.push(
+          ...this.inline(loose, base, x, width, { before: 0, after: 6 })
+        );
+      }
+      loose = [];
+    };
+
+    parent.childNodes.forEach((node) => {
+      const tag =
+        node.nodeType === 1 ? (node as Element).tagName.toLowerCase() : "";
+      const el = node as Element;
+      if (HEADINGS[tag]) {
+        flushLoose();
+        const { size, before } = HEADINGS[tag];
+        const lines = this.inline(
+          [el],
+          { ...base, size, bold: true },
+          x,
+          width,
+          { before, after: 4 }
+        );
+        lines.forEach((line) => (line.keepWithNext = true));
+        items.push(...lines);
+      } else if (tag === "p" || tag === "div" || tag === "blockquote") {
+        flushLoose();
+        const indent = tag === "blockquote" ? LIST_INDENT : 0;
+        const hasBlocks = el.querySelector("p,ul,ol,table,h1,h2,h3,h4,h5,h6");
+        if (hasBlocks) {
+          items.push(...this.blocks(el, x + indent, width - indent, base));
+        } else {
+          items.push(
+            ...this.inline([el], base, x + indent, width - indent, {
+              before: 0,
+              after: 6,
+            })
+          );
+        }
+      } else if (tag === "ul" || tag === "ol") {
+        flushLoose();
+        items.push(...this.list(el, x, width, base, 0));
+        if (items.length) items[items.length - 1].after += 4;
+      } else if (tag === "table") {
+        flushLoose();
+        items.push(...this.table(el, x, width, base));
+      } else if (tag === "hr") {
+        flushLoose();
+        items.push({
+          height: 8,
+          before: 4,
+          after: 4,
+          draw: (top) => {
+            this.doc.setDrawColor("#999999");
+            this.doc.setLineWidth(0.5);
+            this.doc.line(x, top + 4, x + width, top + 4);
+          },
+        });
+      } else {
+        loose.push(node);
+      }
+    });
+    flushLoose();
+    return items;
+  }
+
+  private list(
+    el: Element,
+    x: number,
+    width: number,
+    base: TextStyle,
+    depth: number
+  ): FlowItem[] {
+    const items: FlowItem[] = [];
+    const ordered = el.tagName.toLowerCase() === "ol";
+    const start = Number(el.getAttribute("start") ?? 1) || 1;
+    const indentX = x + LIST_INDENT;
+    const innerWidth = width - LIST_INDENT;
+    let n = start;
+
+    for (const li of Array.from(el.children)) {
+      if (li.tagName.toLowerCase() !== "li") continue;
+      const marker = ordered
+        ? `${listNumber(n++, depth)}.`
+        : BULLETS[depth % BULLETS.length];
+
+      // Text up to the first nested block carries the marker
+      const inlineNodes: Node[] = [];
+      const rest: Element[] = [];
+      li.childNodes.forEach((child) => {
+        const tag =
+          child.nodeType === 1 ? (child as Element).tagName.toLowerCase() : "";
+        if (rest.length || ["ul", "ol", "p", "table"].includes(tag)) {
+          if (child.nodeType === 1) rest.push(child as Element);
+        } else {
+          inlineNodes.push(child);
+        }
+      });
+      let itemLines = this.inline(
+        inlineNodes,
+        base,
+        indentX,
+        innerWidth,
+        {
+          before: 0,
+          after: 2,
+        },
+        marker
+      );
+      let markerUsed = itemLines.length > 0;
+      for (const child of rest) {
+        const tag = child.tagName.toLowerCase();
+        if (tag === "ul" || tag === "ol") {
+          itemLines.push(
+            ...this.list(child, indentX, innerWidth, base, depth + 1)
+          );
+        } else if (tag === "table") {
+          itemLines.push(...this.table(child, indentX, innerWidth, base));
+        } else if (tag === "p") {
+          itemLines.push(
+            ...this.inline(
+              [child],
+              base,
+              indentX,
+              innerWidth,
+              { before: 0, after: 2 },
+              markerUsed ? undefined : marker
+            )
+          );
+          markerUsed = true;
+        } else {
+          itemLines.push(...this.blocks(child, indentX, innerWidth, base));
+        }
+      }
+      if (!itemLines.length) {
+        itemLines = this.inline(
+          [],
+          base,
+          indentX,
+          innerWidth,
+          { before: 0, after: 2 },
+          marker
+        );
+      }
+      items.push(...itemLines);
+    }
+    return items;
+  }
+
+  // Column widths like an auto-layout HTML table: every column gets its
+  // longest word, and the space left is shared by how much text it holds
+  private table(
+    el: Element,
+    x: number,
+    width: number,
+    base: TextStyle
+  ): FlowItem[] {
+    const rowEls = Array.from(el.querySelectorAll("tr")).filter(
+      (tr) => tr.closest("table") === el
+    );
+    if (!rowEls.length) return [];
+
+    // Place cells on the grid, skipping slots taken by rowspans above
+    type Placed = {
+      el: Element;
+      row: number;
+      col: number;
+      rowSpan: number;
+      colSpan: number;
+    };
+    const placed: Placed[] = [];
+    const taken = new Set<string>();
+    let cols = 0;
+    rowEls.forEach((tr, row) => {
+      let col = 0;
+      for (const cell of Array.from(tr.children)) {
+        const tag = cell.tagName.toLowerCase();
+        if (tag !== "td" && tag !== "th") continue;
+        while (taken.has(`${row}:${col}`)) col++;
+        const rowSpan = Math.max(1, Number(cell.getAttribute("rowspan")) || 1);
+        const colSpan = Math.max(1, Number(cell.getAttribute("colspan")) || 1);
+        for (let r = row; r < row + rowSpan; r++) {
+          for (let c = col; c < col + colSpan; c++) taken.add(`${r}:${c}`);
+        }
+        placed.push({ el: cell, row, col, rowSpan, colSpan });
+        col += colSpan;
+      }
+      cols = Math.max(cols, col);
+    });
+    const rows = rowEls.length;
+
+    const styleFor = (cell: Element) => ({
+      ...base,
+      size: base.size - 1,
+      bold: base.bold || cell.tagName.toLowerCase() === "th",
+    });
+    const minW = new Array(cols).fill(0);
+    const maxW = new Array(cols).fill(0);
+    for (const cell of placed) {
+      if (cell.colSpan !== 1) continue;
+      const style = styleFor(cell.el);
+      const text = cell.el.textContent ?? "";
+      const longest = Math.max(
+        0,
+        ...text.split(/\s+/).map((w) => this.measure(w, style))
+      );
+      // +1 so rounding never wraps the longest word
+      minW[cell.col] = Math.max(minW[cell.col], longest + CELL_PADDING * 2 + 1);
+      maxW[cell.col] = Math.max(
+        maxW[cell.col],
+        this.measure(text.trim(), style) + CELL_PADDING * 2
+      );
+    }
+    for (let c = 0; c < cols; c++) {
+      minW[c] = Math.max(minW[c], 24);
+      maxW[c] = Math.max(maxW[c], minW[c]);
+    }
+    const sumMin = minW.reduce((a, b) => a + b, 0);
+    const sumMax = maxW.reduce((a, b) => a + b, 0);
+    let colW: number[];
+    if (sumMax <= width) {
+      colW = maxW;
+    } else if (sumMin >= width) {
+      colW = minW.map((w) => (w / sumMin) * width);
+    } else {
+      const flex = sumMax - sumMin;
+      colW = minW.map(
+        (w, c) => w + ((maxW[c] - minW[c]) / flex) * (width - sumMin)
+      );
+    }
+    const colX = [x];
+    colW.forEach((w, c) => colX.push(colX[c] + w));
+
+    // Cell contents and the row heights they need
+    const cellItems = placed.map((cell) => {
+      const innerX = colX[cell.col] + CELL_PADDING;
+      const innerW =
+        colX[cell.col + cell.colSpan] - colX[cell.col] - CELL_PADDING * 2;
+      const items = this.blocks(cell.el, innerX, innerW, styleFor(cell.el));
+      if (items.length) items[items.length - 1].after = 0;
+      // Offset of each item from the cell's top edge
+      const tops: number[] = [];
+      let y = CELL_PADDING;
+      items.forEach((item, i) => {
+        if (i) y += item.before;
+        tops.push(y);
+        y += item.height + item.after;
+      });
+      return { cell, items, tops, height: y + CELL_PADDING };
+    });
+    const rowH = new Array(rows).fill(BODY_SIZE + CELL_PADDING * 2);
+    for (const { cell, height } of cellItems.filter(
+      (c) => c.cell.rowSpan === 1
+    )) {
+      rowH[cell.row] = Math.max(rowH[cell.row], height);
+    }
+    for (const { cell, height } of cellItems.filter(
+      (c) => c.cell.rowSpan > 1
+    )) {
+      const last = cell.row + cell.rowSpan - 1;
+      let spanned = 0;
+      for (let r = cell.row; r <= last; r++) spanned += rowH[r];
+      if (height > spanned) rowH[last] += height - spanned;
+    }
+
+    // Rows tied together by a rowspan are drawn as one group
+    const groups: [number, number][] = [];
+    for (let r = 0; r < rows; ) {
+      let end = r;
+      for (const { row, rowSpan } of placed) {
+        if (row >= r && row <= end) end = Math.max(end, row + rowSpan - 1);
+      }
+      groups.push([r, end]);
+      r = end + 1;
+    }
+
+    const isHeader = (r: number) =>
+      rowEls[r].parentElement?.tagName.toLowerCase() === "thead" ||
+      Array.from(rowEls[r].children).every(
+        (c) => c.tagName.toLowerCase() === "th"
+      );
+
+    // A group taller than `maxHeight` (a page, less the repeated header) is
+    // cut into slices between lines, so a layout table holding a whole
+    // document still flows across pages
+    const groupItems = (
+      [from, to]: [number, number],
+      maxHeight: number
+    ): FlowItem[] => {
+      const offsets: number[] = [];
+      let h = 0;
+      for (let r = from; r <= to; r++) {
+        offsets[r] = h;
+        h += rowH[r];
+      }
+      const cells = cellItems
+        .filter(({ cell }) => cell.row >= from && cell.row <= to)
+        .map((c) => {
+          let height = 0;
+          for (let r = c.cell.row; r < c.cell.row + c.cell.rowSpan; r++) {
+            height += rowH[r];
+          }
+          return { ...c, y: offsets[c.cell.row], height };
+        });
+
+      const lines = cells.flatMap((c) =>
+        c.items.map((item, i) => ({
+          start: c.y + c.tops[i],
+          end: c.y + c.tops[i] + item.height,
+        }))
+      );
+      // Continued slices get the cell padding again at their top
+      const inset = (start: number) => (start > 0 ? CELL_PADDING : 0);
+      const cuts = [0];
+      while (
+        h - cuts[cuts.length - 1] + inset(cuts[cuts.length - 1]) >
+        maxHeight
+      ) {
+        const start = cuts[cuts.length - 1];
+        const limit = start + maxHeight - inset(start);
+        let cut = start;
+        for (const { end } of lines) {
+          if (
+            end > cut &&
+            end <= limit &&
+            lines.every((l) => l.start >= end || l.end <= end)
+          ) {
+            cut = end;
+          }
+        }
+        // Only a single line taller than the page gets cut through
+        cuts.push(cut > start ? cut : limit);
+      }
+      cuts.push(h);
+
+      return cuts.slice(1).map((sliceEnd, k) => {
+        const sliceStart = cuts[k];
+        const pad = inset(sliceStart);
+        return {
+          height: sliceEnd - sliceStart + pad,
+          before: 0,
+          after: 0,
+          draw: (top) => {
+            const { doc } = this;
+            const shift = top + pad - sliceStart;
+            for (const { cell, items, tops, y, height } of cells) {
+              const cellBottom = Math.min(y + height, sliceEnd);
+              if (cellBottom <= Math.max(y, sliceStart)) continue;
+              // Cells carried over from the previous slice start at its top
+              const rectTop = y < sliceStart ? top : y + shift;
+              const rectHeight = cellBottom + shift - rectTop;
+              const cx = colX[cell.col];
+              const cw = colX[cell.col + cell.colSpan] - cx;
+              if (cell.el.tagName.toLowerCase() === "th") {
+                doc.setFillColor("#f1f5f9");
+                doc.rect(cx, rectTop, cw, rectHeight, "F");
+              }
+              doc.setDrawColor("#444444");
+              doc.setLineWidth(0.5);
+              doc.rect(cx, rectTop, cw, rectHeight, "S");
+              items.forEach((item, i) => {
+                const itemTop = y + tops[i];
+                if (itemTop >= sliceStart && itemTop < sliceEnd) {
+                  item.draw(itemTop + shift);
+                }
+              });
+            }
+          },
+        };
+      });
+    };
+
+    const pageHeight = PAGE.height - MARGIN * 2;
+    const first = groupItems(groups[0], pageHeight);
+    const header =
+      isHeader(0) && first.length === 1 && groups.length > 1
+        ? first[0]
+        : undefined;
+    const rest = groups
+      .slice(1)
+      .flatMap((group) =>
+        groupItems(group, pageHeight - (header?.height ?? 0))
+      );
+    rest.forEach((item) => (item.header = header));
+    const items = [...first, ...rest];
+    items[0].before = 4;
+    items[items.length - 1].after = 8;
+    return items;
+  }
+}
+
+const listNumber = (n: number, depth: number) => {
+  if (depth % 3 === 1) {
+    let s = "";
+    for (let v = n; v > 0; v = Math.floor((v - 1) / 26)) {
+      s = String.fromCharCode(97 + ((v - 1) % 26)) + s;
+    }
+    return s;
+  }
+  if (depth % 3 === 2) {
+    const numerals: [number, string][] = [
+      [1000, "m"],
+      [900, "cm"],
+      [500, "d"],
+      [400, "cd"],
+      [100, "c"],
+      [90, "xc"],
+      [50, "l"],
+      [40, "xl"],
+      [10, "x"],
+      [9, "ix"],
+      [5, "v"],
+      [4, "iv"],
+      [1, "i"],
+    ];
+    let s = "";
+    for (const [value, numeral] of numerals) {
+      while (n >= value) {
+        s += numeral;
+        n -= value;
+      }
+    }
+    return s;
+  }
+  return String(n);
+};
+
+export const htmlToPdf = async (html: string): Promise<jsPDF> => {
+  const root = new DOMParser().parseFromString(html, "text/html").body;
+  const doc = new jsPDF({ unit: "pt", format: "a4" });
+  const layout = new Layout(doc, await loadImages(root));
+  const base: TextStyle = {
+    size: BODY_SIZE,
+    bold: false,
+    italic: false,
+    underline: false,
+    strike: false,
+    shift: 0,
+  };
+  const items = layout.blocks(root, MARGIN, PAGE.width - MARGIN * 2, base);
+
+  const top = MARGIN;
+  const bottom = PAGE.height - MARGIN;
+  let y = top;
+  for (let i = 0; i < items.length; i++) {
+    const item = items[i];
+    let gap = y === top ? 0 : item.before;
+    // Headings move to the next page with the first line that follows
+    let need = gap + item.height;
+    for (let j = i; items[j]?.keepWithNext && items[j + 1]; j++) {
+      need += items[j + 1].before + items[j + 1].height;
+    }
+    if (y + need > bottom && y > top) {
+      doc.addPage();
+      y = top;
+      gap = 0;
+      // The table header repeats above the continued rows when both fit
+      const { header } = item;
+      if (header && top + header.height + item.height <= bottom) {
+        header.draw(y);
+        y += header.height;
+      }
+    }
+    item.draw(y + gap);
+    y += gap + item.height + item.after;
+  }
+  return doc;
+};
@@ -0,0 +1,519 @@
+import { canvasToJpeg, type JpegEncoderSettings } from "@/utils/jpegEncoder";
+
+// Canvas-based image compression helpers shared by the compression tools.
+
+// ---------- low-level helpers ----------
+
+export const canvasToBlob = (
+  canvas: HTMLCanvasElement,
+  type?: string,
+  quality?: number
+): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => {
+        if (blob) resolve(blob);
+        else reject(new Error("toBlob failed"));
+      },
+      type,
+      quality
+    );
+  });
+
+// JPEG goes through the JS encoder when encoder settings are given
+// (progressive, chroma subsampling, optimized Huffman); everything else uses canvas.
+export const encodeCanvas = (
+  canvas: HTMLCanvasElement,
+  type: string,
+  quality: number,
+  jpeg?: JpegEncoderSettings
+): Promise<Blob> =>
+  type === "image/jpeg" && jpeg
+    ? canvasToJpeg(canvas, { ...jpeg, quality })
+    : canvasToBlob(canvas, type, quality);
+
+export const loadImageFromFile = (file: Blob): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(img);
+    };
+    img.onerror = (e) => {
+      URL.revokeObjectURL(url);
+      reject(e);
+    };
+    img.src = url;
+  });
+
+// True when the blob decodes to an image with non-zero dimensions.
+export const canDecodeImage = async (blob: Blob): Promise<boolean> => {
+  try {
+    const img = await loadImageFromFile(blob);
+    return img.width > 0 && img.height > 0;
+  } catch {
+    return false;
+  }
+};
+
+export const hasAlphaChannel = (img: HTMLImageElement): boolean => {
+  const w = 64;
+  const h = Math.max(1, Math.round((img.height / img.width) * w));
+  const c = document.createElement("canvas");
+  c.width = w;
+  c.height = h;
+  const ctx = c.getContext("2d");
+  if (!ctx) return false;
+  ctx.drawImage(img, 0, 0, w, h);
+  const data = ctx.getImageData(0, 0, w, h).data;
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] !== 255) return true;
+  }
+  return false;
+};
+
+// ---------- alpha detection ----------
+
+export type AlphaInfo = {
+  // The container declares alpha (PNG colour type / tRNS, WebP alpha flag, GIF)
+  hasChannel: boolean;
+  // At least one pixel is not fully opaque
+  transparent: boolean;
+};
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(start, start + length));
+
+// Palette / truecolour PNGs get transparency from a tRNS chunk before IDAT.
+// Chunk headers are read one by one: large iCCP or text chunks can push
+// tRNS arbitrarily far into the file.
+const pngHasTrns = async (file: Blob): Promise<boolean> => {
+  let offset = 8;
+  while (offset + 8 <= file.size) {
+    const header = new Uint8Array(
+      await file.slice(offset, offset + 8).arrayBuffer()
+    );
+    const type = ascii(header, 4, 4);
+    if (type === "tRNS") return true;
+    if (type === "IDAT" || type === "IEND") return false;
+    offset += 12 + new DataView(header.buffer).getUint32(0);
+  }
+  return false;
+};
+
+// Read the file header to see whether the encoded image can carry alpha at all.
+// Unknown containers (AVIF, ...) report true so the pixel scan decides.
+const declaresAlpha = async (file: Blob): Promise<boolean> => {
+  const head = new Uint8Array(await file.slice(0, 32).arrayBuffer());
+
+  if (head[0] === 0xff && head[1] === 0xd8) return false; // JPEG
+  if (ascii(head, 0, 2) === "BM") return false;
+
+  if (ascii(head, 1, 3) === "PNG") {
+    const colorType = head[25];
+    if (colorType === 4 || colorType === 6) return true;
+    return pngHasTrns(file);
+  }
+
+  if (ascii(head, 0, 4) === "RIFF" && ascii(head, 8, 4) === "WEBP") {
+    const chunk = ascii(head, 12, 4);
+    if (chunk === "VP8X") return (head[20] & 0x10) !== 0;
+    if (chunk === "VP8L") return ((head[24] >> 4) & 1) === 1;
+    return false; // lossy VP8 without VP8X has no alpha
+  }
+
+  return true;
+};
+
+// Pixels are scanned at up to this size so small transparent areas survive the
+// downscale (hasAlphaChannel's 64px thumbnail can average them away).
+const ALPHA_SCAN_MAX_SIDE = 2048;
+
+const scanForTransparency = (img: HTMLImageElement): boolean => {
+  const scale = Math.min(
+    1,
+    ALPHA_SCAN_MAX_SIDE / Math.max(img.width, img.height)
+  );
+  const w = Math.max(1, Math.round(img.width * scale));
+  const h = Math.max(1, Math.round(img.height * scale));
+  const c = document.createElement("canvas");
+  c.width = w;
+  c.height = h;
+  const ctx = c.getContext("2d");
+  if (!ctx) return false;
+  ctx.drawImage(img, 0, 0, w, h);
+  const data = ctx.getImageData(0, 0, w, h).data;
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] !== 255) return true;
+  }
+  return false;
+};
+
+// Distinguishes "no alpha channel", "alpha channel but every pixel opaque"
+// (safe to encode as JPEG) and real transparency.
+export const detectAlpha = async (
+  file: Blob,
+  img: HTMLImageElement
+): Promise<AlphaInfo> => {
+  const hasChannel = await declaresAlpha(file);
+  return { hasChannel, transparent: hasChannel && scanForTransparency(img) };
+};
+
+export const decideOutputType = (fileType: string, alpha: boolean): string => {
+  if (fileType === "image/jpeg") return "image/jpeg";
+  if (fileType === "image/webp") return "image/webp";
+  if (fileType === "image/png" && alpha) return "image/webp"; // keep alpha + quality
+  if (fileType === "image/png" && !alpha) return "image/jpeg";
+  return "image/webp";
+};
+
+export const extFromType = (type: string): string => {
+  if (type === "image/jpeg") return "jpg";
+  if (type === "image/webp") return "webp";
+  if (type === "image/png") return "png";
+  return "bin";
+};
+
+export const drawToCanvas = (
+  img: HTMLImageElement,
+  width: number,
+  height: number,
+  flattenToWhite: boolean
+): HTMLCanvasElement => {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas not supported");
+  if (flattenToWhite) {
+    ctx.fillStyle = "#ffffff";
+    ctx.fillRect(0, 0, width, height);
+  }
+  ctx.drawImage(img, 0, 0, width, height);
+  return canvas;
+};
+
+// Scale (width, height) down so the longest side is <= maxDimension. Never upscales.
+export const fitWithin = (
+  width: number,
+  height: number,
+  maxDimension?: number
+): { width: number; height: number } => {
+  if (!maxDimension || maxDimension <= 0) return { width, height };
+  const longest = Math.max(width, height);
+  if (longest <= maxDimension) return { width, height };
+  const scale = maxDimension / longest;
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+};
+
+// Binary search quality to find the largest quality whose size <= targetBytes at fixed dimensions.
+// Returns bestUnder when available; if not found, returns minQualityBlob that is still > target.
+export const searchQualityForTarget = async (
+  canvas: HTMLCanvasElement,
+  type: string,
+  targetBytes: number,
+  {
+    minQ = 0.05,
+    maxQ = 1.0,
+    maxIter = 16,
+    jpeg,
+  }: {
+    minQ?: number;
+    maxQ?: number;
+    maxIter?: number;
+    jpeg?: JpegEncoderSettings;
+  } = {}
+): Promise<
+  | { kind: "under"; blob: Blob; quality: number }
+  | { kind: "above"; blobAtMinQ: Blob }
+> => {
+  let low = minQ;
+  let high = maxQ;
+  let bestUnder: { blob: Blob; q: number; diff: number } | null = null;
+
+  // Probe min quality up-front to know if downscaling is required.
+  const minBlob = await encodeCanvas(canvas, type, minQ, jpeg);
+  if (minBlob.size > targetBytes) {
+    return { kind: "above", blobAtMinQ: minBlob };
+  }
+
+  // Probe max quality; if already <= target, that's ideal at these dimensions.
+  const maxBlob = await encodeCanvas(canvas, type, maxQ, jpeg);
+  if (maxBlob.size <= targetBytes) {
+    return { kind: "under", blob: maxBlob, quality: maxQ };
+  }
+
+  // Binary search between min and max quality to approach target from below.
+  for (let i = 0; i < maxIter && high - low > 0.001; i++) {
+    const mid = (low + high) / 2;
+    const blob = await encodeCanvas(canvas, type, mid, jpeg);
+    if (blob.size <= targetBytes) {
+      const diff = targetBytes - blob.size;
+      if (!bestUnder || diff < bestUnder.diff) {
+        bestUnder = { blob, q: mid, diff };
+      }
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+
+  if (bestUnder) {
+    return { kind: "under", blob: bestUnder.blob, quality: bestUnder.q };
+  }
+  // Should not happen because minQ was already <= target, but keep a guard.
+  return { kind: "under", blob: minBlob, quality: minQ };
+};
+
+// ---------- main compression utility ----------
+
+export type CompressImageOptions = {
+  // Longest output side in pixels; larger images are downscaled first.
+  maxDimension?: number;
+  // Use the JS JPEG encoder with these settings for JPEG output
+  jpeg?: JpegEncoderSettings;
+};
+
+export type CompressedImage = {
+  file: File;
+  // Encoder quality (0..1) of the output; null when the original was kept
+  quality: number | null;
+};
+
+// Like compressImageToTarget, but also reports the quality the output was
+// encoded at, so callers can record what the target search settled on.
+export const compressImageWithQuality = async (
+  file: File,
+  targetSize?: number,
+  qualityWhenNoTarget?: number,
+  { maxDimension, jpeg }: CompressImageOptions = {}
+): Promise<CompressedImage> => {
+  const img = await loadImageFromFile(file);
+  const start = fitWithin(img.width, img.height, maxDimension);
+  const resized = start.width !== img.width || start.height !== img.height;
+
+  // If no target supplied, single encode at requested quality.
+  if (!targetSize) {
+    const alpha = hasAlphaChannel(img);
+    const outType = decideOutputType(file.type, alpha);
+    const flatten = outType === "image/jpeg" && alpha;
+    const canvas = drawToCanvas(img, start.width, start.height, flatten);
+    const q =
+      typeof qualityWhenNoTarget === "number" ? qualityWhenNoTarget : 0.9;
+    const blob = await encodeCanvas(canvas, outType, q, jpeg);
+    const base = file.name.replace(/\.[^.]+$/, "");
+    return {
+      file: new File([blob], `${base}_compressed.${extFromType(outType)}`, {
+        type: outType,
+      }),
+      quality: q,
+    };
+  }
+
+  // If original already under target (and no resize was requested), return original.
+  if (file.size <= targetSize && !resized) return { file, quality: null };
+
+  const alpha = hasAlphaChannel(img);
+  const outType = decideOutputType(file.type, alpha);
+  const flatten = outType === "image/jpeg" && alpha;
+
+  const MAX_STEPS = 10;
+  const SCALE = 0.9;
+  const MIN_DIM = 64;
+
+  let width = start.width;
+  let height = start.height;
+
+  for (let step = 0; step < MAX_STEPS; step++) {
+    if (width < MIN_DIM || height < MIN_DIM) break;
+
+    const canvas = drawToCanvas(
+      img,
+      Math.round(width),
+      Math.round(height),
+      flatten
+    );
+    const res = await searchQualityForTarget(canvas, outType, targetSize, {
+      minQ: 0.05,
+      maxQ: 1.0,
+      maxIter: 16,
+      jpeg,
+    });
+
+    // If we can achieve <= target at these dimensions, return immediately;
+    // do NOT downscale further, as that only reduces size/quality unnecessarily.
+    if (res.kind === "under") {
+      const base = file.name.replace(/\.[^.]+$/, "");
+      const outExt = extFromType(outType);
+      return {
+        file: new File([res.blob], `${base}_compressed.${outExt}`, {
+          type: outType,
+        }),
+        quality: res.quality,
+      };
+    }
+
+    // Otherwise, even the smallest quality is still above target -> downscale and try again.
+    width = Math.max(MIN_DIM, Math.floor(width * SCALE));
+    height = Math.max(MIN_DIM, Math.floor(height * SCALE));
+  }
+
+  // Final fallback: smallest we could make at the last attempted size.
+  {
+    const canvas = drawToCanvas(
+      img,
+      Math.max(MIN_DIM, Math.round(width)),
+      Math.max(MIN_DIM, Math.round(height)),
+      flatten
+    );
+    const blob = await encodeCanvas(canvas, outType, 0.05, jpeg);
+    const base = file.name.replace(/\.[^.]+$/, "");
+    const outExt = extFromType(outType);
+    return {
+      file: new File([blob], `${base}_compressed.${outExt}`, { type: outType }),
+      quality: 0.05,
+    };
+  }
+};
+
+export const compressImageToTarget = async (
+  file: File,
+  targetSize?: number,
+  qualityWhenNoTarget?: number,
+  options: CompressImageOptions = {}
+): Promise<File> =>
+  (
+    await compressImageWithQuality(
+      file,
+      targetSize,
+      qualityWhenNoTarget,
+      options
+    )
+  ).file;
+
+// ---------- target-size search ----------
+
+// Output formats to try, in order, when a file must fit under a byte budget.
+// The input format comes first; later entries are smaller-but-compatible fallbacks.
+export const candidateTypesFor = (
+  fileType: string,
+  alpha: boolean
+): string[] => {
+  if (fileType === "image/png") {
+    return alpha
+      ? ["image/png", "image/webp"]
+      : ["image/png", "image/webp", "image/jpeg"];
+  }
+  if (fileType === "image/jpeg") return ["image/jpeg", "image/webp"];
+  if (fileType === "image/webp") {
+    return alpha ? ["image/webp"] : ["image/webp", "image/jpeg"];
+  }
+  return alpha ? ["image/webp", "image/png"] : ["image/webp", "image/jpeg"];
+};
+
+export type TargetSearchResult = {
+  file: File;
+  // false when even the smallest attempt stayed above the target
+  reached: boolean;
+  width: number;
+  height: number;
+  quality: number | null;
+};
+
+// Search for an encoding that fits under targetBytes: quality first, then
+// progressive downscaling, then switching to the next candidate format.
+// Non-final formats stop downscaling at MIN_SCALE so a better-compressing
+// format gets a chance before the image is shrunk too far.
+export const searchImageForTarget = async (
+  file: File,
+  targetBytes: number,
+  { maxDimension, jpeg }: CompressImageOptions = {}
+): Promise<TargetSearchResult> => {
+  const img = await loadImageFromFile(file);
+  const start = fitWithin(img.width, img.height, maxDimension);
+
+  if (
+    file.size <= targetBytes &&
+    start.width === img.width &&
+    start.height === img.height
+  ) {
+    return {
+      file,
+      reached: true,
+      width: img.width,
+      height: img.height,
+      quality: null,
+    };
+  }
+
+  const SCALE = 0.85;
+  const MIN_SCALE = 0.5;
+  const MIN_DIM = 32;
+
+  const alpha = hasAlphaChannel(img);
+  const types = candidateTypesFor(file.type, alpha);
+  const base = file.name.replace(/\.[^.]+$/, "");
+  const toFile = (blob: Blob, type: string) =>
+    new File([blob], `${base}_compressed.${extFromType(type)}`, { type });
+
+  let smallest: TargetSearchResult | null = null;
+
+  for (let t = 0; t < types.length; t++) {
+    const type = types[t];
+    const isLast = t === types.length - 1;
+    const flatten = type === "image/jpeg" && alpha;
+    let scale = 1;
+
+    for (;;) {
+      const width = Math.max(1, Math.round(start.width * scale));
+      const height = Math.max(1, Math.round(start.height * scale));
+      const canvas = drawToCanvas(img, width, height, flatten);
+      const res = await searchQualityForTarget(canvas, type, targetBytes, {
+        jpeg,
+      });
+
+      if (res.kind === "under") {
+        return {
+          file: toFile(res.blob, type),
+          reached: true,
+          width,
+          height,
+          quality: res.quality,
+        };
+      }
+
+      if (!smallest || res.blobAtMinQ.size < smallest.file.size) {
+        smallest = {
+          file: toFile(res.blobAtMinQ, type),
+          reached: false,
+          width,
+          height,
+          quality: 0.05,
+        };
+      }
+
+      const next = scale * SCALE;
+      if (!isLast && next < MIN_SCALE) break;
+      if (start.width * next < MIN_DIM || start.height * next < MIN_DIM) {
+        break;
+      }
+      scale = next;
+    }
+  }
+
+  // Re-encoding can lose to the source file; the original is then the floor.
+  if (smallest!.file.size >= file.size) {
+    return {
+      file,
+      reached: false,
+      width: img.width,
+      height: img.height,
+      quality: null,
+    };
+  }
+  return smallest!;
+};
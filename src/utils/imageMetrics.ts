@@ -0,0 +1,188 @@
+import { loadImageFromFile } from "@/utils/imageCompression";
+
+// Full-reference quality metrics between an original image and its compressed
+// output. Both are drawn onto same-sized canvases first, so outputs that were
+// downscaled are compared against the original at the original geometry.
+
+export type ImageMetrics = {
+  ssim: number; // 0..1, mean SSIM over luma windows
+  psnr: number; // dB over RGB; Infinity for identical images
+  maxDelta: number; // largest absolute channel difference, 0..255
+  width: number;
+  height: number;
+  heatmapUrl: string; // PNG data URL, transparent where nothing changed
+};
+
+// Cap the comparison size so large photos stay fast to analyse.
+const MAX_SIDE = 1024;
+
+const readPixels = (
+  img: HTMLImageElement,
+  width: number,
+  height: number
+): Uint8ClampedArray => {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas not supported");
+  // Composite on white so transparent pixels compare the same way JPEG flattens them
+  ctx.fillStyle = "#ffffff";
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(img, 0, 0, width, height);
+  return ctx.getImageData(0, 0, width, height).data;
+};
+
+const toLuma = (px: Uint8ClampedArray, count: number): Float32Array => {
+  const y = new Float32Array(count);
+  for (let i = 0, p = 0; i < count; i++, p += 4) {
+    y[i] = 0.299 * px[p] + 0.587 * px[p + 1] + 0.114 * px[p + 2];
+  }
+  return y;
+};
+
+const ssimWindow = (
+  a: Float32Array,
+  b: Float32Array,
+  stride: number,
+  x0: number,
+  y0: number,
+  w: number,
+  h: number,
+  C1: number,
+  C2: number
+): number => {
+  const n = w * h;
+  let sumA = 0;
+  let sumB = 0;
+  for (let y = y0; y < y0 + h; y++) {
+    for (let x = x0; x < x0 + w; x++) {
+      sumA += a[y * stride + x];
+      sumB += b[y * stride + x];
+    }
+  }
+  const meanA = sumA / n;
+  const meanB = sumB / n;
+  let varA = 0;
+  let varB = 0;
+  let cov = 0;
+  for (let y = y0; y < y0 + h; y++) {
+    for (let x = x0; x < x0 + w; x++) {
+      const da = a[y * stride + x] - meanA;
+      const db = b[y * stride + x] - meanB;
+      varA += da * da;
+      varB += db * db;
+      cov += da * db;
+    }
+  }
+  varA /= n - 1 || 1;
+  varB /= n - 1 || 1;
+  cov /= n - 1 || 1;
+  return (
+    ((2 * meanA * meanB + C1) * (2 * cov + C2)) /
+    ((meanA * meanA + meanB * meanB + C1) * (varA + varB + C2))
+  );
+};
+
+// Mean SSIM over 8x8 windows with a stride of 4 (Wang et al. constants, L = 255).
+const computeSSIM = (
+  a: Float32Array,
+  b: Float32Array,
+  width: number,
+  height: number
+): number => {
+  const WIN = 8;
+  const STEP = 4;
+  const C1 = (0.01 * 255) ** 2;
+  const C2 = (0.03 * 255) ** 2;
+
+  if (width < WIN || height < WIN) {
+    // Too small for windows: treat the whole image as one window
+    return ssimWindow(a, b, width, 0, 0, width, height, C1, C2);
+  }
+
+  let total = 0;
+  let windows = 0;
+  for (let y = 0; y + WIN <= height; y += STEP) {
+    for (let x = 0; x + WIN <= width; x += STEP) {
+      total += ssimWindow(a, b, width, x, y, WIN, WIN, C1, C2);
+      windows++;
+    }
+  }
+  return windows ? total / windows : 1;
+};
+
+// Differences at or above this value are drawn at full intensity.
+const HEATMAP_SATURATION = 64;
+
+const renderHeatmap = (
+  a: Uint8ClampedArray,
+  b: Uint8ClampedArray,
+  width: number,
+  height: number
+): string => {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas not supported");
+  const out = ctx.createImageData(width, height);
+  const px = out.data;
+  for (let p = 0; p < px.length; p += 4) {
+    const d = Math.max(
+      Math.abs(a[p] - b[p]),
+      Math.abs(a[p + 1] - b[p + 1]),
+      Math.abs(a[p + 2] - b[p + 2])
+    );
+    const v = Math.min(1, d / HEATMAP_SATURATION);
+    // yellow (small) -> red (large), alpha follows intensity
+    px[p] = 255;
+    px[p + 1] = Math.round(255 * (1 - v));
+    px[p + 2] = 0;
+    px[p + 3] = d === 0 ? 0 : Math.round(64 + 191 * v);
+  }
+  ctx.putImageData(out, 0, 0);
+  return canvas.toDataURL("image/png");
+};
+
+export const compareImages = async (
+  original: Blob,
+  compressed: Blob
+): Promise<ImageMetrics> => {
+  const [imgA, imgB] = await Promise.all([
+    loadImageFromFile(original),
+    loadImageFromFile(compressed),
+  ]);
+
+  const scale = Math.min(1, MAX_SIDE / Math.max(imgA.width, imgA.height));
+  const width = Math.max(1, Math.round(imgA.width * scale));
+  const height = Math.max(1, Math.round(imgA.height * scale));
+
+  const a = readPixels(imgA, width, height);
+  const b = readPixels(imgB, width, height);
+
+  let sqErr = 0;
+  let maxDelta = 0;
+  for (let p = 0; p < a.length; p += 4) {
+    for (let c = 0; c < 3; c++) {
+      const d = a[p + c] - b[p + c];
+      sqErr += d * d;
+      const abs = Math.abs(d);
+      if (abs > maxDelta) maxDelta = abs;
+    }
+  }
+  const mse = sqErr / (width * height * 3);
+  const psnr = mse === 0 ? Infinity : 10 * Math.log10((255 * 255) / mse);
+
+  const count = width * height;
+  const ssim = computeSSIM(toLuma(a, count), toLuma(b, count), width, height);
+
+  return {
+    ssim,
+    psnr,
+    maxDelta,
+    width,
+    height,
+    heatmapUrl: renderHeatmap(a, b, width, height),
+  };
+};
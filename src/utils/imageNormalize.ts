@@ -0,0 +1,265 @@
+import * as UTIF from "utif";
+import { canvasToBlob } from "@/utils/imageCompression";
+
+// Turns any image the tools accept into bytes pdf-lib and jsPDF can embed:
+// JPEG for opaque pictures, PNG when there is transparency. JPEG and PNG
+// files pass through untouched (unless EXIF says the JPEG is rotated); TIFF
+// is decoded with UTIF, HEIC/HEIF with libheif, and everything else (WebP,
+// GIF, BMP, AVIF) by the browser. Width and height are always the original
+// pixel size, after EXIF rotation. readExifDate() shares the EXIF parsing to
+// give captions the capture date.
+
+export type NormalizedImage = {
+  bytes: Uint8Array;
+  format: "jpeg" | "png";
+  width: number;
+  height: number;
+};
+
+// For file pickers: HEIC often arrives without a MIME type, hence the
+// extensions
+export const NORMALIZABLE_IMAGE_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/webp",
+  "image/gif",
+  "image/bmp",
+  "image/tiff",
+  "image/heic",
+  "image/heif",
+  ".heic",
+  ".heif",
+];
+
+type SourceFormat = "jpeg" | "png" | "tiff" | "heic" | "other";
+
+const sniff = (b: Uint8Array): SourceFormat => {
+  if (b[0] === 0xff && b[1] === 0xd8 && b[2] === 0xff) return "jpeg";
+  if (b[0] === 0x89 && b[1] === 0x50 && b[2] === 0x4e && b[3] === 0x47) {
+    return "png";
+  }
+  if (
+    (b[0] === 0x49 && b[1] === 0x49 && b[2] === 42 && b[3] === 0) ||
+    (b[0] === 0x4d && b[1] === 0x4d && b[2] === 0 && b[3] === 42)
+  ) {
+    return "tiff";
+  }
+  // ISO-BMFF "ftyp" box with a HEIF brand (AVIF is left to the browser)
+  const ascii = (from: number, to: number) =>
+    String.fromCharCode(...b.subarray(from, to));
+  if (ascii(4, 8) === "ftyp") {
+    const brand = ascii(8, 12);
+    if (/^(heic|heix|hevc|hevx|heim|heis|mif1|msf1)$/.test(brand)) {
+      return "heic";
+    }
+  }
+  return "other";
+};
+
+// ---------- EXIF ----------
+
+const matchAt = (b: Uint8Array, at: number, text: string) => {
+  for (let i = 0; i < text.length; i++) {
+    if (b[at + i] !== text.charCodeAt(i)) return false;
+  }
+  return true;
+};
+
+const isTiffHeader = (b: Uint8Array, at: number) =>
+  matchAt(b, at, "II*\0") || matchAt(b, at, "MM\0*");
+
+// Offset of the TIFF header holding the EXIF tags, or -1: after "Exif\0\0"
+// in JPEG APP1 and HEIC Exif items, right inside PNG eXIf and WebP EXIF
+// chunks, or at the start of a TIFF file
+const findExifTiff = (b: Uint8Array) => {
+  if (isTiffHeader(b, 0)) return 0;
+  const end = Math.min(b.length - 8, 1 << 18); // metadata sits up front
+  for (let i = 0; i < end; i++) {
+    if (matchAt(b, i, "Exif\0\0") && isTiffHeader(b, i + 6)) return i + 6;
+    if (matchAt(b, i, "eXIf") && isTiffHeader(b, i + 4)) return i + 4;
+    if (matchAt(b, i, "EXIF") && isTiffHeader(b, i + 8)) return i + 8;
+  }
+  return -1;
+};
+
+type ExifEntry = { type: number; count: number; at: number };
+
+// Tags of one IFD; `at` is where the value (or the 4-byte slot) starts
+const readIfd = (view: DataView, tiff: number, offset: number, le: boolean) => {
+  const tags = new Map<number, ExifEntry>();
+  const ifd = tiff + offset;
+  if (offset <= 0 || ifd + 2 > view.byteLength) return tags;
+  const count = view.getUint16(ifd, le);
+  for (let i = 0; i < count; i++) {
+    const entry = ifd + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+    const type = view.getUint16(entry + 2, le);
+    const n = view.getUint32(entry + 4, le);
+    const size = n * ([0, 1, 1, 2, 4, 8][type] ?? 1);
+    const at = size > 4 ? tiff + view.getUint32(entry + 8, le) : entry + 8;
+    tags.set(view.getUint16(entry, le), { type, count: n, at });
+  }
+  return tags;
+};
+
+const readExif = (b: Uint8Array) => {
+  const tiff = findExifTiff(b);
+  if (tiff < 0) return null;
+  const view = new DataView(b.buffer, b.byteOffset, b.byteLength);
+  const le = b[tiff] === 0x49;
+  const ifd0 = readIfd(view, tiff, view.getUint32(tiff + 4, le), le);
+  const exifPointer = ifd0.get(0x8769);
+  const exif = exifPointer
+    ? readIfd(view, tiff, view.getUint32(exifPointer.at, le), le)
+    : new Map<number, ExifEntry>();
+
+  const ascii = (e?: ExifEntry) =>
+    e && e.type === 2 && e.at + e.count <= b.length
+      ? String.fromCharCode(...b.subarray(e.at, e.at + e.count)).replace(
+          /\0.*$/,
+          ""
+        )
+      : "";
+  const orientation = ifd0.get(0x0112);
+  return {
+    orientation: orientation ? view.getUint16(orientation.at, le) : 1,
+    // DateTimeOriginal, then DateTimeDigitized, then the file's DateTime
+    date:
+      ascii(exif.get(0x9003)) ||
+      ascii(exif.get(0x9004)) ||
+      ascii(ifd0.get(0x0132)),
+  };
+};
+
+// Capture date from EXIF ("YYYY:MM:DD HH:MM:SS", local time), if present
+export const readExifDate = async (file: Blob): Promise<Date | null> => {
+  const head = new Uint8Array(await file.slice(0, 1 << 18).arrayBuffer());
+  const m = readExif(head)?.date.match(
+    /^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/
+  );
+  if (!m) return null;
+  const [y, mo, d, h, mi, sec] = m.slice(1).map(Number);
+  const date = new Date(y, mo - 1, d, h, mi, sec);
+  return Number.isNaN(date.getTime()) || y < 1900 ? null : date;
+};
+
+// Size from the first SOFn marker
+const readJpegSize = (b: Uint8Array) => {
+  const view = new DataView(b.buffer, b.byteOffset, b.byteLength);
+  let pos = 2;
+  while (pos + 9 <= b.length && b[pos] === 0xff) {
+    const marker = b[pos + 1];
+    if (marker === 0xd9 || marker === 0xda) break;
+    const isSof =
+      marker >= 0xc0 &&
+      marker <= 0xcf &&
+      marker !== 0xc4 &&
+      marker !== 0xc8 &&
+      marker !== 0xcc;
+    if (isSof) {
+      return {
+        width: view.getUint16(pos + 7),
+        height: view.getUint16(pos + 5),
+      };
+    }
+    pos += 2 + view.getUint16(pos + 2);
+  }
+  return { width: 0, height: 0 };
+};
+
+export const hasTransparency = (data: Uint8ClampedArray) => {
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] < 255) return true;
+  }
+  return false;
+};
+
+const encodeCanvas = async (
+  canvas: HTMLCanvasElement,
+  quality: number
+): Promise<NormalizedImage> => {
+  const ctx = canvas.getContext("2d")!;
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const format = hasTransparency(data) ? "png" : "jpeg";
+  const blob = await canvasToBlob(canvas, `image/${format}`, quality);
+  return {
+    bytes: new Uint8Array(await blob.arrayBuffer()),
+    format,
+    width: canvas.width,
+    height: canvas.height,
+  };
+};
+
+const canvasFor = (width: number, height: number) => {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+export const normalizeImage = async (
+  file: Blob,
+  quality = 0.92
+): Promise<NormalizedImage> => {
+  const buffer = await file.arrayBuffer();
+  const bytes = new Uint8Array(buffer);
+  const source = sniff(bytes);
+
+  if (source === "png") {
+    const view = new DataView(buffer);
+    return {
+      bytes,
+      format: "png",
+      width: view.getUint32(16),
+      height: view.getUint32(20),
+    };
+  }
+
+  if (source === "jpeg") {
+    const size = readJpegSize(bytes);
+    const orientation = readExif(bytes)?.orientation ?? 1;
+    if (orientation === 1 && size.width > 0) {
+      return { bytes, format: "jpeg", ...size };
+    }
+    // Rotated (or unreadable) JPEGs fall through to the browser, which
+    // applies the EXIF orientation while decoding
+  }
+
+  if (source === "tiff") {
+    // Only the first page of a multipage TIFF is used
+    const [ifd] = UTIF.decode(buffer);
+    if (!ifd) throw new Error("TIFF file contains no images");
+    UTIF.decodeImage(buffer, ifd);
+    const rgba = UTIF.toRGBA8(ifd);
+    const canvas = canvasFor(ifd.width, ifd.height);
+    canvas
+      .getContext("2d")!
+      .putImageData(
+        new ImageData(
+          new Uint8ClampedArray(rgba.buffer, rgba.byteOffset, rgba.length),
+          ifd.width,
+          ifd.height
+        ),
+        0,
+        0
+      );
+    return encodeCanvas(canvas, quality);
+  }
+
+  let bitmap: ImageBitmap;
+  try {
+    if (source === "heic") {
+      // libheif is large, so it is only loaded when a HEIC file shows up
+      const { heicTo } = await import("heic-to");
+      bitmap = await heicTo({ blob: file, type: "bitmap" });
+    } else {
+      bitmap = await createImageBitmap(file);
+    }
+  } catch {
+    throw new Error(`Unsupported image type: ${file.type || "unknown"}`);
+  }
+  const canvas = canvasFor(bitmap.width, bitmap.height);
+  canvas.getContext("2d")!.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return encodeCanvas(canvas, quality);
+};
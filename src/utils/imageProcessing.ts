@@ -1,5 +1,17 @@
 import imageCompression from "browser-image-compression";
 import { jsPDF } from "jspdf";
+import {
+  decodeAnimation,
+  encodeAnimation,
+  resizeAnimation,
+  cropAnimation,
+  transformAnimation,
+} from "@/utils/animatedImage";
+import type { AnimatedImage } from "@/utils/animatedImage";
+
+// Animated GIF/WebP/APNG go through the frame-aware path and stay animated
+const saveAnimation = async (anim: AnimatedImage, name: string, type: string) =>
+  new File([await encodeAnimation(anim, { quality: 0.9 })], name, { type });
 
 /** Resize image */
 export const resizeImage = async (
@@ -8,6 +20,18 @@ export const resizeImage = async (
   maxHeight: number,
   maintainAspectRatio: boolean = true
 ): Promise<File> => {
+  const anim = await decodeAnimation(file);
+  if (anim) {
+    // Same rule as browser-image-compression: cap the longest side, never upscale
+    const limit = maintainAspectRatio ? Math.max(maxWidth, maxHeight) : maxWidth;
+    const scale = Math.min(1, limit / Math.max(anim.width, anim.height));
+    const resized = resizeAnimation(
+      anim,
+      Math.max(1, Math.round(anim.width * scale)),
+      Math.max(1, Math.round(anim.height * scale))
+    );
+    return saveAnimation(resized, file.name, file.type);
+  }
   const options = {
     maxWidthOrHeight: maintainAspectRatio ? Math.max(maxWidth, maxHeight) : maxWidth,
     useWebWorker: true,
@@ -79,6 +103,11 @@ export const cropImage = async (
   width: number,
   height: number
 ): Promise<File> => {
+  const anim = await decodeAnimation(file);
+  if (anim) {
+    const cropped = cropAnimation(anim, { x, y, width, height });
+    return saveAnimation(cropped, file.name, file.type);
+  }
   return new Promise((resolve, reject) => {
     const canvas = document.createElement("canvas");
     const ctx = canvas.getContext("2d");
@@ -164,20 +193,103 @@ export const imageToPDF = async (file: File): Promise<Blob> => {
   });
 };
 
+type WatermarkPosition =
+  | "top-left"
+  | "top-right"
+  | "bottom-left"
+  | "bottom-right"
+  | "center"
+  | "all-over";
+
+/** Draw a text watermark over whatever is already on the canvas */
+export const drawTextWatermark = (
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  watermarkText: string,
+  position: WatermarkPosition,
+  opacity: number,
+  color: string
+) => {
+  const base = Math.min(width, height);
+  const fontSize = Math.max(14, Math.round(base * 0.05));
+
+  if (position === "all-over") {
+    const tile = document.createElement("canvas");
+    const tctx = tile.getContext("2d");
+    if (!tctx) throw new Error("Tile context not available");
+
+    tctx.font = `${fontSize}px sans-serif`;
+    tctx.textAlign = "center";
+    tctx.textBaseline = "middle";
+
+    const textW = Math.ceil(tctx.measureText(watermarkText).width);
+    const textH = Math.ceil(fontSize);
+    const pad = Math.round(fontSize * 0.75);
+    const tileW = textW + pad * 2;
+    const tileH = textH + pad * 2;
+
+    tile.width = tileW;
+    tile.height = tileH;
+
+    tctx.font = `${fontSize}px sans-serif`;
+    tctx.textAlign = "center";
+    tctx.textBaseline = "middle";
+
+    tctx.save();
+    tctx.translate(tileW / 2, tileH / 2);
+    tctx.rotate(-Math.PI / 4);
+    tctx.fillStyle = color;
+    tctx.globalAlpha = Math.max(0, Math.min(1, opacity));
+    tctx.fillText(watermarkText, 0, 0);
+    tctx.restore();
+
+    const pattern = ctx.createPattern(tile, "repeat");
+    if (!pattern) throw new Error("Failed to create pattern");
+
+    ctx.save();
+    ctx.fillStyle = pattern;
+    ctx.fillRect(0, 0, width, height);
+    ctx.restore();
+  } else {
+    ctx.font = `${fontSize}px sans-serif`;
+    ctx.fillStyle = color;
+    ctx.globalAlpha = opacity;
+
+    const textWidth = ctx.measureText(watermarkText).width;
+    let x = 10;
+    let y = height - 10;
+    if (position.includes("top")) y = 20 + fontSize;
+    if (position.includes("right")) x = width - textWidth - 10;
+    if (position === "center") {
+      x = (width - textWidth) / 2;
+      y = height / 2;
+    }
+
+    ctx.fillText(watermarkText, x, y);
+    ctx.globalAlpha = 1;
+  }
+};
+
 /** Add watermark */
 export const addWatermarkToImage = async (
   file: File,
   watermarkText: string,
-  position:
-    | "top-left"
-    | "top-right"
-    | "bottom-left"
-    | "bottom-right"
-    | "center"
-    | "all-over" = "bottom-right",
+  position: WatermarkPosition = "bottom-right",
   opacity: number = 0.5,
   color: string = "#000000"
 ): Promise<File> => {
+  const anim = await decodeAnimation(file);
+  if (anim) {
+    const { width, height } = anim;
+    const marked = transformAnimation(anim, width, height, (ctx, frame) => {
+      ctx.drawImage(frame, 0, 0);
+      drawTextWatermark(ctx, width, height, watermarkText, position, opacity, color);
+    });
+    const outName = file.name.replace(/(\.[^/.]+)?$/, "_watermarked$1");
+    return saveAnimation(marked, outName, file.type);
+  }
+
   return new Promise((resolve, reject) => {
     const canvas = document.createElement("canvas");
     const ctx = canvas.getContext("2d");
@@ -198,63 +310,12 @@ export const addWatermarkToImage = async (
       }
 
       ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
-      const base = Math.min(canvas.width, canvas.height);
-      const fontSize = Math.max(14, Math.round(base * 0.05));
-
-      if (position === "all-over") {
-        const tile = document.createElement("canvas");
-        const tctx = tile.getContext("2d");
-        if (!tctx) return reject(new Error("Tile context not available"));
-
-        tctx.font = `${fontSize}px sans-serif`;
-        tctx.textAlign = "center";
-        tctx.textBaseline = "middle";
-
-        const textW = Math.ceil(tctx.measureText(watermarkText).width);
-        const textH = Math.ceil(fontSize);
-        const pad = Math.round(fontSize * 0.75);
-        const tileW = textW + pad * 2;
-        const tileH = textH + pad * 2;
-
-        tile.width = tileW;
-        tile.height = tileH;
-
-        tctx.font = `${fontSize}px sans-serif`;
-        tctx.textAlign = "center";
-        tctx.textBaseline = "middle";
-
-        tctx.save();
-        tctx.translate(tileW / 2, tileH / 2);
-        tctx.rotate(-Math.PI / 4);
-        tctx.fillStyle = color;
-        tctx.globalAlpha = Math.max(0, Math.min(1, opacity));
-        tctx.fillText(watermarkText, 0, 0);
-        tctx.restore();
-
-        const pattern = ctx.createPattern(tile, "repeat");
-        if (!pattern) return reject(new Error("Failed to create pattern"));
-
-        ctx.save();
-        ctx.fillStyle = pattern as any;
-        ctx.fillRect(0, 0, canvas.width, canvas.height);
-        ctx.restore();
-      } else {
-        ctx.font = `${fontSize}px sans-serif`;
-        ctx.fillStyle = color;
-        ctx.globalAlpha = opacity;
-
-        const textWidth = ctx.measureText(watermarkText).width;
-        let x = 10;
-        let y = canvas.height - 10;
-        if (position.includes("top")) y = 20 + fontSize;
-        if (position.includes("right")) x = canvas.width - textWidth - 10;
-        if (position === "center") {
-          x = (canvas.width - textWidth) / 2;
-          y = canvas.height / 2;
-        }
-
-        ctx.fillText(watermarkText, x, y);
-        ctx.globalAlpha = 1;
+      try {
+        const { width, height } = canvas;
+        drawTextWatermark(ctx, width, height, watermarkText, position, opacity, color);
+      } catch (error) {
+        cleanup();
+        return reject(error);
       }
 
       const outName = file.name.replace(/\.[^/.]+$/, "_watermarked.png");
@@ -0,0 +1,687 @@
+// Pure-JS baseline/progressive JPEG encoder. canvas.toBlob cannot produce
+// progressive scans, pick chroma subsampling or optimize Huffman tables, so the
+// compression tools use this when those options are requested.
+
+export type ChromaSubsampling = "444" | "420";
+
+export type JpegEncoderSettings = {
+  progressive: boolean;
+  // Per-image Huffman tables instead of the Annex K defaults (always on for progressive)
+  optimizeHuffman: boolean;
+  subsampling: ChromaSubsampling;
+};
+
+export type JpegEncodeOptions = JpegEncoderSettings & {
+  quality: number; // 0..1, same scale as canvas.toBlob
+};
+
+// ---------- tables ----------
+
+const ZIGZAG = [
+  0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5, 12, 19, 26, 33, 40,
+  48, 41, 34, 27, 20, 13, 6, 7, 14, 21, 28, 35, 42, 49, 56, 57, 50, 43, 36, 29,
+  22, 15, 23, 30, 37, 44, 51, 58, 59, 52, 45, 38, 31, 39, 46, 53, 60, 61, 54,
+  47, 55, 62, 63,
+];
+
+// ITU T.81 Annex K quantization tables, natural (row-major) order
+const LUMA_QT = [
+  16, 11, 10, 16, 24, 40, 51, 61, 12, 12, 14, 19, 26, 58, 60, 55, 14, 13, 16,
+  24, 40, 57, 69, 56, 14, 17, 22, 29, 51, 87, 80, 62, 18, 22, 37, 56, 68, 109,
+  103, 77, 24, 35, 55, 64, 81, 104, 113, 92, 49, 64, 78, 87, 103, 121, 120, 101,
+  72, 92, 95, 98, 112, 100, 103, 99,
+];
+
+const CHROMA_QT = [
+  17, 18, 24, 47, 99, 99, 99, 99, 18, 21, 26, 66, 99, 99, 99, 99, 24, 26, 56,
+  99, 99, 99, 99, 99, 47, 66, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99,
+  99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99,
+  99, 99, 99, 99, 99, 99, 99,
+];
+
+type HuffSpec = { bits: number[]; vals: number[] };
+
+// Annex K.3 default Huffman tables; bits[i] = number of codes of length i + 1
+const STD_DC_LUMA: HuffSpec = {
+  bits: [0, 1, 5, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0, 0, 0],
+  vals: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11],
+};
+
+const STD_DC_CHROMA: HuffSpec = {
+  bits: [0, 3, 1, 1, 1, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0],
+  vals: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11],
+};
+
+const STD_AC_LUMA: HuffSpec = {
+  bits: [0, 2, 1, 3, 3, 2, 4, 3, 5, 5, 4, 4, 0, 0, 1, 0x7d],
+  vals: [
+    0x01, 0x02, 0x03, 0x00, 0x04, 0x11, 0x05, 0x12, 0x21, 0x31, 0x41, 0x06,
+    0x13, 0x51, 0x61, 0x07, 0x22, 0x71, 0x14, 0x32, 0x81, 0x91, 0xa1, 0x08,
+    0x23, 0x42, 0xb1, 0xc1, 0x15, 0x52, 0xd1, 0xf0, 0x24, 0x33, 0x62, 0x72,
+    0x82, 0x09, 0x0a, 0x16, 0x17, 0x18, 0x19, 0x1a, 0x25, 0x26, 0x27, 0x28,
+    0x29, 0x2a, 0x34, 0x35, 0x36, 0x37, 0x38, 0x39, 0x3a, 0x43, 0x44, 0x45,
+    0x46, 0x47, 0x48, 0x49, 0x4a, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59,
+    0x5a, 0x63, 0x64, 0x65, 0x66, 0x67, 0x68, 0x69, 0x6a, 0x73, 0x74, 0x75,
+    0x76, 0x77, 0x78, 0x79, 0x7a, 0x83, 0x84, 0x85, 0x86, 0x87, 0x88, 0x89,
+    0x8a, 0x92, 0x93, 0x94, 0x95, 0x96, 0x97, 0x98, 0x99, 0x9a, 0xa2, 0xa3,
+    0xa4, 0xa5, 0xa6, 0xa7, 0xa8, 0xa9, 0xaa, 0xb2, 0xb3, 0xb4, 0xb5, 0xb6,
+    0xb7, 0xb8, 0xb9, 0xba, 0xc2, 0xc3, 0xc4, 0xc5, 0xc6, 0xc7, 0xc8, 0xc9,
+    0xca, 0xd2, 0xd3, 0xd4, 0xd5, 0xd6, 0xd7, 0xd8, 0xd9, 0xda, 0xe1, 0xe2,
+    0xe3, 0xe4, 0xe5, 0xe6, 0xe7, 0xe8, 0xe9, 0xea, 0xf1, 0xf2, 0xf3, 0xf4,
+    0xf5, 0xf6, 0xf7, 0xf8, 0xf9, 0xfa,
+  ],
+};
+
+const STD_AC_CHROMA: HuffSpec = {
+  bits: [0, 2, 1, 2, 4, 4, 3, 4, 7, 5, 4, 4, 0, 1, 2, 0x77],
+  vals: [
+    0x00, 0x01, 0x02, 0x03, 0x11, 0x04, 0x05, 0x21, 0x31, 0x06, 0x12, 0x41,
+    0x51, 0x07, 0x61, 0x71, 0x13, 0x22, 0x32, 0x81, 0x08, 0x14, 0x42, 0x91,
+    0xa1, 0xb1, 0xc1, 0x09, 0x23, 0x33, 0x52, 0xf0, 0x15, 0x62, 0x72, 0xd1,
+    0x0a, 0x16, 0x24, 0x34, 0xe1, 0x25, 0xf1, 0x17, 0x18, 0x19, 0x1a, 0x26,
+    0x27, 0x28, 0x29, 0x2a, 0x35, 0x36, 0x37, 0x38, 0x39, 0x3a, 0x43, 0x44,
+    0x45, 0x46, 0x47, 0x48, 0x49, 0x4a, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58,
+    0x59, 0x5a, 0x63, 0x64, 0x65, 0x66, 0x67, 0x68, 0x69, 0x6a, 0x73, 0x74,
+    0x75, 0x76, 0x77, 0x78, 0x79, 0x7a, 0x82, 0x83, 0x84, 0x85, 0x86, 0x87,
+    0x88, 0x89, 0x8a, 0x92, 0x93, 0x94, 0x95, 0x96, 0x97, 0x98, 0x99, 0x9a,
+    0xa2, 0xa3, 0xa4, 0xa5, 0xa6, 0xa7, 0xa8, 0xa9, 0xaa, 0xb2, 0xb3, 0xb4,
+    0xb5, 0xb6, 0xb7, 0xb8, 0xb9, 0xba, 0xc2, 0xc3, 0xc4, 0xc5, 0xc6, 0xc7,
+    0xc8, 0xc9, 0xca, 0xd2, 0xd3, 0xd4, 0xd5, 0xd6, 0xd7, 0xd8, 0xd9, 0xda,
+    0xe2, 0xe3, 0xe4, 0xe5, 0xe6, 0xe7, 0xe8, 0xe9, 0xea, 0xf2, 0xf3, 0xf4,
+    0xf5, 0xf6, 0xf7, 0xf8, 0xf9, 0xfa,
+  ],
+};
+
+// IJG quality scaling, quality 1..100
+const scaleQuantTable = (base: number[], quality: number): number[] => {
+  const q = Math.max(1, Math.min(100, Math.round(quality)));
+  const scale = q < 50 ? 5000 / q : 200 - q * 2;
+  return base.map((v) =>
+    Math.max(1, Math.min(255, Math.floor((v * scale + 50) / 100)))
+  );
+};
+
+// ---------- Huffman coding ----------
+
+type HuffCodes = { code: Uint16Array; size: Uint8Array };
+
+const buildCodes = ({ bits, vals }: HuffSpec): HuffCodes => {
+  const code = new Uint16Array(256);
+  const size = new Uint8Array(256);
+  let next = 0;
+  let k = 0;
+  for (let len = 1; len <= 16; len++) {
+    for (let i = 0; i < bits[len - 1]; i++) {
+      code[vals[k]] = next++;
+      size[vals[k]] = len;
+      k++;
+    }
+    next <<= 1;
+  }
+  return { code, size };
+};
+
+// Optimal length-limited table from symbol frequencies (ITU T.81 Annex K.2).
+const optimalSpec = (counts: Uint32Array): HuffSpec => {
+  const freq = new Float64Array(257);
+  freq.set(counts);
+  freq[256] = 1; // reserved so no code is all ones
+  const codesize = new Int32Array(257);
+  const others = new Int32Array(257).fill(-1);
+
+  for (;;) {
+    let c1 = -1;
+    let v = Infinity;
+    for (let i = 0; i <= 256; i++) {
+      if (freq[i] && freq[i] <= v) {
+        v = freq[i];
+        c1 = i;
+      }
+    }
+    let c2 = -1;
+    v = Infinity;
+    for (let i = 0; i <= 256; i++) {
+      if (freq[i] && freq[i] <= v && i !== c1) {
+        v = freq[i];
+        c2 = i;
+      }
+    }
+    if (c2 < 0) break;
+
+    freq[c1] += freq[c2];
+    freq[c2] = 0;
+    codesize[c1]++;
+    while (others[c1] >= 0) {
+      c1 = others[c1];
+      codesize[c1]++;
+    }
+    others[c1] = c2;
+    codesize[c2]++;
+    while (others[c2] >= 0) {
+      c2 = others[c2];
+      codesize[c2]++;
+    }
+  }
+
+  const bits = new Array(33).fill(0);
+  for (let i = 0; i <= 256; i++) if (codesize[i]) bits[codesize[i]]++;
+
+  // Limit code lengths to 16 bits
+  for (let i = 32; i > 16; i--) {
+    while (bits[i] > 0) {
+      let j = i - 2;
+      while (bits[j] === 0) j--;
+      bits[i] -= 2;
+      bits[i - 1]++;
+      bits[j + 1] += 2;
+      bits[j]--;
+    }
+  }
+  // Drop the reserved symbol from the longest length
+  let longest = 16;
+  while (bits[longest] === 0) longest--;
+  bits[longest]--;
+
+  const vals: number[] = [];
+  for (let len = 1; len <= 32; len++) {
+    for (let s = 0; s < 256; s++) if (codesize[s] === len) vals.push(s);
+  }
+  return { bits: bits.slice(1, 17), vals };
+};
+
+// ---------- byte output ----------
+
+class ByteWriter {
+  buf = new Uint8Array(1 << 16);
+  length = 0;
+  private acc = 0;
+  private accBits = 0;
+
+  private ensure(n: number) {
+    if (this.length + n <= this.buf.length) return;
+    let size = this.buf.length * 2;
+    while (size < this.length + n) size *= 2;
+    const next = new Uint8Array(size);
+    next.set(this.buf.subarray(0, this.length));
+    this.buf = next;
+  }
+
+  byte(b: number) {
+    this.ensure(1);
+    this.buf[this.length++] = b;
+  }
+
+  word(w: number) {
+    this.byte((w >> 8) & 0xff);
+    this.byte(w & 0xff);
+  }
+
+  bytes(data: ArrayLike<number>) {
+    this.ensure(data.length);
+    for (let i = 0; i < data.length; i++) this.buf[this.length++] = data[i];
+  }
+
+  // Entropy-coded bits, with 0xFF byte stuffing
+  bits(value: number, count: number) {
+    for (let i = count - 1; i >= 0; i--) {
+      this.acc = (this.acc << 1) | ((value >> i) & 1);
+      if (++this.accBits === 8) {
+        this.byte(this.acc);
+        if (this.acc === 0xff) this.byte(0);
+        this.acc = 0;
+        this.accBits = 0;
+      }
+    }
+  }
+
+  // Pad the final byte of a scan with 1 bits
+  flushBits() {
+    if (this.accBits > 0) this.bits(0x7f, 8 - this.accBits);
+  }
+
+  result() {
+    return this.buf.slice(0, this.length);
+  }
+}
+
+// ---------- colour conversion + DCT ----------
+
+type Component = {
+  id: number;
+  h: number; // sampling factors
+  v: number;
+  tq: number; // quantization table index
+  blocksW: number; // padded to whole MCUs
+  blocksH: number;
+  // Blocks actually covering the component, used by non-interleaved scans
+  usedW: number;
+  usedH: number;
+  coefs: Int16Array; // 64 zigzag-ordered coefficients per block
+};
+
+const DCT_COS = (() => {
+  const t = new Float64Array(64);
+  for (let u = 0; u < 8; u++) {
+    const cu = u === 0 ? Math.SQRT1_2 : 1;
+    for (let x = 0; x < 8; x++) {
+      t[u * 8 + x] = 0.5 * cu * Math.cos(((2 * x + 1) * u * Math.PI) / 16);
+    }
+  }
+  return t;
+})();
+
+const fdct = (input: Float64Array, tmp: Float64Array, out: Float64Array) => {
+  for (let y = 0; y < 8; y++) {
+    for (let u = 0; u < 8; u++) {
+      let s = 0;
+      for (let x = 0; x < 8; x++) s += DCT_COS[u * 8 + x] * input[y * 8 + x];
+      tmp[y * 8 + u] = s;
+    }
+  }
+  for (let u = 0; u < 8; u++) {
+    for (let v = 0; v < 8; v++) {
+      let s = 0;
+      for (let y = 0; y < 8; y++) s += DCT_COS[v * 8 + y] * tmp[y * 8 + u];
+      out[v * 8 + u] = s;
+    }
+  }
+};
+
+// Convert, transform and quantize every block of every component up front;
+// progressive scans and Huffman optimisation both need multiple passes.
+const computeCoefficients = (
+  image: ImageData,
+  components: Component[],
+  hMax: number,
+  vMax: number,
+  tables: number[][]
+) => {
+  const { width, height, data } = image;
+  const samples = new Float64Array(64);
+  const tmp = new Float64Array(64);
+  const out = new Float64Array(64);
+
+  const channelAt = (ci: number, x: number, y: number) => {
+    const p = (Math.min(y, height - 1) * width + Math.min(x, width - 1)) * 4;
+    const r = data[p];
+    const g = data[p + 1];
+    const b = data[p + 2];
+    if (ci === 0) return 0.299 * r + 0.587 * g + 0.114 * b;
+    if (ci === 1) return -0.168736 * r - 0.331264 * g + 0.5 * b + 128;
+    return 0.5 * r - 0.418688 * g - 0.081312 * b + 128;
+  };
+
+  components.forEach((comp, ci) => {
+    const sx = hMax / comp.h; // source pixels per sample
+    const sy = vMax / comp.v;
+    const qt = tables[comp.tq];
+    for (let by = 0; by < comp.blocksH; by++) {
+      for (let bx = 0; bx < comp.blocksW; bx++) {
+        for (let y = 0; y < 8; y++) {
+          for (let x = 0; x < 8; x++) {
+            const px = (bx * 8 + x) * sx;
+            const py = (by * 8 + y) * sy;
+            let sum = 0;
+            for (let dy = 0; dy < sy; dy++) {
+              for (let dx = 0; dx < sx; dx++) {
+                sum += channelAt(ci, px + dx, py + dy);
+              }
+            }
+            samples[y * 8 + x] = sum / (sx * sy) - 128;
+          }
+        }
+        fdct(samples, tmp, out);
+        const base = (by * comp.blocksW + bx) * 64;
+        for (let k = 0; k < 64; k++) {
+          const n = ZIGZAG[k];
+          comp.coefs[base + k] = Math.round(out[n] / qt[n]);
+        }
+      }
+    }
+  });
+};
+
+// ---------- scans ----------
+
+// Symbol sink: counts frequencies on the first pass, writes codes on the second.
+type Emitter = {
+  symbol: (table: number, sym: number) => void;
+  bits: (value: number, count: number) => void;
+};
+
+const magnitude = (v: number) => {
+  let a = v < 0 ? -v : v;
+  let n = 0;
+  while (a) {
+    n++;
+    a >>= 1;
+  }
+  return n;
+};
+
+const emitValue = (e: Emitter, v: number, size: number) => {
+  if (size) e.bits(v < 0 ? v + (1 << size) - 1 : v, size);
+};
+
+type Scan = {
+  comps: number[]; // component indices
+  ss: number;
+  se: number;
+};
+
+// Table slots: 0/1 = DC luma/chroma, 2/3 = AC luma/chroma
+const dcSlot = (ci: number) => (ci === 0 ? 0 : 1);
+const acSlot = (ci: number) => (ci === 0 ? 2 : 3);
+
+const encodeScan = (
+  scan: Scan,
+  components: Component[],
+  mcusX: number,
+  mcusY: number,
+  e: Emitter
+) => {
+  const preds = components.map(() => 0);
+
+  const encodeDc = (ci: number, base: number) => {
+    const comp = components[ci];
+    const dc = comp.coefs[base];
+    const diff = dc - preds[ci];
+    preds[ci] = dc;
+    const size = magnitude(diff);
+    e.symbol(dcSlot(ci), size);
+    emitValue(e, diff, size);
+  };
+
+  // Sequential AC coding for one block (baseline scans)
+  const encodeAc = (ci: number, base: number) => {
+    const coefs = components[ci].coefs;
+    let run = 0;
+    for (let k = 1; k < 64; k++) {
+      const v = coefs[base + k];
+      if (v === 0) {
+        run++;
+        continue;
+      }
+      while (run > 15) {
+        e.symbol(acSlot(ci), 0xf0);
+        run -= 16;
+      }
+      const size = magnitude(v);
+      e.symbol(acSlot(ci), (run << 4) | size);
+      emitValue(e, v, size);
+      run = 0;
+    }
+    if (run > 0) e.symbol(acSlot(ci), 0x00);
+  };
+
+  const interleaved = scan.comps.length > 1;
+  if (interleaved || scan.ss === 0) {
+    // Interleaved MCUs (or a single-component DC scan)
+    const single = !interleaved;
+    const rowsY = single ? components[scan.comps[0]].usedH : mcusY;
+    const colsX = single ? components[scan.comps[0]].usedW : mcusX;
+    for (let my = 0; my < rowsY; my++) {
+      for (let mx = 0; mx < colsX; mx++) {
+        for (const ci of scan.comps) {
+          const comp = components[ci];
+          const hh = single ? 1 : comp.h;
+          const vv = single ? 1 : comp.v;
+          for (let v = 0; v < vv; v++) {
+            for (let h = 0; h < hh; h++) {
+              const bx = mx * hh + h;
+              const by = my * vv + v;
+              const base = (by * comp.blocksW + bx) * 64;
+              if (scan.ss === 0) encodeDc(ci, base);
+              if (scan.se > 0) encodeAc(ci, base);
+            }
+          }
+        }
+      }
+    }
+    return;
+  }
+
+  // Progressive AC band for one component (spectral selection, Al = 0)
+  const ci = scan.comps[0];
+  const comp = components[ci];
+  const slot = acSlot(ci);
+  let eobrun = 0;
+  const flushEob = () => {
+    if (!eobrun) return;
+    const n = magnitude(eobrun) - 1;
+    e.symbol(slot, n << 4);
+    if (n) e.bits(eobrun - (1 << n), n);
+    eobrun = 0;
+  };
+  for (let by = 0; by < comp.usedH; by++) {
+    for (let bx = 0; bx < comp.usedW; bx++) {
+      const base = (by * comp.blocksW + bx) * 64;
+      let run = 0;
+      for (let k = scan.ss; k <= scan.se; k++) {
+        const v = comp.coefs[base + k];
+        if (v === 0) {
+          run++;
+          continue;
+        }
+        flushEob();
+        while (run > 15) {
+          e.symbol(slot, 0xf0);
+          run -= 16;
+        }
+        const size = magnitude(v);
+        e.symbol(slot, (run << 4) | size);
+        emitValue(e, v, size);
+        run = 0;
+      }
+      if (run > 0 && ++eobrun === 0x7fff) flushEob();
+    }
+  }
+  flushEob();
+};
+
+// ---------- markers ----------
+
+// Baseline and progressive scans share one table layout: slot 0/1 hold the
+// luma/chroma DC tables (Th 0/1) and slot 2/3 the AC tables (Th 0/1).
+const scanSlots = (scan: Scan) => {
+  const slots = new Set<number>();
+  for (const ci of scan.comps) {
+    if (scan.ss === 0) slots.add(dcSlot(ci));
+    if (scan.se > 0) slots.add(acSlot(ci));
+  }
+  return Array.from(slots).sort();
+};
+
+const writeDht = (w: ByteWriter, slots: number[], specs: HuffSpec[]) => {
+  w.word(0xffc4);
+  w.word(2 + slots.reduce((s, slot) => s + 17 + specs[slot].vals.length, 0));
+  for (const slot of slots) {
+    w.byte(((slot >> 1) << 4) | (slot & 1));
+    w.bytes(specs[slot].bits);
+    w.bytes(specs[slot].vals);
+  }
+};
+
+const writeSos = (w: ByteWriter, scan: Scan, components: Component[]) => {
+  w.word(0xffda);
+  w.word(6 + 2 * scan.comps.length);
+  w.byte(scan.comps.length);
+  for (const ci of scan.comps) {
+    w.byte(components[ci].id);
+    w.byte(((dcSlot(ci) & 1) << 4) | (acSlot(ci) & 1));
+  }
+  w.byte(scan.ss);
+  w.byte(scan.se);
+  w.byte(0); // Ah/Al: no successive approximation
+};
+
+// An interleaved scan may hold at most 10 blocks per MCU.
+const canInterleave = (components: Component[], comps: number[]) =>
+  comps.length <= 4 &&
+  comps.reduce((s, ci) => s + components[ci].h * components[ci].v, 0) <= 10;
+
+const sequentialScript = (components: Component[]): Scan[] => {
+  const all = components.map((_, i) => i);
+  return canInterleave(components, all)
+    ? [{ comps: all, ss: 0, se: 63 }]
+    : all.map((ci) => ({ comps: [ci], ss: 0, se: 63 }));
+};
+
+// libjpeg-style spectral selection script: DC first, then low luma AC, chroma
+// AC and the remaining luma AC.
+const progressiveScript = (components: Component[]): Scan[] => {
+  const all = components.map((_, i) => i);
+  const scans: Scan[] = canInterleave(components, all)
+    ? [{ comps: all, ss: 0, se: 0 }]
+    : all.map((ci) => ({ comps: [ci], ss: 0, se: 0 }));
+  scans.push({ comps: [0], ss: 1, se: 5 });
+  for (let ci = 1; ci < all.length; ci++) {
+    scans.push({ comps: [ci], ss: 1, se: 63 });
+  }
+  scans.push({ comps: [0], ss: 6, se: 63 });
+  return scans;
+};
+
+// JFIF APP0 segment written by fresh encodes
+const JFIF_SEGMENT = new Uint8Array([
+  0xff, 0xe0, 0, 16, 0x4a, 0x46, 0x49, 0x46, 0, 1, 1, 0, 0, 1, 0, 1, 0, 0,
+]);
+
+export type JpegComponent = Component;
+
+// Quantized coefficients plus everything needed to write them back out.
+export type JpegFrame = {
+  width: number;
+  height: number;
+  components: JpegComponent[];
+  qtables: number[][]; // natural order, indexed by table id
+  segments: Uint8Array[]; // complete APPn segments written after SOI
+};
+
+// Entropy-code a frame. Only the Huffman coding and scan layout change;
+// the coefficients are written exactly as given.
+export const writeJpeg = (
+  frame: JpegFrame,
+  { progressive, optimizeHuffman }: Omit<JpegEncoderSettings, "subsampling">
+): Uint8Array => {
+  const { width, height, components, qtables } = frame;
+  const hMax = Math.max(...components.map((c) => c.h));
+  const vMax = Math.max(...components.map((c) => c.v));
+  const mcusX = Math.ceil(width / (8 * hMax));
+  const mcusY = Math.ceil(height / (8 * vMax));
+
+  const w = new ByteWriter();
+  w.word(0xffd8);
+  frame.segments.forEach((seg) => w.bytes(seg));
+
+  // DQT, zigzag order; 16-bit entries only when a table needs them
+  qtables.forEach((t, id) => {
+    if (!t) return;
+    const wide = t.some((v) => v > 255);
+    w.word(0xffdb);
+    w.word(2 + 1 + 64 * (wide ? 2 : 1));
+    w.byte(((wide ? 1 : 0) << 4) | id);
+    for (let k = 0; k < 64; k++) {
+      if (wide) w.word(t[ZIGZAG[k]]);
+      else w.byte(t[ZIGZAG[k]]);
+    }
+  });
+
+  // SOF0 (baseline) / SOF2 (progressive)
+  w.word(progressive ? 0xffc2 : 0xffc0);
+  w.word(8 + 3 * components.length);
+  w.byte(8);
+  w.word(height);
+  w.word(width);
+  w.byte(components.length);
+  for (const c of components) {
+    w.byte(c.id);
+    w.byte((c.h << 4) | c.v);
+    w.byte(c.tq);
+  }
+
+  const scans = progressive
+    ? progressiveScript(components)
+    : sequentialScript(components);
+  const standard = [STD_DC_LUMA, STD_DC_CHROMA, STD_AC_LUMA, STD_AC_CHROMA];
+
+  for (const scan of scans) {
+    const slots = scanSlots(scan);
+    let specs: HuffSpec[] = standard;
+    // Progressive scans always get optimized tables: the Annex K tables lack EOB-run symbols
+    if (progressive || optimizeHuffman) {
+      const counts = [0, 1, 2, 3].map(() => new Uint32Array(256));
+      encodeScan(scan, components, mcusX, mcusY, {
+        symbol: (t, sym) => counts[t][sym]++,
+        bits: () => undefined,
+      });
+      specs = [null, null, null, null];
+      slots.forEach((slot) => (specs[slot] = optimalSpec(counts[slot])));
+    }
+    writeDht(w, slots, specs);
+    writeSos(w, scan, components);
+
+    const codes = specs.map((spec) => (spec ? buildCodes(spec) : null));
+    encodeScan(scan, components, mcusX, mcusY, {
+      symbol: (t, sym) => w.bits(codes[t].code[sym], codes[t].size[sym]),
+      bits: (v, n) => w.bits(v, n),
+    });
+    w.flushBits();
+  }
+
+  w.word(0xffd9);
+  return w.result();
+};
+
+// ---------- public API ----------
+
+export const encodeJpeg = (
+  image: ImageData,
+  { quality, progressive, optimizeHuffman, subsampling }: JpegEncodeOptions
+): Uint8Array => {
+  const { width, height } = image;
+  const q = Math.round(quality * 100);
+  const tables = [scaleQuantTable(LUMA_QT, q), scaleQuantTable(CHROMA_QT, q)];
+
+  const lumaFactor = subsampling === "420" ? 2 : 1;
+  const hMax = lumaFactor;
+  const vMax = lumaFactor;
+  const mcusX = Math.ceil(width / (8 * hMax));
+  const mcusY = Math.ceil(height / (8 * vMax));
+
+  const components: Component[] = [
+    { id: 1, h: lumaFactor, v: lumaFactor, tq: 0 },
+    { id: 2, h: 1, v: 1, tq: 1 },
+    { id: 3, h: 1, v: 1, tq: 1 },
+  ].map((c) => {
+    const blocksW = mcusX * c.h;
+    const blocksH = mcusY * c.v;
+    return {
+      ...c,
+      blocksW,
+      blocksH,
+      usedW: Math.ceil(Math.ceil((width * c.h) / hMax) / 8),
+      usedH: Math.ceil(Math.ceil((height * c.v) / vMax) / 8),
+      coefs: new Int16Array(blocksW * blocksH * 64),
+    };
+  });
+
+  computeCoefficients(image, components, hMax, vMax, tables);
+
+  return writeJpeg(
+    { width, height, components, qtables: tables, segments: [JFIF_SEGMENT] },
+    { progressive, optimizeHuffman }
+  );
+};
+
+// Encode a canvas; yields to the event loop first so progress UI can repaint.
+export const canvasToJpeg = async (
+  canvas: HTMLCanvasElement,
+  options: JpegEncodeOptions
+): Promise<Blob> => {
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas not supported");
+  const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  return new Blob([encodeJpeg(image, options)], { type: "image/jpeg" });
+};
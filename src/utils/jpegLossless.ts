@@ -0,0 +1,530 @@
+import {
+  writeJpeg,
+  type JpegComponent,
+  type JpegFrame,
+} from "@/utils/jpegEncoder";
+
+// Lossless JPEG optimization (jpegtran-style): the entropy-coded data is
+// decoded to quantized DCT coefficients and written back with optimized
+// Huffman tables, optionally as progressive scans. Coefficients and
+// quantization tables are untouched, so decoded pixels are identical.
+
+export type LosslessJpegOptions = {
+  progressive: boolean;
+};
+
+export type LosslessJpegResult = {
+  bytes: Uint8Array;
+  removedBytes: number; // metadata dropped (APPn/COM)
+  wasProgressive: boolean;
+};
+
+const ZIGZAG_NATURAL = [
+  0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5, 12, 19, 26, 33, 40,
+  48, 41, 34, 27, 20, 13, 6, 7, 14, 21, 28, 35, 42, 49, 56, 57, 50, 43, 36, 29,
+  22, 15, 23, 30, 37, 44, 51, 58, 59, 52, 45, 38, 31, 39, 46, 53, 60, 61, 54,
+  47, 55, 62, 63,
+];
+
+// ---------- Huffman decoding ----------
+
+// 16-bit lookahead table: symbol and code length for every 16-bit prefix
+type HuffDecoder = { symbol: Uint8Array; length: Uint8Array };
+
+const buildDecoder = (bits: number[], vals: number[]): HuffDecoder => {
+  const symbol = new Uint8Array(1 << 16);
+  const length = new Uint8Array(1 << 16);
+  let code = 0;
+  let k = 0;
+  for (let len = 1; len <= 16; len++) {
+    for (let i = 0; i < bits[len - 1]; i++) {
+      const start = code << (16 - len);
+      const end = start + (1 << (16 - len));
+      symbol.fill(vals[k], start, end);
+      length.fill(len, start, end);
+      code++;
+      k++;
+    }
+    code <<= 1;
+  }
+  return { symbol, length };
+};
+
+// Reads one entropy-coded segment (stuffing already removed).
+class BitReader {
+  private pos = 0;
+  private acc = 0;
+  private accBits = 0;
+
+  constructor(private data: Uint8Array) {}
+
+  private fill() {
+    while (this.accBits <= 24) {
+      // Past the end, pad with zero bytes like libjpeg
+      const b = this.pos < this.data.length ? this.data[this.pos++] : 0;
+      this.acc = (this.acc | (b << (24 - this.accBits))) >>> 0;
+      this.accBits += 8;
+    }
+  }
+
+  bits(n: number): number {
+    if (n === 0) return 0;
+    this.fill();
+    const v = this.acc >>> (32 - n);
+    this.acc = (this.acc << n) >>> 0;
+    this.accBits -= n;
+    return v;
+  }
+
+  bit(): number {
+    return this.bits(1);
+  }
+
+  decode(table: HuffDecoder): number {
+    if (!table) throw new Error("Missing Huffman table");
+    this.fill();
+    const peek = this.acc >>> 16;
+    const len = table.length[peek];
+    if (!len) throw new Error("Corrupt Huffman data");
+    this.acc = (this.acc << len) >>> 0;
+    this.accBits -= len;
+    return table.symbol[peek];
+  }
+
+  // Value of `size` extra bits, sign-extended (T.81 F.2.2.1 EXTEND)
+  receiveExtend(size: number): number {
+    if (size === 0) return 0;
+    const v = this.bits(size);
+    return v < 1 << (size - 1) ? v - (1 << size) + 1 : v;
+  }
+}
+
+// ---------- metadata ----------
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(start, start + length));
+
+const segmentBytes = (marker: number, payload: Uint8Array) => {
+  const out = new Uint8Array(payload.length + 4);
+  out[0] = 0xff;
+  out[1] = marker;
+  out[2] = (payload.length + 2) >> 8;
+  out[3] = (payload.length + 2) & 0xff;
+  out.set(payload, 4);
+  return out;
+};
+
+// Orientation tag (0x0112) from an Exif APP1 payload, or null.
+const readOrientation = (payload: Uint8Array): number | null => {
+  if (ascii(payload, 0, 6) !== "Exif\0\0") return null;
+  const tiff = payload.subarray(6);
+  if (tiff.length < 8) return null;
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  const little = ascii(tiff, 0, 2) === "II";
+  const ifd = view.getUint32(4, little);
+  if (ifd + 2 > tiff.length) return null;
+  const count = view.getUint16(ifd, little);
+  for (let i = 0; i < count; i++) {
+    const entry = ifd + 2 + i * 12;
+    if (entry + 12 > tiff.length) break;
+    if (view.getUint16(entry, little) === 0x0112) {
+      return view.getUint16(entry + 8, little);
+    }
+  }
+  return null;
+};
+
+// Minimal Exif APP1 carrying only the orientation tag.
+const orientationSegment = (orientation: number) => {
+  const payload = new Uint8Array(6 + 8 + 2 + 12 + 4);
+  payload.set([0x45, 0x78, 0x69, 0x66, 0, 0]); // "Exif\0\0"
+  const view = new DataView(payload.buffer, 6);
+  payload.set([0x4d, 0x4d], 6); // big-endian "MM"
+  view.setUint16(2, 42);
+  view.setUint32(4, 8); // IFD0 offset
+  view.setUint16(8, 1); // one entry
+  view.setUint16(10, 0x0112);
+  view.setUint16(12, 3); // SHORT
+  view.setUint32(14, 1);
+  view.setUint16(18, orientation);
+  view.setUint32(22, 0); // no next IFD
+  return segmentBytes(0xe1, payload);
+};
+
+// ---------- parsing ----------
+
+type ScanHeader = {
+  comps: { ci: number; td: number; ta: number }[];
+  ss: number;
+  se: number;
+  ah: number;
+  al: number;
+};
+
+type ParsedJpeg = {
+  frame: JpegFrame;
+  progressive: boolean;
+  removedBytes: number;
+};
+
+// Split entropy-coded data into restart intervals, removing 0xFF00 stuffing.
+// Returns the segments and the offset of the marker that ends the scan.
+const readScanData = (bytes: Uint8Array, start: number) => {
+  const segments: Uint8Array[] = [];
+  const buf = new Uint8Array(bytes.length - start);
+  let len = 0;
+  let segStart = 0;
+  let i = start;
+  while (i < bytes.length) {
+    const b = bytes[i];
+    if (b !== 0xff) {
+      buf[len++] = b;
+      i++;
+      continue;
+    }
+    const next = bytes[i + 1];
+    if (next === 0x00) {
+      buf[len++] = 0xff;
+      i += 2;
+    } else if (next >= 0xd0 && next <= 0xd7) {
+      segments.push(buf.subarray(segStart, len));
+      segStart = len;
+      i += 2;
+    } else if (next === 0xff) {
+      i++; // fill byte
+    } else {
+      break;
+    }
+  }
+  segments.push(buf.subarray(segStart, len));
+  return { segments, end: i };
+};
+
+const decodeScan = (
+  scan: ScanHeader,
+  components: JpegComponent[],
+  mcusX: number,
+  mcusY: number,
+  dcTables: HuffDecoder[],
+  acTables: HuffDecoder[],
+  restartInterval: number,
+  segments: Uint8Array[]
+) => {
+  let segment = 0;
+  let reader = new BitReader(segments[0]);
+  const preds = components.map(() => 0);
+  let eobrun = 0;
+  const progressiveScan = scan.ss !== 0 || scan.se !== 63 || scan.ah || scan.al;
+
+  const decodeBlock = (ci: number, td: number, ta: number, base: number) => {
+    const coefs = components[ci].coefs;
+
+    if (!progressiveScan) {
+      const t = reader.decode(dcTables[td]);
+      preds[ci] += reader.receiveExtend(t);
+      coefs[base] = preds[ci];
+      for (let k = 1; k < 64; ) {
+        const rs = reader.decode(acTables[ta]);
+        const s = rs & 15;
+        const r = rs >> 4;
+        if (s === 0) {
+          if (r !== 15) break;
+          k += 16;
+          continue;
+        }
+        k += r;
+        if (k > 63) throw new Error("Corrupt AC data");
+        coefs[base + k] = reader.receiveExtend(s);
+        k++;
+      }
+      return;
+    }
+
+    if (scan.ss === 0) {
+      if (scan.ah === 0) {
+        const t = reader.decode(dcTables[td]);
+        preds[ci] += reader.receiveExtend(t);
+        coefs[base] = preds[ci] * (1 << scan.al);
+      } else if (reader.bit()) {
+        coefs[base] |= 1 << scan.al;
+      }
+      return;
+    }
+
+    if (scan.ah === 0) {
+      // AC first pass
+      if (eobrun > 0) {
+        eobrun--;
+        return;
+      }
+      for (let k = scan.ss; k <= scan.se; ) {
+        const rs = reader.decode(acTables[ta]);
+        const s = rs & 15;
+        const r = rs >> 4;
+        if (s === 0) {
+          if (r < 15) {
+            eobrun = (1 << r) - 1;
+            if (r) eobrun += reader.bits(r);
+            break;
+          }
+          k += 16;
+          continue;
+        }
+        k += r;
+        coefs[base + k] = reader.receiveExtend(s) * (1 << scan.al);
+        k++;
+      }
+      return;
+    }
+
+    // AC refinement (libjpeg decode_mcu_AC_refine)
+    const p1 = 1 << scan.al;
+    const m1 = -1 << scan.al;
+    let k = scan.ss;
+    if (eobrun === 0) {
+      for (; k <= scan.se; k++) {
+        const rs = reader.decode(acTables[ta]);
+        let s = rs & 15;
+        let r = rs >> 4;
+        if (s) {
+          s = reader.bit() ? p1 : m1;
+        } else if (r !== 15) {
+          eobrun = 1 << r;
+          if (r) eobrun += reader.bits(r);
+          break;
+        }
+        do {
+          const c = coefs[base + k];
+          if (c !== 0) {
+            if (reader.bit() && (c & p1) === 0) {
+              coefs[base + k] = c >= 0 ? c + p1 : c + m1;
+            }
+          } else if (--r < 0) {
+            break;
+          }
+          k++;
+        } while (k <= scan.se);
+        if (s && k <= scan.se) coefs[base + k] = s;
+      }
+    }
+    if (eobrun > 0) {
+      for (; k <= scan.se; k++) {
+        const c = coefs[base + k];
+        if (c !== 0 && reader.bit() && (c & p1) === 0) {
+          coefs[base + k] = c >= 0 ? c + p1 : c + m1;
+        }
+      }
+      eobrun--;
+    }
+  };
+
+  const single = scan.comps.length === 1;
+  const only = components[scan.comps[0].ci];
+  const rows = single ? only.usedH : mcusY;
+  const cols = single ? only.usedW : mcusX;
+  let mcu = 0;
+  for (let my = 0; my < rows; my++) {
+    for (let mx = 0; mx < cols; mx++) {
+      if (restartInterval && mcu > 0 && mcu % restartInterval === 0) {
+        segment++;
+        reader = new BitReader(segments[segment] ?? new Uint8Array(0));
+        preds.fill(0);
+        eobrun = 0;
+      }
+      for (const { ci, td, ta } of scan.comps) {
+        const comp = components[ci];
+        const hh = single ? 1 : comp.h;
+        const vv = single ? 1 : comp.v;
+        for (let v = 0; v < vv; v++) {
+          for (let h = 0; h < hh; h++) {
+            const bx = mx * hh + h;
+            const by = my * vv + v;
+            decodeBlock(ci, td, ta, (by * comp.blocksW + bx) * 64);
+          }
+        }
+      }
+      mcu++;
+    }
+  }
+};
+
+const parseJpeg = (bytes: Uint8Array): ParsedJpeg => {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) throw new Error("Not a JPEG");
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  const qtables: number[][] = [];
+  const dcTables: HuffDecoder[] = [];
+  const acTables: HuffDecoder[] = [];
+  const segments: Uint8Array[] = [];
+  let components: JpegComponent[] = [];
+  let width = 0;
+  let height = 0;
+  let mcusX = 0;
+  let mcusY = 0;
+  let progressive = false;
+  let restartInterval = 0;
+  let orientation: number | null = null;
+  let removedBytes = 0;
+
+  let pos = 2;
+  while (pos < bytes.length) {
+    if (bytes[pos] !== 0xff) throw new Error("Expected JPEG marker");
+    const marker = bytes[pos + 1];
+    if (marker === 0xff) {
+      pos++;
+      continue;
+    }
+    if (marker === 0xd9) break; // EOI
+    const length = view.getUint16(pos + 2);
+    const payload = bytes.subarray(pos + 4, pos + 2 + length);
+    const next = pos + 2 + length;
+
+    if (marker >= 0xe0 && marker <= 0xef) {
+      // Keep what affects decoding or display: JFIF, Adobe (colour
+      // transform), ICC profiles and the Exif orientation. Drop the rest.
+      const id = ascii(payload, 0, 12);
+      if (
+        (marker === 0xe0 && id.startsWith("JFIF\0")) ||
+        (marker === 0xe2 && id === "ICC_PROFILE\0") ||
+        (marker === 0xee && id.startsWith("Adobe"))
+      ) {
+        segments.push(bytes.slice(pos, next));
+      } else {
+        if (marker === 0xe1 && orientation === null) {
+          orientation = readOrientation(payload);
+        }
+        removedBytes += length + 2;
+      }
+    } else if (marker === 0xfe) {
+      removedBytes += length + 2; // COM
+    } else if (marker === 0xdb) {
+      for (let o = 0; o < payload.length; ) {
+        const pq = payload[o] >> 4;
+        const tq = payload[o] & 15;
+        o++;
+        const table = new Array(64);
+        for (let k = 0; k < 64; k++) {
+          table[ZIGZAG_NATURAL[k]] = pq
+            ? (payload[o + k * 2] << 8) | payload[o + k * 2 + 1]
+            : payload[o + k];
+        }
+        o += pq ? 128 : 64;
+        qtables[tq] = table;
+      }
+    } else if (marker === 0xc4) {
+      for (let o = 0; o < payload.length; ) {
+        const tc = payload[o] >> 4;
+        const th = payload[o] & 15;
+        const bits = Array.from(payload.subarray(o + 1, o + 17));
+        const count = bits.reduce((s, n) => s + n, 0);
+        const vals = Array.from(payload.subarray(o + 17, o + 17 + count));
+        (tc === 0 ? dcTables : acTables)[th] = buildDecoder(bits, vals);
+        o += 17 + count;
+      }
+    } else if (marker === 0xdd) {
+      restartInterval = view.getUint16(pos + 4);
+    } else if (marker === 0xc0 || marker === 0xc1 || marker === 0xc2) {
+      if (payload[0] !== 8) throw new Error("Only 8-bit JPEGs are supported");
+      progressive = marker === 0xc2;
+      height = (payload[1] << 8) | payload[2];
+      width = (payload[3] << 8) | payload[4];
+      if (!height) throw new Error("JPEGs with a DNL marker are not supported");
+      const count = payload[5];
+      const raw = [];
+      for (let i = 0; i < count; i++) {
+        const o = 6 + i * 3;
+        raw.push({
+          id: payload[o],
+          h: payload[o + 1] >> 4,
+          v: payload[o + 1] & 15,
+          tq: payload[o + 2],
+        });
+      }
+      const hMax = Math.max(...raw.map((c) => c.h));
+      const vMax = Math.max(...raw.map((c) => c.v));
+      mcusX = Math.ceil(width / (8 * hMax));
+      mcusY = Math.ceil(height / (8 * vMax));
+      components = raw.map((c) => {
+        const blocksW = mcusX * c.h;
+        const blocksH = mcusY * c.v;
+        return {
+          ...c,
+          blocksW,
+          blocksH,
+          usedW: Math.ceil(Math.ceil((width * c.h) / hMax) / 8),
+          usedH: Math.ceil(Math.ceil((height * c.v) / vMax) / 8),
+          coefs: new Int16Array(blocksW * blocksH * 64),
+        };
+      });
+    } else if (
+      marker >= 0xc3 &&
+      marker <= 0xcf &&
+      marker !== 0xc4 &&
+      marker !== 0xc8 &&
+      marker !== 0xcc
+    ) {
+      throw new Error(
+        "Lossless, hierarchical and arithmetic JPEGs are not supported"
+      );
+    } else if (marker === 0xda) {
+      if (!components.length) throw new Error("Scan before frame header");
+      const n = payload[0];
+      const comps = [];
+      for (let i = 0; i < n; i++) {
+        const id = payload[1 + i * 2];
+        const sel = payload[2 + i * 2];
+        comps.push({
+          ci: components.findIndex((c) => c.id === id),
+          td: sel >> 4,
+          ta: sel & 15,
+        });
+      }
+      const o = 1 + n * 2;
+      const scan: ScanHeader = {
+        comps,
+        ss: payload[o],
+        se: payload[o + 1],
+        ah: payload[o + 2] >> 4,
+        al: payload[o + 2] & 15,
+      };
+      const data = readScanData(bytes, next);
+      decodeScan(
+        scan,
+        components,
+        mcusX,
+        mcusY,
+        dcTables,
+        acTables,
+        restartInterval,
+        data.segments
+      );
+      pos = data.end;
+      continue;
+    }
+    pos = next;
+  }
+
+  if (!components.length) throw new Error("No image data found");
+  if (orientation && orientation !== 1) {
+    segments.push(orientationSegment(orientation));
+  }
+  return {
+    frame: { width, height, components, qtables, segments },
+    progressive,
+    removedBytes,
+  };
+};
+
+// ---------- public API ----------
+
+export const optimizeJpegLossless = (
+  bytes: Uint8Array,
+  { progressive }: LosslessJpegOptions
+): LosslessJpegResult => {
+  const parsed = parseJpeg(bytes);
+  return {
+    bytes: writeJpeg(parsed.frame, { progressive, optimizeHuffman: true }),
+    removedBytes: parsed.removedBytes,
+    wasProgressive: parsed.progressive,
+  };
+};
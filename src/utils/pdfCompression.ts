@@ -0,0 +1,642 @@
+import {
+  PDFArray,
+  PDFBool,
+  PDFDict,
+  PDFDocument,
+  PDFName,
+  PDFNumber,
+  PDFRawStream,
+  PDFRef,
+  decodePDFRawStream,
+} from "pdf-lib";
+import { canvasToBlob } from "@/utils/imageCompression";
+
+// Lossy PDF compression: find the image XObjects in a document, downsample
+// the ones rendered above a chosen DPI and re-encode them as JPEG.
+// Masks (SMask, explicit /Mask streams, stencil masks) are never touched.
+
+export type PdfImageReport = {
+  ref: string; // e.g. "12 0 R"
+  page: number; // 1-based page where the image is first drawn
+  width: number;
+  height: number;
+  newWidth: number;
+  newHeight: number;
+  dpi: number | null; // effective DPI at its largest placement
+  originalBytes: number;
+  newBytes: number;
+  status: "recompressed" | "kept" | "skipped";
+  reason?: string;
+};
+
+export type PdfRecompressOptions = {
+  maxDpi: number; // 72 / 150 / 300 ...
+  quality: number; // JPEG quality 0-1
+};
+
+export type PdfRecompressResult = {
+  bytes: Uint8Array;
+  images: PdfImageReport[];
+  // Pages whose content could not be read; their images were assumed to
+  // fill the page, which under-estimates their DPI
+  unreadPages: number[];
+};
+
+// ---------- content stream walking ----------
+
+type Matrix = [number, number, number, number, number, number];
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+const multiply = (m: Matrix, n: Matrix): Matrix => [
+  m[0] * n[0] + m[1] * n[2],
+  m[0] * n[1] + m[1] * n[3],
+  m[2] * n[0] + m[3] * n[2],
+  m[2] * n[1] + m[3] * n[3],
+  m[4] * n[0] + m[5] * n[2] + n[4],
+  m[4] * n[1] + m[5] * n[3] + n[5],
+];
+
+const isWhite = (c: number) =>
+  c === 0x20 || c === 0x0a || c === 0x0d || c === 0x09 || c === 0x0c || c === 0;
+
+const isDelimiter = (c: number) =>
+  c === 0x28 || // (
+  c === 0x29 || // )
+  c === 0x3c || // <
+  c === 0x3e || // >
+  c === 0x5b || // [
+  c === 0x5d || // ]
+  c === 0x7b || // {
+  c === 0x7d || // }
+  c === 0x2f || // /
+  c === 0x25; // %
+
+// Minimal tokenizer that tracks q/Q/cm and reports every `/Name Do` with the
+// current transformation matrix. Strings, arrays, dicts and inline images are
+// skipped; anything else we do not understand is ignored.
+const walkContent = (
+  data: Uint8Array,
+  ctm: Matrix,
+  onDo: (name: string, ctm: Matrix) => void
+) => {
+  const stack: Matrix[] = [];
+  let operands: (number | string)[] = [];
+  let i = 0;
+  const n = data.length;
+
+  while (i < n) {
+    const c = data[i];
+
+    if (isWhite(c)) {
+      i++;
+      continue;
+    }
+    if (c === 0x25) {
+      while (i < n && data[i] !== 0x0a && data[i] !== 0x0d) i++;
+      continue;
+    }
+    if (c === 0x28) {
+      let depth = 0;
+      for (; i < n; i++) {
+        if (data[i] === 0x5c) i++;
+        else if (data[i] === 0x28) depth++;
+        else if (data[i] === 0x29 && --depth === 0) break;
+      }
+      i++;
+      operands.push("");
+      continue;
+    }
+    if (c === 0x3c && data[i + 1] !== 0x3c) {
+      while (i < n && data[i] !== 0x3e) i++;
+      i++;
+      operands.push("");
+      continue;
+    }
+    if (c === 0x3c || c === 0x3e) {
+      i += 2;
+      continue;
+    }
+    if (c === 0x5b || c === 0x5d || c === 0x7b || c === 0x7d) {
+      i++;
+      continue;
+    }
+    if (c === 0x2f) {
+      let j = i + 1;
+      while (j < n && !isWhite(data[j]) && !isDelimiter(data[j])) j++;
+      operands.push(
+        "/" + String.fromCharCode(...Array.from(data.subarray(i + 1, j)))
+      );
+      i = j;
+      continue;
+    }
+
+    let j = i;
+    while (j < n && !isWhite(data[j]) && !isDelimiter(data[j])) j++;
+    if (j === i) {
+      i++;
+      continue;
+    }
+    const token = String.fromCharCode(...Array.from(data.subarray(i, j)));
+    i = j;
+
+    const num = Number(token);
+    if (token !== "" && !isNaN(num)) {
+      operands.push(num);
+      continue;
+    }
+
+    if (token === "q") {
+      stack.push(ctm);
+    } else if (token === "Q") {
+      ctm = stack.pop() ?? ctm;
+    } else if (token === "cm" && operands.length >= 6) {
+      const m = operands.slice(-6) as number[];
+      if (m.every((v) => typeof v === "number")) {
+        ctm = multiply(m as Matrix, ctm);
+      }
+    } else if (token === "Do" && operands.length >= 1) {
+      const name = operands[operands.length - 1];
+      if (typeof name === "string" && name.startsWith("/")) {
+        onDo(name.slice(1), ctm);
+      }
+    } else if (token === "ID") {
+      // Inline image data runs until whitespace + "EI" + whitespace
+      i++;
+      while (
+        i < n &&
+        !(
+          isWhite(data[i - 1]) &&
+          data[i] === 0x45 &&
+          data[i + 1] === 0x49 &&
+          (i + 2 >= n || isWhite(data[i + 2]))
+        )
+      ) {
+        i++;
+      }
+      i += 2;
+    }
+    operands = [];
+  }
+};
+
+const decodeContents = (contents: unknown): Uint8Array => {
+  const parts: Uint8Array[] = [];
+  const push = (obj: unknown) => {
+    if (obj instanceof PDFRawStream) {
+      parts.push(decodePDFRawStream(obj).decode());
+    }
+  };
+  if (contents instanceof PDFArray) {
+    for (let k = 0; k < contents.size(); k++) push(contents.lookup(k));
+  } else {
+    push(contents);
+  }
+  const total = parts.reduce((s, p) => s + p.length + 1, 0);
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const p of parts) {
+    out.set(p, offset);
+    offset += p.length;
+    out[offset++] = 0x0a;
+  }
+  return out;
+};
+
+type Placement = {
+  ref: PDFRef;
+  page: number;
+  // Largest rendered size in points (1/72 inch)
+  displayWidth: number;
+  displayHeight: number;
+};
+
+const collectPlacements = (doc: PDFDocument) => {
+  const placements = new Map<string, Placement>();
+  const unreadPages = new Set<number>();
+
+  const record = (ref: PDFRef, page: number, w: number, h: number) => {
+    const key = ref.toString();
+    const prev = placements.get(key);
+    if (!prev) {
+      placements.set(key, { ref, page, displayWidth: w, displayHeight: h });
+    } else {
+      prev.displayWidth = Math.max(prev.displayWidth, w);
+      prev.displayHeight = Math.max(prev.displayHeight, h);
+    }
+  };
+
+  const visit = (
+    resources: PDFDict | undefined,
+    content: Uint8Array,
+    ctm: Matrix,
+    page: number,
+    pageSize: { width: number; height: number },
+    depth: number
+  ) => {
+    const xobjects = resources?.lookupMaybe(PDFName.of("XObject"), PDFDict);
+    if (!xobjects) return;
+
+    const seen = new Set<string>();
+    try {
+      walkContent(content, ctm, (name, m) => {
+        const ref = xobjects.get(PDFName.of(name));
+        if (!(ref instanceof PDFRef)) return;
+        const obj = doc.context.lookup(ref);
+        if (!(obj instanceof PDFRawStream)) return;
+        const subtype = obj.dict.lookup(PDFName.of("Subtype"));
+        seen.add(name);
+
+        if (subtype === PDFName.of("Image")) {
+          record(ref, page, Math.hypot(m[0], m[1]), Math.hypot(m[2], m[3]));
+        } else if (subtype === PDFName.of("Form") && depth < 8) {
+          const matrix = obj.dict.lookupMaybe(PDFName.of("Matrix"), PDFArray);
+          const fm = matrix
+            ? (matrix
+                .asArray()
+                .map((v) =>
+                  v instanceof PDFNumber ? v.asNumber() : 0
+                ) as Matrix)
+            : IDENTITY;
+          const formRes =
+            obj.dict.lookupMaybe(PDFName.of("Resources"), PDFDict) ?? resources;
+          visit(
+            formRes,
+            decodePDFRawStream(obj).decode(),
+            multiply(fm, m),
+            page,
+            pageSize,
+            depth + 1
+          );
+        }
+      });
+    } catch {
+      unreadPages.add(page);
+    }
+
+    // Images we could not place (unparsed content, unusual operators) are
+    // assumed to fill the page, which under-estimates their DPI (safe side).
+    for (const [key, ref] of xobjects.entries()) {
+      if (seen.has(key.decodeText()) || !(ref instanceof PDFRef)) continue;
+      const obj = doc.context.lookup(ref);
+      if (
+        obj instanceof PDFRawStream &&
+        obj.dict.lookup(PDFName.of("Subtype")) === PDFName.of("Image")
+      ) {
+        record(ref, page, pageSize.width, pageSize.height);
+      }
+    }
+  };
+
+  doc.getPages().forEach((page, idx) => {
+    let content = new Uint8Array(0);
+    try {
+      content = decodeContents(page.node.Contents());
+    } catch {
+      unreadPages.add(idx + 1);
+    }
+    visit(page.node.Resources(), content, IDENTITY, idx + 1, page.getSize(), 0);
+  });
+
+  return { placements, unreadPages: [...unreadPages].sort((a, b) => a - b) };
+};
+
+// ---------- image decoding ----------
+
+const colorComponents = (doc: PDFDocument, cs: unknown): number | null => {
+  const resolved = cs instanceof PDFRef ? doc.context.lookup(cs) : cs;
+  if (resolved === PDFName.of("DeviceRGB")) return 3;
+  if (resolved === PDFName.of("DeviceGray")) return 1;
+  if (resolved instanceof PDFArray && resolved.size() > 0) {
+    const family = resolved.lookup(0);
+    if (family === PDFName.of("CalRGB")) return 3;
+    if (family === PDFName.of("CalGray")) return 1;
+    if (family === PDFName.of("ICCBased")) {
+      const profile = resolved.lookup(1);
+      if (profile instanceof PDFRawStream) {
+        const count = profile.dict.lookup(PDFName.of("N"));
+        if (count instanceof PDFNumber) {
+          const v = count.asNumber();
+          return v === 1 || v === 3 ? v : null;
+        }
+      }
+    }
+  }
+  return null;
+};
+
+const filterNames = (dict: PDFDict): string[] => {
+  const filter = dict.lookup(PDFName.of("Filter"));
+  if (filter instanceof PDFName) return [filter.decodeText()];
+  if (filter instanceof PDFArray) {
+    return filter
+      .asArray()
+      .map((f) => (f instanceof PDFName ? f.decodeText() : "?"));
+  }
+  return [];
+};
+
+const GENERIC_FILTERS = [
+  "FlateDecode",
+  "LZWDecode",
+  "ASCII85Decode",
+  "ASCIIHexDecode",
+  "RunLengthDecode",
+];
+
+// Undo PNG row predictors (Predictor >= 10) in place of pdf-lib, which
+// decodes the filter but leaves the predictor bytes in.
+const undoPngPredictor = (
+  data: Uint8Array,
+  columns: number,
+  colors: number
+): Uint8Array => {
+  const rowLength = columns * colors;
+  const rows = Math.floor(data.length / (rowLength + 1));
+  const out = new Uint8Array(rows * rowLength);
+  for (let r = 0; r < rows; r++) {
+    const type = data[r * (rowLength + 1)];
+    const src = r * (rowLength + 1) + 1;
+    const dst = r * rowLength;
+    for (let x = 0; x < rowLength; x++) {
+      const raw = data[src + x];
+      const left = x >= colors ? out[dst + x - colors] : 0;
+      const up = r > 0 ? out[dst - rowLength + x] : 0;
+      const upLeft =
+        r > 0 && x >= colors ? out[dst - rowLength + x - colors] : 0;
+      let v = raw;
+      if (type === 1) v = raw + left;
+      else if (type === 2) v = raw + up;
+      else if (type === 3) v = raw + ((left + up) >> 1);
+      else if (type === 4) {
+        const p = left + up - upLeft;
+        const pa = Math.abs(p - left);
+        const pb = Math.abs(p - up);
+        const pc = Math.abs(p - upLeft);
+        v = raw + (pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft);
+      }
+      out[dst + x] = v & 0xff;
+    }
+  }
+  return out;
+};
+
+const rawToCanvas = (
+  pixels: Uint8Array,
+  width: number,
+  height: number,
+  components: number
+): HTMLCanvasElement => {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas not supported");
+  const imageData = ctx.createImageData(width, height);
+  const rgba = imageData.data;
+  for (let p = 0, s = 0; p < width * height; p++, s += components) {
+    const o = p * 4;
+    if (components === 1) {
+      rgba[o] = rgba[o + 1] = rgba[o + 2] = pixels[s];
+    } else {
+      rgba[o] = pixels[s];
+      rgba[o + 1] = pixels[s + 1];
+      rgba[o + 2] = pixels[s + 2];
+    }
+    rgba[o + 3] = 255;
+  }
+  ctx.putImageData(imageData, 0, 0);
+  return canvas;
+};
+
+// Returns a full-resolution canvas for the image, or a reason it is skipped.
+const decodeImage = async (
+  doc: PDFDocument,
+  stream: PDFRawStream
+): Promise<HTMLCanvasElement | ImageBitmap | string> => {
+  const { dict } = stream;
+  const width = (dict.lookup(PDFName.of("Width")) as PDFNumber).asNumber();
+  const height = (dict.lookup(PDFName.of("Height")) as PDFNumber).asNumber();
+  const filters = filterNames(dict);
+  const components = colorComponents(
+    doc,
+    dict.lookup(PDFName.of("ColorSpace"))
+  );
+  if (components === null) return "unsupported colour space";
+
+  if (filters.length === 1 && filters[0] === "DCTDecode") {
+    const blob = new Blob([stream.contents], { type: "image/jpeg" });
+    return await createImageBitmap(blob);
+  }
+
+  if (!filters.every((f) => GENERIC_FILTERS.includes(f))) {
+    return `unsupported encoding (${filters.join(", ")})`;
+  }
+  const bpc = dict.lookup(PDFName.of("BitsPerComponent"));
+  if (!(bpc instanceof PDFNumber) || bpc.asNumber() !== 8) {
+    return "not 8 bits per component";
+  }
+
+  let pixels = decodePDFRawStream(stream).decode();
+  const parms = dict.lookup(PDFName.of("DecodeParms"));
+  const parmDict =
+    parms instanceof PDFDict
+      ? parms
+      : parms instanceof PDFArray
+      ? parms.lookupMaybe(parms.size() - 1, PDFDict)
+      : undefined;
+  const predictor = parmDict?.lookup(PDFName.of("Predictor"));
+  if (predictor instanceof PDFNumber && predictor.asNumber() > 1) {
+    if (predictor.asNumber() < 10) return "TIFF predictor";
+    pixels = undoPngPredictor(pixels, width, components);
+  }
+  if (pixels.length < width * height * components) return "truncated data";
+
+  return rawToCanvas(pixels, width, height, components);
+};
+
+// ---------- main entry ----------
+
+export const recompressPdfImages = async (
+  bytes: Uint8Array,
+  { maxDpi, quality }: PdfRecompressOptions,
+  onProgress?: (done: number, total: number) => void
+): Promise<PdfRecompressResult> => {
+  const doc = await PDFDocument.load(bytes);
+  const { placements, unreadPages } = collectPlacements(doc);
+
+  // Anything used as a mask stays byte-for-byte identical.
+  const maskRefs = new Set<string>();
+  for (const { ref } of placements.values()) {
+    const obj = doc.context.lookup(ref);
+    if (!(obj instanceof PDFRawStream)) continue;
+    for (const key of ["SMask", "Mask"]) {
+      const m = obj.dict.get(PDFName.of(key));
+      if (m instanceof PDFRef) maskRefs.add(m.toString());
+    }
+  }
+
+  const reports: PdfImageReport[] = [];
+  const entries = Array.from(placements.values());
+
+  for (let idx = 0; idx < entries.length; idx++) {
+    const { ref, page, displayWidth, displayHeight } = entries[idx];
+    onProgress?.(idx, entries.length);
+
+    const stream = doc.context.lookup(ref) as PDFRawStream;
+    const { dict } = stream;
+    const width = (dict.lookup(PDFName.of("Width")) as PDFNumber).asNumber();
+    const height = (dict.lookup(PDFName.of("Height")) as PDFNumber).asNumber();
+    const dpi =
+      displayWidth > 0 && displayHeight > 0
+        ? Math.min((width * 72) / displayWidth, (height * 72) / displayHeight)
+        : null;
+
+    const report: PdfImageReport = {
+      ref: ref.toString(),
+      page,
+      width,
+      height,
+      newWidth: width,
+      newHeight: height,
+      dpi: dpi === null ? null : Math.round(dpi),
+      originalBytes: stream.contents.length,
+      newBytes: stream.contents.length,
+      status: "skipped",
+    };
+    reports.push(report);
+
+    let reason: string | null = null;
+    if (maskRefs.has(ref.toString())) reason = "used as a mask";
+    else if (dict.lookup(PDFName.of("ImageMask")) === PDFBool.True)
+      reason = "stencil mask";
+    else if (dict.lookup(PDFName.of("Mask")) instanceof PDFArray)
+      reason = "colour-key mask";
+    else if (dict.has(PDFName.of("Decode"))) reason = "custom decode array";
+    if (reason) {
+      report.reason = reason;
+      continue;
+    }
+
+    let source: HTMLCanvasElement | ImageBitmap | string;
+    try {
+      source = await decodeImage(doc, stream);
+    } catch (err) {
+      source =
+        err instanceof Error && err.message
+          ? `could not decode (${err.message})`
+          : "could not decode";
+    }
+    if (typeof source === "string") {
+      report.reason = source;
+      continue;
+    }
+
+    const scale = dpi !== null && dpi > maxDpi ? maxDpi / dpi : 1;
+    const newWidth = Math.max(1, Math.round(width * scale));
+    const newHeight = Math.max(1, Math.round(height * scale));
+
+    const canvas = document.createElement("canvas");
+    canvas.width = newWidth;
+    canvas.height = newHeight;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Canvas not supported");
+    ctx.imageSmoothingEnabled = true;
+    ctx.imageSmoothingQuality = "high";
+    ctx.drawImage(source, 0, 0, newWidth, newHeight);
+    if ("close" in source) source.close();
+
+    const jpeg = new Uint8Array(
+      await (await canvasToBlob(canvas, "image/jpeg", quality)).arrayBuffer()
+    );
+
+    if (jpeg.length >= stream.contents.length) {
+      report.status = "kept";
+      report.reason = "re-encoding would not be smaller";
+      continue;
+    }
+
+    // Keep the source colour space when it is already 3-component (ICC/Cal RGB)
+    const cs = dict.get(PDFName.of("ColorSpace"));
+    const keepCs = colorComponents(doc, cs) === 3;
+    const newDict = doc.context.obj({
+      Type: "XObject",
+      Subtype: "Image",
+      Width: newWidth,
+      Height: newHeight,
+      BitsPerComponent: 8,
+      Filter: "DCTDecode",
+    });
+    newDict.set(
+      PDFName.of("ColorSpace"),
+      keepCs ? cs : PDFName.of("DeviceRGB")
+    );
+    for (const key of ["SMask", "Mask", "Interpolate", "Intent", "OC"]) {
+      const v = dict.get(PDFName.of(key));
+      if (v) newDict.set(PDFName.of(key), v);
+    }
+    doc.context.assign(ref, PDFRawStream.of(newDict, jpeg));
+
+    report.status = "recompressed";
+    report.newWidth = newWidth;
+    report.newHeight = newHeight;
+    report.newBytes = jpeg.length;
+  }
+
+  onProgress?.(entries.length, entries.length);
+  const out = await doc.save({ useObjectStreams: true });
+  return { bytes: out, images: reports, unreadPages };
+};
+
+// ---------- target-size search ----------
+
+// Steps from gentle to aggressive; the first one that fits wins.
+const PDF_TARGET_LADDER: PdfRecompressOptions[] = [
+  { maxDpi: 300, quality: 0.85 },
+  { maxDpi: 200, quality: 0.75 },
+  { maxDpi: 150, quality: 0.7 },
+  { maxDpi: 120, quality: 0.6 },
+  { maxDpi: 96, quality: 0.5 },
+  { maxDpi: 72, quality: 0.45 },
+  { maxDpi: 72, quality: 0.3 },
+  { maxDpi: 50, quality: 0.2 },
+];
+
+export type PdfTargetResult = {
+  bytes: Uint8Array;
+  reached: boolean;
+  settings: PdfRecompressOptions | null; // null = lossless re-save / original
+};
+
+export const compressPdfToTarget = async (
+  bytes: Uint8Array,
+  targetBytes: number
+): Promise<PdfTargetResult> => {
+  if (bytes.length <= targetBytes) {
+    return { bytes, reached: true, settings: null };
+  }
+
+  let smallest: PdfTargetResult = { bytes, reached: false, settings: null };
+
+  const lossless = await (
+    await PDFDocument.load(bytes)
+  ).save({ useObjectStreams: true });
+  if (lossless.length <= targetBytes) {
+    return { bytes: lossless, reached: true, settings: null };
+  }
+  if (lossless.length < smallest.bytes.length) {
+    smallest = { bytes: lossless, reached: false, settings: null };
+  }
+
+  for (const settings of PDF_TARGET_LADDER) {
+    const { bytes: out } = await recompressPdfImages(bytes, settings);
+    if (out.length <= targetBytes) {
+      return { bytes: out, reached: true, settings };
+    }
+    if (out.length < smallest.bytes.length) {
+      smallest = { bytes: out, reached: false, settings };
+    }
+  }
+
+  return smallest;
+};
@@ -0,0 +1,547 @@
+// Model and writer for the PDF Editor page. Edits are stored in pdf.js
+// viewport units at scale 1 (page rotation applied, y pointing down), exactly
+// as the user sees them; the writer maps them back into PDF user space and
+// either draws them into the page content or adds standard annotations.
+
+import {
+  LineCapStyle,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFString,
+  StandardFonts,
+  degrees,
+  popGraphicsState,
+  pushGraphicsState,
+  drawImage,
+  drawLine,
+  drawRectangle,
+  drawSvgPath,
+  drawText,
+  rgb,
+  type PDFContext,
+  type PDFFont,
+  type PDFImage,
+  type PDFOperator,
+  type PDFPage,
+} from "pdf-lib";
+
+export type EditTool =
+  | "select"
+  | "text"
+  | "rect"
+  | "line"
+  | "ink"
+  | "highlight"
+  | "whiteout"
+  | "image";
+
+export type OutputMode = "flatten" | "annotations";
+
+export type Box = { x: number; y: number; width: number; height: number };
+
+type EditBase = {
+  id: string;
+  page: number; // 0-based
+  color: string; // #rrggbb
+  opacity: number; // 0-1
+};
+
+export type PdfEdit = EditBase &
+  (
+    | { kind: "text"; x: number; y: number; text: string; fontSize: number }
+    | ({ kind: "rect"; strokeWidth: number } & Box)
+    | {
+        kind: "line";
+        x1: number;
+        y1: number;
+        x2: number;
+        y2: number;
+        strokeWidth: number;
+      }
+    | { kind: "ink"; points: number[]; strokeWidth: number } // x,y pairs
+    | ({ kind: "highlight" } & Box)
+    | ({ kind: "whiteout" } & Box)
+    | ({ kind: "image"; src: string } & Box) // PNG or JPEG data URL
+  );
+
+// Text boxes: the preview and the writer share these metrics so the first
+// baseline lands in the same place on screen and in the file.
+export const TEXT_LINE_HEIGHT = 1.2;
+export const TEXT_BASELINE = 0.95;
+const TEXT_CHAR_WIDTH = 0.55; // rough Helvetica advance, for hit-testing only
+
+export const textLines = (text: string) => text.split(/\r?\n/);
+
+export const baselineY = (y: number, fontSize: number, line: number) =>
+  y + fontSize * TEXT_BASELINE + line * fontSize * TEXT_LINE_HEIGHT;
+
+// Bounding box in viewport units, used for selection and moving
+export const editBounds = (edit: PdfEdit): Box => {
+  switch (edit.kind) {
+    case "text": {
+      const lines = textLines(edit.text);
+      const longest = Math.max(1, ...lines.map((l) => l.length));
+      return {
+        x: edit.x,
+        y: edit.y,
+        width: longest * edit.fontSize * TEXT_CHAR_WIDTH,
+        height: lines.length * edit.fontSize * TEXT_LINE_HEIGHT,
+      };
+    }
+    case "line":
+      return {
+        x: Math.min(edit.x1, edit.x2),
+        y: Math.min(edit.y1, edit.y2),
+        width: Math.abs(edit.x2 - edit.x1),
+        height: Math.abs(edit.y2 - edit.y1),
+      };
+    case "ink": {
+      const xs = edit.points.filter((_, i) => i % 2 === 0);
+      const ys = edit.points.filter((_, i) => i % 2 === 1);
+      const x = Math.min(...xs);
+      const y = Math.min(...ys);
+      return {
+        x,
+        y,
+        width: Math.max(...xs) - x,
+        height: Math.max(...ys) - y,
+      };
+    }
+    default:
+      return {
+        x: edit.x,
+        y: edit.y,
+        width: edit.width,
+        height: edit.height,
+      };
+  }
+};
+
+export const moveEdit = (edit: PdfEdit, dx: number, dy: number): PdfEdit => {
+  switch (edit.kind) {
+    case "line":
+      return {
+        ...edit,
+        x1: edit.x1 + dx,
+        y1: edit.y1 + dy,
+        x2: edit.x2 + dx,
+        y2: edit.y2 + dy,
+      };
+    case "ink":
+      return {
+        ...edit,
+        points: edit.points.map((v, i) => v + (i % 2 === 0 ? dx : dy)),
+      };
+    default:
+      return { ...edit, x: edit.x + dx, y: edit.y + dy };
+  }
+};
+
+// Normalize a drag (which may go up/left) into a positive box
+export const boxFromDrag = (
+  x1: number,
+  y1: number,
+  x2: number,
+  y2: number
+): Box => ({
+  x: Math.min(x1, x2),
+  y: Math.min(y1, y2),
+  width: Math.abs(x2 - x1),
+  height: Math.abs(y2 - y1),
+});
+
+// ---------- viewport → PDF space ----------
+
+type PageSpace = {
+  x0: number;
+  y0: number;
+  width: number; // unrotated crop box
+  height: number;
+  rotation: 0 | 90 | 180 | 270;
+};
+
+const pageSpaceOf = (page: PDFPage): PageSpace => {
+  const box = page.getCropBox();
+  const angle = ((page.getRotation().angle % 360) + 360) % 360;
+  return {
+    x0: box.x,
+    y0: box.y,
+    width: box.width,
+    height: box.height,
+    rotation: (angle === 90 || angle === 180 || angle === 270
+      ? angle
+      : 0) as PageSpace["rotation"],
+  };
+};
+
+const toPdf = (s: PageSpace, x: number, y: number): [number, number] => {
+  switch (s.rotation) {
+    case 90:
+      return [s.x0 + y, s.y0 + x];
+    case 180:
+      return [s.x0 + s.width - x, s.y0 + y];
+    case 270:
+      return [s.x0 + s.width - y, s.y0 + s.height - x];
+    default:
+      return [s.x0 + x, s.y0 + s.height - y];
+  }
+};
+
+// Axis-aligned PDF rectangle [llx, lly, urx, ury] covering a viewport box
+const toPdfRect = (s: PageSpace, b: Box, pad = 0) => {
+  const [ax, ay] = toPdf(s, b.x, b.y);
+  const [bx, by] = toPdf(s, b.x + b.width, b.y + b.height);
+  return [
+    Math.min(ax, bx) - pad,
+    Math.min(ay, by) - pad,
+    Math.max(ax, bx) + pad,
+    Math.max(ay, by) + pad,
+  ];
+};
+
+const hexToRgb = (hex: string) => {
+  const n = parseInt(hex.replace("#", ""), 16) || 0;
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255].map((v) => v / 255) as [
+    number,
+    number,
+    number
+  ];
+};
+
+// Standard 14 fonts only cover WinAnsi; swap anything else for "?"
+const encodable = (font: PDFFont, text: string) => {
+  const charset = new Set(font.getCharacterSet());
+  return Array.from(text)
+    .map((ch) => (charset.has(ch.codePointAt(0) ?? 0) ? ch : "?"))
+    .join("");
+};
+
+const dataUrlBytes = (src: string) => {
+  const base64 = src.slice(src.indexOf(",") + 1);
+  const bin = atob(base64);
+  const out = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) out[i] = bin.charCodeAt(i);
+  return out;
+};
+
+// ---------- geometry shared by both writers ----------
+
+type ResourceNames = {
+  font: string | PDFName;
+  image: string | PDFName;
+  gs: string | PDFName;
+};
+
+type Geometry = {
+  rect: number[]; // annotation Rect, stroke included
+  ops: (names: ResourceNames) => PDFOperator[];
+};
+
+const NO_SKEW = { xSkew: degrees(0), ySkew: degrees(0) };
+
+const geometryOf = (
+  edit: PdfEdit,
+  s: PageSpace,
+  font: PDFFont,
+  image: PDFImage | undefined
+): Geometry => {
+  const color = rgb(...hexToRgb(edit.color));
+  const rotate = degrees(s.rotation);
+
+  switch (edit.kind) {
+    case "text": {
+      const lines = textLines(edit.text).map((l) => encodable(font, l));
+      const width = Math.max(
+        1,
+        ...lines.map((l) => font.widthOfTextAtSize(l, edit.fontSize))
+      );
+      const rect = toPdfRect(s, {
+        x: edit.x,
+        y: edit.y,
+        width,
+        height: lines.length * edit.fontSize * TEXT_LINE_HEIGHT,
+      });
+      return {
+        rect,
+        ops: (n) =>
+          lines.flatMap((line, i) => {
+            const [x, y] = toPdf(s, edit.x, baselineY(edit.y, edit.fontSize, i));
+            return drawText(font.encodeText(line), {
+              x,
+              y,
+              size: edit.fontSize,
+              font: n.font,
+              color,
+              rotate,
+              ...NO_SKEW,
+              graphicsState: n.gs,
+            });
+          }),
+      };
+    }
+    case "rect": {
+      const [llx, lly, urx, ury] = toPdfRect(s, edit);
+      return {
+        rect: toPdfRect(s, edit, edit.strokeWidth / 2),
+        ops: (n) =>
+          drawRectangle({
+            x: llx,
+            y: lly,
+            width: urx - llx,
+            height: ury - lly,
+            borderWidth: edit.strokeWidth,
+            color: undefined,
+            borderColor: color,
+            rotate: degrees(0),
+            ...NO_SKEW,
+            graphicsState: n.gs,
+          }),
+      };
+    }
+    case "highlight":
+    case "whiteout": {
+      const [llx, lly, urx, ury] = toPdfRect(s, edit);
+      return {
+        rect: [llx, lly, urx, ury],
+        ops: (n) =>
+          drawRectangle({
+            x: llx,
+            y: lly,
+            width: urx - llx,
+            height: ury - lly,
+            borderWidth: 0,
+            color: edit.kind === "whiteout" ? rgb(1, 1, 1) : color,
+            borderColor: undefined,
+            rotate: degrees(0),
+            ...NO_SKEW,
+            graphicsState: n.gs,
+          }),
+      };
+    }
+    case "line": {
+      const [x1, y1] = toPdf(s, edit.x1, edit.y1);
+      const [x2, y2] = toPdf(s, edit.x2, edit.y2);
+      return {
+        rect: toPdfRect(s, editBounds(edit), edit.strokeWidth),
+        ops: (n) =>
+          drawLine({
+            start: { x: x1, y: y1 },
+            end: { x: x2, y: y2 },
+            thickness: edit.strokeWidth,
+            color,
+            lineCap: LineCapStyle.Round,
+            graphicsState: n.gs,
+          }),
+      };
+    }
+    case "ink": {
+      // drawSvgPath flips y, so feed it negated PDF coordinates
+      let path = "";
+      for (let i = 0; i < edit.points.length; i += 2) {
+        const [x, y] = toPdf(s, edit.points[i], edit.points[i + 1]);
+        path += `${i === 0 ? "M" : "L"}${x.toFixed(2)} ${(-y).toFixed(2)}`;
+      }
+      return {
+        rect: toPdfRect(s, editBounds(edit), edit.strokeWidth),
+        ops: (n) =>
+          drawSvgPath(path, {
+            x: 0,
+            y: 0,
+            scale: 1,
+            color: undefined,
+            borderColor: color,
+            borderWidth: edit.strokeWidth,
+            borderLineCap: LineCapStyle.Round,
+            graphicsState: n.gs,
+          }),
+      };
+    }
+    case "image": {
+      // Anchor at the visual bottom-left and rotate with the page so the
+      // picture stays upright for the reader
+      const [x, y] = toPdf(s, edit.x, edit.y + edit.height);
+      return {
+        rect: toPdfRect(s, edit),
+        ops: (n) =>
+          image
+            ? drawImage(n.image, {
+                x,
+                y,
+                width: edit.width,
+                height: edit.height,
+                rotate,
+                ...NO_SKEW,
+                graphicsState: n.gs,
+              })
+            : [],
+      };
+    }
+  }
+};
+
+// ---------- writers ----------
+
+// pdf-lib does not export its dictionary literal type
+type LiteralObject = NonNullable<Parameters<PDFContext["stream"]>[1]>;
+
+const ANNOT_SUBTYPE: Record<PdfEdit["kind"], string> = {
+  text: "FreeText",
+  rect: "Square",
+  line: "Line",
+  ink: "Ink",
+  highlight: "Highlight",
+  whiteout: "Square",
+  image: "Stamp",
+};
+
+// Subtype-specific keys; the appearance stream carries the actual drawing
+const annotationEntries = (
+  edit: PdfEdit,
+  s: PageSpace,
+  rect: number[]
+): LiteralObject => {
+  const color = hexToRgb(edit.color);
+  switch (edit.kind) {
+    case "text":
+      return {
+        Contents: PDFHexString.fromText(edit.text),
+        DA: PDFString.of(`/Helv ${edit.fontSize} Tf ${color.join(" ")} rg`),
+        BS: { W: 0 },
+      };
+    case "rect":
+      return { C: color, BS: { W: edit.strokeWidth } };
+    case "whiteout":
+      return { C: [1, 1, 1], IC: [1, 1, 1], BS: { W: 0 } };
+    case "line":
+      return {
+        C: color,
+        L: [...toPdf(s, edit.x1, edit.y1), ...toPdf(s, edit.x2, edit.y2)],
+        BS: { W: edit.strokeWidth },
+      };
+    case "ink": {
+      const list: number[] = [];
+      for (let i = 0; i < edit.points.length; i += 2) {
+        list.push(...toPdf(s, edit.points[i], edit.points[i + 1]));
+      }
+      return { C: color, InkList: [list], BS: { W: edit.strokeWidth } };
+    }
+    case "highlight": {
+      const [llx, lly, urx, ury] = rect;
+      return {
+        C: color,
+        QuadPoints: [llx, ury, urx, ury, llx, lly, urx, lly],
+      };
+    }
+    case "image":
+      return { Name: "Image" };
+  }
+};
+
+const newId = () => Math.random().toString(36).slice(2, 10);
+
+export const createEditId = newId;
+
+export const applyPdfEdits = async (
+  bytes: ArrayBuffer,
+  edits: PdfEdit[],
+  mode: OutputMode
+): Promise<Uint8Array> => {
+  const doc = await PDFDocument.load(bytes);
+  const pages = doc.getPages();
+  const font = await doc.embedFont(StandardFonts.Helvetica);
+
+  // Resources are registered once per page in flatten mode, and existing
+  // content is wrapped in q/Q so an unbalanced CTM cannot shift our drawing
+  const pageResources = new Map<PDFPage, { font: PDFName; images: Map<PDFImage, PDFName> }>();
+  const resourcesFor = (page: PDFPage) => {
+    let res = pageResources.get(page);
+    if (!res) {
+      page.node.normalize();
+      page.node.wrapContentStreams(
+        doc.context.register(doc.context.contentStream([pushGraphicsState()])),
+        doc.context.register(doc.context.contentStream([popGraphicsState()]))
+      );
+      res = {
+        font: page.node.newFontDictionary(font.name, font.ref),
+        images: new Map(),
+      };
+      pageResources.set(page, res);
+    }
+    return res;
+  };
+
+  const images = new Map<string, PDFImage>();
+  for (const e of edits) {
+    if (e.kind !== "image" || images.has(e.src)) continue;
+    const data = dataUrlBytes(e.src);
+    images.set(
+      e.src,
+      e.src.startsWith("data:image/png")
+        ? await doc.embedPng(data)
+        : await doc.embedJpg(data)
+    );
+  }
+
+  for (const edit of edits) {
+    const page = pages[edit.page];
+    if (!page) continue;
+    const s = pageSpaceOf(page);
+    const image = edit.kind === "image" ? images.get(edit.src) : undefined;
+    const geo = geometryOf(edit, s, font, image);
+    const blend = edit.kind === "highlight" ? "Multiply" : "Normal";
+    const opacity = edit.kind === "whiteout" ? 1 : edit.opacity;
+
+    if (mode === "flatten") {
+      const gs = page.node.newExtGState(
+        "GS",
+        doc.context.obj({
+          Type: "ExtGState",
+          ca: opacity,
+          CA: opacity,
+          BM: blend,
+        })
+      );
+      const res = resourcesFor(page);
+      let imageName: PDFName | undefined;
+      if (image) {
+        imageName = res.images.get(image);
+        if (!imageName) {
+          imageName = page.node.newXObject("Image", image.ref);
+          res.images.set(image, imageName);
+        }
+      }
+      page.pushOperators(
+        ...geo.ops({ font: res.font, image: imageName ?? "", gs })
+      );
+      continue;
+    }
+
+    const appearance = doc.context.formXObject(
+      geo.ops({ font: "Helv", image: "Im0", gs: "GS0" }),
+      {
+        BBox: geo.rect,
+        Resources: {
+          Font: { Helv: font.ref },
+          ExtGState: {
+            GS0: { Type: "ExtGState", ca: opacity, CA: opacity, BM: blend },
+          },
+          ...(image && { XObject: { Im0: image.ref } }),
+        },
+      }
+    );
+    const annot = doc.context.obj({
+      Type: "Annot",
+      Subtype: ANNOT_SUBTYPE[edit.kind],
+      Rect: geo.rect,
+      F: 4, // print
+      NM: PDFString.of(edit.id),
+      M: PDFString.fromDate(new Date()),
+      AP: { N: doc.context.register(appearance) },
+      ...annotationEntries(edit, s, geo.rect),
+    });
+    page.node.addAnnot(doc.context.register(annot));
+  }
+
+  return await doc.save();
+};
@@ -0,0 +1,364 @@
+import { ImageKind, OPS, type PDFPageProxy } from "pdfjs-dist";
+import { canvasToBlob } from "@/utils/imageCompression";
+
+// Page analysis for the PDF → Office converters. The row/column heuristics
+// work on bare text positions; extractPageLayout() adds what is needed to
+// rebuild a document: styled text lines (font, size, bold, italic from the
+// pdf.js font objects) and the embedded images with their placement (from
+// the operator list). Layout coordinates are in pt with a top-left origin,
+// so they read like the rendered page.
+
+export type XYItem = { x: number; y: number; str: string };
+
+const round = (v: number, thresh = 2) => Math.round(v / thresh) * thresh;
+
+type RawTextItem = { str?: string; transform?: number[]; tm?: number[] };
+
+export const itemsToXY = (items: object[]): XYItem[] =>
+  items.map((item) => {
+    const it = item as RawTextItem;
+    const transform = it.transform || it.tm || [1, 0, 0, 1, 0, 0];
+    return { x: transform[4] ?? 0, y: transform[5] ?? 0, str: it.str ?? "" };
+  });
+
+export const groupItemsIntoRows = (xyItems: XYItem[], yThresh = 4) => {
+  const sorted = [...xyItems].sort((a, b) => b.y - a.y || a.x - b.x);
+  const rows: { y: number; items: { x: number; str: string }[] }[] = [];
+  for (const it of sorted) {
+    const yKey = round(it.y, yThresh);
+    const found = rows.find((r) => Math.abs(r.y - yKey) <= yThresh);
+    if (found) found.items.push({ x: it.x, str: it.str });
+    else rows.push({ y: yKey, items: [{ x: it.x, str: it.str }] });
+  }
+  rows.forEach((r) => r.items.sort((a, b) => a.x - b.x));
+  rows.sort((a, b) => b.y - a.y);
+  return rows;
+};
+
+// Left edges of the columns, clustered from the item x positions of the
+// first 30 rows
+export const detectColumns = (rows: { items: { x: number }[] }[]) => {
+  const xs: number[] = [];
+  for (const r of rows.slice(0, Math.min(rows.length, 30))) {
+    for (const it of r.items) xs.push(it.x);
+  }
+  xs.sort((a, b) => a - b);
+  const clusters: number[] = [];
+  const clusterThresh = 20;
+  for (const x of xs) {
+    if (
+      !clusters.length ||
+      Math.abs(x - clusters[clusters.length - 1]) > clusterThresh
+    )
+      clusters.push(x);
+    else
+      clusters[clusters.length - 1] = (clusters[clusters.length - 1] + x) / 2;
+  }
+  return clusters;
+};
+
+// Index of the column whose left edge is closest to x
+export const nearestColumn = (colXs: number[], x: number) => {
+  let best = 0;
+  for (let ci = 1; ci < colXs.length; ci++) {
+    if (Math.abs(x - colXs[ci]) < Math.abs(x - colXs[best])) best = ci;
+  }
+  return best;
+};
+
+// ---------- Styled layout ----------
+
+export type TextSpan = {
+  str: string;
+  x: number;
+  y: number; // baseline
+  width: number;
+  size: number;
+  font: string;
+  bold: boolean;
+  italic: boolean;
+};
+
+export type StyledLine = {
+  x: number;
+  y: number; // baseline
+  right: number;
+  size: number; // largest span
+  spans: TextSpan[];
+};
+
+export type PlacedImage = {
+  x: number;
+  y: number; // top edge
+  width: number;
+  height: number;
+  bytes: Uint8Array;
+  type: "png" | "jpg";
+};
+
+export type PageLayout = {
+  width: number;
+  height: number;
+  lines: StyledLine[];
+  images: PlacedImage[];
+};
+
+type FontStyle = { font: string; bold: boolean; italic: boolean };
+
+// The parts of a pdf.js font object used here
+type FontInfo = {
+  name?: string;
+  bold?: boolean;
+  black?: boolean;
+  italic?: boolean;
+};
+
+// A decoded pdf.js image object
+type PdfImage = {
+  width: number;
+  height: number;
+  kind?: number;
+  data?: Uint8Array | Uint8ClampedArray;
+  bitmap?: ImageBitmap;
+};
+
+// "ABCDEF+TimesNewRomanPS-BoldItalicMT" → Times New Roman, bold, italic.
+// Standard 14 fonts carry no flags, so the name decides as well
+const fontStyle = (info: FontInfo): FontStyle => {
+  const raw = String(info.name ?? "").replace(/^[A-Z]{6}\+/, "");
+  const [family, style = ""] = raw.split(/[-,]/);
+  const font = family
+    .replace(/(PS)?MT$|PS$/, "")
+    .replace(/([a-z])([A-Z])/g, "$1 $2")
+    .trim();
+  return {
+    font,
+    bold:
+      Boolean(info.bold || info.black) ||
+      /bold|black|heavy|semibold|demi/i.test(style || raw),
+    italic: Boolean(info.italic) || /italic|oblique/i.test(style || raw),
+  };
+};
+
+const multiply = (m: number[], n: number[]) => [
+  m[0] * n[0] + m[2] * n[1],
+  m[1] * n[0] + m[3] * n[1],
+  m[0] * n[2] + m[2] * n[3],
+  m[1] * n[2] + m[3] * n[3],
+  m[0] * n[4] + m[2] * n[5] + m[4],
+  m[1] * n[4] + m[3] * n[5] + m[5],
+];
+
+const hasTransparency = (data: Uint8ClampedArray) => {
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] < 255) return true;
+  }
+  return false;
+};
+
+// pdf.js image objects hold either a decoded bitmap or raw pixels in one
+// of three layouts; 1bpp rows are byte-aligned and 1 means white
+const imageToCanvas = (img: PdfImage | null): HTMLCanvasElement | null => {
+  if (!img?.width || !img?.height) return null;
+  const canvas = document.createElement("canvas");
+  canvas.width = img.width;
+  canvas.height = img.height;
+  const ctx = canvas.getContext("2d")!;
+  if (img.bitmap) {
+    ctx.drawImage(img.bitmap, 0, 0);
+    return canvas;
+  }
+  if (!img.data) return null;
+  const { width, height, data } = img;
+  const rgba = new Uint8ClampedArray(width * height * 4);
+  if (img.kind === ImageKind.RGBA_32BPP) {
+    rgba.set(data.subarray(0, rgba.length));
+  } else if (img.kind === ImageKind.RGB_24BPP) {
+    for (let i = 0, j = 0; j < rgba.length; i += 3, j += 4) {
+      rgba[j] = data[i];
+      rgba[j + 1] = data[i + 1];
+      rgba[j + 2] = data[i + 2];
+      rgba[j + 3] = 255;
+    }
+  } else if (img.kind === ImageKind.GRAYSCALE_1BPP) {
+    const rowBytes = (width + 7) >> 3;
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const bit = (data[y * rowBytes + (x >> 3)] >> (7 - (x & 7))) & 1;
+        const j = (y * width + x) * 4;
+        rgba[j] = rgba[j + 1] = rgba[j + 2] = bit ? 255 : 0;
+        rgba[j + 3] = 255;
+      }
+    }
+  } else {
+    return null;
+  }
+  ctx.putImageData(new ImageData(rgba, width, height), 0, 0);
+  return canvas;
+};
+
+const encodeImage = async (canvas: HTMLCanvasElement) => {
+  const ctx = canvas.getContext("2d")!;
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const alpha = hasTransparency(data);
+  const blob = await canvasToBlob(
+    canvas,
+    alpha ? "image/png" : "image/jpeg",
+    0.9
+  );
+  return {
+    bytes: new Uint8Array(await blob.arrayBuffer()),
+    type: alpha ? ("png" as const) : ("jpg" as const),
+  };
+};
+
+// Image objects arrive asynchronously; the callback form waits for them
+const resolveObject = (page: PDFPageProxy, id: string) =>
+  new Promise<PdfImage>((resolve) => {
+    const store = id.startsWith("g_") ? page.commonObjs : page.objs;
+    store.get(id, resolve);
+  });
+
+const extractImages = async (
+  page: PDFPageProxy,
+  viewportTransform: number[]
+): Promise<PlacedImage[]> => {
+  const ops = await page.getOperatorList();
+  const images: PlacedImage[] = [];
+  const stack: number[][] = [];
+  let ctm = [1, 0, 0, 1, 0, 0];
+
+  for (let i = 0; i < ops.fnArray.length; i++) {
+    const fn = ops.fnArray[i];
+    const args = ops.argsArray[i];
+    if (fn === OPS.save) {
+      stack.push(ctm);
+    } else if (fn === OPS.restore) {
+      ctm = stack.pop() ?? ctm;
+    } else if (fn === OPS.transform) {
+      ctm = multiply(ctm, args);
+    } else if (fn === OPS.paintFormXObjectBegin) {
+      stack.push(ctm);
+      if (args?.[0]) ctm = multiply(ctm, Array.from(args[0]));
+    } else if (fn === OPS.paintFormXObjectEnd) {
+      ctm = stack.pop() ?? ctm;
+    } else if (
+      fn === OPS.paintImageXObject ||
+      fn === OPS.paintInlineImageXObject
+    ) {
+      // Images fill the unit square of the current matrix
+      const m = multiply(viewportTransform, ctm);
+      const xs = [m[4], m[0] + m[4], m[2] + m[4], m[0] + m[2] + m[4]];
+      const ys = [m[5], m[1] + m[5], m[3] + m[5], m[1] + m[3] + m[5]];
+      const x = Math.min(...xs);
+      const y = Math.min(...ys);
+      const width = Math.max(...xs) - x;
+      const height = Math.max(...ys) - y;
+      if (width < 8 || height < 8) continue; // bullets, rules, spacers
+
+      const img =
+        typeof args[0] === "string"
+          ? await resolveObject(page, args[0])
+          : args[0];
+      const canvas = imageToCanvas(img);
+      if (!canvas) continue;
+      images.push({ x, y, width, height, ...(await encodeImage(canvas)) });
+    }
+  }
+  return images;
+};
+
+// Spans on (nearly) the same baseline form a line; a space is inserted
+// wherever the PDF left a visible gap without one
+const groupSpansIntoLines = (spans: TextSpan[]): StyledLine[] => {
+  const sorted = [...spans].sort((a, b) => a.y - b.y || a.x - b.x);
+  const lines: StyledLine[] = [];
+  for (const span of sorted) {
+    const line = lines.find(
+      (l) =>
+        Math.abs(l.y - span.y) <= Math.max(2, Math.min(l.size, span.size) * 0.3)
+    );
+    if (line) line.spans.push(span);
+    else
+      lines.push({ x: 0, y: span.y, right: 0, size: span.size, spans: [span] });
+  }
+  for (const line of lines) {
+    line.spans.sort((a, b) => a.x - b.x);
+    const merged: TextSpan[] = [];
+    for (const span of line.spans) {
+      const prev = merged[merged.length - 1];
+      if (
+        prev &&
+        span.x - (prev.x + prev.width) > span.size * 0.15 &&
+        !/\s$/.test(prev.str) &&
+        !/^\s/.test(span.str)
+      ) {
+        span.str = " " + span.str;
+      }
+      merged.push(span);
+    }
+    line.spans = merged;
+    line.x = merged[0].x;
+    line.right = Math.max(...merged.map((s) => s.x + s.width));
+    line.size = Math.max(...merged.map((s) => s.size));
+  }
+  return lines.sort((a, b) => a.y - b.y);
+};
+
+// Styled text lines of a page at scale 1. Fonts are only loaded once the
+// operator list has been fetched; before that, styles come from font names
+export const extractTextLines = async (
+  page: PDFPageProxy
+): Promise<StyledLine[]> => {
+  const viewport = page.getViewport({ scale: 1 });
+  const content = await page.getTextContent();
+
+  const styles = new Map<string, FontStyle>();
+  const styleOf = (fontName: string) => {
+    let style = styles.get(fontName);
+    if (!style) {
+      let info: FontInfo | null = null;
+      try {
+        info = page.commonObjs.get(fontName);
+      } catch {
+        // Font not loaded (e.g. Type3): fall back to the name alone
+      }
+      style = fontStyle(info ?? { name: fontName });
+      styles.set(fontName, style);
+    }
+    return style;
+  };
+
+  const spans: TextSpan[] = [];
+  for (const item of content.items) {
+    // pdf.js fills gaps with wide whitespace items, which would glue
+    // table columns together; spacing is restored when lines are grouped
+    if (!("str" in item) || !item.str.trim()) continue;
+    const [, , c, d, e, f] = item.transform;
+    const [x, y] = viewport.convertToViewportPoint(e, f);
+    spans.push({
+      str: item.str,
+      x,
+      y,
+      width: item.width,
+      size: Math.hypot(c, d),
+      ...styleOf(item.fontName),
+    });
+  }
+
+  return groupSpansIntoLines(spans);
+};
+
+export const extractPageLayout = async (
+  page: PDFPageProxy
+): Promise<PageLayout> => {
+  const viewport = page.getViewport({ scale: 1 });
+  // The operator list also loads the fonts, so it has to come first
+  const images = await extractImages(page, viewport.transform);
+  return {
+    width: viewport.width,
+    height: viewport.height,
+    lines: await extractTextLines(page),
+    images,
+  };
+};
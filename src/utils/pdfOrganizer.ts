@@ -0,0 +1,174 @@
+// Model and writer for the Page Organizer. A workspace is a list of output
+// documents, each an ordered list of page slots that point at a page of a
+// loaded source PDF or describe a blank page. Nothing touches pdf-lib until
+// the user saves, so every operation here is a cheap immutable update.
+
+import { PDFDocument, degrees } from "pdf-lib";
+
+// Source page indices are 0-based; blank page sizes are in PDF points
+export type PageSlot = {
+  id: string;
+  rotation: number; // extra clockwise rotation added on top of the page's own
+} & (
+  | { kind: "page"; sourceId: string; index: number }
+  | { kind: "blank"; width: number; height: number }
+);
+
+export type OrganizerDoc = { id: string; name: string; pages: PageSlot[] };
+
+export type SourcePdf = { id: string; name: string; bytes: ArrayBuffer };
+
+// Sizes in PDF points, portrait
+export const BLANK_PAGE_SIZES = {
+  A4: [595.28, 841.89],
+  A3: [841.89, 1190.55],
+  A5: [419.53, 595.28],
+  Letter: [612, 792],
+  Legal: [612, 1008],
+} as const;
+
+export type BlankPageSize = keyof typeof BLANK_PAGE_SIZES | "match";
+
+export const newId = () => Math.random().toString(36).slice(2, 10);
+
+export const docFromSource = (
+  source: SourcePdf,
+  pageCount: number
+): OrganizerDoc => ({
+  id: newId(),
+  name: source.name.replace(/\.[^.]+$/, ""),
+  pages: Array.from({ length: pageCount }, (_, index) => ({
+    id: newId(),
+    kind: "page" as const,
+    sourceId: source.id,
+    index,
+    rotation: 0,
+  })),
+});
+
+const locate = (docs: OrganizerDoc[], pageId: string) => {
+  for (const doc of docs) {
+    const idx = doc.pages.findIndex((p) => p.id === pageId);
+    if (idx >= 0) return { doc, idx };
+  }
+  return null;
+};
+
+const replacePages = (
+  docs: OrganizerDoc[],
+  docId: string,
+  update: (pages: PageSlot[]) => PageSlot[]
+) => docs.map((d) => (d.id === docId ? { ...d, pages: update(d.pages) } : d));
+
+// Moves a page to `toIndex` of `toDocId`; the index refers to the target
+// list before the page is taken out, which is what a drop marker shows.
+export const movePage = (
+  docs: OrganizerDoc[],
+  pageId: string,
+  toDocId: string,
+  toIndex: number
+): OrganizerDoc[] => {
+  const from = locate(docs, pageId);
+  if (!from) return docs;
+  const page = from.doc.pages[from.idx];
+  let index = toIndex;
+  if (from.doc.id === toDocId && from.idx < toIndex) index -= 1;
+  const removed = replacePages(docs, from.doc.id, (pages) =>
+    pages.filter((p) => p.id !== pageId)
+  );
+  return replacePages(removed, toDocId, (pages) => [
+    ...pages.slice(0, index),
+    page,
+    ...pages.slice(index),
+  ]);
+};
+
+export const rotatePage = (
+  docs: OrganizerDoc[],
+  pageId: string,
+  delta: number
+): OrganizerDoc[] =>
+  docs.map((d) => ({
+    ...d,
+    pages: d.pages.map((p) =>
+      p.id === pageId
+        ? { ...p, rotation: (((p.rotation + delta) % 360) + 360) % 360 }
+        : p
+    ),
+  }));
+
+export const deletePage = (docs: OrganizerDoc[], pageId: string) =>
+  docs.map((d) => ({ ...d, pages: d.pages.filter((p) => p.id !== pageId) }));
+
+export const duplicatePage = (
+  docs: OrganizerDoc[],
+  pageId: string
+): OrganizerDoc[] => {
+  const at = locate(docs, pageId);
+  if (!at) return docs;
+  const copy = { ...at.doc.pages[at.idx], id: newId() };
+  return replacePages(docs, at.doc.id, (pages) => [
+    ...pages.slice(0, at.idx + 1),
+    copy,
+    ...pages.slice(at.idx + 1),
+  ]);
+};
+
+export const insertBlankPage = (
+  docs: OrganizerDoc[],
+  docId: string,
+  index: number,
+  width: number,
+  height: number
+): OrganizerDoc[] =>
+  replacePages(docs, docId, (pages) => [
+    ...pages.slice(0, index),
+    { id: newId(), kind: "blank", width, height, rotation: 0 },
+    ...pages.slice(index),
+  ]);
+
+// Writes one output document. Pages from the same source are copied in a
+// single copyPages call so shared fonts and images are embedded once.
+export const buildOrganizedPdf = async (
+  doc: OrganizerDoc,
+  sources: SourcePdf[],
+  onProgress?: (done: number, total: number) => void
+): Promise<Uint8Array> => {
+  const out = await PDFDocument.create();
+  const copied = new Map<string, ReturnType<PDFDocument["getPage"]>[]>();
+
+  const bySource = new Map<string, number[]>();
+  for (const p of doc.pages) {
+    if (p.kind !== "page") continue;
+    const list = bySource.get(p.sourceId) ?? [];
+    list.push(p.index);
+    bySource.set(p.sourceId, list);
+  }
+  for (const [sourceId, indices] of bySource) {
+    const source = sources.find((s) => s.id === sourceId);
+    if (!source) throw new Error(`Source PDF ${sourceId} is no longer loaded`);
+    const src = await PDFDocument.load(source.bytes, {
+      ignoreEncryption: true,
+    });
+    copied.set(sourceId, await out.copyPages(src, indices));
+  }
+
+  // copyPages returned pages in the same order they are consumed here
+  const cursor = new Map<string, number>();
+  doc.pages.forEach((p, i) => {
+    if (p.kind === "blank") {
+      out.addPage([p.width, p.height]).setRotation(degrees(p.rotation));
+    } else {
+      const n = cursor.get(p.sourceId) ?? 0;
+      cursor.set(p.sourceId, n + 1);
+      const page = out.addPage(copied.get(p.sourceId)![n]);
+      if (p.rotation) {
+        const own = page.getRotation().angle;
+        page.setRotation(degrees((((own + p.rotation) % 360) + 360) % 360));
+      }
+    }
+    onProgress?.(i + 1, doc.pages.length);
+  });
+
+  return out.save();
+};
@@ -0,0 +1,249 @@
+// Reading and writing document outlines (bookmarks) with pdf-lib. pdf-lib has
+// no outline API, so this walks the /Outlines linked list directly. Nodes
+// point at pages by index so a tree can be re-targeted after pages are copied
+// into another document.
+
+import {
+  PDFArray,
+  PDFDict,
+  PDFHexString,
+  PDFName,
+  PDFNull,
+  PDFNumber,
+  PDFRef,
+  PDFString,
+  type PDFDocument,
+  type PDFObject,
+} from "pdf-lib";
+
+export type OutlineNode = {
+  title: string;
+  pageIndex: number | null; // 0-based; null when the target is unknown
+  top: number | null; // y of the destination in PDF user space, if given
+  open: boolean;
+  children: OutlineNode[];
+};
+
+const text = (obj: PDFObject | undefined) =>
+  obj instanceof PDFString || obj instanceof PDFHexString
+    ? obj.decodeText()
+    : "";
+
+// Looks a key up in a /Names name tree (leaf /Names pairs or /Kids)
+const lookupNameTree = (
+  node: PDFDict,
+  key: string,
+  depth = 0
+): PDFObject | undefined => {
+  if (depth > 32) return undefined;
+  const names = node.lookup(PDFName.of("Names"));
+  if (names instanceof PDFArray) {
+    for (let i = 0; i + 1 < names.size(); i += 2) {
+      if (text(names.lookup(i)) === key) return names.lookup(i + 1);
+    }
+  }
+  const kids = node.lookup(PDFName.of("Kids"));
+  if (kids instanceof PDFArray) {
+    for (let i = 0; i < kids.size(); i++) {
+      const kid = kids.lookup(i);
+      if (!(kid instanceof PDFDict)) continue;
+      const limits = kid.lookup(PDFName.of("Limits"));
+      if (limits instanceof PDFArray && limits.size() === 2) {
+        const lo = text(limits.lookup(0));
+        const hi = text(limits.lookup(1));
+        if (key < lo || key > hi) continue;
+      }
+      const hit = lookupNameTree(kid, key, depth + 1);
+      if (hit) return hit;
+    }
+  }
+  return undefined;
+};
+
+// Resolves a named destination through the catalog's /Dests dictionary
+// (PDF 1.1) or the /Names /Dests tree (PDF 1.2+)
+const resolveNamedDest = (doc: PDFDocument, name: string) => {
+  const dests = doc.catalog.lookup(PDFName.of("Dests"));
+  let found: PDFObject | undefined;
+  if (dests instanceof PDFDict) found = dests.lookup(PDFName.of(name));
+  if (!found) {
+    const names = doc.catalog.lookup(PDFName.of("Names"));
+    const tree =
+      names instanceof PDFDict ? names.lookup(PDFName.of("Dests")) : undefined;
+    if (tree instanceof PDFDict) found = lookupNameTree(tree, name);
+  }
+  return found instanceof PDFDict ? found.lookup(PDFName.of("D")) : found;
+};
+
+const resolveDest = (
+  doc: PDFDocument,
+  item: PDFDict,
+  pageIndexByRef: Map<string, number>
+): { pageIndex: number | null; top: number | null } => {
+  let dest: PDFObject | undefined = item.lookup(PDFName.of("Dest"));
+  if (!dest) {
+    const action = item.lookup(PDFName.of("A"));
+    if (
+      action instanceof PDFDict &&
+      action.lookup(PDFName.of("S")) === PDFName.of("GoTo")
+    ) {
+      dest = action.lookup(PDFName.of("D"));
+    }
+  }
+  if (dest instanceof PDFName) dest = resolveNamedDest(doc, dest.decodeText());
+  else if (dest instanceof PDFString || dest instanceof PDFHexString) {
+    dest = resolveNamedDest(doc, dest.decodeText());
+  }
+  if (!(dest instanceof PDFArray) || dest.size() === 0) {
+    return { pageIndex: null, top: null };
+  }
+
+  const target = dest.get(0);
+  const pageIndex =
+    target instanceof PDFRef
+      ? pageIndexByRef.get(target.toString()) ?? null
+      : null;
+  // [page /XYZ left top zoom] and [page /FitH top] carry a top coordinate
+  const kind = dest.lookup(1);
+  let top: number | null = null;
+  if (kind instanceof PDFName) {
+    const slot = kind === PDFName.of("XYZ") ? 3 : 2;
+    const value = dest.size() > slot ? dest.lookup(slot) : undefined;
+    if (
+      (kind === PDFName.of("XYZ") ||
+        kind === PDFName.of("FitH") ||
+        kind === PDFName.of("FitBH")) &&
+      value instanceof PDFNumber
+    ) {
+      top = value.asNumber();
+    }
+  }
+  return { pageIndex, top };
+};
+
+export const readOutline = (doc: PDFDocument): OutlineNode[] => {
+  const root = doc.catalog.lookup(PDFName.of("Outlines"));
+  if (!(root instanceof PDFDict)) return [];
+
+  const pageIndexByRef = new Map<string, number>();
+  doc.getPages().forEach((p, i) => pageIndexByRef.set(p.ref.toString(), i));
+  const seen = new Set<PDFDict>(); // broken files sometimes loop
+
+  const readLevel = (parent: PDFDict, depth: number): OutlineNode[] => {
+    const nodes: OutlineNode[] = [];
+    if (depth > 64) return nodes;
+    let item = parent.lookup(PDFName.of("First"));
+    while (item instanceof PDFDict && !seen.has(item)) {
+      seen.add(item);
+      const count = item.lookup(PDFName.of("Count"));
+      nodes.push({
+        title: text(item.lookup(PDFName.of("Title"))),
+        ...resolveDest(doc, item, pageIndexByRef),
+        open: count instanceof PDFNumber && count.asNumber() > 0,
+        children: readLevel(item, depth + 1),
+      });
+      item = item.lookup(PDFName.of("Next"));
+    }
+    return nodes;
+  };
+
+  return readLevel(root, 0);
+};
+
+// Drops nodes whose whole subtree has no target page
+export const pruneOutline = (nodes: OutlineNode[]): OutlineNode[] =>
+  nodes.flatMap((n) => {
+    const children = pruneOutline(n.children);
+    return n.pageIndex === null && children.length === 0
+      ? []
+      : [{ ...n, children }];
+  });
+
+// Re-targets every node; `map` returns null for pages that were left out
+export const remapOutline = (
+  nodes: OutlineNode[],
+  map: (pageIndex: number) => number | null
+): OutlineNode[] =>
+  nodes.map((n) => ({
+    ...n,
+    pageIndex: n.pageIndex === null ? null : map(n.pageIndex),
+    children: remapOutline(n.children, map),
+  }));
+
+// [page /XYZ null top null]: jump to the top (or the given y) keeping zoom
+export const pageDestination = (
+  doc: PDFDocument,
+  pageIndex: number,
+  top: number | null = null
+) => {
+  const page = doc.getPage(pageIndex);
+  const box = page.getMediaBox();
+  return doc.context.obj([
+    page.ref,
+    PDFName.of("XYZ"),
+    PDFNull,
+    top ?? box.y + box.height,
+    PDFNull,
+  ]);
+};
+
+// Number of entries visible below a node when it is expanded
+const visibleDescendants = (node: OutlineNode): number =>
+  node.children.reduce(
+    (sum, c) => sum + 1 + (c.open ? visibleDescendants(c) : 0),
+    0
+  );
+
+// Replaces the document's outline with `nodes`
+export const writeOutline = (doc: PDFDocument, nodes: OutlineNode[]) => {
+  const { context } = doc;
+  const rootRef = context.nextRef();
+
+  const writeLevel = (level: OutlineNode[], parentRef: PDFRef) => {
+    const refs = level.map(() => context.nextRef());
+    level.forEach((node, i) => {
+      const dict = context.obj({
+        Title: PDFHexString.fromText(node.title),
+        Parent: parentRef,
+      });
+      if (i > 0) dict.set(PDFName.of("Prev"), refs[i - 1]);
+      if (i < refs.length - 1) dict.set(PDFName.of("Next"), refs[i + 1]);
+      if (node.pageIndex !== null && node.pageIndex < doc.getPageCount()) {
+        dict.set(
+          PDFName.of("Dest"),
+          pageDestination(doc, node.pageIndex, node.top)
+        );
+      }
+      if (node.children.length > 0) {
+        const childRefs = writeLevel(node.children, refs[i]);
+        dict.set(PDFName.of("First"), childRefs[0]);
+        dict.set(PDFName.of("Last"), childRefs[childRefs.length - 1]);
+        const count = visibleDescendants(node);
+        dict.set(PDFName.of("Count"), PDFNumber.of(node.open ? count : -count));
+      }
+      context.assign(refs[i], dict);
+    });
+    return refs;
+  };
+
+  if (nodes.length === 0) {
+    doc.catalog.delete(PDFName.of("Outlines"));
+    return;
+  }
+  const topRefs = writeLevel(nodes, rootRef);
+  const total = nodes.reduce(
+    (sum, n) => sum + 1 + (n.open ? visibleDescendants(n) : 0),
+    0
+  );
+  context.assign(
+    rootRef,
+    context.obj({
+      Type: "Outlines",
+      First: topRefs[0],
+      Last: topRefs[topRefs.length - 1],
+      Count: total,
+    })
+  );
+  doc.catalog.set(PDFName.of("Outlines"), rootRef);
+  doc.catalog.set(PDFName.of("PageMode"), PDFName.of("UseOutlines"));
+};
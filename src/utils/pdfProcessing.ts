@@ -1,5 +1,6 @@
 import { PDFDocument, rgb, degrees } from 'pdf-lib';
 import jsPDF from 'jspdf';
+import { normalizeImage } from '@/utils/imageNormalize';
 
 // TODO: backend option - these functions could be replaced with API calls for server-side processing
 
@@ -17,16 +18,12 @@ export const imagesToPDF = async (
     const pdfDoc = await PDFDocument.create();
 
     for (const imageFile of imageFiles) {
-      const imageBytes = await imageFile.arrayBuffer();
-      let image;
-
-      if (imageFile.type === 'image/jpeg') {
-        image = await pdfDoc.embedJpg(imageBytes);
-      } else if (imageFile.type === 'image/png') {
-        image = await pdfDoc.embedPng(imageBytes);
-      } else {
-        throw new Error(`Unsupported image type: ${imageFile.type}`);
-      }
+      // HEIC, WebP, GIF, TIFF and BMP become JPEG (or PNG if transparent)
+      const normalized = await normalizeImage(imageFile);
+      const image =
+        normalized.format === 'jpeg'
+          ? await pdfDoc.embedJpg(normalized.bytes)
+          : await pdfDoc.embedPng(normalized.bytes);
 
       const page = pdfDoc.addPage();
       const { width: pageWidth, height: pageHeight } = page.getSize();
@@ -0,0 +1,476 @@
+import { OPS, Util, type PageViewport, type PDFPageProxy } from "pdfjs-dist";
+import * as XLSX from "xlsx";
+import { extractTextLines, type StyledLine } from "@/utils/pdfLayout";
+
+// Ruled table detection for PDF → Excel. Horizontal and vertical strokes
+// (lines, rectangle borders and hairline filled rectangles) are read from
+// the operator list and merged into rules. Rules that cross form a grid;
+// wherever the rule between two neighbouring grid cells is missing, the
+// cells are merged. Text is then dropped into the cell under it.
+// Coordinates are pt with a top-left origin, like pdfLayout.
+
+export type GridCell = {
+  row: number;
+  col: number;
+  rowSpan: number;
+  colSpan: number;
+  text: string;
+};
+
+export type DetectedTable = {
+  // Grid line positions; the table spans xs[0]..xs[n] × ys[0]..ys[m]
+  xs: number[];
+  ys: number[];
+  // One entry per (merged) cell, in reading order
+  cells: GridCell[];
+};
+
+export type PageTables = {
+  page: number;
+  width: number;
+  height: number;
+  tables: DetectedTable[];
+};
+
+type Rule = { pos: number; from: number; to: number };
+
+const TOLERANCE = 2; // pt; how far apart strokes may be and still meet
+const MIN_CELL = 4; // grid lines closer than this are one rule (double borders)
+
+// Path segment codes in constructPath data (pdf.js DrawOPS, not exported)
+const MOVE_TO = 0;
+const LINE_TO = 1;
+const CURVE_TO = 2;
+const CLOSE_PATH = 3;
+
+const STROKE_OPS = new Set<number>([
+  OPS.stroke,
+  OPS.closeStroke,
+  OPS.fillStroke,
+  OPS.eoFillStroke,
+  OPS.closeFillStroke,
+  OPS.closeEOFillStroke,
+]);
+const FILL_OPS = new Set<number>([OPS.fill, OPS.eoFill]);
+
+const applyTransform = (m: number[], x: number, y: number) => [
+  x * m[0] + y * m[2] + m[4],
+  x * m[1] + y * m[3] + m[5],
+];
+
+// Subpaths of a constructPath buffer as point lists (curves are dropped:
+// rounded corners and glyph-like shapes never make up a grid)
+const subpaths = (data: ArrayLike<number>, m: number[]) => {
+  const paths: { points: number[][]; closed: boolean; curved: boolean }[] = [];
+  let current: (typeof paths)[number] | null = null;
+  for (let i = 0; i < data.length; ) {
+    const op = data[i++];
+    if (op === MOVE_TO) {
+      current = { points: [], closed: false, curved: false };
+      paths.push(current);
+      current.points.push(applyTransform(m, data[i++], data[i++]));
+    } else if (op === LINE_TO) {
+      current?.points.push(applyTransform(m, data[i++], data[i++]));
+    } else if (op === CURVE_TO) {
+      if (current) current.curved = true;
+      i += 6;
+    } else if (op === CLOSE_PATH) {
+      if (current) current.closed = true;
+    } else {
+      break; // unknown layout; better no rules than wrong ones
+    }
+  }
+  return paths;
+};
+
+const collectRules = async (page: PDFPageProxy, viewport: PageViewport) => {
+  const pageArea = viewport.width * viewport.height;
+  const ops = await page.getOperatorList();
+  const horizontal: Rule[] = [];
+  const vertical: Rule[] = [];
+
+  const addSegment = (a: number[], b: number[]) => {
+    const dx = Math.abs(a[0] - b[0]);
+    const dy = Math.abs(a[1] - b[1]);
+    if (dy <= TOLERANCE / 2 && dx > TOLERANCE) {
+      horizontal.push({
+        pos: (a[1] + b[1]) / 2,
+        from: Math.min(a[0], b[0]),
+        to: Math.max(a[0], b[0]),
+      });
+    } else if (dx <= TOLERANCE / 2 && dy > TOLERANCE) {
+      vertical.push({
+        pos: (a[0] + b[0]) / 2,
+        from: Math.min(a[1], b[1]),
+        to: Math.max(a[1], b[1]),
+      });
+    }
+  };
+
+  const stack: number[][] = [];
+  let ctm = [1, 0, 0, 1, 0, 0];
+  for (let i = 0; i < ops.fnArray.length; i++) {
+    const fn = ops.fnArray[i];
+    const args = ops.argsArray[i];
+    if (fn === OPS.save) {
+      stack.push(ctm);
+    } else if (fn === OPS.restore) {
+      ctm = stack.pop() ?? ctm;
+    } else if (fn === OPS.transform) {
+      ctm = Util.transform(ctm, args);
+    } else if (fn === OPS.paintFormXObjectBegin) {
+      stack.push(ctm);
+      if (args?.[0]) ctm = Util.transform(ctm, Array.from(args[0]));
+    } else if (fn === OPS.paintFormXObjectEnd) {
+      ctm = stack.pop() ?? ctm;
+    } else if (fn === OPS.constructPath) {
+      const [paintOp, [data]] = args;
+      const stroked = STROKE_OPS.has(paintOp);
+      if (!data || (!stroked && !FILL_OPS.has(paintOp))) continue;
+      const m = Util.transform(viewport.transform, ctm);
+
+      for (const path of subpaths(data, m)) {
+        const { points } = path;
+        if (path.curved || points.length < 2) continue;
+        const xs = points.map((p) => p[0]);
+        const ys = points.map((p) => p[1]);
+        const left = Math.min(...xs);
+        const right = Math.max(...xs);
+        const top = Math.min(...ys);
+        const bottom = Math.max(...ys);
+        const width = right - left;
+        const height = bottom - top;
+
+        if (!stroked) {
+          // Filled shapes: hairline rectangles are rules; cell shading
+          // contributes its edges, page-sized backgrounds nothing
+          if (height <= TOLERANCE * 1.5 && width > TOLERANCE) {
+            addSegment([left, (top + bottom) / 2], [right, (top + bottom) / 2]);
+          } else if (width <= TOLERANCE * 1.5 && height > TOLERANCE) {
+            addSegment([(left + right) / 2, top], [(left + right) / 2, bottom]);
+          } else if (width * height < pageArea / 2) {
+            addSegment([left, top], [right, top]);
+            addSegment([left, bottom], [right, bottom]);
+            addSegment([left, top], [left, bottom]);
+            addSegment([right, top], [right, bottom]);
+          }
+          continue;
+        }
+        for (let p = 1; p < points.length; p++) {
+          addSegment(points[p - 1], points[p]);
+        }
+        if (path.closed) addSegment(points[points.length - 1], points[0]);
+      }
+    }
+  }
+  return { horizontal, vertical };
+};
+
+// Collinear rules that touch or overlap become one
+const mergeRules = (rules: Rule[]) => {
+  const sorted = [...rules].sort((a, b) => a.pos - b.pos || a.from - b.from);
+  const lanes: Rule[][] = [];
+  for (const rule of sorted) {
+    const lane = lanes.find((l) => Math.abs(l[0].pos - rule.pos) <= TOLERANCE);
+    if (lane) lane.push(rule);
+    else lanes.push([rule]);
+  }
+  const merged: Rule[] = [];
+  for (const lane of lanes) {
+    lane.sort((a, b) => a.from - b.from);
+    const pos = lane.reduce((s, r) => s + r.pos, 0) / lane.length;
+    let current = { ...lane[0], pos };
+    for (const rule of lane.slice(1)) {
+      if (rule.from <= current.to + TOLERANCE) {
+        current.to = Math.max(current.to, rule.to);
+      } else {
+        merged.push(current);
+        current = { ...rule, pos };
+      }
+    }
+    merged.push(current);
+  }
+  return merged;
+};
+
+const crosses = (h: Rule, v: Rule) =>
+  h.pos >= v.from - TOLERANCE &&
+  h.pos <= v.to + TOLERANCE &&
+  v.pos >= h.from - TOLERANCE &&
+  v.pos <= h.to + TOLERANCE;
+
+// Is there a rule at `pos` covering a..b (the edge between two cells)?
+const covered = (rules: Rule[], pos: number, a: number, b: number) =>
+  rules.some(
+    (r) =>
+      Math.abs(r.pos - pos) < MIN_CELL &&
+      r.from <= a + TOLERANCE &&
+      r.to >= b - TOLERANCE
+  );
+
+const distinct = (values: number[]) => {
+  const out: number[] = [];
+  for (const v of [...values].sort((a, b) => a - b)) {
+    if (!out.length || v - out[out.length - 1] >= MIN_CELL) out.push(v);
+  }
+  return out;
+};
+
+class UnionFind {
+  private parent: number[];
+  constructor(size: number) {
+    this.parent = Array.from({ length: size }, (_, i) => i);
+  }
+  find(i: number): number {
+    while (this.parent[i] !== i) {
+      this.parent[i] = this.parent[this.parent[i]];
+      i = this.parent[i];
+    }
+    return i;
+  }
+  union(a: number, b: number) {
+    this.parent[this.find(a)] = this.find(b);
+  }
+}
+
+const buildGrids = (horizontal: Rule[], vertical: Rule[]) => {
+  // Rules that cross each other (directly or through others) form a grid
+  const uf = new UnionFind(horizontal.length + vertical.length);
+  horizontal.forEach((h, hi) =>
+    vertical.forEach((v, vi) => {
+      if (crosses(h, v)) uf.union(hi, horizontal.length + vi);
+    })
+  );
+  const groups = new Map<number, { h: Rule[]; v: Rule[] }>();
+  horizontal.forEach((h, hi) => {
+    const g = groups.get(uf.find(hi)) ?? { h: [], v: [] };
+    g.h.push(h);
+    groups.set(uf.find(hi), g);
+  });
+  vertical.forEach((v, vi) => {
+    const root = uf.find(horizontal.length + vi);
+    const g = groups.get(root) ?? { h: [], v: [] };
+    g.v.push(v);
+    groups.set(root, g);
+  });
+
+  const grids: { xs: number[]; ys: number[]; cells: GridCell[] }[] = [];
+  for (const { h, v } of groups.values()) {
+    const xs = distinct(v.map((r) => r.pos));
+    const ys = distinct(h.map((r) => r.pos));
+    if (xs.length < 2 || ys.length < 2) continue;
+    const rows = ys.length - 1;
+    const cols = xs.length - 1;
+    if (rows * cols < 2) continue; // a framed box, not a table
+
+    // Merge neighbours that have no rule between them
+    const cellsUf = new UnionFind(rows * cols);
+    for (let r = 0; r < rows; r++) {
+      for (let c = 0; c < cols; c++) {
+        if (c + 1 < cols && !covered(v, xs[c + 1], ys[r], ys[r + 1])) {
+          cellsUf.union(r * cols + c, r * cols + c + 1);
+        }
+        if (r + 1 < rows && !covered(h, ys[r + 1], xs[c], xs[c + 1])) {
+          cellsUf.union(r * cols + c, (r + 1) * cols + c);
+        }
+      }
+    }
+    const spans = new Map<number, GridCell & { count: number }>();
+    for (let r = 0; r < rows; r++) {
+      for (let c = 0; c < cols; c++) {
+        const root = cellsUf.find(r * cols + c);
+        const cell = spans.get(root);
+        if (!cell) {
+          spans.set(root, {
+            row: r,
+            col: c,
+            rowSpan: 1,
+            colSpan: 1,
+            text: "",
+            count: 1,
+          });
+        } else {
+          cell.rowSpan = Math.max(cell.rowSpan, r - cell.row + 1);
+          cell.colSpan = Math.max(cell.colSpan, c - cell.col + 1);
+          cell.count++;
+        }
+      }
+    }
+    // Overlapping boxes and other drawings leave L-shaped "cells"; a real
+    // table only merges rectangles
+    const cells = [...spans.values()];
+    if (cells.some((cell) => cell.count !== cell.rowSpan * cell.colSpan)) {
+      continue;
+    }
+    grids.push({
+      xs,
+      ys,
+      cells: cells.map(({ count: _count, ...cell }) => cell),
+    });
+  }
+  return grids.sort((a, b) => a.ys[0] - b.ys[0] || a.xs[0] - b.xs[0]);
+};
+
+const indexIn = (edges: number[], v: number) => {
+  for (let i = 0; i + 1 < edges.length; i++) {
+    if (v >= edges[i] && v < edges[i + 1]) return i;
+  }
+  return -1;
+};
+
+// Each span goes to the cell under its first glyph; lines inside a cell
+// are kept as separate lines of the cell's text
+const fillCells = (tables: DetectedTable[], lines: StyledLine[]) => {
+  const parts = new Map<GridCell, { y: number; x: number; str: string }[]>();
+  for (const line of lines) {
+    for (const span of line.spans) {
+      const px = span.x + Math.min(span.width, span.size) / 2;
+      const py = span.y - span.size * 0.3;
+      for (const table of tables) {
+        const c = indexIn(table.xs, px);
+        const r = indexIn(table.ys, py);
+        if (c < 0 || r < 0) continue;
+        const cell = table.cells.find(
+          (t) =>
+            r >= t.row &&
+            r < t.row + t.rowSpan &&
+            c >= t.col &&
+            c < t.col + t.colSpan
+        );
+        if (!cell) continue;
+        const list = parts.get(cell) ?? [];
+        list.push({ y: line.y, x: span.x, str: span.str });
+        parts.set(cell, list);
+        break;
+      }
+    }
+  }
+  for (const [cell, list] of parts) {
+    list.sort((a, b) => a.y - b.y || a.x - b.x);
+    const textLines: string[] = [];
+    let lastY = -Infinity;
+    for (const part of list) {
+      if (part.y - lastY > 2) textLines.push(part.str.trim());
+      else textLines[textLines.length - 1] += part.str;
+      lastY = part.y;
+    }
+    cell.text = textLines.map((t) => t.trim()).join("\n");
+  }
+};
+
+export const detectPageTables = async (
+  page: PDFPageProxy
+): Promise<PageTables> => {
+  const viewport = page.getViewport({ scale: 1 });
+  const { horizontal, vertical } = await collectRules(page, viewport);
+  const tables = buildGrids(mergeRules(horizontal), mergeRules(vertical));
+  if (tables.length) fillCells(tables, await extractTextLines(page));
+  return {
+    page: page.pageNumber,
+    width: viewport.width,
+    height: viewport.height,
+    // Grids without any text are decoration (frames, charts, forms)
+    tables: tables.filter((t) => t.cells.some((cell) => cell.text)),
+  };
+};
+
+// ---------- Excel ----------
+
+// "1,234.50", "(300.00)", "$85", "12.5%", "1.234,56 €" → value plus an
+// Excel number format that prints it the same way; anything else is text.
+// Leading zeros and long digit strings (IDs, account numbers) stay text
+export const parseNumericCell = (
+  text: string
+): { value: number; format: string } | null => {
+  let s = text.trim();
+  if (!s || s.length > 32 || s.includes("\n")) return null;
+  let negative = false;
+  let parentheses = false;
+  if (/^\(.*\)$/.test(s)) {
+    negative = parentheses = true;
+    s = s.slice(1, -1).trim();
+  }
+  if (/^[-−]/.test(s)) {
+    negative = true;
+    s = s.slice(1).trim();
+  }
+  let prefix = "";
+  let suffix = "";
+  const lead = s.match(/^([$€£¥₹])\s?/);
+  if (lead) {
+    prefix = lead[1];
+    s = s.slice(lead[0].length);
+  }
+  const trail = s.match(/\s?([$€£¥₹])$/);
+  if (trail) {
+    suffix = trail[1];
+    s = s.slice(0, -trail[0].length);
+  }
+  if (/^[-−]/.test(s)) {
+    negative = true;
+    s = s.slice(1);
+  }
+  const percent = s.endsWith("%");
+  if (percent) s = s.slice(0, -1).trim();
+
+  let digits: string;
+  let decimals = "";
+  let grouped = false;
+  const us = s.match(/^(\d{1,3}(?:,\d{3})+|\d+)(?:\.(\d+))?$/);
+  const eu = s.match(/^(\d{1,3}(?:[. ]\d{3})+|\d+),(\d+)$/);
+  if (us) {
+    grouped = us[1].includes(",");
+    digits = us[1].replace(/,/g, "");
+    decimals = us[2] ?? "";
+  } else if (eu) {
+    grouped = /[. ]/.test(eu[1]);
+    digits = eu[1].replace(/[. ]/g, "");
+    decimals = eu[2];
+  } else {
+    return null;
+  }
+  if ((/^0\d/.test(digits) && !grouped) || digits.length > 15) return null;
+
+  let value = Number(`${digits}.${decimals || 0}`);
+  if (negative) value = -value;
+  if (percent) value /= 100;
+
+  let format =
+    (grouped ? "#,##0" : "0") +
+    (decimals ? "." + "0".repeat(decimals.length) : "");
+  if (percent) format += "%";
+  if (prefix) format = `"${prefix}"${format}`;
+  if (suffix) format = `${format} "${suffix}"`;
+  if (parentheses) format = `${format};(${format})`;
+  return { value, format };
+};
+
+export const tableToSheet = (table: DetectedTable): XLSX.WorkSheet => {
+  const rows = table.ys.length - 1;
+  const cols = table.xs.length - 1;
+  const ws: XLSX.WorkSheet = {};
+  const merges: XLSX.Range[] = [];
+  for (const cell of table.cells) {
+    const address = XLSX.utils.encode_cell({ r: cell.row, c: cell.col });
+    const number = parseNumericCell(cell.text);
+    ws[address] = number
+      ? { t: "n", v: number.value, z: number.format }
+      : { t: "s", v: cell.text };
+    if (cell.rowSpan > 1 || cell.colSpan > 1) {
+      merges.push({
+        s: { r: cell.row, c: cell.col },
+        e: { r: cell.row + cell.rowSpan - 1, c: cell.col + cell.colSpan - 1 },
+      });
+    }
+  }
+  ws["!ref"] = XLSX.utils.encode_range({
+    s: { r: 0, c: 0 },
+    e: { r: rows - 1, c: cols - 1 },
+  });
+  if (merges.length) ws["!merges"] = merges;
+  // Column widths follow the PDF (about 5.5pt per character)
+  ws["!cols"] = table.xs
+    .slice(1)
+    .map((x, i) => ({ wch: Math.max(6, Math.round((x - table.xs[i]) / 5.5)) }));
+  return ws;
+};
@@ -0,0 +1,371 @@
+import {
+  AlignmentType,
+  Document as DocxDocument,
+  ImageRun,
+  LineRuleType,
+  Packer,
+  PageOrientation,
+  Paragraph,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType,
+  type ISectionOptions,
+} from "docx";
+import type { PDFDocumentProxy } from "pdfjs-dist";
+import {
+  detectColumns,
+  extractPageLayout,
+  nearestColumn,
+  type PageLayout,
+  type PlacedImage,
+  type StyledLine,
+  type TextSpan,
+} from "@/utils/pdfLayout";
+
+// Rebuilds an editable .docx from a PDF's layout, one section per page at
+// the page's own size. Lines are joined into paragraphs wherever the line
+// spacing stays regular; a larger gap, a font size change, a short last line
+// or a first-line indent starts a new one. Runs of lines split into aligned
+// columns become Word tables, and embedded images are placed inline where
+// they sat on the page.
+
+const twips = (pt: number) => Math.round(pt * 20);
+
+type Block =
+  | { kind: "paragraph"; top: number; lines: StyledLine[] }
+  | { kind: "table"; top: number; lines: StyledLine[][] }
+  | { kind: "image"; top: number; image: PlacedImage };
+
+// Pieces of a line separated by gaps far wider than a space
+const splitSegments = (line: StyledLine) => {
+  const segments: StyledLine[] = [];
+  for (const span of line.spans) {
+    const last = segments[segments.length - 1];
+    const gap = last ? span.x - last.right : Infinity;
+    if (last && gap < Math.max(span.size * 1.5, 10)) {
+      last.spans.push(span);
+      last.right = Math.max(last.right, span.x + span.width);
+    } else {
+      segments.push({
+        x: span.x,
+        y: line.y,
+        right: span.x + span.width,
+        size: line.size,
+        spans: [{ ...span, str: span.str.trimStart() }],
+      });
+    }
+  }
+  return segments;
+};
+
+const median = (values: number[]) => {
+  if (!values.length) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+const layoutBlocks = (layout: PageLayout): Block[] => {
+  const blocks: Block[] = layout.images.map((image) => ({
+    kind: "image",
+    top: image.y,
+    image,
+  }));
+
+  // Two or more consecutive multi-column lines make a table
+  const segmented = layout.lines.map(splitSegments);
+  const body: StyledLine[] = [];
+  for (let i = 0; i < segmented.length; ) {
+    let end = i;
+    while (end < segmented.length && segmented[end].length > 1) end++;
+    if (end - i >= 2) {
+      blocks.push({
+        kind: "table",
+        top: layout.lines[i].y - layout.lines[i].size,
+        lines: segmented.slice(i, end),
+      });
+      i = end;
+    } else {
+      body.push(layout.lines[i]);
+      i++;
+    }
+  }
+
+  // Regular line pitch of the page, from same-size neighbours
+  const pitches: number[] = [];
+  for (let i = 1; i < body.length; i++) {
+    const gap = body[i].y - body[i - 1].y;
+    if (Math.abs(body[i].size - body[i - 1].size) < 0.5 && gap > 0) {
+      pitches.push(gap);
+    }
+  }
+  const pitch = median(pitches);
+  const textRight = Math.max(0, ...body.map((l) => l.right));
+
+  let current: StyledLine[] = [];
+  const flush = () => {
+    if (!current.length) return;
+    blocks.push({
+      kind: "paragraph",
+      top: current[0].y - current[0].size,
+      lines: current,
+    });
+    current = [];
+  };
+  for (const line of body) {
+    const prev = current[current.length - 1];
+    if (prev) {
+      const gap = line.y - prev.y;
+      const regular = Math.max(pitch, prev.size * 1.15);
+      const breaks =
+        gap > regular * 1.4 ||
+        gap < 0 ||
+        Math.abs(line.size - prev.size) > 1 ||
+        prev.right < textRight - prev.size * 4 ||
+        line.x > prev.x + line.size;
+      if (breaks) flush();
+    }
+    current.push(line);
+  }
+  flush();
+
+  return blocks.sort((a, b) => a.top - b.top);
+};
+
+// Adjacent spans with the same style become one run; lines are joined with
+// a space, or without the hyphen when a word was split across them
+const runsFor = (lines: StyledLine[]) => {
+  const spans: TextSpan[] = [];
+  lines.forEach((line, li) => {
+    line.spans.forEach((span, si) => {
+      let str = span.str;
+      if (li > 0 && si === 0) {
+        const prev = spans[spans.length - 1];
+        if (prev && /\w-$/.test(prev.str) && /^[a-z]/.test(str.trimStart())) {
+          prev.str = prev.str.slice(0, -1);
+          str = str.trimStart();
+        } else if (prev && !/\s$/.test(prev.str)) {
+          str = " " + str.trimStart();
+        }
+      }
+      const prev = spans[spans.length - 1];
+      if (
+        prev &&
+        prev.font === span.font &&
+        prev.bold === span.bold &&
+        prev.italic === span.italic &&
+        Math.abs(prev.size - span.size) < 0.5
+      ) {
+        prev.str += str;
+      } else {
+        spans.push({ ...span, str });
+      }
+    });
+  });
+  return spans.map(
+    (s) =>
+      new TextRun({
+        text: s.str,
+        font: s.font || undefined,
+        size: Math.max(2, Math.round(s.size * 2)), // half-points
+        bold: s.bold,
+        italics: s.italic,
+      })
+  );
+};
+
+const buildSection = (
+  layout: PageLayout,
+  gapBefore: (top: number) => number
+): ISectionOptions => {
+  const { width, height } = layout;
+  const lefts = [
+    ...layout.lines.map((l) => l.x),
+    ...layout.images.map((i) => i.x),
+  ];
+  const rights = [
+    ...layout.lines.map((l) => l.right),
+    ...layout.images.map((i) => i.x + i.width),
+  ];
+  const clampMargin = (v: number) => Math.min(Math.max(v, 18), 108);
+  const marginLeft = clampMargin(Math.min(width, ...lefts));
+  const marginRight = clampMargin(width - Math.max(0, ...rights));
+  const marginTop = clampMargin(
+    Math.min(
+      height,
+      ...layout.lines.map((l) => l.y - l.size),
+      ...layout.images.map((i) => i.y)
+    )
+  );
+  const textWidth = width - marginLeft - marginRight;
+  const textCenter = marginLeft + textWidth / 2;
+
+  const children: (Paragraph | Table)[] = [];
+  for (const block of layoutBlocks(layout)) {
+    const before = twips(gapBefore(block.top));
+
+    if (block.kind === "image") {
+      const { image } = block;
+      // Keep the printed size, shrunk to the text area if needed
+      const scale = Math.min(1, textWidth / image.width);
+      children.push(
+        new Paragraph({
+          spacing: { before },
+          indent: {
+            left: twips(Math.max(0, image.x - marginLeft) * scale),
+          },
+          children: [
+            new ImageRun({
+              type: image.type,
+              data: image.bytes,
+              transformation: {
+                width: Math.round(((image.width * scale) / 72) * 96),
+                height: Math.round(((image.height * scale) / 72) * 96),
+              },
+            }),
+          ],
+        })
+      );
+      continue;
+    }
+
+    if (block.kind === "table") {
+      const colXs = detectColumns(block.lines.map((items) => ({ items })));
+      const tableRight = Math.max(...block.lines.flat().map((s) => s.right));
+      const widths = colXs.map((x, ci) =>
+        twips(Math.max(24, (colXs[ci + 1] ?? tableRight + 6) - x))
+      );
+      const rows = block.lines.map((segments) => {
+        const cells: StyledLine[][] = colXs.map(() => []);
+        for (const segment of segments) {
+          cells[nearestColumn(colXs, segment.x)].push(segment);
+        }
+        return new TableRow({
+          children: cells.map(
+            (cell, ci) =>
+              new TableCell({
+                width: { size: widths[ci], type: WidthType.DXA },
+                children: [new Paragraph({ children: runsFor(cell) })],
+              })
+          ),
+        });
+      });
+      children.push(
+        new Table({
+          rows,
+          columnWidths: widths,
+          width: {
+            size: widths.reduce((a, b) => a + b, 0),
+            type: WidthType.DXA,
+          },
+          indent: {
+            size: twips(Math.max(0, colXs[0] - marginLeft)),
+            type: WidthType.DXA,
+          },
+        })
+      );
+      continue;
+    }
+
+    const { lines } = block;
+    const left = Math.min(...lines.map((l) => l.x));
+    const right = Math.max(...lines.map((l) => l.right));
+    const size = Math.max(...lines.map((l) => l.size));
+    const indented = left - marginLeft;
+    const centered =
+      indented > size * 2 && Math.abs((left + right) / 2 - textCenter) < size;
+    const rightAligned =
+      !centered &&
+      indented > textWidth * 0.3 &&
+      Math.abs(right - (width - marginRight)) < size;
+    const linePitch =
+      lines.length > 1
+        ? (lines[lines.length - 1].y - lines[0].y) / (lines.length - 1)
+        : size * 1.2;
+
+    children.push(
+      new Paragraph({
+        alignment: centered
+          ? AlignmentType.CENTER
+          : rightAligned
+          ? AlignmentType.RIGHT
+          : AlignmentType.LEFT,
+        indent:
+          centered || rightAligned
+            ? undefined
+            : {
+                left: twips(Math.max(0, indented)),
+                firstLine: twips(Math.max(0, lines[0].x - left)),
+              },
+        spacing: {
+          before,
+          after: 0,
+          line: twips(Math.max(linePitch, size)),
+          lineRule: LineRuleType.AT_LEAST,
+        },
+        children: runsFor(lines),
+      })
+    );
+  }
+
+  const landscape = width > height;
+  return {
+    properties: {
+      page: {
+        // docx swaps the two for landscape, so pass the portrait shape
+        size: {
+          width: twips(Math.min(width, height)),
+          height: twips(Math.max(width, height)),
+          orientation: landscape
+            ? PageOrientation.LANDSCAPE
+            : PageOrientation.PORTRAIT,
+        },
+        margin: {
+          top: twips(marginTop),
+          bottom: twips(36),
+          left: twips(marginLeft),
+          right: twips(marginRight),
+        },
+      },
+    },
+    children,
+  };
+};
+
+export const pdfToDocx = async (
+  pdf: PDFDocumentProxy,
+  onProgress?: (done: number, total: number) => void
+): Promise<Blob> => {
+  const sections: ISectionOptions[] = [];
+  for (let p = 1; p <= pdf.numPages; p++) {
+    const page = await pdf.getPage(p);
+    const layout = await extractPageLayout(page);
+
+    // Vertical whitespace above each block beyond normal line flow, so
+    // headings and sections keep their breathing room
+    const extents = [
+      ...layout.lines.map((l) => ({
+        top: l.y - l.size,
+        bottom: l.y + l.size * 0.25,
+      })),
+      ...layout.images.map((i) => ({ top: i.y, bottom: i.y + i.height })),
+    ];
+    const gapBefore = (top: number) => {
+      let above = -Infinity;
+      for (const b of extents) {
+        if (b.bottom <= top + 0.5 && b.bottom > above) above = b.bottom;
+      }
+      return above === -Infinity
+        ? 0
+        : Math.max(0, Math.min(top - above - 4, 72));
+    };
+
+    sections.push(buildSection(layout, gapBefore));
+    page.cleanup();
+    onProgress?.(p, pdf.numPages);
+  }
+
+  const doc = new DocxDocument({ sections });
+  return Packer.toBlob(doc);
+};
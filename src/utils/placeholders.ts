@@ -0,0 +1,267 @@
+// Lazy-loading placeholders for WebOptimizer: a tiny base64 LQIP, a BlurHash
+// string (https://blurha.sh) and the dominant colour of each image.
+
+export type Placeholder = {
+  width: number; // source dimensions, so consumers can reserve the box
+  height: number;
+  lqip: string; // data: URI, a few hundred bytes
+  blurhash: string;
+  dominantColor: string; // #rrggbb
+};
+
+// Longest side of the LQIP thumbnail
+const LQIP_SIZE = 16;
+// BlurHash and the colour histogram are computed on a small copy
+const SAMPLE_SIZE = 64;
+
+const drawScaled = (
+  img: CanvasImageSource & { width: number; height: number },
+  maxSide: number,
+  background?: string
+) => {
+  const scale = Math.min(1, maxSide / Math.max(img.width, img.height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(img.width * scale));
+  canvas.height = Math.max(1, Math.round(img.height * scale));
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas not supported");
+  if (background) {
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  ctx.imageSmoothingQuality = "high";
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return { canvas, ctx };
+};
+
+// ---------- BlurHash ----------
+
+const BASE83 =
+  "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz#$%*+,-.:;=?@[]^_{|}~";
+
+const encode83 = (value: number, length: number) => {
+  let out = "";
+  for (let i = 1; i <= length; i++) {
+    out += BASE83[Math.floor(value / Math.pow(83, length - i)) % 83];
+  }
+  return out;
+};
+
+const decode83 = (s: string) =>
+  [...s].reduce((v, c) => v * 83 + BASE83.indexOf(c), 0);
+
+const sRGBToLinear = (v: number) => {
+  const x = v / 255;
+  return x <= 0.04045 ? x / 12.92 : Math.pow((x + 0.055) / 1.055, 2.4);
+};
+
+const linearToSRGB = (v: number) => {
+  const x = Math.max(0, Math.min(1, v));
+  return x <= 0.0031308
+    ? Math.trunc(x * 12.92 * 255 + 0.5)
+    : Math.trunc((1.055 * Math.pow(x, 1 / 2.4) - 0.055) * 255 + 0.5);
+};
+
+const signPow = (v: number, exp: number) =>
+  Math.sign(v) * Math.pow(Math.abs(v), exp);
+
+export const encodeBlurHash = (
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  componentsX: number,
+  componentsY: number
+): string => {
+  const factors: number[][] = [];
+  for (let j = 0; j < componentsY; j++) {
+    for (let i = 0; i < componentsX; i++) {
+      const norm = i === 0 && j === 0 ? 1 : 2;
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      for (let y = 0; y < height; y++) {
+        const cy = Math.cos((Math.PI * j * y) / height);
+        for (let x = 0; x < width; x++) {
+          const basis = norm * Math.cos((Math.PI * i * x) / width) * cy;
+          const p = (y * width + x) * 4;
+          r += basis * sRGBToLinear(pixels[p]);
+          g += basis * sRGBToLinear(pixels[p + 1]);
+          b += basis * sRGBToLinear(pixels[p + 2]);
+        }
+      }
+      const scale = 1 / (width * height);
+      factors.push([r * scale, g * scale, b * scale]);
+    }
+  }
+
+  const [dc, ...ac] = factors;
+  let hash = encode83(componentsX - 1 + (componentsY - 1) * 9, 1);
+  let maxValue = 1;
+  if (ac.length > 0) {
+    // The reference encoder takes the signed maximum; match it so hashes agree
+    const actualMax = Math.max(...ac.flat());
+    const quantised = Math.max(
+      0,
+      Math.min(82, Math.floor(actualMax * 166 - 0.5))
+    );
+    maxValue = (quantised + 1) / 166;
+    hash += encode83(quantised, 1);
+  } else {
+    hash += encode83(0, 1);
+  }
+  hash += encode83(
+    (linearToSRGB(dc[0]) << 16) +
+      (linearToSRGB(dc[1]) << 8) +
+      linearToSRGB(dc[2]),
+    4
+  );
+  for (const f of ac) {
+    const q = f.map((v) =>
+      Math.max(
+        0,
+        Math.min(18, Math.floor(signPow(v / maxValue, 0.5) * 9 + 9.5))
+      )
+    );
+    hash += encode83(q[0] * 19 * 19 + q[1] * 19 + q[2], 2);
+  }
+  return hash;
+};
+
+// Render a BlurHash back to RGBA pixels (used for the on-page preview).
+export const decodeBlurHash = (
+  hash: string,
+  width: number,
+  height: number
+): Uint8ClampedArray => {
+  const size = decode83(hash[0]);
+  const componentsX = (size % 9) + 1;
+  const componentsY = Math.floor(size / 9) + 1;
+  const maxValue = (decode83(hash[1]) + 1) / 166;
+
+  const colors: number[][] = [];
+  const dc = decode83(hash.slice(2, 6));
+  colors.push([dc >> 16, (dc >> 8) & 255, dc & 255].map(sRGBToLinear));
+  for (let i = 1; i < componentsX * componentsY; i++) {
+    const v = decode83(hash.slice(4 + i * 2, 6 + i * 2));
+    colors.push(
+      [Math.floor(v / 361), Math.floor(v / 19) % 19, v % 19].map(
+        (q) => signPow((q - 9) / 9, 2) * maxValue
+      )
+    );
+  }
+
+  const out = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      for (let j = 0; j < componentsY; j++) {
+        for (let i = 0; i < componentsX; i++) {
+          const basis =
+            Math.cos((Math.PI * x * i) / width) *
+            Math.cos((Math.PI * y * j) / height);
+          const c = colors[i + j * componentsX];
+          r += c[0] * basis;
+          g += c[1] * basis;
+          b += c[2] * basis;
+        }
+      }
+      const p = (y * width + x) * 4;
+      out[p] = linearToSRGB(r);
+      out[p + 1] = linearToSRGB(g);
+      out[p + 2] = linearToSRGB(b);
+      out[p + 3] = 255;
+    }
+  }
+  return out;
+};
+
+export const blurHashToDataUrl = (hash: string, width = 32, height = 32) => {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return "";
+  const pixels = decodeBlurHash(hash, width, height);
+  ctx.putImageData(new ImageData(pixels, width, height), 0, 0);
+  return canvas.toDataURL("image/png");
+};
+
+// ---------- dominant colour ----------
+
+// Most populated 4-bit-per-channel bin, averaged; transparent pixels don't vote.
+export const dominantColor = (pixels: Uint8ClampedArray): string => {
+  const count = new Float64Array(4096);
+  const sum = new Float64Array(4096 * 3);
+  for (let p = 0; p < pixels.length; p += 4) {
+    const a = pixels[p + 3] / 255;
+    if (a === 0) continue;
+    const bin =
+      ((pixels[p] >> 4) << 8) |
+      ((pixels[p + 1] >> 4) << 4) |
+      (pixels[p + 2] >> 4);
+    count[bin] += a;
+    sum[bin * 3] += pixels[p] * a;
+    sum[bin * 3 + 1] += pixels[p + 1] * a;
+    sum[bin * 3 + 2] += pixels[p + 2] * a;
+  }
+  let best = 0;
+  for (let i = 1; i < 4096; i++) if (count[i] > count[best]) best = i;
+  if (count[best] === 0) return "#000000";
+  return (
+    "#" +
+    [0, 1, 2]
+      .map((c) =>
+        Math.round(sum[best * 3 + c] / count[best])
+          .toString(16)
+          .padStart(2, "0")
+      )
+      .join("")
+  );
+};
+
+// ---------- entry point ----------
+
+export const generatePlaceholder = (img: HTMLImageElement): Placeholder => {
+  // WebP keeps transparency in a few bytes; PNG is the fallback encoder
+  const lqipCanvas = drawScaled(img, LQIP_SIZE).canvas;
+  let lqip = lqipCanvas.toDataURL("image/webp", 0.5);
+  if (!lqip.startsWith("data:image/webp")) {
+    lqip = lqipCanvas.toDataURL("image/png");
+  }
+
+  const sample = drawScaled(img, SAMPLE_SIZE);
+  const raw = sample.ctx.getImageData(
+    0,
+    0,
+    sample.canvas.width,
+    sample.canvas.height
+  );
+  // BlurHash has no alpha: hash the image as it looks on a white page
+  const flat = drawScaled(img, SAMPLE_SIZE, "#ffffff");
+  const { width, height } = flat.canvas;
+  const pixels = flat.ctx.getImageData(0, 0, width, height).data;
+  const landscape = width >= height;
+
+  return {
+    width: img.width,
+    height: img.height,
+    lqip,
+    blurhash: encodeBlurHash(
+      pixels,
+      width,
+      height,
+      landscape ? 4 : 3,
+      landscape ? 3 : 4
+    ),
+    dominantColor: dominantColor(raw.data),
+  };
+};
+
+export const buildPlaceholderManifest = (
+  entries: { file: string; placeholder: Placeholder }[]
+) => ({
+  generatedAt: new Date().toISOString(),
+  images: entries.map(({ file, placeholder }) => ({ file, ...placeholder })),
+});
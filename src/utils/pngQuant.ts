@@ -0,0 +1,405 @@
+import { loadImageFromFile } from "@/utils/imageCompression";
+
+// Palette quantization (median cut + optional Floyd–Steinberg dithering) and an
+// indexed-colour PNG writer. Alpha is part of the palette, so transparent PNGs
+// stay transparent.
+
+export type QuantizeOptions = {
+  colors: number; // 2..256
+  dither: boolean;
+};
+
+export type QuantizedImage = {
+  width: number;
+  height: number;
+  palette: Uint8Array; // RGBA quadruplets
+  indices: Uint8Array; // one palette index per pixel
+};
+
+// ---------- palette building ----------
+
+// Histogram bins use 5 bits per channel (RGBA), i.e. 2^20 bins.
+const BITS = 5;
+const SHIFT = 8 - BITS;
+const BIN_COUNT = 1 << (BITS * 4);
+
+const binOf = (r: number, g: number, b: number, a: number) =>
+  ((r >> SHIFT) << (BITS * 3)) |
+  ((g >> SHIFT) << (BITS * 2)) |
+  ((b >> SHIFT) << BITS) |
+  (a >> SHIFT);
+
+// Fully transparent pixels all map to one colour regardless of their RGB.
+const normalize = (px: Uint8ClampedArray) => {
+  for (let p = 0; p < px.length; p += 4) {
+    if (px[p + 3] === 0) px[p] = px[p + 1] = px[p + 2] = 0;
+  }
+};
+
+type Bin = {
+  color: [number, number, number, number]; // mean RGBA of the pixels in the bin
+  count: number;
+};
+
+type Box = { bins: Bin[]; count: number };
+
+const boxRange = (box: Box, ch: number) => {
+  let min = 255;
+  let max = 0;
+  for (const bin of box.bins) {
+    const v = bin.color[ch];
+    if (v < min) min = v;
+    if (v > max) max = v;
+  }
+  return max - min;
+};
+
+// Split the box along its widest channel at the pixel-weighted median.
+const splitBox = (box: Box): [Box, Box] | null => {
+  if (box.bins.length < 2) return null;
+  let channel = 0;
+  let widest = -1;
+  for (let ch = 0; ch < 4; ch++) {
+    const range = boxRange(box, ch);
+    if (range > widest) {
+      widest = range;
+      channel = ch;
+    }
+  }
+  if (widest === 0) return null;
+
+  const sorted = box.bins
+    .slice()
+    .sort((x, y) => x.color[channel] - y.color[channel]);
+  const half = box.count / 2;
+  let acc = 0;
+  let cut = 1;
+  for (let i = 0; i < sorted.length - 1; i++) {
+    acc += sorted[i].count;
+    cut = i + 1;
+    if (acc >= half) break;
+  }
+  const left = sorted.slice(0, cut);
+  const right = sorted.slice(cut);
+  const sum = (bins: Bin[]) => bins.reduce((s, b) => s + b.count, 0);
+  return [
+    { bins: left, count: sum(left) },
+    { bins: right, count: sum(right) },
+  ];
+};
+
+const boxColor = (box: Box): number[] => {
+  const acc = [0, 0, 0, 0];
+  for (const bin of box.bins) {
+    for (let ch = 0; ch < 4; ch++) acc[ch] += bin.color[ch] * bin.count;
+  }
+  return acc.map((v) => Math.round(v / box.count));
+};
+
+const medianCut = (px: Uint8ClampedArray, colors: number): Uint8Array => {
+  const counts = new Uint32Array(BIN_COUNT);
+  for (let p = 0; p < px.length; p += 4) {
+    counts[binOf(px[p], px[p + 1], px[p + 2], px[p + 3])]++;
+  }
+
+  // Compact the occupied bins and accumulate their exact 8-bit means
+  const slot = new Int32Array(BIN_COUNT).fill(-1);
+  const sums: number[][] = [];
+  for (let p = 0; p < px.length; p += 4) {
+    const bin = binOf(px[p], px[p + 1], px[p + 2], px[p + 3]);
+    let s = slot[bin];
+    if (s < 0) {
+      s = slot[bin] = sums.length;
+      sums.push([0, 0, 0, 0, counts[bin]]);
+    }
+    const acc = sums[s];
+    acc[0] += px[p];
+    acc[1] += px[p + 1];
+    acc[2] += px[p + 2];
+    acc[3] += px[p + 3];
+  }
+  const bins: Bin[] = sums.map(([r, g, b, a, n]) => ({
+    color: [r / n, g / n, b / n, a / n],
+    count: n,
+  }));
+
+  let boxes: Box[] = [{ bins, count: px.length / 4 }];
+  while (boxes.length < colors) {
+    // Split the most populous box that can still be split
+    const order = boxes
+      .map((box, i) => ({ i, weight: box.count * box.bins.length }))
+      .sort((x, y) => y.weight - x.weight);
+    let split: [Box, Box] | null = null;
+    let index = -1;
+    for (const { i } of order) {
+      split = splitBox(boxes[i]);
+      if (split) {
+        index = i;
+        break;
+      }
+    }
+    if (!split) break;
+    boxes = [...boxes.slice(0, index), ...split, ...boxes.slice(index + 1)];
+  }
+
+  // Transparent entries first keeps the tRNS chunk short
+  const palette = boxes.map(boxColor).sort((x, y) => x[3] - y[3]);
+  return Uint8Array.from(palette.flat());
+};
+
+const rgbaKey = (px: ArrayLike<number>, p: number) =>
+  ((px[p] << 24) | (px[p + 1] << 16) | (px[p + 2] << 8) | px[p + 3]) >>> 0;
+
+// When the image already fits in the palette, use its exact colours.
+const exactPalette = (
+  px: Uint8ClampedArray,
+  colors: number
+): Uint8Array | null => {
+  const seen = new Map<number, number>();
+  for (let p = 0; p < px.length; p += 4) {
+    const key = rgbaKey(px, p);
+    if (!seen.has(key)) {
+      if (seen.size >= colors) return null;
+      seen.set(key, p);
+    }
+  }
+  const entries = Array.from(seen.values())
+    .map((p) => [px[p], px[p + 1], px[p + 2], px[p + 3]])
+    .sort((x, y) => x[3] - y[3]);
+  return Uint8Array.from(entries.flat());
+};
+
+// ---------- pixel mapping ----------
+
+const nearestIndex = (
+  palette: Uint8Array,
+  r: number,
+  g: number,
+  b: number,
+  a: number
+) => {
+  let best = 0;
+  let bestDist = Infinity;
+  for (let i = 0, p = 0; p < palette.length; i++, p += 4) {
+    const dr = palette[p] - r;
+    const dg = palette[p + 1] - g;
+    const db = palette[p + 2] - b;
+    const da = palette[p + 3] - a;
+    // Alpha mistakes are more visible than small hue shifts
+    const dist = dr * dr + dg * dg + db * db + 2 * da * da;
+    if (dist < bestDist) {
+      bestDist = dist;
+      best = i;
+    }
+  }
+  return best;
+};
+
+export const quantizeImageData = (
+  image: ImageData,
+  { colors, dither }: QuantizeOptions
+): QuantizedImage => {
+  const { width, height } = image;
+  const px = new Uint8ClampedArray(image.data);
+  normalize(px);
+  const target = Math.max(2, Math.min(256, Math.round(colors)));
+
+  const exact = exactPalette(px, target);
+  const palette = exact ?? medianCut(px, target);
+
+  // Cache lookups by histogram bin; dithered colours land in nearby bins.
+  const cache = new Int16Array(BIN_COUNT).fill(-1);
+  const lookup = (r: number, g: number, b: number, a: number) => {
+    const bin = binOf(r, g, b, a);
+    let idx = cache[bin];
+    if (idx < 0) idx = cache[bin] = nearestIndex(palette, r, g, b, a);
+    return idx;
+  };
+
+  const indices = new Uint8Array(width * height);
+  if (exact) {
+    const index = new Map<number, number>();
+    for (let i = 0, p = 0; p < palette.length; i++, p += 4) {
+      index.set(rgbaKey(palette, p), i);
+    }
+    for (let i = 0, p = 0; i < indices.length; i++, p += 4) {
+      indices[i] = index.get(rgbaKey(px, p));
+    }
+    return { width, height, palette, indices };
+  }
+  if (!dither) {
+    for (let i = 0, p = 0; i < indices.length; i++, p += 4) {
+      indices[i] = lookup(px[p], px[p + 1], px[p + 2], px[p + 3]);
+    }
+    return { width, height, palette, indices };
+  }
+
+  // Floyd–Steinberg on RGB; alpha is mapped without diffusion so edges stay crisp.
+  let errCur = new Float32Array((width + 2) * 3);
+  let errNext = new Float32Array((width + 2) * 3);
+  const clamp = (v: number) => (v < 0 ? 0 : v > 255 ? 255 : Math.round(v));
+  for (let y = 0; y < height; y++) {
+    errNext.fill(0);
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const p = i * 4;
+      const a = px[p + 3];
+      const e = (x + 1) * 3;
+      const r = clamp(px[p] + errCur[e]);
+      const g = clamp(px[p + 1] + errCur[e + 1]);
+      const b = clamp(px[p + 2] + errCur[e + 2]);
+      const idx = a === 0 ? lookup(0, 0, 0, 0) : lookup(r, g, b, a);
+      indices[i] = idx;
+      if (a === 0) continue;
+
+      const q = idx * 4;
+      const diff = [r - palette[q], g - palette[q + 1], b - palette[q + 2]];
+      for (let ch = 0; ch < 3; ch++) {
+        const d = diff[ch];
+        errCur[e + 3 + ch] += (d * 7) / 16;
+        errNext[e - 3 + ch] += (d * 3) / 16;
+        errNext[e + ch] += (d * 5) / 16;
+        errNext[e + 3 + ch] += d / 16;
+      }
+    }
+    [errCur, errNext] = [errNext, errCur];
+  }
+  return { width, height, palette, indices };
+};
+
+// ---------- PNG writer ----------
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (bytes: Uint8Array) => {
+  let c = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    c = CRC_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+  }
+  return (c ^ 0xffffffff) >>> 0;
+};
+
+export const pngChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const out = new Uint8Array(12 + data.length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i);
+  out.set(data, 8);
+  view.setUint32(8 + data.length, crc32(out.subarray(4, 8 + data.length)));
+  return out;
+};
+
+// zlib stream via the browser's built-in deflate
+export const zlibDeflate = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data])
+    .stream()
+    .pipeThrough(new CompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const bitDepthFor = (colors: number) =>
+  colors <= 2 ? 1 : colors <= 4 ? 2 : colors <= 16 ? 4 : 8;
+
+export const encodeIndexedPng = async ({
+  width,
+  height,
+  palette,
+  indices,
+}: QuantizedImage): Promise<Blob> => {
+  const colors = palette.length / 4;
+  const depth = bitDepthFor(colors);
+
+  const ihdr = new Uint8Array(13);
+  const ihdrView = new DataView(ihdr.buffer);
+  ihdrView.setUint32(0, width);
+  ihdrView.setUint32(4, height);
+  ihdr[8] = depth;
+  ihdr[9] = 3; // indexed colour
+
+  const plte = new Uint8Array(colors * 3);
+  let lastTranslucent = -1;
+  for (let i = 0; i < colors; i++) {
+    plte[i * 3] = palette[i * 4];
+    plte[i * 3 + 1] = palette[i * 4 + 1];
+    plte[i * 3 + 2] = palette[i * 4 + 2];
+    if (palette[i * 4 + 3] !== 255) lastTranslucent = i;
+  }
+
+  // Scanlines with filter type 0; palette data rarely benefits from filtering
+  const stride = Math.ceil((width * depth) / 8);
+  const raw = new Uint8Array((stride + 1) * height);
+  const perByte = 8 / depth;
+  for (let y = 0; y < height; y++) {
+    const row = y * (stride + 1) + 1;
+    for (let x = 0; x < width; x++) {
+      const idx = indices[y * width + x];
+      const shift = 8 - depth * ((x % perByte) + 1);
+      raw[row + Math.floor(x / perByte)] |= idx << shift;
+    }
+  }
+
+  const parts = [
+    new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk("IHDR", ihdr),
+    pngChunk("PLTE", plte),
+  ];
+  if (lastTranslucent >= 0) {
+    const trns = new Uint8Array(lastTranslucent + 1);
+    for (let i = 0; i <= lastTranslucent; i++) trns[i] = palette[i * 4 + 3];
+    parts.push(pngChunk("tRNS", trns));
+  }
+  parts.push(pngChunk("IDAT", await zlibDeflate(raw)));
+  parts.push(pngChunk("IEND", new Uint8Array(0)));
+  return new Blob(parts, { type: "image/png" });
+};
+
+// ---------- file-level helpers ----------
+
+const readImageData = async (file: Blob): Promise<ImageData> => {
+  const img = await loadImageFromFile(file);
+  const canvas = document.createElement("canvas");
+  canvas.width = img.width;
+  canvas.height = img.height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas not supported");
+  ctx.drawImage(img, 0, 0);
+  return ctx.getImageData(0, 0, img.width, img.height);
+};
+
+const quantizedName = (file: File) =>
+  `${file.name.replace(/\.[^.]+$/, "")}_compressed.png`;
+
+export const quantizePng = async (
+  file: File,
+  options: QuantizeOptions
+): Promise<File> => {
+  const data = await readImageData(file);
+  const blob = await encodeIndexedPng(quantizeImageData(data, options));
+  return new File([blob], quantizedName(file), { type: "image/png" });
+};
+
+// Halve the palette from maxColors until the PNG fits; null when even 2 colours don't.
+export const quantizePngToTarget = async (
+  file: File,
+  targetBytes: number,
+  { colors: maxColors, dither }: QuantizeOptions
+): Promise<File | null> => {
+  const data = await readImageData(file);
+  for (let colors = maxColors; colors >= 2; colors = Math.floor(colors / 2)) {
+    const blob = await encodeIndexedPng(
+      quantizeImageData(data, { colors, dither })
+    );
+    if (blob.size <= targetBytes) {
+      return new File([blob], quantizedName(file), { type: "image/png" });
+    }
+  }
+  return null;
+};
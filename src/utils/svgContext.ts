@@ -0,0 +1,723 @@
+// A Canvas 2D context that records drawing as SVG, so pdf.js can render a
+// page "into" it. With disableFontFace pdf.js draws glyph outlines as paths,
+// so text, vector art and axial/radial shadings stay vectors. Whatever pdf.js
+// composes on scratch canvases (images, soft masks, tiling and mesh
+// patterns) arrives through drawImage/createPattern and is embedded as PNG.
+
+import type { PDFPageProxy } from "pdfjs-dist";
+
+type Matrix = [number, number, number, number, number, number];
+type Segment = { op: "M" | "L" | "C" | "Q" | "Z"; pts: number[] };
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+// multiply(m, n) applies n first, then m
+const multiply = (m: Matrix, n: Matrix): Matrix => [
+  m[0] * n[0] + m[2] * n[1],
+  m[1] * n[0] + m[3] * n[1],
+  m[0] * n[2] + m[2] * n[3],
+  m[1] * n[2] + m[3] * n[3],
+  m[0] * n[4] + m[2] * n[5] + m[4],
+  m[1] * n[4] + m[3] * n[5] + m[5],
+];
+
+const invert = (m: Matrix): Matrix => {
+  const det = m[0] * m[3] - m[1] * m[2] || 1e-12;
+  return [
+    m[3] / det,
+    -m[1] / det,
+    -m[2] / det,
+    m[0] / det,
+    (m[2] * m[5] - m[3] * m[4]) / det,
+    (m[1] * m[4] - m[0] * m[5]) / det,
+  ];
+};
+
+const toMatrix = (m?: DOMMatrix2DInit): Matrix => [
+  m?.a ?? m?.m11 ?? 1,
+  m?.b ?? m?.m12 ?? 0,
+  m?.c ?? m?.m21 ?? 0,
+  m?.d ?? m?.m22 ?? 1,
+  m?.e ?? m?.m41 ?? 0,
+  m?.f ?? m?.m42 ?? 0,
+];
+
+const num = (n: number) => {
+  const r = Math.round(n * 1000) / 1000;
+  return Object.is(r, -0) ? "0" : String(r);
+};
+
+const matrixAttr = (m: Matrix) => `matrix(${m.map(num).join(" ")})`;
+
+const escapeXml = (s: string) =>
+  s.replace(
+    /[<>&"]/g,
+    (c) => ({ "<": "&lt;", ">": "&gt;", "&": "&amp;", '"': "&quot;" }[c]!)
+  );
+
+const transformSegments = (segs: Segment[], m: Matrix): Segment[] =>
+  segs.map(({ op, pts }) => {
+    const out: number[] = [];
+    for (let i = 0; i < pts.length; i += 2) {
+      out.push(
+        m[0] * pts[i] + m[2] * pts[i + 1] + m[4],
+        m[1] * pts[i] + m[3] * pts[i + 1] + m[5]
+      );
+    }
+    return { op, pts: out };
+  });
+
+const pathData = (segs: Segment[]) =>
+  segs.map((s) => s.op + s.pts.map(num).join(" ")).join("");
+
+// pdf.js glyph outlines are absolute M/L/C/Q/Z commands
+const parsePathData = (d: string): Segment[] => {
+  const segs: Segment[] = [];
+  for (const [, op, args] of d.matchAll(/([A-Za-z])([^A-Za-z]*)/g)) {
+    if (!"MLCQZ".includes(op)) continue;
+    const pts = args.trim()
+      ? args
+          .trim()
+          .split(/[\s,]+/)
+          .map(Number)
+      : [];
+    segs.push({ op: op as Segment["op"], pts });
+  }
+  return segs;
+};
+
+const rectSegments = (x: number, y: number, w: number, h: number) =>
+  [
+    { op: "M", pts: [x, y] },
+    { op: "L", pts: [x + w, y] },
+    { op: "L", pts: [x + w, y + h] },
+    { op: "L", pts: [x, y + h] },
+    { op: "Z", pts: [] },
+  ] as Segment[];
+
+// A real Path2D (scratch canvases still draw with it) that also keeps its
+// geometry. Built lazily because Path2D only exists in the browser.
+type RecordingPath = Path2D & { segments: Segment[]; source?: string };
+
+let recordingPathClass: (new (init?: Path2D | string) => RecordingPath) | null =
+  null;
+
+const getRecordingPathClass = () => {
+  if (recordingPathClass) return recordingPathClass;
+  const NativePath2D = globalThis.Path2D;
+  class RecordingPath2D extends NativePath2D {
+    segments: Segment[];
+    source?: string; // the constructor string, while still unmodified
+
+    constructor(init?: Path2D | string) {
+      super(init);
+      if (typeof init === "string") {
+        this.segments = parsePathData(init);
+        this.source = init;
+      } else {
+        this.segments = isRecording(init) ? init.segments.slice() : [];
+      }
+    }
+
+    private add(op: Segment["op"], pts: number[]) {
+      this.segments.push({ op, pts });
+      this.source = undefined;
+    }
+
+    moveTo(x: number, y: number) {
+      super.moveTo(x, y);
+      this.add("M", [x, y]);
+    }
+
+    lineTo(x: number, y: number) {
+      super.lineTo(x, y);
+      this.add("L", [x, y]);
+    }
+
+    bezierCurveTo(...p: [number, number, number, number, number, number]) {
+      super.bezierCurveTo(...p);
+      this.add("C", p);
+    }
+
+    quadraticCurveTo(...p: [number, number, number, number]) {
+      super.quadraticCurveTo(...p);
+      this.add("Q", p);
+    }
+
+    rect(x: number, y: number, w: number, h: number) {
+      super.rect(x, y, w, h);
+      this.segments.push(...rectSegments(x, y, w, h));
+      this.source = undefined;
+    }
+
+    closePath() {
+      super.closePath();
+      this.add("Z", []);
+    }
+
+    addPath(path: Path2D, transform?: DOMMatrix2DInit) {
+      super.addPath(path, transform);
+      if (isRecording(path)) {
+        this.segments.push(
+          ...transformSegments(path.segments, toMatrix(transform))
+        );
+        this.source = undefined;
+      }
+    }
+  }
+  recordingPathClass = RecordingPath2D;
+  return recordingPathClass;
+};
+
+const isRecording = (p: unknown): p is RecordingPath =>
+  !!recordingPathClass && p instanceof recordingPathClass;
+
+class SvgGradient {
+  stops: [number, string][] = [];
+
+  constructor(readonly kind: "linear" | "radial", readonly coords: number[]) {}
+
+  addColorStop(offset: number, color: string) {
+    this.stops.push([offset, color]);
+  }
+}
+
+class SvgPattern {
+  matrix: Matrix = IDENTITY;
+
+  constructor(
+    readonly href: string,
+    readonly width: number,
+    readonly height: number,
+    readonly repeat: boolean
+  ) {}
+
+  setTransform(m?: DOMMatrix2DInit) {
+    this.matrix = toMatrix(m);
+  }
+}
+
+type Paint = string | SvgGradient | SvgPattern;
+
+type State = {
+  fillStyle: Paint;
+  strokeStyle: Paint;
+  lineWidth: number;
+  lineCap: CanvasLineCap;
+  lineJoin: CanvasLineJoin;
+  miterLimit: number;
+  lineDash: number[];
+  lineDashOffset: number;
+  globalAlpha: number;
+  globalCompositeOperation: string;
+  font: string;
+  filter: string;
+  imageSmoothingEnabled: boolean;
+  matrix: Matrix;
+  clip: string | null;
+};
+
+const sourceSize = (image: CanvasImageSource) => {
+  if ("naturalWidth" in image) {
+    return { width: image.naturalWidth, height: image.naturalHeight };
+  }
+  const { width, height } = image as { width?: unknown; height?: unknown };
+  return { width: Number(width) || 0, height: Number(height) || 0 };
+};
+
+// PNG data URL of (a crop of) an image source, taken immediately since
+// pdf.js reuses its scratch canvases
+const snapshot = (
+  image: CanvasImageSource,
+  sx: number,
+  sy: number,
+  sw: number,
+  sh: number
+) => {
+  const full = sourceSize(image);
+  if (
+    "toDataURL" in image &&
+    sx === 0 &&
+    sy === 0 &&
+    sw === full.width &&
+    sh === full.height
+  ) {
+    return image.toDataURL("image/png");
+  }
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.ceil(sw));
+  canvas.height = Math.max(1, Math.ceil(sh));
+  canvas.getContext("2d")!.drawImage(image, sx, sy, sw, sh, 0, 0, sw, sh);
+  return canvas.toDataURL("image/png");
+};
+
+export class SvgContext {
+  readonly canvas: { width: number; height: number };
+
+  fillStyle: Paint = "#000000";
+  strokeStyle: Paint = "#000000";
+  lineCap: CanvasLineCap = "butt";
+  lineJoin: CanvasLineJoin = "miter";
+  miterLimit = 10;
+  lineDashOffset = 0;
+  globalAlpha = 1;
+  globalCompositeOperation = "source-over";
+  font = "10px sans-serif";
+  filter = "none";
+  imageSmoothingEnabled = true;
+  // Set when pdf.js handed over the whole page as a single bitmap
+  rasterized = false;
+
+  private width = 1;
+  private dash: number[] = [];
+  private matrix: Matrix = IDENTITY;
+  private clipId: string | null = null;
+  private stack: State[] = [];
+  private path: Segment[] = []; // current default path, in device space
+
+  private defs: string[] = [];
+  private body: string[] = [];
+  private openClip: string | null = null;
+  private nextId = 0;
+  private paintIds = new WeakMap<SvgGradient | SvgPattern, string>();
+  private pathIds = new WeakMap<RecordingPath, string>();
+  private measureCtx: CanvasRenderingContext2D | null = null;
+
+  constructor(width: number, height: number) {
+    this.canvas = { width, height };
+  }
+
+  get lineWidth() {
+    return this.width;
+  }
+
+  // Like a canvas, ignore zero, negative and non-finite widths
+  set lineWidth(value: number) {
+    if (Number.isFinite(value) && value > 0) this.width = value;
+  }
+
+  // ---- state ----
+
+  save() {
+    this.stack.push({
+      fillStyle: this.fillStyle,
+      strokeStyle: this.strokeStyle,
+      lineWidth: this.width,
+      lineCap: this.lineCap,
+      lineJoin: this.lineJoin,
+      miterLimit: this.miterLimit,
+      lineDash: this.dash,
+      lineDashOffset: this.lineDashOffset,
+      globalAlpha: this.globalAlpha,
+      globalCompositeOperation: this.globalCompositeOperation,
+      font: this.font,
+      filter: this.filter,
+      imageSmoothingEnabled: this.imageSmoothingEnabled,
+      matrix: this.matrix,
+      clip: this.clipId,
+    });
+  }
+
+  restore() {
+    const s = this.stack.pop();
+    if (!s) return;
+    this.fillStyle = s.fillStyle;
+    this.strokeStyle = s.strokeStyle;
+    this.width = s.lineWidth;
+    this.lineCap = s.lineCap;
+    this.lineJoin = s.lineJoin;
+    this.miterLimit = s.miterLimit;
+    this.dash = s.lineDash;
+    this.lineDashOffset = s.lineDashOffset;
+    this.globalAlpha = s.globalAlpha;
+    this.globalCompositeOperation = s.globalCompositeOperation;
+    this.font = s.font;
+    this.filter = s.filter;
+    this.imageSmoothingEnabled = s.imageSmoothingEnabled;
+    this.matrix = s.matrix;
+    this.clipId = s.clip;
+  }
+
+  setLineDash(segments: number[]) {
+    this.dash = segments.filter((n) => Number.isFinite(n) && n >= 0);
+  }
+
+  getLineDash() {
+    return this.dash.slice();
+  }
+
+  // ---- transforms ----
+
+  getTransform() {
+    return new DOMMatrix(this.matrix);
+  }
+
+  setTransform(
+    a?: number | DOMMatrix2DInit,
+    b = 0,
+    c = 0,
+    d = 1,
+    e = 0,
+    f = 0
+  ) {
+    this.matrix = typeof a === "number" ? [a, b, c, d, e, f] : toMatrix(a);
+  }
+
+  resetTransform() {
+    this.matrix = IDENTITY;
+  }
+
+  transform(a: number, b: number, c: number, d: number, e: number, f: number) {
+    this.matrix = multiply(this.matrix, [a, b, c, d, e, f]);
+  }
+
+  translate(x: number, y: number) {
+    this.transform(1, 0, 0, 1, x, y);
+  }
+
+  scale(x: number, y: number) {
+    this.transform(x, 0, 0, y, 0, 0);
+  }
+
+  rotate(angle: number) {
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    this.transform(cos, sin, -sin, cos, 0, 0);
+  }
+
+  // ---- default path (kept in device space, like a canvas) ----
+
+  private addToPath(op: Segment["op"], pts: number[]) {
+    this.path.push(...transformSegments([{ op, pts }], this.matrix));
+  }
+
+  beginPath() {
+    this.path = [];
+  }
+
+  moveTo(x: number, y: number) {
+    this.addToPath("M", [x, y]);
+  }
+
+  lineTo(x: number, y: number) {
+    this.addToPath("L", [x, y]);
+  }
+
+  bezierCurveTo(...p: [number, number, number, number, number, number]) {
+    this.addToPath("C", p);
+  }
+
+  quadraticCurveTo(...p: [number, number, number, number]) {
+    this.addToPath("Q", p);
+  }
+
+  rect(x: number, y: number, w: number, h: number) {
+    this.path.push(...transformSegments(rectSegments(x, y, w, h), this.matrix));
+  }
+
+  closePath() {
+    this.path.push({ op: "Z", pts: [] });
+  }
+
+  // ---- painting ----
+
+  fill(a?: Path2D | CanvasFillRule, b?: CanvasFillRule) {
+    const path = typeof a === "object" ? a : undefined;
+    const rule = typeof a === "string" ? a : b;
+    const shape = this.shape(path, rule);
+    if (shape) this.emit(shape, this.paintAttrs("fill"));
+  }
+
+  stroke(path?: Path2D) {
+    const shape = this.shape(path);
+    if (shape) this.emit(shape, this.paintAttrs("stroke"));
+  }
+
+  clip(a?: Path2D | CanvasFillRule, b?: CanvasFillRule) {
+    const path = typeof a === "object" ? a : undefined;
+    const rule = typeof a === "string" ? a : b;
+    const shape = this.shape(path, rule);
+    if (!shape) return;
+    const id = `c${this.nextId++}`;
+    const parent = this.clipId ? ` clip-path="url(#${this.clipId})"` : "";
+    this.defs.push(`<clipPath id="${id}"${parent}>${shape}</clipPath>`);
+    this.clipId = id;
+  }
+
+  fillRect(x: number, y: number, w: number, h: number) {
+    const d = pathData(rectSegments(x, y, w, h));
+    this.emit(
+      `<path d="${d}" transform="${matrixAttr(this.matrix)}"`,
+      this.paintAttrs("fill")
+    );
+  }
+
+  strokeRect(x: number, y: number, w: number, h: number) {
+    const d = pathData(rectSegments(x, y, w, h));
+    this.emit(
+      `<path d="${d}" transform="${matrixAttr(this.matrix)}"`,
+      this.paintAttrs("stroke")
+    );
+  }
+
+  clearRect() {
+    // The SVG starts empty; pdf.js only clears before it paints the page
+  }
+
+  fillText(text: string, x: number, y: number) {
+    this.text(text, x, y, "fill");
+  }
+
+  strokeText(text: string, x: number, y: number) {
+    this.text(text, x, y, "stroke");
+  }
+
+  measureText(text: string) {
+    if (!this.measureCtx) {
+      this.measureCtx = document.createElement("canvas").getContext("2d");
+    }
+    this.measureCtx!.font = this.font;
+    return this.measureCtx!.measureText(text);
+  }
+
+  drawImage(image: CanvasImageSource, ...args: number[]) {
+    // pdf.js redraws its own canvas to apply transfer-function filters
+    if ((image as unknown) === this.canvas) return;
+    const full = sourceSize(image);
+    let [sx, sy, sw, sh] = [0, 0, full.width, full.height];
+    let [dx, dy, dw, dh] = [args[0], args[1], full.width, full.height];
+    if (args.length === 4) [dx, dy, dw, dh] = args;
+    if (args.length === 8) [sx, sy, sw, sh, dx, dy, dw, dh] = args;
+    if (!sw || !sh || !dw || !dh) return;
+    // Pages with blend modes are painted on a page-sized scratch canvas and
+    // copied over in one piece, so the whole page arrives as this bitmap
+    if (
+      sw === this.canvas.width &&
+      sh === this.canvas.height &&
+      dw === sw &&
+      dh === sh &&
+      dx === 0 &&
+      dy === 0 &&
+      this.matrix.every((v, i) => v === IDENTITY[i])
+    ) {
+      this.rasterized = true;
+    }
+    const href = snapshot(image, sx, sy, sw, sh);
+    const m = multiply(this.matrix, [dw / sw, 0, 0, dh / sh, dx, dy]);
+    this.emit(
+      `<image width="${num(sw)}" height="${num(
+        sh
+      )}" preserveAspectRatio="none" href="${href}" transform="${matrixAttr(
+        m
+      )}"`,
+      "",
+      this.imageSmoothingEnabled ? "" : "image-rendering:pixelated"
+    );
+  }
+
+  createLinearGradient(x0: number, y0: number, x1: number, y1: number) {
+    return new SvgGradient("linear", [x0, y0, x1, y1]);
+  }
+
+  createRadialGradient(
+    x0: number,
+    y0: number,
+    r0: number,
+    x1: number,
+    y1: number,
+    r1: number
+  ) {
+    return new SvgGradient("radial", [x0, y0, r0, x1, y1, r1]);
+  }
+
+  createPattern(image: CanvasImageSource, repetition: string | null) {
+    const { width, height } = sourceSize(image);
+    if (!width || !height) return null;
+    return new SvgPattern(
+      snapshot(image, 0, 0, width, height),
+      width,
+      height,
+      repetition !== "no-repeat"
+    );
+  }
+
+  // ---- output ----
+
+  toSvg(width: number, height: number) {
+    this.setClipGroup(null);
+    const { width: w, height: h } = this.canvas;
+    return [
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${num(
+        width
+      )}pt" height="${num(height)}pt" viewBox="0 0 ${w} ${h}">`,
+      this.defs.length ? `<defs>${this.defs.join("")}</defs>` : "",
+      ...this.body,
+      "</svg>",
+    ].join("\n");
+  }
+
+  // Opening tag (without ">") of the element for a path in user space
+  private shape(path?: Path2D, rule?: CanvasFillRule) {
+    const ruleAttr = rule === "evenodd" ? ' fill-rule="evenodd"' : "";
+    const clipRule = rule === "evenodd" ? ' clip-rule="evenodd"' : "";
+    const transform = ` transform="${matrixAttr(this.matrix)}"`;
+    if (!path) {
+      if (this.path.length === 0) return null;
+      const local = transformSegments(this.path, invert(this.matrix));
+      return `<path d="${pathData(local)}"${transform}${ruleAttr}${clipRule}/>`;
+    }
+    if (!isRecording(path) || path.segments.length === 0) return null;
+    // Glyph outlines are shared between all uses of a character
+    if (path.source) {
+      let id = this.pathIds.get(path);
+      if (!id) {
+        id = `p${this.nextId++}`;
+        this.pathIds.set(path, id);
+        this.defs.push(`<path id="${id}" d="${pathData(path.segments)}"/>`);
+      }
+      return `<use href="#${id}"${transform}${ruleAttr}${clipRule}/>`;
+    }
+    return `<path d="${pathData(
+      path.segments
+    )}"${transform}${ruleAttr}${clipRule}/>`;
+  }
+
+  private paint(p: Paint) {
+    if (typeof p === "string") return escapeXml(p);
+    let id = this.paintIds.get(p);
+    if (!id) {
+      id = `g${this.nextId++}`;
+      this.paintIds.set(p, id);
+      if (p instanceof SvgGradient) {
+        const stops = p.stops
+          .map(
+            ([o, c]) =>
+              `<stop offset="${num(o)}" stop-color="${escapeXml(c)}"/>`
+          )
+          .join("");
+        const c = p.coords.map(num);
+        this.defs.push(
+          p.kind === "linear"
+            ? `<linearGradient id="${id}" gradientUnits="userSpaceOnUse" x1="${c[0]}" y1="${c[1]}" x2="${c[2]}" y2="${c[3]}">${stops}</linearGradient>`
+            : `<radialGradient id="${id}" gradientUnits="userSpaceOnUse" fx="${c[0]}" fy="${c[1]}" fr="${c[2]}" cx="${c[3]}" cy="${c[4]}" r="${c[5]}">${stops}</radialGradient>`
+        );
+      } else {
+        // A tile far larger than the image makes a non-repeating pattern
+        const tw = p.repeat ? p.width : 1e7;
+        const th = p.repeat ? p.height : 1e7;
+        this.defs.push(
+          `<pattern id="${id}" patternUnits="userSpaceOnUse" width="${tw}" height="${th}" patternTransform="${matrixAttr(
+            p.matrix
+          )}"><image width="${p.width}" height="${p.height}" href="${
+            p.href
+          }"/></pattern>`
+        );
+      }
+    }
+    return `url(#${id})`;
+  }
+
+  private paintAttrs(kind: "fill" | "stroke") {
+    if (kind === "fill") return ` fill="${this.paint(this.fillStyle)}"`;
+    let attrs = ` fill="none" stroke="${this.paint(
+      this.strokeStyle
+    )}" stroke-width="${num(this.width)}"`;
+    if (this.lineCap !== "butt") attrs += ` stroke-linecap="${this.lineCap}"`;
+    if (this.lineJoin !== "miter") {
+      attrs += ` stroke-linejoin="${this.lineJoin}"`;
+    } else {
+      attrs += ` stroke-miterlimit="${num(this.miterLimit)}"`;
+    }
+    if (this.dash.length > 0) {
+      attrs += ` stroke-dasharray="${this.dash.map(num).join(" ")}"`;
+      if (this.lineDashOffset) {
+        attrs += ` stroke-dashoffset="${num(this.lineDashOffset)}"`;
+      }
+    }
+    return attrs;
+  }
+
+  private text(text: string, x: number, y: number, kind: "fill" | "stroke") {
+    this.emit(
+      `<text x="${num(x)}" y="${num(y)}" transform="${matrixAttr(
+        this.matrix
+      )}"`,
+      this.paintAttrs(kind),
+      `font:${escapeXml(this.font)};white-space:pre`,
+      escapeXml(text)
+    );
+  }
+
+  // Elements that share a clip are grouped so the clip is referenced from
+  // an untransformed <g>, where its device-space coordinates apply
+  private setClipGroup(id: string | null) {
+    if (id === this.openClip) return;
+    if (this.openClip) this.body.push("</g>");
+    if (id) this.body.push(`<g clip-path="url(#${id})">`);
+    this.openClip = id;
+  }
+
+  private emit(open: string, attrs: string, style = "", content?: string) {
+    this.setClipGroup(this.clipId);
+    let extra = attrs;
+    if (this.globalAlpha < 1) extra += ` opacity="${num(this.globalAlpha)}"`;
+    if (style) extra += ` style="${style}"`;
+    // shape() returns self-closing tags; splice the attributes in
+    const tag = open.endsWith("/>") ? open.slice(0, -2) : open;
+    const name = tag.slice(1, tag.search(/\s/));
+    this.body.push(
+      content === undefined
+        ? `${tag}${extra}/>`
+        : `${tag}${extra}>${content}</${name}>`
+    );
+  }
+}
+
+// pdf.js has no hook for the path class, so each render swaps the global
+// Path2D. Renders are queued so one never restores over another's swap.
+let renderQueue: Promise<unknown> = Promise.resolve();
+
+const renderExclusive = async (
+  page: PDFPageProxy,
+  scale: number
+): Promise<SvgPage> => {
+  const viewport = page.getViewport({ scale });
+  const width = Math.ceil(viewport.width);
+  const height = Math.ceil(viewport.height);
+  const ctx = new SvgContext(width, height);
+
+  // pdf.js builds paths with the global Path2D while it renders
+  const NativePath2D = globalThis.Path2D;
+  globalThis.Path2D = getRecordingPathClass() as unknown as typeof Path2D;
+  try {
+    await page.render({
+      canvas: null,
+      canvasContext: ctx as unknown as CanvasRenderingContext2D,
+      viewport,
+    }).promise;
+  } finally {
+    globalThis.Path2D = NativePath2D;
+  }
+  return {
+    svg: ctx.toSvg(viewport.width / scale, viewport.height / scale),
+    rasterized: ctx.rasterized,
+  };
+};
+
+export type SvgPage = {
+  svg: string;
+  // true when the page could not be kept as vectors (blend modes)
+  rasterized: boolean;
+};
+
+// Renders one page to an SVG document. Use a document opened with
+// disableFontFace: true, otherwise text comes out as <text> in fallback
+// fonts; `scale` sets the resolution of any embedded bitmaps.
+export const renderPageToSvg = (
+  page: PDFPageProxy,
+  scale: number
+): Promise<SvgPage> => {
+  const run = renderQueue.then(() => renderExclusive(page, scale));
+  renderQueue = run.catch(() => undefined);
+  return run;
+};
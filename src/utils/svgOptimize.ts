@@ -0,0 +1,719 @@
+// SVG markup optimizer: strips editor metadata, comments and hidden elements,
+// collapses redundant groups, rounds geometry to a chosen precision and
+// shortens referenced IDs. Works on the parsed DOM, so the output is always
+// well-formed. Content of <foreignObject> (the XHTML labels in draw.io and
+// similar diagram exports) is passed through as is.
+
+export type SvgOptimizeOptions = {
+  precision: number; // decimal places kept in coordinates
+  minifyIds: boolean;
+};
+
+export type SvgOptimizeReport = {
+  originalBytes: number;
+  optimizedBytes: number;
+  comments: number;
+  metadata: number; // editor elements/attributes and <metadata> blocks
+  hidden: number;
+  groups: number;
+  ids: number; // IDs shortened
+};
+
+// Namespaces written by Inkscape, Sketch, Illustrator, Affinity etc.
+const EDITOR_NS =
+  /inkscape|sodipodi|bohemiancoding|ns\.adobe\.com|serif\.com|figma|vectornator/i;
+
+// Elements whose children are never rendered directly
+const NON_RENDERED = new Set([
+  "defs",
+  "symbol",
+  "clipPath",
+  "mask",
+  "pattern",
+  "marker",
+  "linearGradient",
+  "radialGradient",
+  "filter",
+]);
+// Whitespace inside these is significant
+const TEXT_CONTENT = new Set([
+  "text",
+  "tspan",
+  "textPath",
+  "style",
+  "script",
+  "title",
+  "desc",
+]);
+const ANIMATION = new Set([
+  "animate",
+  "animateMotion",
+  "animateTransform",
+  "set",
+]);
+// Group attributes that can move onto a single child unchanged
+const MOVABLE_ATTRS =
+  /^(fill|fill-opacity|fill-rule|stroke|stroke-[a-z]+|opacity|color|font-[a-z]+|text-anchor|transform)$/;
+const GEOMETRY_ATTRS = new Set([
+  "x",
+  "y",
+  "width",
+  "height",
+  "cx",
+  "cy",
+  "r",
+  "rx",
+  "ry",
+  "x1",
+  "y1",
+  "x2",
+  "y2",
+]);
+
+// ---------- numbers and path data ----------
+
+const formatNumber = (n: number, precision: number) => {
+  const s = String(Number(n.toFixed(precision)));
+  if (s === "-0") return "0";
+  return s.replace(/^(-?)0\./, "$1.");
+};
+
+// Join numbers with the fewest separators: a "-", or a "." after a number
+// that already has one, starts a new number on its own.
+const joinNumbers = (parts: string[]) =>
+  parts.reduce((out, p, i) => {
+    if (i === 0) return p;
+    const prev = parts[i - 1];
+    const joined =
+      p.startsWith("-") || (p.startsWith(".") && /[.e]/.test(prev));
+    return out + (joined ? "" : " ") + p;
+  }, "");
+
+const PATH_ARITY: Record<string, number> = {
+  m: 2,
+  l: 2,
+  h: 1,
+  v: 1,
+  c: 6,
+  s: 4,
+  q: 4,
+  t: 2,
+  a: 7,
+  z: 0,
+};
+
+type PathSegment = { cmd: string; args: number[] };
+
+const parsePath = (d: string): PathSegment[] | null => {
+  const segments: PathSegment[] = [];
+  const number = /^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/;
+  let i = 0;
+  let cmd = "";
+  const skip = () => {
+    while (i < d.length && /[\s,]/.test(d[i])) i++;
+  };
+
+  skip();
+  while (i < d.length) {
+    if (/[a-zA-Z]/.test(d[i])) {
+      cmd = d[i++];
+      if (!(cmd.toLowerCase() in PATH_ARITY)) return null;
+      if (cmd === "z" || cmd === "Z") segments.push({ cmd, args: [] });
+      skip();
+      continue;
+    }
+    const lower = cmd.toLowerCase();
+    const arity = PATH_ARITY[lower];
+    if (!arity) return null;
+    const args: number[] = [];
+    for (let k = 0; k < arity; k++) {
+      skip();
+      if (lower === "a" && (k === 3 || k === 4)) {
+        if (d[i] !== "0" && d[i] !== "1") return null;
+        args.push(Number(d[i++]));
+        continue;
+      }
+      const m = number.exec(d.slice(i));
+      if (!m) return null;
+      args.push(parseFloat(m[0]));
+      i += m[0].length;
+    }
+    segments.push({ cmd, args });
+    // Extra coordinate pairs after a moveto are implicit linetos
+    if (cmd === "m") cmd = "l";
+    if (cmd === "M") cmd = "L";
+    skip();
+  }
+  return segments;
+};
+
+// Round every point in absolute coordinates (so relative segments never
+// drift), then write each segment in whichever form is shorter.
+export const optimizePathData = (d: string, precision: number): string => {
+  const segments = parsePath(d);
+  if (!segments || segments.length === 0) return d;
+  const round = (n: number) => Number(n.toFixed(precision));
+  const fmt = (n: number) => formatNumber(n, precision);
+
+  let x = 0;
+  let y = 0;
+  let startX = 0;
+  let startY = 0;
+  let out = "";
+  let implicit = "";
+
+  for (const { cmd, args } of segments) {
+    const lower = cmd.toLowerCase();
+    const rel = cmd === lower;
+    if (lower === "z") {
+      out += "z";
+      x = startX;
+      y = startY;
+      implicit = "";
+      continue;
+    }
+
+    // Absolute, rounded arguments
+    const abs = args.slice();
+    if (lower === "h") abs[0] = round(rel ? x + args[0] : args[0]);
+    else if (lower === "v") abs[0] = round(rel ? y + args[0] : args[0]);
+    else if (lower === "a") {
+      abs[0] = round(args[0]);
+      abs[1] = round(args[1]);
+      abs[2] = round(args[2]);
+      abs[5] = round(rel ? x + args[5] : args[5]);
+      abs[6] = round(rel ? y + args[6] : args[6]);
+    } else {
+      for (let k = 0; k < abs.length; k += 2) {
+        abs[k] = round(rel ? x + args[k] : args[k]);
+        abs[k + 1] = round(rel ? y + args[k + 1] : args[k + 1]);
+      }
+    }
+
+    const relArgs = abs.slice();
+    if (lower === "h") relArgs[0] = round(abs[0] - x);
+    else if (lower === "v") relArgs[0] = round(abs[0] - y);
+    else if (lower === "a") {
+      relArgs[5] = round(abs[5] - x);
+      relArgs[6] = round(abs[6] - y);
+    } else {
+      for (let k = 0; k < abs.length; k += 2) {
+        relArgs[k] = round(abs[k] - x);
+        relArgs[k + 1] = round(abs[k + 1] - y);
+      }
+    }
+
+    // Arc flags keep their spaces; not every parser splits "01" into two flags
+    const write = (values: number[]) =>
+      lower === "a"
+        ? [
+            joinNumbers(values.slice(0, 3).map(fmt)),
+            values[3],
+            values[4],
+            joinNumbers(values.slice(5).map(fmt)),
+          ].join(" ")
+        : joinNumbers(values.map(fmt));
+    const absText = write(abs);
+    const relText = write(relArgs);
+    const useRel = relText.length < absText.length;
+    const letter = useRel ? lower : lower.toUpperCase();
+    const text = useRel ? relText : absText;
+
+    if (letter === implicit) {
+      out += text.startsWith("-") ? text : " " + text;
+    } else {
+      out += letter + text;
+    }
+    implicit = letter === "m" ? "l" : letter === "M" ? "L" : letter;
+
+    if (lower === "h") x = abs[0];
+    else if (lower === "v") y = abs[0];
+    else {
+      x = abs[abs.length - 2];
+      y = abs[abs.length - 1];
+    }
+    if (lower === "m") {
+      startX = x;
+      startY = y;
+    }
+  }
+  return out;
+};
+
+const roundNumberList = (value: string, precision: number) => {
+  const nums = value
+    .trim()
+    .split(/[\s,]+/)
+    .map(Number);
+  if (nums.some((n) => Number.isNaN(n))) return value;
+  return nums.map((n) => formatNumber(n, precision)).join(" ");
+};
+
+// ---------- DOM passes ----------
+
+const elementsOf = (node: Node): Element[] => {
+  const out: Element[] = [];
+  for (let c = node.firstChild; c; c = c.nextSibling) {
+    if (c.nodeType === 1) out.push(c as Element);
+  }
+  return out;
+};
+
+// Post-order walk, safe against removal of the visited node. Does not enter
+// <foreignObject> unless `all` is set.
+const walk = (node: Node, visit: (el: Element) => void, all = false) => {
+  if (all || (node as Element).localName !== "foreignObject") {
+    for (const child of elementsOf(node)) walk(child, visit, all);
+  }
+  if (node.nodeType === 1) visit(node as Element);
+};
+
+const attributesOf = (el: Element): Attr[] => {
+  const out: Attr[] = [];
+  for (let i = 0; i < el.attributes.length; i++) out.push(el.attributes[i]);
+  return out;
+};
+
+const isInside = (el: Element, names: Set<string>) => {
+  for (let p = el.parentNode; p && p.nodeType === 1; p = p.parentNode) {
+    if (names.has((p as Element).localName)) return true;
+  }
+  return false;
+};
+
+const FOREIGN = new Set(["foreignObject"]);
+
+const URL_REF = /url\(\s*["']?#([^"')\s]+)["']?\s*\)/g;
+
+// IDs used by url(#…), href="#…", animation timing and <style> selectors.
+// Pinned IDs keep their name: those named in CSS or from inside
+// <foreignObject>, and sprite entry points (<symbol>s and what sits directly
+// in <defs>) that other files link to as sprite.svg#id.
+const collectReferences = (root: Element, styleText: string) => {
+  const refs = new Map<string, number>();
+  const pinned = new Set<string>();
+  walk(
+    root,
+    (el) => {
+      const foreign = isInside(el, FOREIGN);
+      const add = (id: string) =>
+        foreign ? pinned.add(id) : refs.set(id, (refs.get(id) ?? 0) + 1);
+      const id = el.getAttribute("id");
+      if (
+        id !== null &&
+        (foreign ||
+          el.localName === "symbol" ||
+          (el.parentNode as Element | null)?.localName === "defs")
+      ) {
+        pinned.add(id);
+      }
+      for (const attr of attributesOf(el)) {
+        for (const m of attr.value.matchAll(URL_REF)) add(m[1]);
+        if (attr.localName === "href" && attr.value.startsWith("#")) {
+          add(attr.value.slice(1));
+        }
+        if (attr.name === "begin" || attr.name === "end") {
+          for (const m of attr.value.matchAll(/([A-Za-z_][\w-]*)\./g))
+            add(m[1]);
+        }
+      }
+    },
+    true
+  );
+  for (const m of styleText.matchAll(/#([A-Za-z_][\w-]*)/g)) pinned.add(m[1]);
+  return { refs, pinned };
+};
+
+const hasIds = (el: Element): boolean =>
+  el.hasAttribute("id") || elementsOf(el).some(hasIds);
+
+const isHidden = (el: Element) => {
+  // An animation may show it later (references are checked by the caller)
+  if (elementsOf(el).some((c) => ANIMATION.has(c.localName))) return false;
+  const style = el.getAttribute("style") ?? "";
+  if (el.getAttribute("display") === "none") return true;
+  if (/(^|;)\s*display\s*:\s*none/.test(style)) return true;
+  if (el.getAttribute("opacity") === "0") return true;
+  const num = (name: string) => parseFloat(el.getAttribute(name) ?? "");
+  switch (el.localName) {
+    case "path":
+      return !(el.getAttribute("d") ?? "").trim();
+    case "rect":
+      return num("width") === 0 || num("height") === 0;
+    case "circle":
+      return num("r") === 0;
+    case "ellipse":
+      return num("rx") === 0 || num("ry") === 0;
+    default:
+      return false;
+  }
+};
+
+const PLAIN_NUMBER = /^\s*[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?\s*$/;
+
+// Opacity of a group folded into its lone child: nested opacities multiply.
+// null when the values can't be combined (percentages, or a style opacity
+// on the child that would override the attribute).
+const combinedOpacity = (group: Element, child: Element) => {
+  const outer = group.getAttribute("opacity") ?? "1";
+  const inner = child.getAttribute("opacity") ?? "1";
+  if (/(^|;)\s*opacity\s*:/.test(child.getAttribute("style") ?? "")) {
+    return null;
+  }
+  if (!PLAIN_NUMBER.test(outer) || !PLAIN_NUMBER.test(inner)) return null;
+  const clamp = (v: number) => Math.min(1, Math.max(0, v));
+  return formatNumber(clamp(Number(outer)) * clamp(Number(inner)), 4);
+};
+
+const shortId = (n: number) => {
+  const chars = "abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ";
+  let s = "";
+  do {
+    s = chars[n % chars.length] + s;
+    n = Math.floor(n / chars.length) - 1;
+  } while (n >= 0);
+  return s;
+};
+
+const minifyIds = (
+  root: Element,
+  refs: Map<string, number>,
+  pinned: Set<string>
+) => {
+  let changed = 0;
+  const rename = new Map<string, string>();
+  // Unreferenced IDs stay as they are, so new names must not collide
+  const taken = new Set(pinned);
+  walk(root, (el) => {
+    const id = el.getAttribute("id");
+    if (id !== null && !refs.has(id)) taken.add(id);
+  });
+  // Most referenced IDs get the shortest names
+  const order = [...refs.entries()]
+    .filter(([id]) => !pinned.has(id))
+    .sort((a, b) => b[1] - a[1]);
+  let next = 0;
+  for (const [id] of order) {
+    let name = shortId(next++);
+    while (taken.has(name)) name = shortId(next++);
+    taken.add(name);
+    rename.set(id, name);
+  }
+
+  walk(root, (el) => {
+    const id = el.getAttribute("id");
+    const name = id === null ? undefined : rename.get(id);
+    if (name !== undefined && name !== id) {
+      el.setAttribute("id", name);
+      changed++;
+    }
+    for (const attr of attributesOf(el)) {
+      let value = attr.value.replace(URL_REF, (all, ref) =>
+        rename.has(ref) ? `url(#${rename.get(ref)})` : all
+      );
+      if (attr.localName === "href" && value.startsWith("#")) {
+        value = "#" + (rename.get(value.slice(1)) ?? value.slice(1));
+      }
+      if (attr.name === "begin" || attr.name === "end") {
+        value = value.replace(/([A-Za-z_][\w-]*)\./g, (all, ref) =>
+          rename.has(ref) ? rename.get(ref) + "." : all
+        );
+      }
+      if (value !== attr.value) attr.value = value;
+    }
+  });
+  return changed;
+};
+
+// ---------- entry points ----------
+
+export const optimizeSvg = (
+  source: string,
+  { precision, minifyIds: shortenIds }: SvgOptimizeOptions
+): { svg: string; report: SvgOptimizeReport } => {
+  const doc = new DOMParser().parseFromString(source, "image/svg+xml");
+  const root = doc.documentElement;
+  if (
+    !root ||
+    root.localName !== "svg" ||
+    doc.getElementsByTagName("parsererror").length > 0
+  ) {
+    throw new Error("Not a valid SVG document");
+  }
+
+  const report: SvgOptimizeReport = {
+    originalBytes: new Blob([source]).size,
+    optimizedBytes: 0,
+    comments: 0,
+    metadata: 0,
+    hidden: 0,
+    groups: 0,
+    ids: 0,
+  };
+
+  // Document-level nodes: doctype, comments, processing instructions
+  for (let n = doc.firstChild; n; ) {
+    const next = n.nextSibling;
+    const keep =
+      n === root ||
+      (n.nodeType === 7 &&
+        (n as ProcessingInstruction).target === "xml-stylesheet");
+    if (!keep) {
+      if (n.nodeType === 8) report.comments++;
+      doc.removeChild(n);
+    }
+    n = next;
+  }
+
+  const styleText = Array.from(doc.getElementsByTagName("style"))
+    .map((s) => s.textContent ?? "")
+    .join("\n");
+  const hasScript = doc.getElementsByTagName("script").length > 0;
+  let { refs, pinned } = collectReferences(root, styleText);
+  const referenced = (el: Element) => {
+    const id = el.getAttribute("id");
+    return id !== null && (refs.has(id) || pinned.has(id));
+  };
+
+  // Comments, editor metadata, whitespace and hidden elements
+  const clean = (el: Element) => {
+    for (let n = el.firstChild; n; ) {
+      const next = n.nextSibling;
+      if (n.nodeType === 8) {
+        report.comments++;
+        el.removeChild(n);
+      } else if (
+        n.nodeType === 3 &&
+        !TEXT_CONTENT.has(el.localName) &&
+        !(n.nodeValue ?? "").trim()
+      ) {
+        el.removeChild(n);
+      }
+      n = next;
+    }
+    for (const attr of attributesOf(el)) {
+      const ns = attr.namespaceURI ?? "";
+      const declaresEditor =
+        attr.name.startsWith("xmlns:") && EDITOR_NS.test(attr.value);
+      if (EDITOR_NS.test(ns) || declaresEditor) {
+        el.removeAttributeNode(attr);
+        if (!declaresEditor) report.metadata++;
+      }
+    }
+  };
+  walk(root, (el) => {
+    const parent = el.parentNode;
+    if (el === root || !parent) return clean(el);
+    if (el.localName === "metadata" || EDITOR_NS.test(el.namespaceURI ?? "")) {
+      report.metadata++;
+      parent.removeChild(el);
+      return;
+    }
+    if (
+      !isInside(el, NON_RENDERED) &&
+      !NON_RENDERED.has(el.localName) &&
+      !referenced(el) &&
+      isHidden(el)
+    ) {
+      report.hidden++;
+      parent.removeChild(el);
+      return;
+    }
+    clean(el);
+  });
+
+  // Geometry precision
+  walk(root, (el) => {
+    if (el.localName === "path" && el.hasAttribute("d")) {
+      el.setAttribute(
+        "d",
+        optimizePathData(el.getAttribute("d") ?? "", precision)
+      );
+    }
+    if (el.localName === "polygon" || el.localName === "polyline") {
+      const points = el.getAttribute("points");
+      if (points) el.setAttribute("points", roundNumberList(points, precision));
+    }
+    for (const attr of attributesOf(el)) {
+      if (GEOMETRY_ATTRS.has(attr.name) && /^[-+.\deE]+$/.test(attr.value)) {
+        const n = Number(attr.value);
+        if (!Number.isNaN(n)) attr.value = formatNumber(n, precision);
+      }
+    }
+  });
+
+  if (shortenIds && !hasScript) {
+    ({ refs, pinned } = collectReferences(root, styleText));
+    report.ids = minifyIds(root, refs, pinned);
+    ({ refs, pinned } = collectReferences(root, styleText));
+  }
+
+  // Collapse groups that add nothing, and drop empty containers and
+  // definitions nothing can point at
+  walk(root, (el) => {
+    const parent = el.parentNode;
+    if (el === root || !parent) return;
+    const children = elementsOf(el);
+    if (
+      (parent as Element).localName === "defs" &&
+      !TEXT_CONTENT.has(el.localName) &&
+      !hasIds(el)
+    ) {
+      report.hidden++;
+      parent.removeChild(el);
+      return;
+    }
+    if (
+      (el.localName === "g" || el.localName === "defs") &&
+      children.length === 0 &&
+      !referenced(el)
+    ) {
+      report.groups++;
+      parent.removeChild(el);
+      return;
+    }
+    if (
+      el.localName !== "g" ||
+      referenced(el) ||
+      (parent as Element).localName === "switch"
+    ) {
+      return;
+    }
+    const attrs = attributesOf(el);
+    if (attrs.length > 0) {
+      // Only a lone child can take over the group's attributes
+      const child = children[0];
+      const opacity =
+        children.length === 1 && el.hasAttribute("opacity")
+          ? combinedOpacity(el, child)
+          : undefined;
+      if (
+        children.length !== 1 ||
+        child.hasAttribute("id") ||
+        ANIMATION.has(child.localName) ||
+        children.some((c) => ANIMATION.has(c.localName)) ||
+        opacity === null ||
+        !attrs.every(
+          (a) =>
+            MOVABLE_ATTRS.test(a.name) &&
+            (a.name === "transform" ||
+              a.name === "opacity" ||
+              !child.hasAttribute(a.name))
+        )
+      ) {
+        return;
+      }
+      for (const a of attrs) {
+        const own = child.getAttribute(a.name);
+        child.setAttribute(
+          a.name,
+          a.name === "opacity" && opacity !== undefined
+            ? opacity
+            : a.name === "transform" && own
+            ? `${a.value} ${own}`
+            : a.value
+        );
+      }
+    }
+    while (el.firstChild) parent.insertBefore(el.firstChild, el);
+    parent.removeChild(el);
+    report.groups++;
+  });
+
+  // Namespace declarations nothing uses any more (xlink, rdf, dc, ...)
+  const prefixes = new Set<string>();
+  walk(
+    root,
+    (el) => {
+      if (el.prefix) prefixes.add(el.prefix);
+      attributesOf(el).forEach((a) => a.prefix && prefixes.add(a.prefix));
+    },
+    true
+  );
+  for (const attr of attributesOf(root)) {
+    const prefix = attr.name.split(":")[1];
+    if (attr.name.startsWith("xmlns:") && !prefixes.has(prefix)) {
+      root.removeAttributeNode(attr);
+    }
+  }
+
+  const svg = new XMLSerializer().serializeToString(doc);
+  report.optimizedBytes = new Blob([svg]).size;
+  return { svg, report };
+};
+
+// Intrinsic pixel size from width/height (px or unitless), else the viewBox.
+export const svgIntrinsicSize = (svg: string) => {
+  const root = new DOMParser().parseFromString(
+    svg,
+    "image/svg+xml"
+  ).documentElement;
+  const px = (name: string) => {
+    const m = /^\s*([\d.]+)\s*(px)?\s*$/.exec(root.getAttribute(name) ?? "");
+    return m ? parseFloat(m[1]) : NaN;
+  };
+  const box = (root.getAttribute("viewBox") ?? "")
+    .trim()
+    .split(/[\s,]+/)
+    .map(Number);
+  const vbW = box.length === 4 ? box[2] : NaN;
+  const vbH = box.length === 4 ? box[3] : NaN;
+  let width = px("width");
+  let height = px("height");
+  if (Number.isNaN(width) && Number.isNaN(height)) {
+    width = vbW;
+    height = vbH;
+  } else if (Number.isNaN(width)) {
+    width = vbW && vbH ? (height * vbW) / vbH : height;
+  } else if (Number.isNaN(height)) {
+    height = vbW && vbH ? (width * vbH) / vbW : width;
+  }
+  // Browser default for replaced elements without any size
+  if (!width || !height) return { width: 300, height: 150 };
+  return { width, height };
+};
+
+// Render the SVG to PNG at `scale` times its intrinsic size.
+export const rasterizeSvg = async (
+  svg: string,
+  scale: number
+): Promise<Blob> => {
+  const { width, height } = svgIntrinsicSize(svg);
+  const w = Math.max(1, Math.round(width * scale));
+  const h = Math.max(1, Math.round(height * scale));
+
+  // Explicit width/height so every browser rasterizes at the right size
+  const doc = new DOMParser().parseFromString(svg, "image/svg+xml");
+  doc.documentElement.setAttribute("width", String(w));
+  doc.documentElement.setAttribute("height", String(h));
+  if (!doc.documentElement.hasAttribute("viewBox")) {
+    doc.documentElement.setAttribute("viewBox", `0 0 ${width} ${height}`);
+  }
+  const url = URL.createObjectURL(
+    new Blob([new XMLSerializer().serializeToString(doc)], {
+      type: "image/svg+xml",
+    })
+  );
+  try {
+    const img = await new Promise<HTMLImageElement>((resolve, reject) => {
+      const el = new Image();
+      el.onload = () => resolve(el);
+      el.onerror = () => reject(new Error("Failed to render SVG"));
+      el.src = url;
+    });
+    const canvas = document.createElement("canvas");
+    canvas.width = w;
+    canvas.height = h;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Canvas not supported");
+    ctx.drawImage(img, 0, 0, w, h);
+    return await new Promise<Blob>((resolve, reject) =>
+      canvas.toBlob(
+        (b) => (b ? resolve(b) : reject(new Error("PNG export failed"))),
+        "image/png"
+      )
+    );
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
@@ -0,0 +1,378 @@
+// Minimal baseline TIFF writer for PDF → Images: one IFD per page, either
+// RGB with LZW (+ horizontal predictor) or bilevel with CCITT Group 4 for
+// black-and-white scans. Browsers cannot encode TIFF, so this is done here.
+
+export type TiffCompression = "lzw" | "g4";
+
+export type TiffPage = {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray; // RGBA, as returned by getImageData
+  dpi: number;
+};
+
+// ---------- LZW ----------
+
+// TIFF LZW: MSB-first codes of 9-12 bits, Clear = 256, EOI = 257. Widths
+// follow libtiff's encoder, which readers decode with "early change".
+const lzwEncode = (input: Uint8Array): Uint8Array => {
+  const out: number[] = [];
+  let bitBuf = 0;
+  let bitLen = 0;
+  let codeLen = 9;
+  const write = (code: number) => {
+    bitBuf = (bitBuf << codeLen) | code;
+    bitLen += codeLen;
+    while (bitLen >= 8) {
+      bitLen -= 8;
+      out.push((bitBuf >>> bitLen) & 0xff);
+    }
+    bitBuf &= (1 << bitLen) - 1;
+  };
+
+  let dict = new Map<number, number>(); // (prefix << 8 | byte) → code
+  let next = 258;
+  write(256);
+  if (input.length === 0) {
+    write(257);
+  } else {
+    let prefix = input[0];
+    for (let i = 1; i < input.length; i++) {
+      const byte = input[i];
+      const key = (prefix << 8) | byte;
+      const hit = dict.get(key);
+      if (hit !== undefined) {
+        prefix = hit;
+        continue;
+      }
+      write(prefix);
+      dict.set(key, next++);
+      if (next === 4094) {
+        write(256);
+        dict = new Map();
+        next = 258;
+        codeLen = 9;
+      } else if (next > (1 << codeLen) - 1) {
+        codeLen++;
+      }
+      prefix = byte;
+    }
+    write(prefix);
+    // The reader adds one more entry before it sees EOI
+    next++;
+    if (next === 4094) {
+      write(256);
+      codeLen = 9;
+    } else if (next > (1 << codeLen) - 1) {
+      codeLen++;
+    }
+    write(257);
+  }
+  if (bitLen > 0) out.push((bitBuf << (8 - bitLen)) & 0xff);
+  return Uint8Array.from(out);
+};
+
+// RGB rows with horizontal differencing (Predictor 2), flattened on white
+const rgbRows = (page: TiffPage, y0: number, rows: number) => {
+  const { width, data } = page;
+  const out = new Uint8Array(width * rows * 3);
+  for (let y = 0; y < rows; y++) {
+    let pr = 0;
+    let pg = 0;
+    let pb = 0;
+    for (let x = 0; x < width; x++) {
+      const s = ((y0 + y) * width + x) * 4;
+      const a = data[s + 3] / 255;
+      const r = Math.round(data[s] * a + 255 * (1 - a));
+      const g = Math.round(data[s + 1] * a + 255 * (1 - a));
+      const b = Math.round(data[s + 2] * a + 255 * (1 - a));
+      const d = (y * width + x) * 3;
+      out[d] = (r - pr) & 0xff;
+      out[d + 1] = (g - pg) & 0xff;
+      out[d + 2] = (b - pb) & 0xff;
+      pr = r;
+      pg = g;
+      pb = b;
+    }
+  }
+  return out;
+};
+
+// ---------- CCITT Group 4 ----------
+
+// Run-length codes from ITU-T T.4, as bit strings
+const WHITE_TERM =
+  "00110101 000111 0111 1000 1011 1100 1110 1111 10011 10100 00111 01000 001000 000011 110100 110101 101010 101011 0100111 0001100 0001000 0010111 0000011 0000100 0101000 0101011 0010011 0100100 0011000 00000010 00000011 00011010 00011011 00010010 00010011 00010100 00010101 00010110 00010111 00101000 00101001 00101010 00101011 00101100 00101101 00000100 00000101 00001010 00001011 01010010 01010011 01010100 01010101 00100100 00100101 01011000 01011001 01011010 01011011 01001010 01001011 00110010 00110011 00110100".split(
+    " "
+  );
+const WHITE_MAKEUP =
+  "11011 10010 010111 0110111 00110110 00110111 01100100 01100101 01101000 01100111 011001100 011001101 011010010 011010011 011010100 011010101 011010110 011010111 011011000 011011001 011011010 011011011 010011000 010011001 010011010 011000 010011011".split(
+    " "
+  );
+const BLACK_TERM =
+  "0000110111 010 11 10 011 0011 0010 00011 000101 000100 0000100 0000101 0000111 00000100 00000111 000011000 0000010111 0000011000 0000001000 00001100111 00001101000 00001101100 00000110111 00000101000 00000010111 00000011000 000011001010 000011001011 000011001100 000011001101 000001101000 000001101001 000001101010 000001101011 000011010010 000011010011 000011010100 000011010101 000011010110 000011010111 000001101100 000001101101 000011011010 000011011011 000001010100 000001010101 000001010110 000001010111 000001100100 000001100101 000001010010 000001010011 000000100100 000000110111 000000111000 000000100111 000000101000 000001011000 000001011001 000000101011 000000101100 000001011010 000001100110 000001100111".split(
+    " "
+  );
+const BLACK_MAKEUP =
+  "0000001111 000011001000 000011001001 000001011011 000000110011 000000110100 000000110101 0000001101100 0000001101101 0000001001010 0000001001011 0000001001100 0000001001101 0000001110010 0000001110011 0000001110100 0000001110101 0000001110110 0000001110111 0000001010010 0000001010011 0000001010100 0000001010101 0000001011010 0000001011011 0000001100100 0000001100101".split(
+    " "
+  );
+// 1792-2560, shared by both colours
+const EXT_MAKEUP =
+  "00000001000 00000001100 00000001101 000000010010 000000010011 000000010100 000000010101 000000010110 000000010111 000000011100 000000011101 000000011110 000000011111".split(
+    " "
+  );
+
+const MODE = {
+  pass: "0001",
+  horizontal: "001",
+  vertical: ["0000010", "000010", "010", "1", "011", "000011", "0000011"], // VL3..VR3
+};
+
+class BitWriter {
+  private bytes: number[] = [];
+  private cur = 0;
+  private n = 0;
+
+  bits(code: string) {
+    for (let i = 0; i < code.length; i++) {
+      this.cur = (this.cur << 1) | (code.charCodeAt(i) === 49 ? 1 : 0);
+      if (++this.n === 8) {
+        this.bytes.push(this.cur);
+        this.cur = 0;
+        this.n = 0;
+      }
+    }
+  }
+
+  run(length: number, black: boolean) {
+    const term = black ? BLACK_TERM : WHITE_TERM;
+    const makeup = black ? BLACK_MAKEUP : WHITE_MAKEUP;
+    while (length >= 2560) {
+      this.bits(EXT_MAKEUP[12]);
+      length -= 2560;
+    }
+    if (length >= 1792) {
+      const k = Math.floor((length - 1792) / 64);
+      this.bits(EXT_MAKEUP[k]);
+      length -= 1792 + k * 64;
+    } else if (length >= 64) {
+      const k = Math.floor(length / 64);
+      this.bits(makeup[k - 1]);
+      length -= k * 64;
+    }
+    this.bits(term[length]);
+  }
+
+  finish() {
+    if (this.n > 0) this.bytes.push(this.cur << (8 - this.n));
+    return Uint8Array.from(this.bytes);
+  }
+}
+
+// Position of the next colour change after `from` on a row (1 = black).
+// Positions run -1..width, with an imaginary white pixel before the row.
+const nextChange = (row: Uint8Array, from: number, width: number) => {
+  const colour = from < 0 ? 0 : row[from];
+  let i = from + 1;
+  while (i < width && row[i] === colour) i++;
+  return i;
+};
+
+// b1: first change on the reference line right of a0 whose colour is the
+// opposite of a0's colour; b2: the change after b1
+const findB1 = (ref: Uint8Array, a0: number, colour: number, width: number) => {
+  let b1 = nextChange(ref, -1, width);
+  while (b1 < width) {
+    if (b1 > a0 && ref[b1] !== colour) break;
+    b1 = nextChange(ref, b1, width);
+  }
+  return b1;
+};
+
+const g4Encode = (bits: Uint8Array[], width: number) => {
+  const w = new BitWriter();
+  let ref = new Uint8Array(width); // imaginary all-white line
+  for (const row of bits) {
+    let a0 = -1;
+    let colour = 0;
+    while (a0 < width) {
+      const a1 = nextChange(row, a0, width);
+      const b1 = findB1(ref, a0, colour, width);
+      const b2 = b1 < width ? nextChange(ref, b1, width) : width;
+      if (b2 < a1) {
+        w.bits(MODE.pass);
+        a0 = b2;
+        continue;
+      }
+      const delta = a1 - b1;
+      if (Math.abs(delta) <= 3) {
+        w.bits(MODE.vertical[delta + 3]);
+        a0 = a1;
+        colour ^= 1;
+        continue;
+      }
+      const a2 = a1 < width ? nextChange(row, a1, width) : width;
+      w.bits(MODE.horizontal);
+      w.run(a1 - Math.max(a0, 0), colour === 1);
+      w.run(a2 - a1, colour === 0);
+      a0 = a2;
+    }
+    ref = row;
+  }
+  w.bits("000000000001000000000001"); // EOFB
+  return w.finish();
+};
+
+// 1 = black, one byte per pixel
+const bilevelRows = (page: TiffPage, threshold: number) => {
+  const { width, height, data } = page;
+  const rows: Uint8Array[] = [];
+  for (let y = 0; y < height; y++) {
+    const row = new Uint8Array(width);
+    for (let x = 0; x < width; x++) {
+      const s = (y * width + x) * 4;
+      const a = data[s + 3] / 255;
+      const lum =
+        (0.299 * data[s] + 0.587 * data[s + 1] + 0.114 * data[s + 2]) * a +
+        255 * (1 - a);
+      row[x] = lum < threshold ? 1 : 0;
+    }
+    rows.push(row);
+  }
+  return rows;
+};
+
+// ---------- container ----------
+
+type Entry = { tag: number; type: 3 | 4 | 5; values: number[] };
+
+const TYPE_SIZE = { 3: 2, 4: 4, 5: 8 } as const;
+
+type EncodedPage = {
+  width: number;
+  height: number;
+  dpi: number;
+  rowsPerStrip: number;
+  strips: Uint8Array[];
+};
+
+// Pages are compressed as they are added so only one page's pixels need to
+// be held at a time; finish() lays out the file with one IFD per page.
+export const createTiffWriter = (
+  compression: TiffCompression,
+  threshold = 128
+) => {
+  const pages: EncodedPage[] = [];
+
+  const addPage = (page: TiffPage) => {
+    const { width, height, dpi } = page;
+    if (compression === "g4") {
+      const strip = g4Encode(bilevelRows(page, threshold), width);
+      pages.push({ width, height, dpi, rowsPerStrip: height, strips: [strip] });
+      return;
+    }
+    // Strips of roughly 64 KB uncompressed keep readers' memory low
+    const rowsPerStrip = Math.max(1, Math.floor(65536 / (width * 3)));
+    const strips: Uint8Array[] = [];
+    for (let y = 0; y < height; y += rowsPerStrip) {
+      const rows = Math.min(rowsPerStrip, height - y);
+      strips.push(lzwEncode(rgbRows(page, y, rows)));
+    }
+    pages.push({ width, height, dpi, rowsPerStrip, strips });
+  };
+
+  const finish = (): Uint8Array => {
+    const chunks: Uint8Array[] = [];
+    let offset = 0;
+    const push = (bytes: Uint8Array) => {
+      const at = offset;
+      chunks.push(bytes);
+      offset += bytes.length;
+      if (bytes.length & 1) {
+        chunks.push(new Uint8Array(1)); // keep word alignment
+        offset += 1;
+      }
+      return at;
+    };
+
+    const header = new Uint8Array(8);
+    header.set([0x49, 0x49, 42, 0]); // little-endian, magic 42
+    push(header);
+
+    let nextPtr = 4; // where the offset of the next IFD goes
+    const patches: { at: number; value: number }[] = [];
+
+    pages.forEach((page, index) => {
+      const stripOffsets = page.strips.map(push);
+      const lzw = compression === "lzw";
+      const entries: Entry[] = [
+        { tag: 256, type: 4, values: [page.width] },
+        { tag: 257, type: 4, values: [page.height] },
+        { tag: 258, type: 3, values: lzw ? [8, 8, 8] : [1] },
+        { tag: 259, type: 3, values: [lzw ? 5 : 4] },
+        // RGB, or WhiteIsZero for bilevel
+        { tag: 262, type: 3, values: [lzw ? 2 : 0] },
+        { tag: 273, type: 4, values: stripOffsets },
+        { tag: 277, type: 3, values: [lzw ? 3 : 1] },
+        { tag: 278, type: 4, values: [page.rowsPerStrip] },
+        { tag: 279, type: 4, values: page.strips.map((s) => s.length) },
+        { tag: 282, type: 5, values: [Math.round(page.dpi), 1] },
+        { tag: 283, type: 5, values: [Math.round(page.dpi), 1] },
+        { tag: 284, type: 3, values: [1] },
+        { tag: 296, type: 3, values: [2] }, // inches
+        { tag: 297, type: 3, values: [index, pages.length] },
+        lzw
+          ? { tag: 317, type: 3, values: [2] } // horizontal predictor
+          : { tag: 293, type: 4, values: [0] }, // T6Options
+      ];
+      entries.sort((a, b) => a.tag - b.tag);
+
+      // Values that do not fit in the 4-byte slot go right after the IFD
+      const ifdSize = 2 + entries.length * 12 + 4;
+      const ifdAt = offset;
+      let extraAt = ifdAt + ifdSize;
+      const ifd = new Uint8Array(ifdSize);
+      const view = new DataView(ifd.buffer);
+      const extras: Uint8Array[] = [];
+      view.setUint16(0, entries.length, true);
+      entries.forEach((e, i) => {
+        const p = 2 + i * 12;
+        const count = e.type === 5 ? e.values.length / 2 : e.values.length;
+        const size = count * TYPE_SIZE[e.type];
+        const buf = new Uint8Array(size);
+        const bv = new DataView(buf.buffer);
+        e.values.forEach((v, k) => {
+          if (e.type === 3) bv.setUint16(k * 2, v, true);
+          else bv.setUint32(k * 4, v, true);
+        });
+        view.setUint16(p, e.tag, true);
+        view.setUint16(p + 2, e.type, true);
+        view.setUint32(p + 4, count, true);
+        if (size <= 4) {
+          ifd.set(buf, p + 8);
+        } else {
+          view.setUint32(p + 8, extraAt, true);
+          extras.push(buf);
+          extraAt += size + (size & 1);
+        }
+      });
+      patches.push({ at: nextPtr, value: ifdAt });
+      nextPtr = ifdAt + ifdSize - 4;
+      push(ifd);
+      extras.forEach(push);
+    });
+
+    const out = new Uint8Array(offset);
+    let pos = 0;
+    for (const c of chunks) {
+      out.set(c, pos);
+      pos += c.length;
+    }
+    const view = new DataView(out.buffer);
+    for (const p of patches) view.setUint32(p.at, p.value, true);
+    return out;
+  };
+
+  return { addPage, finish };
+};
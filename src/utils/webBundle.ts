@@ -0,0 +1,146 @@
+// Builders for the WebOptimizer "picture bundle": content-hashed filenames,
+// a ready-to-paste <picture> snippet and an images.json manifest.
+
+import type { Placeholder } from "./placeholders";
+
+export type BundleVariant = {
+  file: File; // named with its content hash, e.g. hero-480w.1a2b3c4d.webp
+  width: number;
+  height: number;
+  mime: string;
+  bytes: number;
+  hash: string; // full SHA-256 hex digest
+};
+
+export type BundleImage = {
+  source: string; // original filename
+  width: number;
+  height: number;
+  variants: BundleVariant[];
+  html: string;
+  options: BundleOptions; // what `html` was built with
+  placeholder?: Placeholder; // LQIP/BlurHash/dominant color for lazy loading
+};
+
+export type BundleOptions = {
+  basePath: string; // URL prefix for srcset entries, e.g. "/images/"
+  sizes: string; // value for the sizes attribute
+};
+
+// Browsers pick the first <source> they support, so list the smallest formats first.
+export const BUNDLE_FORMATS = ["image/avif", "image/webp", "image/jpeg"];
+
+// Transparent images fall back to PNG instead of a flattened JPEG.
+export const bundleFormatsFor = (transparent: boolean) =>
+  transparent ? ["image/avif", "image/webp", "image/png"] : BUNDLE_FORMATS;
+
+const HASH_LENGTH = 8;
+
+export const sha256Hex = async (blob: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    await blob.arrayBuffer()
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+};
+
+export const slugify = (name: string) =>
+  name
+    .replace(/\.[^.]+$/, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "") || "image";
+
+export const hashedName = (
+  slug: string,
+  width: number,
+  hash: string,
+  ext: string
+) => `${slug}-${width}w.${hash.slice(0, HASH_LENGTH)}.${ext}`;
+
+const escapeAttr = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;");
+
+const joinPath = (basePath: string, name: string) =>
+  basePath ? `${basePath.replace(/\/+$/, "")}/${name}` : name;
+
+export const buildPictureMarkup = (
+  image: Omit<BundleImage, "html" | "options">,
+  { basePath, sizes }: BundleOptions
+): string => {
+  const byMime = new Map<string, BundleVariant[]>();
+  for (const v of image.variants) {
+    const list = byMime.get(v.mime) ?? [];
+    list.push(v);
+    byMime.set(v.mime, list);
+  }
+  const srcset = (list: BundleVariant[]) =>
+    list
+      .slice()
+      .sort((a, b) => a.width - b.width)
+      .map((v) => `${joinPath(basePath, v.file.name)} ${v.width}w`)
+      .join(", ");
+
+  // Variants arrive in preference order; the last format is the <img> fallback
+  // and the rest become <source>s.
+  const mimes = Array.from(byMime.keys());
+  const fallbackMime = mimes[mimes.length - 1];
+  const fallback = byMime.get(fallbackMime) ?? [];
+  const largest = fallback.reduce<BundleVariant | null>(
+    (best, v) => (!best || v.width > best.width ? v : best),
+    null
+  );
+
+  const lines = ["<picture>"];
+  for (const mime of mimes.slice(0, -1)) {
+    lines.push(
+      `  <source type="${mime}" srcset="${escapeAttr(
+        srcset(byMime.get(mime)!)
+      )}" sizes="${escapeAttr(sizes)}">`
+    );
+  }
+  const alt = escapeAttr(image.source.replace(/\.[^.]+$/, ""));
+  lines.push(
+    `  <img src="${escapeAttr(
+      largest ? joinPath(basePath, largest.file.name) : ""
+    )}" srcset="${escapeAttr(srcset(fallback))}" sizes="${escapeAttr(
+      sizes
+    )}" width="${image.width}" height="${
+      image.height
+    }" alt="${alt}" loading="lazy" decoding="async">`
+  );
+  lines.push("</picture>");
+  return lines.join("\n");
+};
+
+// URLs follow the options each image's markup was built with, so the
+// manifest always agrees with the HTML next to it
+export const buildManifest = (images: BundleImage[]) => ({
+  generatedAt: new Date().toISOString(),
+  basePath: images[0]?.options.basePath ?? "",
+  sizes: images[0]?.options.sizes ?? "",
+  images: images.map((img) => ({
+    source: img.source,
+    width: img.width,
+    height: img.height,
+    html: img.html,
+    variants: img.variants.map((v) => ({
+      file: v.file.name,
+      url: joinPath(img.options.basePath, v.file.name),
+      width: v.width,
+      height: v.height,
+      bytes: v.bytes,
+      mime: v.mime,
+      hash: `sha256-${v.hash}`,
+    })),
+    ...(img.placeholder && {
+      placeholder: {
+        lqip: img.placeholder.lqip,
+        blurhash: img.placeholder.blurhash,
+        dominantColor: img.placeholder.dominantColor,
+      },
+    }),
+  })),
+});